@@ -1,214 +1,595 @@
-import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
-import { GoogleGenAI, Modality, LiveServerMessage } from '@google/genai';
-import { Settings, Mic, MicOff, MessageSquare, History, X, Info, Sparkles, Heart } from 'lucide-react';
+import React, { useState, useEffect, useLayoutEffect, useRef, useCallback, useMemo, useReducer } from 'react';
+import { FunctionCall, FunctionResponse } from '@google/genai';
+import { Settings, Mic, MicOff, History, Info, Sparkles, Heart, Keyboard, ChartLine, Volume2, VolumeX, LockKeyhole, Brain, Wind, WifiOff } from 'lucide-react';
 import Visualizer from './components/Visualizer';
-import { PersonaConfig, Message, SessionState } from './types';
-import { decodeBase64, decodeAudioData, createPcmBlob } from './utils/audio';
-
-const DEFAULT_PERSONA: PersonaConfig = {
-  name: "Ego",
-  instruction: "You are EgoMirror, a gentle and empathetic companion for those who feel lonely, socially anxious, or overwhelmed. Your goal is to provide a safe, non-judgmental sanctuary. You understand that socializing can be draining. When the user speaks, mirror their feelings with deep compassion. Encourage self-kindness. Remind them that it's okay to be quiet, to be an introvert, and to take up space in their own inner world. Do not judge. Use soft, supportive language. Keep responses concise so the conversation feels like a natural flow of thought. If they are silent, don't rush them.",
-  voiceName: 'Kore'
-};
-
-const STARTER_PROMPTS = [
-  "I'm feeling a bit drained today...",
-  "It's hard for me to connect with others.",
-  "I just need someone to listen.",
-  "Is it okay to be quiet?",
-  "I feel lonely around people."
-];
-
-const App: React.FC = () => {
-  const [sessionState, setSessionState] = useState<SessionState>('disconnected');
+import HistoryModal from './components/HistoryModal';
+import Composer from './components/Composer';
+import MessageBubble from './components/MessageBubble';
+import SettingsPanel from './components/SettingsPanel';
+import SafetyPanel from './components/SafetyPanel';
+import CheckInModal from './components/CheckInModal';
+import InsightsModal from './components/InsightsModal';
+import MemoryModal from './components/MemoryModal';
+import PlaybackControls from './components/PlaybackControls';
+import ExerciseModal from './components/ExerciseModal';
+import ExercisePlayer from './components/ExercisePlayer';
+import ToolPrompt, { ToolDecision } from './components/ToolPrompt';
+import Captions from './components/Captions';
+import { Message, SessionRecord, AppPreferences, PersonaLibrary, MoodCheckIn, SessionMemory, ToolName, DailyReminder } from './types';
+import { InputChannel, SessionEnd, useLiveSession } from './hooks/useLiveSession';
+import { describeKeyCode } from './utils/inputGate';
+import { resolveVisualizerTheme } from './utils/visualizer';
+import {
+  buildExerciseInstruction, describeExerciseClosing, describeExerciseCue, describeExerciseOpening, EXERCISE_LEAD_IN_MS,
+  exerciseProgressAt, exerciseSteps, logExercise,
+} from './utils/exercises';
+import { buildSystemInstruction, loadMemories, rememberSession, saveMemories, selectMemories } from './utils/memory';
+import { captionReducer } from './utils/captions';
+import { invokeTool, LocalTool, toolDeclarations, ToolHost } from './utils/tools';
+import {
+  notifyDailyReminder, notifyReminder, requestReminderPermission, scheduleReminder, takeDueDailyReminders, takeDueReminders,
+} from './utils/reminders';
+import { onReminderOpened, takeOpenedReminder } from './utils/pwa';
+import { getVaultStatus, noteVaultActivity, onVaultChange, VaultStatus } from './utils/vault';
+import { saveSession, saveRecording, updateSession } from './utils/journal';
+import { loadPreferences, savePreferences } from './utils/preferences';
+import { loadPersonaLibrary, savePersonaLibrary, getActivePersona, starterPromptsFor } from './utils/personas';
+import { buildLanguageInstruction, describeLanguage, getLanguage, setLanguage } from './utils/i18n';
+import { useStrings } from './hooks/useStrings';
+import { useOnline } from './hooks/useOnline';
+import { createRuleChecker, logSafetyEvent, resolveSupportRegion, SafetyEvent, SAFETY_ADDENDUM } from './utils/safety';
+import { DEFAULT_SAFETY_RULES } from './data/safetyRules';
+import { Exercise } from './data/exercises';
+
+// How many recent messages to replay when a reconnect could not resume server-side context.
+const RECONNECT_HISTORY_LIMIT = 20;
+
+// How long a note about a microphone switch stays up.
+const DEVICE_NOTICE_MS = 5000;
+
+interface ExerciseRun {
+  id: string;
+  exercise: Exercise;
+  /** Whether the mirror speaks the cues. Falls back to on-screen only if the session fails. */
+  withVoice: boolean;
+  /** Wall-clock start of the first phase, after the lead-in; null until the session opens. */
+  startedAt: number | null;
+  finished: boolean;
+}
+
+interface ToolRequest {
+  id: string;
+  /** The function call it belongs to, so a cancellation from the server can withdraw it. */
+  callId?: string;
+  toolName: ToolName;
+  label: string;
+  request: string;
+}
+
+// How often due check-in reminders are looked for while the app is open.
+const REMINDER_POLL_MS = 30000;
+
+interface ReminderNote {
+  text: string;
+  /** A daily reminder shown in the app for want of notifications; clicking it starts its session. */
+  reminder?: DailyReminder;
+}
+
+interface AppProps {
+  /** Locks the vault; the app is unmounted first so the running session is saved. */
+  onLock: () => void;
+}
+
+const App: React.FC<AppProps> = ({ onLock }) => {
+  const t = useStrings();
+  const online = useOnline();
   const [showSettings, setShowSettings] = useState(false);
   const [showHistory, setShowHistory] = useState(false);
+  const [showInsights, setShowInsights] = useState(false);
+  const [showMemories, setShowMemories] = useState(false);
+  const [showExercises, setShowExercises] = useState(false);
+  const [exerciseRun, setExerciseRun] = useState<ExerciseRun | null>(null);
+  const [memories, setMemories] = useState<SessionMemory[]>(loadMemories);
+  const [pendingStart, setPendingStart] = useState<{ initialText?: string; channel: InputChannel; exercise?: Exercise } | null>(null);
+  const [endedSessionId, setEndedSessionId] = useState<string | null>(null);
   const [messages, setMessages] = useState<Message[]>([]);
-  const [error, setError] = useState<string | null>(null);
-
-  const [persona, setPersona] = useState<PersonaConfig>(() => {
-    try {
-      const saved = localStorage.getItem('egomirror_persona_v2');
-      return saved ? JSON.parse(saved) : DEFAULT_PERSONA;
-    } catch {
-      return DEFAULT_PERSONA;
+  const [showComposer, setShowComposer] = useState(false);
+  const [prefs, setPrefs] = useState<AppPreferences>(loadPreferences);
+  const [safetyEvent, setSafetyEvent] = useState<SafetyEvent | null>(null);
+  const [vaultStatus, setVaultStatus] = useState<VaultStatus>(getVaultStatus);
+  const [toolRequests, setToolRequests] = useState<ToolRequest[]>([]);
+  const [reminderNote, setReminderNote] = useState<ReminderNote | null>(null);
+  const [deviceNotice, setDeviceNotice] = useState<string | null>(null);
+  const [captions, dispatchCaption] = useReducer(captionReducer, []);
+
+  const [library, setLibrary] = useState<PersonaLibrary>(loadPersonaLibrary);
+  const persona = useMemo(() => getActivePersona(library), [library]);
+  const visualizerTheme = useMemo(() => resolveVisualizerTheme(persona), [persona]);
+  const rememberedCount = useMemo(() => selectMemories(memories, persona).length, [memories, persona]);
+  const breathGuide = useMemo(() => {
+    if (!exerciseRun || exerciseRun.finished || exerciseRun.startedAt === null) return null;
+    const { exercise, startedAt } = exerciseRun;
+    const steps = exerciseSteps(exercise);
+    return () => exerciseProgressAt(exercise, Date.now() - startedAt, steps).breath;
+  }, [exerciseRun]);
+
+  // Whether the running session's persona had "Remember me" on when it started
+  const rememberSessionRef = useRef(false);
+  const sessionRecordRef = useRef<SessionRecord | null>(null);
+  // What to send once the session opens: a starter prompt and the cue that begins an exercise.
+  const openingRef = useRef<{ sessionId: string; initialText?: string; exercise?: Exercise } | null>(null);
+  const safetyRulesHitRef = useRef<Set<string>>(new Set());
+  const safetyAddendumSentRef = useRef(false);
+  // Read by tool calls inside the running session, which outlive the render that started it.
+  const toolPermissionsRef = useRef(prefs.toolPermissions);
+  const toolHostRef = useRef<ToolHost | null>(null);
+  // Calls the server withdrew in the running session; their results are no longer wanted.
+  const cancelledCallsRef = useRef(new Set<string>());
+  const exerciseRunRef = useRef<ExerciseRun | null>(null);
+  const toolRequestsRef = useRef<ToolRequest[]>([]);
+  const toolResolversRef = useRef(new Map<string, (allowed: boolean) => void>());
+  // Reminders opened from a notification arrive outside any render, so they go through the latest handler.
+  const openReminderRef = useRef<(reminderId: string) => void>(() => {});
+
+  const safetyChecker = useMemo(() => createRuleChecker(DEFAULT_SAFETY_RULES), []);
+  const supportRegion = resolveSupportRegion(describeLanguage(getLanguage()).locale, prefs.supportRegion);
+
+  const persistSession = useCallback((record: SessionRecord) => {
+    if (record.messages.length === 0) return;
+    saveSession(record).catch(err => console.error('Failed to save session', err));
+  }, []);
+
+  const appendMessages = useCallback((turn: Message[]) => {
+    // A spoken conversation is activity even when nobody touches the keyboard.
+    noteVaultActivity();
+    setMessages(prev => [...prev, ...turn]);
+    const record = sessionRecordRef.current;
+    if (record && record.id === turn[0]?.sessionId) {
+      sessionRecordRef.current = { ...record, messages: [...record.messages, ...turn] };
+      persistSession(sessionRecordRef.current);
     }
-  });
+  }, [persistSession]);
 
-  // Audio Processing Refs
-  const inputAudioCtxRef = useRef<AudioContext | null>(null);
-  const outputAudioCtxRef = useRef<AudioContext | null>(null);
-  const userAnalyserRef = useRef<AnalyserNode | null>(null);
-  const modelAnalyserRef = useRef<AnalyserNode | null>(null);
-  const sourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
-  const nextStartTimeRef = useRef<number>(0);
-  const streamRef = useRef<MediaStream | null>(null);
-  const activeSessionRef = useRef<any>(null);
-  const currentInputRef = useRef('');
-  const currentOutputRef = useRef('');
-
-  const stopSession = useCallback(() => {
-    if (activeSessionRef.current) {
-      activeSessionRef.current.close();
-      activeSessionRef.current = null;
+  const updateToolRequests = useCallback((next: ToolRequest[]) => {
+    toolRequestsRef.current = next;
+    setToolRequests(next);
+  }, []);
+
+  /**
+   * Asks the person about a tool set to "ask". Requests queue up and are shown one at a time.
+   */
+  const confirmTool = useCallback((callId: string | undefined, tool: LocalTool, request: string) => new Promise<boolean>(resolve => {
+    const id = crypto.randomUUID();
+    toolResolversRef.current.set(id, resolve);
+    updateToolRequests([...toolRequestsRef.current, { id, callId, toolName: tool.name, label: tool.label, request }]);
+  }), [updateToolRequests]);
+
+  const settleToolRequests = useCallback((ids: string[], allowed: boolean) => {
+    if (!ids.length) return;
+    updateToolRequests(toolRequestsRef.current.filter(r => !ids.includes(r.id)));
+    for (const id of ids) {
+      toolResolversRef.current.get(id)?.(allowed);
+      toolResolversRef.current.delete(id);
     }
-    if (streamRef.current) {
-      streamRef.current.getTracks().forEach(track => track.stop());
-      streamRef.current = null;
+  }, [updateToolRequests]);
+
+  /**
+   * Saves what the session left behind: the last words, the recording and a memory.
+   */
+  const handleSessionEnd = ({ sessionId, unfinished, recorder }: SessionEnd) => {
+    const record = sessionRecordRef.current;
+    if (record?.id === sessionId) {
+      if (unfinished.length) setMessages(prev => [...prev, ...unfinished]);
+      const finished: SessionRecord = { ...record, messages: [...record.messages, ...unfinished], endedAt: Date.now() };
+      if (recorder && !recorder.isEmpty() && finished.messages.length > 0) {
+        const { blob, durationMs } = recorder.finish();
+        finished.hasRecording = true;
+        saveRecording({ sessionId, startedAt: recorder.startedAt, durationMs, blob })
+          .catch(err => console.error('Failed to save recording', err));
+      }
+      persistSession(finished);
+      if (rememberSessionRef.current) {
+        rememberSession(finished)
+          .then(memory => { if (memory) setMemories(loadMemories()); })
+          .catch(err => console.error('Failed to remember session', err));
+      }
+      if (finished.messages.length > 0) setEndedSessionId(sessionId);
+      sessionRecordRef.current = null;
     }
-    sourcesRef.current.forEach(source => {
-      try { source.stop(); } catch {}
-    });
-    sourcesRef.current.clear();
-    nextStartTimeRef.current = 0;
-    setSessionState('disconnected');
-  }, []);
+    toolHostRef.current = null;
+    settleToolRequests(toolRequestsRef.current.map(r => r.id), false);
+    dispatchCaption({ type: 'clear' });
+  };
 
-  const startSession = async (initialText?: string) => {
-    try {
-      setSessionState('connecting');
-      setError(null);
-
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
-
-      // Initialize contexts
-      if (!inputAudioCtxRef.current) inputAudioCtxRef.current = new AudioContext({ sampleRate: 16000 });
-      if (!outputAudioCtxRef.current) outputAudioCtxRef.current = new AudioContext({ sampleRate: 24000 });
-      
-      await inputAudioCtxRef.current.resume();
-      await outputAudioCtxRef.current.resume();
-
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      streamRef.current = stream;
-
-      const userAnalyser = inputAudioCtxRef.current.createAnalyser();
-      userAnalyser.fftSize = 256;
-      userAnalyserRef.current = userAnalyser;
-
-      const modelAnalyser = outputAudioCtxRef.current.createAnalyser();
-      modelAnalyser.fftSize = 256;
-      modelAnalyserRef.current = modelAnalyser;
-
-      const outputGain = outputAudioCtxRef.current.createGain();
-      outputGain.connect(modelAnalyser);
-      outputGain.connect(outputAudioCtxRef.current.destination);
-
-      const sessionPromise = ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-12-2025',
-        config: {
-          responseModalities: [Modality.AUDIO],
-          speechConfig: {
-            voiceConfig: { prebuiltVoiceConfig: { voiceName: persona.voiceName } },
-          },
-          systemInstruction: persona.instruction,
-          outputAudioTranscription: {},
-          inputAudioTranscription: {},
-        },
-        callbacks: {
-          onopen: () => {
-            setSessionState('connected');
-            const source = inputAudioCtxRef.current!.createMediaStreamSource(stream);
-            source.connect(userAnalyser);
-
-            const processor = inputAudioCtxRef.current!.createScriptProcessor(4096, 1, 1);
-            processor.onaudioprocess = (e) => {
-              const inputData = e.inputBuffer.getChannelData(0);
-              const pcmBlob = createPcmBlob(inputData);
-              sessionPromise.then(session => {
-                if (session && activeSessionRef.current) session.sendRealtimeInput({ media: pcmBlob });
-              });
-            };
-            source.connect(processor);
-            processor.connect(inputAudioCtxRef.current!.destination);
-
-            if (initialText) {
-              sessionPromise.then(s => s.sendRealtimeInput({ text: initialText }));
-            }
-          },
-          onmessage: async (message: LiveServerMessage) => {
-            // Handle transcriptions
-            if (message.serverContent?.outputTranscription) {
-              currentOutputRef.current += message.serverContent.outputTranscription.text;
-            } else if (message.serverContent?.inputTranscription) {
-              currentInputRef.current += message.serverContent.inputTranscription.text;
-            }
-
-            if (message.serverContent?.turnComplete) {
-              const uText = currentInputRef.current.trim();
-              const mText = currentOutputRef.current.trim();
-              if (uText || mText) {
-                setMessages(prev => [
-                  ...prev,
-                  ...(uText ? [{ id: crypto.randomUUID(), role: 'user' as const, text: uText, timestamp: Date.now() }] : []),
-                  ...(mText ? [{ id: crypto.randomUUID(), role: 'model' as const, text: mText, timestamp: Date.now() }] : [])
-                ]);
-              }
-              currentInputRef.current = '';
-              currentOutputRef.current = '';
-            }
-
-            // Handle audio
-            const base64Audio = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
-            if (base64Audio && outputAudioCtxRef.current) {
-              const ctx = outputAudioCtxRef.current;
-              nextStartTimeRef.current = Math.max(nextStartTimeRef.current, ctx.currentTime);
-              const buffer = await decodeAudioData(decodeBase64(base64Audio), ctx, 24000, 1);
-              const source = ctx.createBufferSource();
-              source.buffer = buffer;
-              source.connect(outputGain);
-              source.onended = () => sourcesRef.current.delete(source);
-              source.start(nextStartTimeRef.current);
-              nextStartTimeRef.current += buffer.duration;
-              sourcesRef.current.add(source);
-            }
-
-            if (message.serverContent?.interrupted) {
-              sourcesRef.current.forEach(s => { try { s.stop(); } catch {} });
-              sourcesRef.current.clear();
-              nextStartTimeRef.current = 0;
-            }
-          },
-          onerror: (e) => {
-            console.error(e);
-            setError("The mirror lost its focus. Let's try again.");
-            stopSession();
-          },
-          onclose: () => stopSession()
-        }
+  const handleSessionOpen = ({ sessionId, reconnect, resumed }: { sessionId: string; reconnect: boolean; resumed: boolean }) => {
+    if (!reconnect) {
+      const opening = openingRef.current;
+      openingRef.current = null;
+      if (opening?.sessionId !== sessionId) return;
+      if (opening.initialText) sendTypedTurn(opening.initialText);
+      const { exercise } = opening;
+      if (exercise) {
+        live.sendClientContent({ turns: [{ role: 'user', parts: [{ text: describeExerciseOpening(exercise) }] }], turnComplete: true });
+        setExerciseRun(run => run?.exercise === exercise && run.startedAt === null ? { ...run, startedAt: Date.now() + EXERCISE_LEAD_IN_MS } : run);
+      }
+      return;
+    }
+    // Without a resumption handle the server starts from scratch, so remind it of the conversation so far.
+    if (!resumed) {
+      const history = sessionRecordRef.current?.messages.slice(-RECONNECT_HISTORY_LIMIT) ?? [];
+      const turns = [
+        ...(safetyAddendumSentRef.current ? [{ role: 'user', parts: [{ text: `(Guidance for the rest of this session, not spoken by the user) ${SAFETY_ADDENDUM}` }] }] : []),
+        ...history.filter(m => !m.tool).map(m => ({ role: m.role, parts: [{ text: m.text }] })),
+      ];
+      if (turns.length) live.sendClientContent({ turns, turnComplete: false });
+    }
+  };
+
+  const handleToolCalls = async (calls: FunctionCall[], sessionId: string) => {
+    const host = toolHostRef.current;
+    if (!host) return;
+    const cancelledCalls = cancelledCallsRef.current;
+    const functionResponses: FunctionResponse[] = [];
+    for (const call of calls) {
+      const result = await invokeTool(call, {
+        permissions: toolPermissionsRef.current,
+        host,
+        confirm: (tool, request) => confirmTool(call.id, tool, request),
       });
+      if (call.id && cancelledCalls.has(call.id)) continue;
+      functionResponses.push(result.response);
+      if (result.use) {
+        appendMessages([{ id: crypto.randomUUID(), sessionId, role: 'model', text: result.summary, timestamp: Date.now(), tool: result.use }]);
+      }
+    }
+    if (functionResponses.length && sessionRecordRef.current?.id === sessionId) {
+      live.sendToolResponse({ functionResponses });
+    }
+  };
 
-      sessionPromise.then(s => { activeSessionRef.current = s; });
+  const live = useLiveSession(prefs, {
+    onOpen: (info) => handleSessionOpen(info),
+    onTranscript: (event, sessionId) => {
+      // Transcript events double as caption events.
+      dispatchCaption(event);
+      if (event.type === 'partial' && event.speaker === 'user') screenForSafety(event.turnText, sessionId, 'voice');
+      if (event.type === 'turn-complete' && event.messages.length) appendMessages(event.messages);
+    },
+    onToolCall: (calls, sessionId) => handleToolCalls(calls, sessionId),
+    onToolCallCancellation: (ids) => {
+      ids.forEach(id => cancelledCallsRef.current.add(id));
+      settleToolRequests(toolRequestsRef.current.filter(r => r.callId && ids.includes(r.callId)).map(r => r.id), false);
+    },
+    onDeviceSwitch: (label) => setDeviceNotice(t.app.deviceSwitched(label)),
+    onEnd: (end) => handleSessionEnd(end),
+  });
+  const { state: sessionState, error, channel: inputChannel, muted, talking, userSpeaking, modelSpeaking, playbackPaused } = live;
+
+  /**
+   * Screens user text for distress. Each rule fires once per session: it logs the
+   * event, opens the resources panel and, if enabled, steers the model for the rest of the session.
+   */
+  const screenForSafety = useCallback((text: string, sessionId: string, source: SafetyEvent['source']) => {
+    const match = safetyChecker.check(text, describeLanguage(getLanguage()).locale);
+    if (!match || safetyRulesHitRef.current.has(match.ruleId)) return;
+    safetyRulesHitRef.current.add(match.ruleId);
+
+    const event: SafetyEvent = { ...match, id: crypto.randomUUID(), sessionId, source, timestamp: Date.now() };
+    logSafetyEvent(event);
+    setSafetyEvent(event);
+
+    if (prefs.safetyAddendum && !safetyAddendumSentRef.current) {
+      safetyAddendumSentRef.current = true;
+      live.sendClientContent({
+        turns: [{ role: 'user', parts: [{ text: `(Guidance for the rest of this session, not spoken by the user) ${SAFETY_ADDENDUM}` }] }],
+        turnComplete: false,
+      });
+    }
+  }, [safetyChecker, prefs.safetyAddendum, live.sendClientContent]);
+
+  /**
+   * Sends a typed turn and records it in the transcript like a transcribed one.
+   */
+  const sendTypedTurn = useCallback((text: string) => {
+    const message = live.sendText(text);
+    if (!message) return;
+    appendMessages([message]);
+    screenForSafety(text, message.sessionId, 'text');
+  }, [live.sendText, appendMessages, screenForSafety]);
+
+  const startSession = async (initialText?: string, channel: InputChannel = 'voice', checkInBefore?: MoodCheckIn, exercise?: Exercise) => {
+    if (!live.canStart()) return;
+    const sessionId = crypto.randomUUID();
+    sessionRecordRef.current = {
+      id: sessionId,
+      startedAt: Date.now(),
+      personaId: persona.id,
+      personaName: persona.name,
+      messages: [],
+      starterPrompt: initialText,
+      exerciseId: exercise?.id,
+      checkInBefore,
+    };
+    openingRef.current = { sessionId, initialText, exercise };
+    setEndedSessionId(null);
+    setMessages([]);
+    dispatchCaption({ type: 'clear' });
+    setSafetyEvent(null);
+    setShowComposer(channel === 'text');
+    safetyRulesHitRef.current = new Set();
+    safetyAddendumSentRef.current = false;
+    rememberSessionRef.current = persona.rememberMe;
+    cancelledCallsRef.current = new Set();
+    toolHostRef.current = {
+      logMood: (checkIn) => {
+        const record = sessionRecordRef.current;
+        if (record?.id !== sessionId) return;
+        sessionRecordRef.current = record.checkInBefore ? { ...record, checkInAfter: checkIn } : { ...record, checkInBefore: checkIn };
+        persistSession(sessionRecordRef.current);
+      },
+      startExercise: (exercise) => {
+        if (exerciseRunRef.current && !exerciseRunRef.current.finished) return false;
+        const run: ExerciseRun = { id: crypto.randomUUID(), exercise, withVoice: true, startedAt: Date.now() + EXERCISE_LEAD_IN_MS, finished: false };
+        exerciseRunRef.current = run;
+        setExerciseRun(run);
+        return true;
+      },
+      memories: () => persona.rememberMe ? memories.filter(m => m.included && m.personaId === persona.id) : [],
+      scheduleReminder: (minutes, note) => {
+        requestReminderPermission();
+        return scheduleReminder(minutes, note);
+      },
+    };
+
+    const language = describeLanguage(getLanguage());
+    const instruction = buildLanguageInstruction(buildSystemInstruction(persona, selectMemories(memories, persona)), language.code);
+    const used = await live.start({
+      sessionId,
+      channel,
+      voiceName: persona.voiceName,
+      systemInstruction: exercise ? buildExerciseInstruction(instruction, exercise) : instruction,
+      functionDeclarations: toolDeclarations(prefs.toolPermissions),
+      language,
+    });
+    if (used) setShowComposer(used === 'text');
+  };
 
-    } catch (err: any) {
-      setError(err.message || "Could not reach the sanctuary.");
-      setSessionState('disconnected');
+  /**
+   * Starts a session, offering the mood check-in first when enabled.
+   */
+  const requestSession = (initialText?: string, channel: InputChannel = 'voice', exercise?: Exercise) => {
+    if (prefs.moodCheckIns) {
+      setPendingStart({ initialText, channel, exercise });
+    } else {
+      startSession(initialText, channel, undefined, exercise);
     }
   };
 
-  const handleSaveSettings = () => {
-    localStorage.setItem('egomirror_persona_v2', JSON.stringify(persona));
+  const handleCheckInBefore = (checkIn?: MoodCheckIn) => {
+    if (!pendingStart) return;
+    setPendingStart(null);
+    startSession(pendingStart.initialText, pendingStart.channel, checkIn, pendingStart.exercise);
+  };
+
+  const startExercise = (exercise: Exercise, withVoice: boolean) => {
+    setShowExercises(false);
+    setExerciseRun({
+      id: crypto.randomUUID(),
+      exercise,
+      withVoice,
+      startedAt: withVoice ? null : Date.now() + EXERCISE_LEAD_IN_MS,
+      finished: false,
+    });
+    if (withVoice) requestSession(undefined, 'voice', exercise);
+  };
+
+  const sendExerciseText = (text: string) => {
+    live.sendClientContent({ turns: [{ role: 'user', parts: [{ text }] }], turnComplete: true });
+  };
+
+  const logExerciseRun = (run: ExerciseRun, completed: boolean) => {
+    logExercise({
+      id: run.id,
+      exerciseId: run.exercise.id,
+      startedAt: run.startedAt ?? Date.now(),
+      endedAt: Date.now(),
+      completed,
+      withVoice: run.withVoice,
+    });
+  };
+
+  const completeExercise = () => {
+    if (!exerciseRun || exerciseRun.finished) return;
+    logExerciseRun(exerciseRun, true);
+    if (exerciseRun.withVoice) sendExerciseText(describeExerciseClosing(exerciseRun.exercise));
+    setExerciseRun({ ...exerciseRun, finished: true });
+  };
+
+  /**
+   * Ends the session along with any exercise it was running.
+   */
+  const endSession = () => {
+    if (exerciseRun && !exerciseRun.finished) logExerciseRun(exerciseRun, false);
+    setExerciseRun(null);
+    live.stop();
+  };
+
+  const stopExercise = () => {
+    if (exerciseRun?.withVoice) {
+      endSession();
+      return;
+    }
+    if (exerciseRun && !exerciseRun.finished) logExerciseRun(exerciseRun, false);
+    setExerciseRun(null);
+  };
+
+  const handleCheckInAfter = (checkIn?: MoodCheckIn) => {
+    if (endedSessionId && checkIn) {
+      updateSession(endedSessionId, { checkInAfter: checkIn }).catch(err => console.error('Failed to save check-in', err));
+    }
+    setEndedSessionId(null);
+  };
+
+  const handleSaveSettings = (nextLibrary: PersonaLibrary, nextPrefs: AppPreferences) => {
+    setLibrary(nextLibrary);
+    savePersonaLibrary(nextLibrary);
+    setPrefs(nextPrefs);
+    savePreferences(nextPrefs);
     setShowSettings(false);
   };
 
-  useEffect(() => stopSession, [stopSession]);
+  const selectPersona = (activeId: string) => {
+    const nextLibrary = { ...library, activeId };
+    setLibrary(nextLibrary);
+    savePersonaLibrary(nextLibrary);
+  };
+
+  const updatePlayback = useCallback((changes: Partial<Pick<AppPreferences, 'playbackVolume' | 'playbackRate'>>) => {
+    if (changes.playbackVolume !== undefined) live.setVolume(changes.playbackVolume);
+    if (changes.playbackRate !== undefined) live.setPlaybackRate(changes.playbackRate);
+    setPrefs(prev => {
+      const next = { ...prev, ...changes };
+      savePreferences(next);
+      return next;
+    });
+  }, [live.setVolume, live.setPlaybackRate]);
+
+  const decideToolRequest = (request: ToolRequest, decision: ToolDecision) => {
+    if (decision === 'always') {
+      setPrefs(prev => {
+        const next = { ...prev, toolPermissions: { ...prev.toolPermissions, [request.toolName]: 'always' as const } };
+        savePreferences(next);
+        return next;
+      });
+    }
+    settleToolRequests([request.id], decision !== 'decline');
+  };
+
+  const { toggleMute, togglePlaybackPause, setTalking: setPushToTalk } = live;
+
+  const pushToTalkActive = (sessionState === 'connected' || sessionState === 'reconnecting') && inputChannel === 'voice' && prefs.inputMode === 'push-to-talk';
+
+  useEffect(() => {
+    if (!pushToTalkActive) return;
+    const isTyping = (target: EventTarget | null) =>
+      target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== prefs.pushToTalkKey || e.repeat || isTyping(e.target)) return;
+      e.preventDefault();
+      setPushToTalk(true);
+    };
+    const onKeyUp = (e: KeyboardEvent) => {
+      if (e.code === prefs.pushToTalkKey) setPushToTalk(false);
+    };
+    // Releasing the key in another window never reaches us.
+    const onBlur = () => setPushToTalk(false);
+    window.addEventListener('keydown', onKeyDown);
+    window.addEventListener('keyup', onKeyUp);
+    window.addEventListener('blur', onBlur);
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+      window.removeEventListener('keyup', onKeyUp);
+      window.removeEventListener('blur', onBlur);
+    };
+  }, [pushToTalkActive, prefs.pushToTalkKey, setPushToTalk]);
+
+  useEffect(() => onVaultChange(setVaultStatus), []);
+
+  // Before paint, so a saved language never flashes the browser's first.
+  useLayoutEffect(() => setLanguage(prefs.language), [prefs.language]);
+
+  useEffect(() => {
+    toolPermissionsRef.current = prefs.toolPermissions;
+  }, [prefs.toolPermissions]);
+
+  useEffect(() => {
+    exerciseRunRef.current = exerciseRun;
+  }, [exerciseRun]);
+
+  useEffect(() => {
+    if (!deviceNotice) return;
+    const timer = setTimeout(() => setDeviceNotice(null), DEVICE_NOTICE_MS);
+    return () => clearTimeout(timer);
+  }, [deviceNotice]);
+
+  // Reminders the mirror scheduled and daily ones from Settings. Without notification permission they appear in the app instead.
+  useEffect(() => {
+    const check = () => {
+      for (const reminder of takeDueReminders()) {
+        notifyReminder(reminder).then(shown => { if (!shown) setReminderNote({ text: reminder.note }); });
+      }
+      for (const reminder of takeDueDailyReminders(prefs.dailyReminders)) {
+        notifyDailyReminder(reminder).then(shown => { if (!shown) setReminderNote({ text: reminder.label, reminder }); });
+      }
+    };
+    check();
+    const timer = setInterval(check, REMINDER_POLL_MS);
+    return () => clearInterval(timer);
+  }, [prefs.dailyReminders]);
+
+  useEffect(() => {
+    openReminderRef.current = (reminderId) => {
+      const reminder = prefs.dailyReminders.find(r => r.id === reminderId);
+      setReminderNote(null);
+      if (!reminder || !idle || exerciseRun) return;
+      if (!online) {
+        setReminderNote({ text: reminder.label });
+        return;
+      }
+      requestSession(reminder.starterPrompt.trim() || undefined);
+    };
+  });
+
+  useEffect(() => {
+    const opened = takeOpenedReminder();
+    if (opened) openReminderRef.current(opened);
+    return onReminderOpened(id => openReminderRef.current(id));
+  }, []);
+
+  // Losing the mirror mid-exercise shouldn't cost the person their breath: carry on with on-screen cues.
+  useEffect(() => {
+    if (sessionState !== 'error') return;
+    setExerciseRun(run => run?.withVoice && !run.finished
+      ? { ...run, withVoice: false, startedAt: run.startedAt ?? Date.now() + EXERCISE_LEAD_IN_MS }
+      : run);
+  }, [sessionState]);
+
+  const inSession = sessionState === 'connected' || sessionState === 'reconnecting';
+  const idle = sessionState === 'disconnected' || sessionState === 'error';
+  // The journal, insights and personas still work; only the mirror itself needs the network.
+  const offline = idle && !online;
 
   return (
     <div className="flex flex-col h-screen w-full relative z-10 selection:bg-indigo-500/30">
       <header className="flex items-center justify-between p-6 sm:px-10">
         <div className="flex items-center space-x-3 group">
-          <div className="w-10 h-10 rounded-2xl bg-gradient-to-br from-indigo-500 to-indigo-700 flex items-center justify-center shadow-lg shadow-indigo-900/30 group-hover:scale-105 transition-transform">
+          <div
+            className="w-10 h-10 rounded-2xl flex items-center justify-center shadow-lg shadow-indigo-900/30 group-hover:scale-105 transition-transform"
+            style={{ background: `linear-gradient(135deg, ${persona.avatarColor}, ${persona.avatarColor}99)` }}
+          >
             <Sparkles size={20} className="text-white" />
           </div>
           <div>
             <h1 className="text-xl font-semibold tracking-tight text-slate-100">EgoMirror</h1>
-            <p className="text-[10px] text-indigo-400 uppercase tracking-[0.2em] font-medium">Inner Sanctuary</p>
+            <p className="text-[10px] text-indigo-400 uppercase tracking-[0.2em] font-medium">{t.app.tagline} • {persona.name}</p>
           </div>
         </div>
         <div className="flex items-center space-x-2">
-          <button onClick={() => setShowHistory(true)} className="p-3 hover:bg-white/5 rounded-full transition-all text-slate-400 hover:text-white border border-transparent hover:border-white/10" aria-label="History">
+          <button onClick={() => setShowHistory(true)} className="p-3 hover:bg-white/5 rounded-full transition-all text-slate-400 hover:text-white border border-transparent hover:border-white/10" aria-label={t.app.history}>
             <History size={20} />
           </button>
-          <button onClick={() => setShowSettings(true)} className="p-3 hover:bg-white/5 rounded-full transition-all text-slate-400 hover:text-white border border-transparent hover:border-white/10" aria-label="Settings">
+          <button onClick={() => setShowMemories(true)} className="p-3 hover:bg-white/5 rounded-full transition-all text-slate-400 hover:text-white border border-transparent hover:border-white/10" aria-label={t.app.memories}>
+            <Brain size={20} />
+          </button>
+          <button onClick={() => setShowInsights(true)} className="p-3 hover:bg-white/5 rounded-full transition-all text-slate-400 hover:text-white border border-transparent hover:border-white/10" aria-label={t.app.insights}>
+            <ChartLine size={20} />
+          </button>
+          {vaultStatus === 'unlocked' && (
+            <button onClick={onLock} className="p-3 hover:bg-white/5 rounded-full transition-all text-slate-400 hover:text-white border border-transparent hover:border-white/10" aria-label={t.app.lock} title={t.app.lockNow}>
+              <LockKeyhole size={20} />
+            </button>
+          )}
+          <button onClick={() => setShowSettings(true)} className="p-3 hover:bg-white/5 rounded-full transition-all text-slate-400 hover:text-white border border-transparent hover:border-white/10" aria-label={t.app.settings}>
             <Settings size={20} />
           </button>
         </div>
@@ -217,33 +598,107 @@ const App: React.FC = () => {
       <main className="flex-1 flex flex-col items-center justify-center px-6 relative">
         <div className="flex flex-col items-center space-y-6 sm:space-y-10 mb-12 animate-slide-up">
           <Visualizer 
-            analyser={sessionState === 'connected' ? modelAnalyserRef.current : userAnalyserRef.current} 
-            isActive={sessionState === 'connected'} 
-            isModel={sessionState === 'connected'} 
+            userAnalyser={inSession ? live.userAnalyser : null}
+            modelAnalyser={inSession ? live.modelAnalyser : null}
+            isActive={sessionState === 'connected'}
+            mode={breathGuide ? 'orb' : prefs.visualizerMode}
+            theme={visualizerTheme}
+            breathGuide={breathGuide}
           />
           
           <div className="text-center space-y-4 max-w-lg mx-auto">
-            <h2 className="text-3xl sm:text-4xl font-light text-slate-100 italic leading-snug">
-              {sessionState === 'disconnected' ? "Welcome back, kindred soul." : 
-               sessionState === 'connecting' ? "Awakening your mirror..." : 
-               "Go ahead. Speak your heart."}
-            </h2>
-            <p className="text-slate-500 text-sm sm:text-base leading-relaxed px-4 opacity-80">
-              {sessionState === 'connected' 
-                ? "This is your space. No one else is listening." 
-                : "A companion that understands the beauty of being quiet."}
-            </p>
+            {exerciseRun ? (
+              <ExercisePlayer
+                exercise={exerciseRun.exercise}
+                startedAt={exerciseRun.startedAt}
+                finished={exerciseRun.finished}
+                onStep={(step) => { if (exerciseRun.withVoice) sendExerciseText(describeExerciseCue(exerciseRun.exercise, step)); }}
+                onComplete={completeExercise}
+                onStop={stopExercise}
+                onClose={() => setExerciseRun(null)}
+              />
+            ) : (
+              <>
+                <h2 className="text-3xl sm:text-4xl font-light text-slate-100 italic leading-snug">
+                  {sessionState === 'connected' ? t.app.headline[inputChannel] : t.app.headline[sessionState]}
+                </h2>
+                <p className="text-slate-500 text-sm sm:text-base leading-relaxed px-4 opacity-80">
+                  {sessionState === 'reconnecting'
+                    ? t.app.subline.reconnecting
+                    : inSession
+                    ? t.app.subline.inSession
+                    : offline
+                    ? t.app.offlineHint
+                    : t.app.subline.idle}
+                </p>
+              </>
+            )}
+            {inSession && live.recording && (
+              <p className="text-[10px] text-rose-300/60 uppercase tracking-[0.2em] font-medium">{t.app.recordingLocally}</p>
+            )}
+            {inSession && !prefs.textReplies && (
+              <div className="flex justify-center pt-2">
+                <PlaybackControls
+                  volume={prefs.playbackVolume}
+                  playbackRate={prefs.playbackRate}
+                  paused={playbackPaused}
+                  onVolumeChange={(playbackVolume) => updatePlayback({ playbackVolume })}
+                  onPlaybackRateChange={(playbackRate) => updatePlayback({ playbackRate })}
+                  onTogglePause={togglePlaybackPause}
+                />
+              </div>
+            )}
           </div>
         </div>
 
         <div className="w-full max-w-xl flex flex-col items-center space-y-8 animate-slide-up [animation-delay:200ms]">
-          {sessionState === 'disconnected' && (
+          {inSession && prefs.showCaptions && captions.length > 0 && (
+            <Captions lines={captions} personaName={persona.name} size={prefs.captionSize} />
+          )}
+
+          {inSession && showComposer && (
+            <div className="w-full px-4 space-y-4">
+              {messages.length > 0 && (
+                <div className="max-h-56 overflow-y-auto space-y-3 scrollbar-hide">
+                  {messages.slice(-6).map(m => <MessageBubble key={m.id} message={m} compact />)}
+                </div>
+              )}
+              <Composer onSend={sendTypedTurn} autoFocus />
+            </div>
+          )}
+
+          {idle && !exerciseRun && library.personas.length > 1 && (
+            <div className="flex flex-wrap justify-center gap-2 px-4" role="radiogroup" aria-label={t.app.persona}>
+              {library.personas.map(p => (
+                <button
+                  key={p.id}
+                  role="radio"
+                  aria-checked={p.id === persona.id}
+                  onClick={() => selectPersona(p.id)}
+                  className={`flex items-center space-x-2 ps-1.5 pe-4 py-1.5 rounded-full text-xs border transition-all ${p.id === persona.id ? 'bg-white/10 border-white/20 text-slate-100' : 'border-slate-800/50 text-slate-500 hover:text-slate-300 hover:border-white/10'}`}
+                >
+                  <span className="w-5 h-5 rounded-full" style={{ backgroundColor: p.avatarColor }} />
+                  <span>{p.name}</span>
+                </button>
+              ))}
+            </div>
+          )}
+
+          {idle && !exerciseRun && rememberedCount > 0 && (
+            <button onClick={() => setShowMemories(true)} className="flex items-center space-x-2 text-[11px] text-slate-500 hover:text-indigo-200 transition-colors">
+              <Brain size={12} />
+              <span>{t.app.remembers(persona.name, rememberedCount)}</span>
+            </button>
+          )}
+
+          {idle && !exerciseRun && (
             <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 w-full px-4">
-              {STARTER_PROMPTS.map((prompt, i) => (
+              {starterPromptsFor(persona).map((prompt, i) => (
                 <button
                   key={i}
-                  onClick={() => startSession(prompt)}
-                  className="px-5 py-3 bg-slate-900/40 hover:bg-indigo-900/20 border border-slate-800/50 hover:border-indigo-500/30 rounded-2xl text-xs text-slate-400 hover:text-indigo-100 text-left transition-all active:scale-95 flex items-center space-x-3 group"
+                  onClick={() => requestSession(prompt)}
+                  disabled={offline}
+                  className="disabled:opacity-40 disabled:pointer-events-none px-5 py-3 bg-slate-900/40 hover:bg-indigo-900/20 border border-slate-800/50 hover:border-indigo-500/30 rounded-2xl text-xs text-slate-400 hover:text-indigo-100 text-start transition-all active:scale-95 flex items-center space-x-3 group"
                 >
                   <Heart size={12} className="text-slate-600 group-hover:text-indigo-400 transition-colors" />
                   <span>{prompt}</span>
@@ -252,29 +707,110 @@ const App: React.FC = () => {
             </div>
           )}
 
-          <div className="relative group">
-            <button
-              onClick={sessionState === 'connected' ? stopSession : () => startSession()}
-              disabled={sessionState === 'connecting'}
-              className={`
-                w-24 h-24 rounded-full flex items-center justify-center transition-all duration-500 transform active:scale-90
-                ${sessionState === 'connected' 
-                  ? 'bg-rose-500/10 border-2 border-rose-500/50 text-rose-500 shadow-[0_0_40px_rgba(244,63,94,0.1)]' 
-                  : 'bg-indigo-600 text-white shadow-2xl shadow-indigo-900/40 hover:shadow-indigo-500/20 hover:scale-105'}
-                ${sessionState === 'connecting' ? 'animate-pulse opacity-50' : ''}
-              `}
-            >
-              {sessionState === 'connected' ? <MicOff size={32} /> : <Mic size={32} />}
+          {idle && !exerciseRun && (
+            <button onClick={() => setShowExercises(true)} className="flex items-center space-x-2 text-[11px] text-slate-500 hover:text-indigo-200 transition-colors">
+              <Wind size={12} />
+              <span>{t.app.exercises}</span>
             </button>
-            {sessionState === 'connected' && (
-              <div className="absolute -top-1 -right-1 flex h-4 w-4">
-                <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-rose-400 opacity-75"></span>
-                <span className="relative inline-flex rounded-full h-4 w-4 bg-rose-500"></span>
+          )}
+
+          {exerciseRun?.withVoice !== false && (
+            <div className="flex items-center space-x-6">
+              {inSession && inputChannel === 'voice' ? (
+                <button
+                  onClick={toggleMute}
+                  className={`w-12 h-12 rounded-full flex items-center justify-center border transition-all active:scale-90 ${muted ? 'bg-amber-500/10 border-amber-500/40 text-amber-300' : 'bg-slate-900/40 border-slate-800/50 text-slate-500 hover:text-indigo-200 hover:border-indigo-500/30'}`}
+                  aria-label={muted ? t.app.unmute : t.app.mute}
+                  aria-pressed={muted}
+                  title={muted ? t.app.unmuteHint : t.app.muteHint}
+                >
+                  {muted ? <VolumeX size={18} /> : <Volume2 size={18} />}
+                </button>
+              ) : (
+                <div className="w-12" />
+              )}
+              <div className="relative group">
+                <button
+                  onClick={inSession ? endSession : () => requestSession()}
+                  aria-label={inSession ? t.app.endSession : offline ? t.app.offline : sessionState === 'error' ? t.app.tryAgain : t.app.startSpeaking}
+                  disabled={sessionState === 'connecting' || offline}
+                  className={`
+                    w-24 h-24 rounded-full flex items-center justify-center transition-all duration-500 transform active:scale-90
+                    ${inSession 
+                      ? 'bg-rose-500/10 border-2 border-rose-500/50 text-rose-500 shadow-[0_0_40px_rgba(244,63,94,0.1)]' 
+                      : offline
+                      ? 'bg-slate-900/60 border-2 border-slate-800/60 text-slate-500'
+                      : 'bg-indigo-600 text-white shadow-2xl shadow-indigo-900/40 hover:shadow-indigo-500/20 hover:scale-105'}
+                    ${sessionState === 'connecting' || sessionState === 'reconnecting' ? 'animate-pulse opacity-50' : ''}
+                  `}
+                >
+                  {inSession ? <MicOff size={32} /> : offline ? <WifiOff size={32} /> : <Mic size={32} />}
+                </button>
+                {inSession && (
+                  <div className="absolute -top-1 -end-1 flex h-4 w-4">
+                    <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-rose-400 opacity-75"></span>
+                    <span className="relative inline-flex rounded-full h-4 w-4 bg-rose-500"></span>
+                  </div>
+                )}
               </div>
-            )}
-          </div>
+              {idle || (inSession && inputChannel === 'voice') ? (
+                <button
+                  onClick={inSession ? () => setShowComposer(v => !v) : () => requestSession(undefined, 'text')}
+                  disabled={offline}
+                  className={`w-12 h-12 rounded-full flex items-center justify-center border transition-all active:scale-90 disabled:opacity-40 disabled:pointer-events-none ${showComposer && inSession ? 'bg-indigo-600/20 border-indigo-500/40 text-indigo-200' : 'bg-slate-900/40 border-slate-800/50 text-slate-500 hover:text-indigo-200 hover:border-indigo-500/30'}`}
+                  aria-label={inSession ? t.app.toggleWriting : t.app.writeInstead}
+                  title={inSession ? t.app.writeAlongsideHint : t.app.writeInsteadHint}
+                >
+                  <Keyboard size={18} />
+                </button>
+              ) : (
+                <div className="w-12" />
+              )}
+            </div>
+          )}
+
+          {offline && exerciseRun?.withVoice !== false && (
+            <p className="text-[10px] uppercase tracking-[0.2em] font-medium text-slate-500" role="status">{t.app.offline}</p>
+          )}
+
+          {inSession && inputChannel === 'voice' && (
+            pushToTalkActive && !muted ? (
+              <button
+                onPointerDown={(e) => { e.currentTarget.setPointerCapture(e.pointerId); setPushToTalk(true); }}
+                onPointerUp={() => setPushToTalk(false)}
+                onPointerCancel={() => setPushToTalk(false)}
+                onContextMenu={(e) => e.preventDefault()}
+                className={`px-8 py-3 rounded-full text-xs font-semibold border select-none touch-none transition-all ${talking ? 'bg-indigo-600 border-indigo-500 text-white shadow-lg shadow-indigo-500/20 scale-105' : 'bg-slate-900/40 border-slate-800/50 text-slate-400 hover:border-indigo-500/30'}`}
+                aria-pressed={talking}
+              >
+                {talking ? t.app.talking : t.app.holdToTalk(describeKeyCode(prefs.pushToTalkKey))}
+              </button>
+            ) : (
+              <p className="text-[10px] uppercase tracking-[0.2em] font-medium text-slate-500" aria-live="polite">
+                {muted ? t.app.muted : userSpeaking ? t.app.hearingYou : modelSpeaking ? t.app.mirrorSpeaking : t.app.listeningForVoice}
+              </p>
+            )
+          )}
         </div>
 
+        {reminderNote && !error && (
+          <button
+            onClick={() => reminderNote.reminder ? openReminderRef.current(reminderNote.reminder.id) : setReminderNote(null)}
+            className="absolute top-28 left-1/2 transform -translate-x-1/2 bg-indigo-500/10 text-indigo-200 px-6 py-3 rounded-2xl border border-indigo-500/20 text-xs flex items-center space-x-3 backdrop-blur-xl animate-slide-up"
+            aria-label={reminderNote.reminder ? `${t.app.startReminder}: ${reminderNote.text}` : t.app.dismissReminder}
+          >
+            <Heart size={16} />
+            <span>{reminderNote.text}</span>
+          </button>
+        )}
+
+        {deviceNotice && !reminderNote && !error && (
+          <div className="absolute top-28 left-1/2 transform -translate-x-1/2 bg-slate-900/60 text-slate-300 px-6 py-3 rounded-2xl border border-white/10 text-xs flex items-center space-x-3 backdrop-blur-xl animate-slide-up" role="status">
+            <Mic size={16} />
+            <span>{deviceNotice}</span>
+          </div>
+        )}
+
         {error && (
           <div className="absolute top-28 left-1/2 transform -translate-x-1/2 bg-rose-500/10 text-rose-300 px-6 py-3 rounded-2xl border border-rose-500/20 text-xs flex items-center space-x-3 backdrop-blur-xl animate-slide-up">
             <Info size={16} />
@@ -284,91 +820,59 @@ const App: React.FC = () => {
       </main>
 
       <footer className="p-8 text-center text-[10px] text-slate-600 font-medium tracking-[0.3em] uppercase pointer-events-none opacity-50">
-        Privacy Secured • Gemini Protocol
+        {vaultStatus === 'off' ? t.app.storedLocally : t.app.storedEncrypted} • {t.app.protocol}
       </footer>
 
       {/* Settings Panel */}
       {showSettings && (
-        <div className="fixed inset-0 z-50 flex items-center justify-center p-6 bg-slate-950/90 backdrop-blur-md animate-fade-in">
-          <div className="w-full max-w-md bg-slate-900/80 border border-white/10 rounded-[2.5rem] overflow-hidden shadow-2xl animate-slide-up">
-            <div className="p-8 border-b border-white/5 flex items-center justify-between">
-              <h3 className="text-xl font-semibold">Mirror Config</h3>
-              <button onClick={() => setShowSettings(false)} className="p-2 hover:bg-white/5 rounded-full transition-colors"><X size={20} /></button>
-            </div>
-            <div className="p-8 space-y-8">
-              <div className="space-y-3">
-                <label className="text-xs font-bold text-slate-500 uppercase tracking-widest">Mirror's Soul (Instruction)</label>
-                <textarea 
-                  value={persona.instruction}
-                  onChange={(e) => setPersona({ ...persona, instruction: e.target.value })}
-                  className="w-full h-40 bg-slate-950/50 border border-white/5 rounded-2xl p-4 text-sm leading-relaxed focus:ring-2 focus:ring-indigo-500 outline-none resize-none scrollbar-hide text-slate-300"
-                  placeholder="Define the energy of your companion..."
-                />
-              </div>
-              <div className="space-y-3">
-                <label className="text-xs font-bold text-slate-500 uppercase tracking-widest">Atmospheric Voice</label>
-                <div className="grid grid-cols-3 gap-2">
-                  {(['Zephyr', 'Puck', 'Charon', 'Kore', 'Fenrir'] as PersonaConfig['voiceName'][]).map(v => (
-                    <button
-                      key={v}
-                      onClick={() => setPersona({ ...persona, voiceName: v })}
-                      className={`py-3 rounded-xl text-xs font-medium border transition-all ${persona.voiceName === v ? 'bg-indigo-600 border-indigo-500 shadow-lg shadow-indigo-500/20 text-white' : 'bg-slate-950/30 border-white/5 text-slate-500 hover:border-white/20'}`}
-                    >
-                      {v}
-                    </button>
-                  ))}
-                </div>
-              </div>
-            </div>
-            <div className="p-8 bg-black/20 flex justify-end">
-              <button onClick={handleSaveSettings} className="px-10 py-3 bg-indigo-600 hover:bg-indigo-500 rounded-full text-sm font-semibold transition-all shadow-lg shadow-indigo-900/20 active:scale-95 text-white">
-                Save & Protect
-              </button>
-            </div>
-          </div>
-        </div>
+        <SettingsPanel library={library} prefs={prefs} onSave={handleSaveSettings} onClose={() => setShowSettings(false)} />
       )}
 
-      {/* Dialogue History */}
-      {showHistory && (
-        <div className="fixed inset-0 z-50 flex items-center justify-center p-6 bg-slate-950/90 backdrop-blur-md animate-fade-in">
-          <div className="w-full max-w-2xl bg-slate-900/80 border border-white/10 rounded-[2.5rem] overflow-hidden shadow-2xl flex flex-col max-h-[85vh] animate-slide-up">
-            <div className="p-8 border-b border-white/5 flex items-center justify-between">
-              <div className="flex items-center space-x-3">
-                <MessageSquare size={20} className="text-indigo-400" />
-                <h3 className="text-xl font-semibold">Dialogue Stream</h3>
-              </div>
-              <button onClick={() => setShowHistory(false)} className="p-2 hover:bg-white/5 rounded-full transition-colors"><X size={20} /></button>
-            </div>
-            <div className="flex-1 overflow-y-auto p-8 space-y-6 scrollbar-hide">
-              {messages.length === 0 ? (
-                <div className="text-center py-20 text-slate-600">
-                  <div className="w-16 h-16 bg-white/5 rounded-full flex items-center justify-center mx-auto mb-4"><Heart size={24} className="opacity-20" /></div>
-                  The stream is clear and quiet.
-                </div>
-              ) : (
-                messages.map((m) => (
-                  <div key={m.id} className={`flex flex-col ${m.role === 'user' ? 'items-end' : 'items-start'} group`}>
-                    <div className={`
-                      max-w-[85%] rounded-[1.8rem] px-6 py-4 text-sm leading-relaxed
-                      ${m.role === 'user' ? 'bg-indigo-600 text-white rounded-tr-none' : 'bg-white/5 border border-white/10 text-slate-200 rounded-tl-none'}
-                    `}>
-                      {m.text}
-                    </div>
-                    <span className="text-[10px] text-slate-600 mt-2 px-2 font-medium opacity-0 group-hover:opacity-100 transition-opacity">
-                      {new Date(m.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-                    </span>
-                  </div>
-                ))
-              )}
-            </div>
-            <div className="p-8 bg-black/20 flex justify-between items-center">
-              <button onClick={() => setMessages([])} className="text-xs text-rose-400/60 hover:text-rose-400 font-semibold tracking-wider transition-colors">PURGE LOGS</button>
-              <button onClick={() => setShowHistory(false)} className="px-8 py-3 bg-white/5 hover:bg-white/10 rounded-full text-xs font-semibold border border-white/5 transition-all">Close Sanctuary</button>
-            </div>
-          </div>
-        </div>
+      {safetyEvent && (
+        <SafetyPanel
+          region={supportRegion}
+          onRegionChange={(code) => {
+            const nextPrefs = { ...prefs, supportRegion: code };
+            setPrefs(nextPrefs);
+            savePreferences(nextPrefs);
+          }}
+        />
+      )}
+
+      {/* Mood Check-ins */}
+      {pendingStart && (
+        <CheckInModal phase="before" onSubmit={handleCheckInBefore} onSkip={() => handleCheckInBefore()} />
       )}
+      {prefs.moodCheckIns && endedSessionId && idle && (
+        <CheckInModal phase="after" onSubmit={handleCheckInAfter} onSkip={() => handleCheckInAfter()} />
+      )}
+
+      {toolRequests[0] && (
+        <ToolPrompt
+          key={toolRequests[0].id}
+          label={toolRequests[0].label}
+          request={toolRequests[0].request}
+          onDecide={(decision) => decideToolRequest(toolRequests[0], decision)}
+        />
+      )}
+
+      {showExercises && <ExerciseModal onStart={startExercise} onClose={() => setShowExercises(false)} />}
+
+      {showInsights && <InsightsModal onClose={() => setShowInsights(false)} />}
+
+      {showMemories && (
+        <MemoryModal
+          memories={memories}
+          onChange={(next) => {
+            setMemories(next);
+            saveMemories(next);
+          }}
+          onClose={() => setShowMemories(false)}
+        />
+      )}
+
+      {/* Dialogue History */}
+      {showHistory && <HistoryModal onClose={() => setShowHistory(false)} refreshKey={messages.length} />}
     </div>
   );
 };
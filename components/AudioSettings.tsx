@@ -0,0 +1,124 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { AppPreferences } from '../types';
+import { AudioDevice, AudioDevices, listAudioDevices, MicSettings, supportsOutputSelection, watchAudioDevices } from '../utils/devices';
+import MicTest from './MicTest';
+import { useStrings } from '../hooks/useStrings';
+
+type AudioPreferences = Pick<AppPreferences,
+  'inputDeviceId' | 'outputDeviceId' | 'echoCancellation' | 'noiseSuppression' | 'autoGainControl' | 'inputGain' | 'inputMode' | 'vadThresholdDb'>;
+
+interface AudioSettingsProps {
+  prefs: AudioPreferences;
+  onChange: (changes: Partial<AppPreferences>) => void;
+}
+
+const optionClass = (selected: boolean) =>
+  `py-2 px-4 rounded-xl text-[11px] font-medium border transition-all ${selected ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-slate-950/30 border-white/5 text-slate-500 hover:border-white/20'}`;
+
+const PROCESSING = ['echoCancellation', 'noiseSuppression', 'autoGainControl'] as const;
+
+interface DevicePickerProps {
+  label: string;
+  devices: AudioDevice[];
+  selected: string | null;
+  onSelect: (id: string | null) => void;
+}
+
+const DevicePicker: React.FC<DevicePickerProps> = ({ label, devices, selected, onSelect }) => {
+  // A saved device that isn't plugged in stays listed, so it is clear why the default is being used.
+  const t = useStrings();
+  const missing = selected && !devices.some(d => d.id === selected);
+  const choices = [{ id: null, label: t.audio.systemDefault }, ...devices, ...(missing ? [{ id: selected, label: t.audio.savedDevice }] : [])];
+  return (
+    <div className="space-y-2">
+      <span className="text-xs text-slate-500">{label}</span>
+      <div className="grid grid-cols-1 gap-2" role="radiogroup" aria-label={label}>
+        {choices.map(choice => (
+          <button
+            key={choice.id ?? 'default'}
+            role="radio"
+            aria-checked={selected === choice.id}
+            onClick={() => onSelect(choice.id)}
+            className={`${optionClass(selected === choice.id)} text-start truncate`}
+          >
+            {choice.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Microphone and speaker choice, input processing and gain, with a mic test.
+ * Changes apply to a running session once Settings are saved.
+ */
+const AudioSettings: React.FC<AudioSettingsProps> = ({ prefs, onChange }) => {
+  const t = useStrings();
+  const [devices, setDevices] = useState<AudioDevices>({ inputs: [], outputs: [] });
+  const canChooseOutput = supportsOutputSelection();
+
+  const refresh = useCallback(() => {
+    listAudioDevices().then(setDevices).catch(err => console.warn('Could not list audio devices', err));
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    return watchAudioDevices(refresh);
+  }, [refresh]);
+
+  const micSettings: MicSettings = {
+    inputDeviceId: prefs.inputDeviceId,
+    echoCancellation: prefs.echoCancellation,
+    noiseSuppression: prefs.noiseSuppression,
+    autoGainControl: prefs.autoGainControl,
+    inputGain: prefs.inputGain,
+  };
+
+  return (
+    <div className="space-y-4">
+      {devices.inputs.length === 0 && (
+        <p className="text-xs text-slate-500 leading-relaxed">{t.audio.listHint}</p>
+      )}
+      <DevicePicker label={t.audio.microphone} devices={devices.inputs} selected={prefs.inputDeviceId} onSelect={inputDeviceId => onChange({ inputDeviceId })} />
+      {canChooseOutput ? (
+        <DevicePicker label={t.audio.speaker} devices={devices.outputs} selected={prefs.outputDeviceId} onSelect={outputDeviceId => onChange({ outputDeviceId })} />
+      ) : (
+        <p className="text-xs text-slate-500 leading-relaxed">{t.audio.defaultOutputOnly}</p>
+      )}
+
+      <div className="grid grid-cols-3 gap-2">
+        {PROCESSING.map(key => (
+          <button key={key} aria-pressed={prefs[key]} onClick={() => onChange({ [key]: !prefs[key] })} className={optionClass(prefs[key])}>
+            {t.audio[key]}
+          </button>
+        ))}
+      </div>
+
+      <label className="block space-y-2">
+        <span className="flex justify-between text-xs text-slate-500">
+          <span>{t.audio.inputGain}</span>
+          <span>{Math.round(prefs.inputGain * 100)}%</span>
+        </span>
+        <input
+          type="range"
+          min={0}
+          max={3}
+          step={0.05}
+          value={prefs.inputGain}
+          onChange={(e) => onChange({ inputGain: Number(e.target.value) })}
+          className="w-full accent-indigo-500"
+        />
+      </label>
+
+      <MicTest
+        settings={micSettings}
+        outputDeviceId={prefs.outputDeviceId}
+        thresholdDb={prefs.inputMode === 'vad' ? prefs.vadThresholdDb : null}
+        onOpened={refresh}
+      />
+    </div>
+  );
+};
+
+export default AudioSettings;
@@ -0,0 +1,49 @@
+import React from 'react';
+import { CaptionSize } from '../types';
+import { CaptionLine } from '../utils/captions';
+import { useStrings } from '../hooks/useStrings';
+
+interface CaptionsProps {
+  lines: CaptionLine[];
+  personaName: string;
+  size: CaptionSize;
+}
+
+const SIZE_CLASS: Record<CaptionSize, string> = {
+  small: 'text-sm',
+  medium: 'text-base sm:text-lg',
+  large: 'text-xl sm:text-2xl',
+};
+
+/**
+ * Live captions for both voices. The visible lines change with every partial
+ * transcript, so they are hidden from screen readers; a separate polite live
+ * region announces each line once it is finished.
+ */
+const Captions: React.FC<CaptionsProps> = ({ lines, personaName, size }) => {
+  const t = useStrings();
+  const speakerName = (line: CaptionLine) => line.speaker === 'user' ? t.captions.you : personaName;
+
+  return (
+    <div className="w-full px-4">
+      <div aria-hidden="true" className={`space-y-2 text-center leading-snug ${SIZE_CLASS[size]}`}>
+        {lines.map(line => (
+          <p key={line.id} className={`transition-opacity duration-300 ${line.final ? 'opacity-60' : ''}`}>
+            <span className={`me-2 text-[0.7em] font-bold uppercase tracking-widest ${line.speaker === 'user' ? 'text-indigo-300/80' : 'text-slate-400'}`}>
+              {speakerName(line)}
+            </span>
+            <span className="text-slate-100">{line.text}</span>
+            {line.interrupted && <span className="text-slate-500">…</span>}
+          </p>
+        ))}
+      </div>
+      <div className="sr-only" aria-live="polite" aria-atomic="false" aria-relevant="additions">
+        {lines.filter(line => line.final).map(line => (
+          <p key={line.id}>{speakerName(line)}: {line.text}{line.interrupted ? ` ${t.captions.interrupted}` : ''}</p>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default Captions;
@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { X, Plus } from 'lucide-react';
+import { MoodCheckIn } from '../types';
+import { isSuggestedTag, SUGGESTED_TAGS, tagLabel } from '../utils/insights';
+import { useStrings } from '../hooks/useStrings';
+
+interface CheckInModalProps {
+  phase: 'before' | 'after';
+  onSubmit: (checkIn: MoodCheckIn) => void;
+  onSkip: () => void;
+}
+
+const scaleClass = (selected: boolean) =>
+  `flex-1 py-3 rounded-xl text-[11px] font-medium border transition-all ${selected ? 'bg-indigo-600 border-indigo-500 shadow-lg shadow-indigo-500/20 text-white' : 'bg-slate-950/30 border-white/5 text-slate-500 hover:border-white/20'}`;
+
+const CheckInModal: React.FC<CheckInModalProps> = ({ phase, onSubmit, onSkip }) => {
+  const t = useStrings();
+  const [mood, setMood] = useState<number | null>(null);
+  const [energy, setEnergy] = useState<number | null>(null);
+  const [tags, setTags] = useState<string[]>([]);
+  const [customTag, setCustomTag] = useState('');
+
+  const toggleTag = (tag: string) =>
+    setTags(prev => prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]);
+
+  const addCustomTag = () => {
+    const tag = customTag.trim().toLowerCase();
+    if (tag && !tags.includes(tag)) setTags([...tags, tag]);
+    setCustomTag('');
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-6 bg-slate-950/90 backdrop-blur-md animate-fade-in">
+      <div className="w-full max-w-md bg-slate-900/80 border border-white/10 rounded-[2.5rem] overflow-hidden shadow-2xl animate-slide-up">
+        <div className="p-8 border-b border-white/5 flex items-center justify-between">
+          <h3 className="text-xl font-semibold">{phase === 'before' ? t.modals.checkInBefore : t.modals.checkInAfter}</h3>
+          <button onClick={onSkip} className="p-2 hover:bg-white/5 rounded-full transition-colors" aria-label={t.checkIn.skipLabel}><X size={20} /></button>
+        </div>
+        <div className="p-8 space-y-8">
+          <div className="space-y-3">
+            <label className="text-xs font-bold text-slate-500 uppercase tracking-widest">{t.checkIn.mood}</label>
+            <div className="flex space-x-2" role="radiogroup" aria-label={t.checkIn.mood}>
+              {t.checkIn.moods.map((label, i) => (
+                <button key={label} role="radio" aria-checked={mood === i + 1} onClick={() => setMood(i + 1)} className={scaleClass(mood === i + 1)}>
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="space-y-3">
+            <label className="text-xs font-bold text-slate-500 uppercase tracking-widest">{t.checkIn.energy}</label>
+            <div className="flex space-x-2" role="radiogroup" aria-label={t.checkIn.energy}>
+              {t.checkIn.energyLevels.map((label, i) => (
+                <button key={label} role="radio" aria-checked={energy === i + 1} onClick={() => setEnergy(i + 1)} className={scaleClass(energy === i + 1)}>
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="space-y-3">
+            <label className="text-xs font-bold text-slate-500 uppercase tracking-widest">{t.checkIn.present}</label>
+            <div className="flex flex-wrap gap-2">
+              {[...SUGGESTED_TAGS, ...tags.filter(tag => !isSuggestedTag(tag))].map(tag => (
+                <button
+                  key={tag}
+                  onClick={() => toggleTag(tag)}
+                  className={`px-3 py-1.5 rounded-full text-xs border transition-all ${tags.includes(tag) ? 'bg-indigo-600/30 border-indigo-500/50 text-indigo-100' : 'border-white/5 text-slate-500 hover:border-white/20'}`}
+                >
+                  {tagLabel(tag, t.checkIn.tags)}
+                </button>
+              ))}
+            </div>
+            <div className="flex items-center space-x-2">
+              <input
+                value={customTag}
+                onChange={(e) => setCustomTag(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); addCustomTag(); } }}
+                placeholder={t.checkIn.somethingElse}
+                className="flex-1 bg-slate-950/50 border border-white/5 rounded-full px-4 py-2 text-xs text-slate-300 outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+              <button onClick={addCustomTag} className="p-2 rounded-full text-slate-500 hover:text-white hover:bg-white/5 transition-all" aria-label={t.checkIn.addTag}>
+                <Plus size={16} />
+              </button>
+            </div>
+          </div>
+        </div>
+        <div className="p-8 bg-black/20 flex justify-between items-center">
+          <button onClick={onSkip} className="text-xs text-slate-500 hover:text-slate-300 font-semibold tracking-wider transition-colors">
+            {phase === 'before' ? t.checkIn.skipAndBegin : t.checkIn.skip}
+          </button>
+          <button
+            onClick={() => mood && energy && onSubmit({ mood, energy, tags, at: Date.now() })}
+            disabled={!mood || !energy}
+            className="px-10 py-3 bg-indigo-600 hover:bg-indigo-500 rounded-full text-sm font-semibold transition-all shadow-lg shadow-indigo-900/20 active:scale-95 text-white disabled:opacity-30 disabled:active:scale-100"
+          >
+            {phase === 'before' ? t.checkIn.begin : t.common.save}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CheckInModal;
@@ -0,0 +1,55 @@
+import React, { useState } from 'react';
+import { SendHorizontal } from 'lucide-react';
+import { useStrings } from '../hooks/useStrings';
+
+interface ComposerProps {
+  onSend: (text: string) => void;
+  disabled?: boolean;
+  autoFocus?: boolean;
+}
+
+const Composer: React.FC<ComposerProps> = ({ onSend, disabled = false, autoFocus = false }) => {
+  const t = useStrings();
+  const [draft, setDraft] = useState('');
+
+  const submit = () => {
+    const text = draft.trim();
+    if (!text || disabled) return;
+    onSend(text);
+    setDraft('');
+  };
+
+  return (
+    <form
+      onSubmit={(e) => { e.preventDefault(); submit(); }}
+      className="w-full flex items-end space-x-2 bg-slate-900/40 border border-slate-800/50 rounded-[1.8rem] p-2 focus-within:border-indigo-500/30 transition-colors"
+    >
+      <textarea
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
+            e.preventDefault();
+            submit();
+          }
+        }}
+        rows={1}
+        autoFocus={autoFocus}
+        disabled={disabled}
+        placeholder={t.composer.placeholder}
+        aria-label={t.composer.label}
+        className="flex-1 bg-transparent px-4 py-3 text-sm leading-relaxed text-slate-300 placeholder:text-slate-600 outline-none resize-none max-h-32 scrollbar-hide"
+      />
+      <button
+        type="submit"
+        disabled={disabled || !draft.trim()}
+        className="p-3 rounded-full bg-indigo-600 text-white transition-all active:scale-90 disabled:opacity-30 disabled:active:scale-100"
+        aria-label={t.composer.send}
+      >
+        <SendHorizontal size={16} />
+      </button>
+    </form>
+  );
+};
+
+export default Composer;
@@ -0,0 +1,81 @@
+import React, { useMemo } from 'react';
+import { Wind, X, Volume2, Eye, WifiOff } from 'lucide-react';
+import { Exercise, EXERCISES } from '../data/exercises';
+import { exerciseDurationMs, loadExerciseLog } from '../utils/exercises';
+import { useStrings } from '../hooks/useStrings';
+import { useOnline } from '../hooks/useOnline';
+
+interface ExerciseModalProps {
+  onStart: (exercise: Exercise, withVoice: boolean) => void;
+  onClose: () => void;
+}
+
+const actionClass = "flex items-center space-x-1.5 px-3 py-1.5 rounded-full text-[11px] font-semibold border border-white/5 bg-white/5 hover:bg-white/10 text-slate-400 hover:text-slate-200 transition-all disabled:opacity-30 disabled:pointer-events-none";
+
+const ExerciseModal: React.FC<ExerciseModalProps> = ({ onStart, onClose }) => {
+  const t = useStrings();
+  const online = useOnline();
+  const formatDuration = (ms: number) => {
+    const minutes = Math.round(ms / 60000);
+    return minutes < 1 ? t.exercises.seconds(Math.round(ms / 1000)) : t.exercises.minutes(minutes);
+  };
+  const completions = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const entry of loadExerciseLog()) {
+      if (entry.completed) counts.set(entry.exerciseId, (counts.get(entry.exerciseId) ?? 0) + 1);
+    }
+    return counts;
+  }, []);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-6 bg-slate-950/90 backdrop-blur-md animate-fade-in">
+      <div className="w-full max-w-2xl bg-slate-900/80 border border-white/10 rounded-[2.5rem] overflow-hidden shadow-2xl flex flex-col max-h-[85vh] animate-slide-up">
+        <div className="p-8 border-b border-white/5 flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <Wind size={20} className="text-indigo-400" />
+            <h3 className="text-xl font-semibold">{t.modals.exercises}</h3>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-white/5 rounded-full transition-colors"><X size={20} /></button>
+        </div>
+        <div className="flex-1 overflow-y-auto p-8 space-y-4 scrollbar-hide">
+          <p className="text-xs text-slate-500 leading-relaxed">
+            {t.exercises.intro}
+          </p>
+          {!online && (
+            <p className="flex items-center space-x-2 text-xs text-amber-300/80">
+              <WifiOff size={12} /><span>{t.exercises.offline}</span>
+            </p>
+          )}
+          {EXERCISES.map(exercise => {
+            const done = completions.get(exercise.id) ?? 0;
+            const text = t.exerciseContent[exercise.id];
+            return (
+              <div key={exercise.id} className="p-5 rounded-3xl border bg-white/5 border-white/5 space-y-3">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-semibold text-slate-200">{text.title}</span>
+                  <span className="text-[10px] text-slate-500 uppercase tracking-widest font-bold">
+                    {formatDuration(exerciseDurationMs(exercise))}{done > 0 ? ` • ${t.exercises.completed(done)}` : ''}
+                  </span>
+                </div>
+                <p className="text-xs text-slate-400 leading-relaxed">{text.summary}</p>
+                <div className="flex space-x-2">
+                  <button onClick={() => onStart(exercise, true)} disabled={!online} className={actionClass}>
+                    <Volume2 size={12} /><span>{t.exercises.withVoice}</span>
+                  </button>
+                  <button onClick={() => onStart(exercise, false)} className={actionClass}>
+                    <Eye size={12} /><span>{t.exercises.onScreen}</span>
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+        <div className="p-8 bg-black/20 flex justify-end items-center">
+          <button onClick={onClose} className="px-8 py-3 bg-white/5 hover:bg-white/10 rounded-full text-xs font-semibold border border-white/5 transition-all">{t.common.close}</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExerciseModal;
@@ -0,0 +1,85 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Exercise } from '../data/exercises';
+import { exerciseProgressAt, exerciseSteps, ExerciseStep } from '../utils/exercises';
+import { useStrings } from '../hooks/useStrings';
+
+interface ExercisePlayerProps {
+  exercise: Exercise;
+  /** Wall-clock start of the first phase; null while the session is still connecting. */
+  startedAt: number | null;
+  finished: boolean;
+  onStep: (step: ExerciseStep) => void;
+  onComplete: () => void;
+  onStop: () => void;
+  onClose: () => void;
+}
+
+const TICK_MS = 200;
+
+/**
+ * On-screen cues for a running exercise. Timing is local, so it carries on without a connection.
+ */
+const ExercisePlayer: React.FC<ExercisePlayerProps> = ({ exercise, startedAt, finished, onStep, onComplete, onStop, onClose }) => {
+  const t = useStrings();
+  const steps = useMemo(() => exerciseSteps(exercise), [exercise]);
+  const [now, setNow] = useState(Date.now);
+  const lastStepRef = useRef(-1);
+
+  useEffect(() => {
+    if (startedAt === null || finished) return;
+    const timer = setInterval(() => setNow(Date.now()), TICK_MS);
+    return () => clearInterval(timer);
+  }, [startedAt, finished]);
+
+  const progress = startedAt === null ? null : exerciseProgressAt(exercise, now - startedAt, steps);
+
+  // Runs on step changes only; the callbacks are fresh on every render anyway.
+  useEffect(() => {
+    if (!progress || finished) return;
+    if (progress.done) {
+      onComplete();
+    } else if (progress.step && progress.step.index !== lastStepRef.current) {
+      lastStepRef.current = progress.step.index;
+      onStep(progress.step);
+    }
+  }, [progress?.step?.index, progress?.done, finished]);
+
+  const seconds = progress ? Math.ceil(progress.remainingMs / 1000) : 0;
+  const text = t.exerciseContent[exercise.id];
+  const stepText = progress?.step ? text.phases[progress.step.phaseIndex] : null;
+
+  return (
+    <div className="space-y-4">
+      <div aria-live="polite" className="space-y-4">
+        <h2 className="text-3xl sm:text-4xl font-light text-slate-100 italic leading-snug">
+          {finished ? t.exercises.wellDone
+            : !progress ? t.exercises.gettingReady
+            : stepText ? stepText.cue
+            : t.exercises.getComfortable}
+        </h2>
+        <p className="text-slate-500 text-sm sm:text-base leading-relaxed px-4 opacity-80">
+          {finished ? t.exercises.finished(text.title)
+            : !progress ? t.exercises.onItsWay
+            : stepText ? stepText.detail ?? ' '
+            : t.exercises.beginsIn(text.title, seconds)}
+        </p>
+      </div>
+      {progress?.step && !finished && (
+        <p className="text-[10px] uppercase tracking-[0.2em] font-medium text-slate-500">
+          {exercise.rounds > 1 ? `${t.exercises.round(progress.step.round, exercise.rounds)} • ` : ''}{t.exercises.seconds(seconds)}
+        </p>
+      )}
+      <div className="w-48 h-1 mx-auto rounded-full bg-white/5 overflow-hidden" role="progressbar" aria-valuemin={0} aria-valuemax={100} aria-valuenow={Math.round((finished ? 1 : progress?.fraction ?? 0) * 100)}>
+        <div className="h-full bg-indigo-400/60 transition-[width] duration-200" style={{ width: `${(finished ? 1 : progress?.fraction ?? 0) * 100}%` }} />
+      </div>
+      <button
+        onClick={finished ? onClose : onStop}
+        className="px-6 py-2 rounded-full text-[11px] font-semibold border border-white/5 bg-white/5 hover:bg-white/10 text-slate-400 hover:text-slate-200 transition-all"
+      >
+        {finished ? t.exercises.done : t.exercises.stop}
+      </button>
+    </div>
+  );
+};
+
+export default ExercisePlayer;
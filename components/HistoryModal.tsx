@@ -0,0 +1,219 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { MessageSquare, X, Heart, Search, Trash2, ChevronLeft, Download, Upload, AudioLines } from 'lucide-react';
+import { SessionRecord } from '../types';
+import SessionPlayback from './SessionPlayback';
+import { querySessions, deleteSession, clearSessions, matchMessages, saveSession } from '../utils/journal';
+import { exportSessions, parseJournalExport, EXPORT_FORMATS, ExportFormat } from '../utils/export';
+import { downloadFile } from '../utils/download';
+import { useStrings } from '../hooks/useStrings';
+
+interface HistoryModalProps {
+  onClose: () => void;
+  /** Changes whenever the live session persists new messages, so the list can refresh. */
+  refreshKey?: number;
+}
+
+/**
+ * Parses an `<input type="date">` value as local midnight (or end of day).
+ */
+const parseDay = (value: string, endOfDay = false): number | undefined => {
+  if (!value) return undefined;
+  const [y, m, d] = value.split('-').map(Number);
+  return endOfDay ? new Date(y, m - 1, d, 23, 59, 59, 999).getTime() : new Date(y, m - 1, d).getTime();
+};
+
+const formatDate = (ts: number) =>
+  new Date(ts).toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' });
+
+const formatTime = (ts: number) =>
+  new Date(ts).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const HistoryModal: React.FC<HistoryModalProps> = ({ onClose, refreshKey }) => {
+  const t = useStrings();
+  const [sessions, setSessions] = useState<SessionRecord[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [format, setFormat] = useState<ExportFormat>('markdown');
+  const [notice, setNotice] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    querySessions({ text: query, from: parseDay(fromDate), to: parseDay(toDate, true) })
+      .then(result => { if (!cancelled) { setSessions(result); setLoadError(null); } })
+      .catch(() => { if (!cancelled) setLoadError(t.history.loadError); });
+    return () => { cancelled = true; };
+  }, [query, fromDate, toDate, refreshKey, reloadKey]);
+
+  const selected = sessions.find(s => s.id === selectedId) || null;
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteSession(id);
+      setSessions(prev => prev.filter(s => s.id !== id));
+      if (selectedId === id) setSelectedId(null);
+    } catch (err: any) {
+      setNotice(err.message);
+    }
+  };
+
+  const handleExport = () => {
+    const scope = selected ? [selected] : sessions;
+    if (scope.length === 0) return;
+    const file = exportSessions(scope, format);
+    downloadFile(file.filename, file.content, file.mimeType);
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const imported = parseJournalExport(await file.text());
+      for (const session of imported) await saveSession(session);
+      setNotice(t.history.restored(imported.length));
+      setReloadKey(k => k + 1);
+    } catch (err: any) {
+      setNotice(err.message);
+    }
+  };
+
+  const handlePurge = async () => {
+    try {
+      await clearSessions();
+      setSessions([]);
+      setSelectedId(null);
+    } catch (err: any) {
+      setNotice(err.message);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-6 bg-slate-950/90 backdrop-blur-md animate-fade-in">
+      <div className="w-full max-w-2xl bg-slate-900/80 border border-white/10 rounded-[2.5rem] overflow-hidden shadow-2xl flex flex-col max-h-[85vh] animate-slide-up">
+        <div className="p-8 border-b border-white/5 flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            {selected ? (
+              <button onClick={() => setSelectedId(null)} className="p-1 -ms-1 hover:bg-white/5 rounded-full transition-colors text-indigo-400" aria-label={t.history.back}>
+                <ChevronLeft size={20} className="rtl:rotate-180" />
+              </button>
+            ) : (
+              <MessageSquare size={20} className="text-indigo-400" />
+            )}
+            <h3 className="text-xl font-semibold">{selected ? formatDate(selected.startedAt) : t.modals.history}</h3>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-white/5 rounded-full transition-colors"><X size={20} /></button>
+        </div>
+
+        {!selected && (
+          <div className="px-8 pt-6 space-y-3">
+            <div className="flex items-center bg-slate-950/50 border border-white/5 rounded-2xl px-4 focus-within:ring-2 focus-within:ring-indigo-500">
+              <Search size={14} className="text-slate-600" />
+              <input
+                type="search"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder={t.history.search}
+                className="flex-1 bg-transparent py-3 px-3 text-sm outline-none text-slate-300 placeholder:text-slate-600"
+              />
+            </div>
+            <div className="flex items-center space-x-2 text-[10px] text-slate-500 uppercase tracking-widest font-bold">
+              <span>{t.history.from}</span>
+              <input type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} className="flex-1 bg-slate-950/50 border border-white/5 rounded-xl px-3 py-2 text-xs text-slate-300 outline-none [color-scheme:dark]" />
+              <span>{t.history.to}</span>
+              <input type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} className="flex-1 bg-slate-950/50 border border-white/5 rounded-xl px-3 py-2 text-xs text-slate-300 outline-none [color-scheme:dark]" />
+            </div>
+          </div>
+        )}
+
+        <div className="flex-1 overflow-y-auto p-8 space-y-6 scrollbar-hide">
+          {loadError ? (
+            <div className="text-center py-20 text-rose-300/70 text-sm">{loadError}</div>
+          ) : selected ? (
+            <SessionPlayback session={selected} messages={matchMessages(selected, query)} />
+          ) : sessions.length === 0 ? (
+            <div className="text-center py-20 text-slate-600">
+              <div className="w-16 h-16 bg-white/5 rounded-full flex items-center justify-center mx-auto mb-4"><Heart size={24} className="opacity-20" /></div>
+              {query || fromDate || toDate ? t.history.noMatches : t.history.empty}
+            </div>
+          ) : (
+            sessions.map((s) => {
+              const preview = matchMessages(s, query)[0];
+              return (
+                <div key={s.id} className="flex items-start space-x-3 group">
+                  <button
+                    onClick={() => setSelectedId(s.id)}
+                    className="flex-1 text-start px-6 py-4 bg-white/5 hover:bg-indigo-900/20 border border-white/5 hover:border-indigo-500/30 rounded-[1.8rem] transition-all"
+                  >
+                    <div className="flex items-center justify-between text-[10px] uppercase tracking-widest font-bold text-slate-500">
+                      <span>{formatDate(s.startedAt)} • {formatTime(s.startedAt)}</span>
+                      <span className="text-indigo-400/70">{s.personaName}</span>
+                    </div>
+                    {preview && <p className="mt-2 text-sm text-slate-300 line-clamp-2">{preview.text}</p>}
+                    <p className="mt-2 text-[10px] text-slate-600 flex items-center space-x-2">
+                      <span>{t.history.reflections(s.messages.length)}</span>
+                      {s.hasRecording && <AudioLines size={12} className="text-indigo-400/70" aria-label={t.history.recorded} />}
+                    </p>
+                  </button>
+                  <button
+                    onClick={() => handleDelete(s.id)}
+                    className="p-3 mt-2 rounded-full text-slate-600 hover:text-rose-400 hover:bg-rose-500/10 transition-all opacity-0 group-hover:opacity-100 focus:opacity-100"
+                    aria-label={t.history.deleteSession}
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              );
+            })
+          )}
+        </div>
+        <div className="px-8 py-4 border-t border-white/5 flex flex-wrap items-center gap-2">
+          <select
+            value={format}
+            onChange={(e) => setFormat(e.target.value as ExportFormat)}
+            className="bg-slate-950/50 border border-white/5 rounded-full px-4 py-2 text-[11px] font-semibold text-slate-400 outline-none"
+            aria-label={t.history.exportFormat}
+          >
+            {EXPORT_FORMATS.map(f => <option key={f.format} value={f.format}>{t.history.formats[f.format]}</option>)}
+          </select>
+          <button
+            onClick={handleExport}
+            disabled={selected ? false : sessions.length === 0}
+            className="flex items-center space-x-2 px-4 py-2 rounded-full text-[11px] font-semibold border border-white/5 bg-white/5 hover:bg-white/10 text-slate-400 hover:text-slate-200 transition-all disabled:opacity-30"
+          >
+            <Download size={12} />
+            <span>{selected ? t.history.exportSession : query || fromDate || toDate ? t.history.exportShown(sessions.length) : t.history.exportAll}</span>
+          </button>
+          {!selected && (
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="flex items-center space-x-2 px-4 py-2 rounded-full text-[11px] font-semibold border border-white/5 bg-white/5 hover:bg-white/10 text-slate-400 hover:text-slate-200 transition-all"
+            >
+              <Upload size={12} />
+              <span>{t.history.importJson}</span>
+            </button>
+          )}
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleImport(file);
+              e.target.value = '';
+            }}
+          />
+          {notice && <span className="text-[11px] text-slate-500">{notice}</span>}
+        </div>
+        <div className="p-8 bg-black/20 flex justify-between items-center">
+          <button onClick={handlePurge} className="text-xs text-rose-400/60 hover:text-rose-400 font-semibold tracking-wider transition-colors">{t.history.purge}</button>
+          <button onClick={onClose} className="px-8 py-3 bg-white/5 hover:bg-white/10 rounded-full text-xs font-semibold border border-white/5 transition-all">{t.history.close}</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HistoryModal;
@@ -0,0 +1,135 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ChartLine, X, Heart } from 'lucide-react';
+import { SessionRecord } from '../types';
+import { listSessions } from '../utils/journal';
+import { computeInsights, DeltaGroup, MoodPoint } from '../utils/insights';
+import { useStrings } from '../hooks/useStrings';
+
+interface InsightsModalProps {
+  onClose: () => void;
+}
+
+const CHART_WIDTH = 560;
+const CHART_HEIGHT = 180;
+const PADDING = 24;
+
+const formatDelta = (delta: number) => `${delta > 0 ? '+' : ''}${delta.toFixed(1)}`;
+
+const MoodChart: React.FC<{ points: MoodPoint[] }> = ({ points }) => {
+  const t = useStrings();
+  const moods = t.checkIn.moods;
+  const x = (i: number) => PADDING + (points.length === 1 ? 0.5 : i / (points.length - 1)) * (CHART_WIDTH - PADDING * 2);
+  const y = (mood: number) => CHART_HEIGHT - PADDING - ((mood - 1) / 4) * (CHART_HEIGHT - PADDING * 2);
+  const line = (key: 'before' | 'after') => points
+    .map((p, i) => p[key] !== undefined ? `${x(i)},${y(p[key]!)}` : null)
+    .filter(Boolean)
+    .join(' ');
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto" role="img" aria-label={t.insights.chart}>
+      {[1, 2, 3, 4, 5].map(m => (
+        <g key={m}>
+          <line x1={PADDING} x2={CHART_WIDTH - PADDING} y1={y(m)} y2={y(m)} stroke="#ffffff" strokeOpacity={0.05} />
+          <text x={0} y={y(m) + 3} fontSize={8} fill="#64748b">{moods[m - 1][0]}</text>
+        </g>
+      ))}
+      <polyline points={line('before')} fill="none" stroke="#64748b" strokeWidth={1.5} strokeDasharray="4 4" />
+      <polyline points={line('after')} fill="none" stroke="#818cf8" strokeWidth={2} />
+      {points.map((p, i) => (
+        <g key={p.sessionId}>
+          {p.before !== undefined && <circle cx={x(i)} cy={y(p.before)} r={3} fill="#020617" stroke="#64748b" strokeWidth={1.5} />}
+          {p.after !== undefined && <circle cx={x(i)} cy={y(p.after)} r={3.5} fill="#818cf8" />}
+          <title>{new Date(p.at).toLocaleDateString()}: {p.before !== undefined ? moods[p.before - 1] : '—'} → {p.after !== undefined ? moods[p.after - 1] : '—'}</title>
+        </g>
+      ))}
+    </svg>
+  );
+};
+
+const DeltaList: React.FC<{ title: string; groups: DeltaGroup[] }> = ({ title, groups }) => {
+  const t = useStrings();
+  return (
+    <div className="space-y-3">
+      <label className="text-xs font-bold text-slate-500 uppercase tracking-widest">{title}</label>
+      {groups.length === 0 ? (
+        <p className="text-xs text-slate-600">{t.insights.notEnough}</p>
+      ) : (
+        <ul className="space-y-2">
+          {groups.slice(0, 6).map(g => (
+            <li key={g.label} className="flex items-center space-x-3 text-xs">
+              <span className="flex-1 text-slate-300 truncate">{g.label}</span>
+              <span className="text-[10px] text-slate-600">{g.count}×</span>
+              <span className="w-24 h-1.5 bg-white/5 rounded-full overflow-hidden">
+                <span
+                  className={`block h-full rounded-full ${g.averageDelta >= 0 ? 'bg-indigo-400' : 'bg-rose-400/70'}`}
+                  style={{ width: `${Math.min(100, (Math.abs(g.averageDelta) / 4) * 100)}%` }}
+                />
+              </span>
+              <span className={`w-8 text-end font-semibold ${g.averageDelta >= 0 ? 'text-indigo-300' : 'text-rose-300'}`}>{formatDelta(g.averageDelta)}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+const InsightsModal: React.FC<InsightsModalProps> = ({ onClose }) => {
+  const t = useStrings();
+  const [sessions, setSessions] = useState<SessionRecord[] | null>(null);
+
+  useEffect(() => {
+    listSessions().then(setSessions).catch(() => setSessions([]));
+  }, []);
+
+  const insights = useMemo(() => sessions && computeInsights(sessions, t), [sessions, t]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-6 bg-slate-950/90 backdrop-blur-md animate-fade-in">
+      <div className="w-full max-w-2xl bg-slate-900/80 border border-white/10 rounded-[2.5rem] overflow-hidden shadow-2xl flex flex-col max-h-[85vh] animate-slide-up">
+        <div className="p-8 border-b border-white/5 flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <ChartLine size={20} className="text-indigo-400" />
+            <h3 className="text-xl font-semibold">{t.modals.insights}</h3>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-white/5 rounded-full transition-colors"><X size={20} /></button>
+        </div>
+        <div className="flex-1 overflow-y-auto p-8 space-y-8 scrollbar-hide">
+          {!insights ? null : insights.timeline.length === 0 ? (
+            <div className="text-center py-20 text-slate-600">
+              <div className="w-16 h-16 bg-white/5 rounded-full flex items-center justify-center mx-auto mb-4"><Heart size={24} className="opacity-20" /></div>
+              {t.insights.empty}
+            </div>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="bg-white/5 rounded-2xl p-4">
+                  <p className="text-[10px] text-slate-500 uppercase tracking-widest font-bold">{t.insights.moodShift}</p>
+                  <p className="text-2xl font-light text-slate-100">{insights.averageMoodDelta === null ? '—' : formatDelta(insights.averageMoodDelta)}</p>
+                </div>
+                <div className="bg-white/5 rounded-2xl p-4">
+                  <p className="text-[10px] text-slate-500 uppercase tracking-widest font-bold">{t.insights.energyShift}</p>
+                  <p className="text-2xl font-light text-slate-100">{insights.averageEnergyDelta === null ? '—' : formatDelta(insights.averageEnergyDelta)}</p>
+                </div>
+              </div>
+              <div className="space-y-3">
+                <label className="text-xs font-bold text-slate-500 uppercase tracking-widest">{t.insights.moodOverTime}</label>
+                <MoodChart points={insights.timeline} />
+                <p className="text-[10px] text-slate-600">{t.insights.legend}</p>
+              </div>
+              <DeltaList title={t.insights.byPersona} groups={insights.byPersona} />
+              <DeltaList title={t.insights.byPrompt} groups={insights.byPrompt} />
+              <DeltaList title={t.insights.byTopic} groups={insights.byTag} />
+            </>
+          )}
+        </div>
+        <div className="p-8 bg-black/20 flex justify-between items-center">
+          <span className="text-[10px] text-slate-600 uppercase tracking-widest">{t.insights.computedLocally}</span>
+          <button onClick={onClose} className="px-8 py-3 bg-white/5 hover:bg-white/10 rounded-full text-xs font-semibold border border-white/5 transition-all">{t.common.close}</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default InsightsModal;
@@ -0,0 +1,64 @@
+import React, { useState } from 'react';
+import { LockKeyhole } from 'lucide-react';
+import { unlockVault } from '../utils/vault';
+import WipeButton from './WipeButton';
+import { useStrings } from '../hooks/useStrings';
+
+const LockScreen: React.FC = () => {
+  const t = useStrings();
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [unlocking, setUnlocking] = useState(false);
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrase || unlocking) return;
+    setUnlocking(true);
+    setError(null);
+    try {
+      await unlockVault(passphrase);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t.vault.didntOpen);
+      setUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center p-6">
+      <div className="sanctuary-bg" />
+      <form onSubmit={handleUnlock} className="w-full max-w-sm space-y-8 text-center animate-slide-up">
+        <div className="w-16 h-16 bg-white/5 rounded-full flex items-center justify-center mx-auto">
+          <LockKeyhole size={24} className="text-indigo-300" />
+        </div>
+        <div className="space-y-2">
+          <h1 className="text-2xl font-light text-slate-100 italic">{t.vault.lockedTitle}</h1>
+          <p className="text-sm text-slate-500">{t.vault.lockedHint}</p>
+        </div>
+        <input
+          type="password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          autoFocus
+          autoComplete="current-password"
+          placeholder={t.vault.passphrase}
+          aria-label={t.vault.passphrase}
+          className="w-full bg-slate-950/50 border border-white/5 rounded-2xl px-4 py-3 text-sm focus:ring-2 focus:ring-indigo-500 outline-none text-slate-300"
+        />
+        {error && <p className="text-xs text-rose-300" role="alert">{error}</p>}
+        <button
+          type="submit"
+          disabled={!passphrase || unlocking}
+          className="w-full py-3 bg-indigo-600 hover:bg-indigo-500 rounded-full text-sm font-semibold transition-all shadow-lg shadow-indigo-900/20 active:scale-95 text-white disabled:opacity-30 disabled:active:scale-100"
+        >
+          {unlocking ? t.vault.opening : t.vault.unlock}
+        </button>
+        <div className="pt-8 space-y-3 flex flex-col items-center">
+          <p className="text-[11px] text-slate-600">{t.vault.forgotten}</p>
+          <WipeButton />
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default LockScreen;
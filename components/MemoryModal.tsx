@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { Brain, X, Trash2, Pencil, Eye, EyeOff, Check } from 'lucide-react';
+import { SessionMemory } from '../types';
+import { MEMORY_LIMIT } from '../utils/memory';
+import { useStrings } from '../hooks/useStrings';
+
+interface MemoryModalProps {
+  memories: SessionMemory[];
+  onChange: (memories: SessionMemory[]) => void;
+  onClose: () => void;
+}
+
+const actionClass = "flex items-center space-x-1.5 px-3 py-1.5 rounded-full text-[11px] font-semibold border border-white/5 bg-white/5 hover:bg-white/10 text-slate-400 hover:text-slate-200 transition-all";
+const fieldClass = "w-full bg-slate-950/50 border border-white/5 rounded-2xl px-4 py-3 text-xs focus:ring-2 focus:ring-indigo-500 outline-none text-slate-300";
+
+const toLines = (text: string) => text.split('\n').map(line => line.trim()).filter(Boolean);
+
+const MemoryEditor: React.FC<{ memory: SessionMemory; onSave: (memory: SessionMemory) => void; onCancel: () => void }> = ({ memory, onSave, onCancel }) => {
+  const t = useStrings();
+  const [summary, setSummary] = useState(memory.summary);
+  const [themes, setThemes] = useState(memory.themes.join(', '));
+  const [threads, setThreads] = useState(memory.openThreads.join('\n'));
+
+  return (
+    <div className="space-y-3">
+      <textarea value={summary} onChange={(e) => setSummary(e.target.value)} rows={4} className={`${fieldClass} resize-none`} aria-label={t.memories.summary} />
+      <input value={themes} onChange={(e) => setThemes(e.target.value)} placeholder={t.memories.themesPlaceholder} className={fieldClass} aria-label={t.memories.themes} />
+      <textarea value={threads} onChange={(e) => setThreads(e.target.value)} rows={3} placeholder={t.memories.threadsPlaceholder} className={`${fieldClass} resize-none`} aria-label={t.memories.threads} />
+      <div className="flex space-x-2">
+        <button
+          onClick={() => onSave({
+            ...memory,
+            summary: summary.trim(),
+            themes: themes.split(',').map(theme => theme.trim().toLowerCase()).filter(Boolean),
+            openThreads: toLines(threads),
+          })}
+          disabled={!summary.trim()}
+          className={`${actionClass} disabled:opacity-30`}
+        >
+          <Check size={12} /><span>{t.common.save}</span>
+        </button>
+        <button onClick={onCancel} className={actionClass}>{t.common.cancel}</button>
+      </div>
+    </div>
+  );
+};
+
+const MemoryModal: React.FC<MemoryModalProps> = ({ memories, onChange, onClose }) => {
+  const t = useStrings();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const sorted = [...memories].sort((a, b) => b.createdAt - a.createdAt);
+
+  const update = (memory: SessionMemory) => onChange(memories.map(m => m.id === memory.id ? memory : m));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-6 bg-slate-950/90 backdrop-blur-md animate-fade-in">
+      <div className="w-full max-w-2xl bg-slate-900/80 border border-white/10 rounded-[2.5rem] overflow-hidden shadow-2xl flex flex-col max-h-[85vh] animate-slide-up">
+        <div className="p-8 border-b border-white/5 flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <Brain size={20} className="text-indigo-400" />
+            <h3 className="text-xl font-semibold">{t.modals.memories}</h3>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-white/5 rounded-full transition-colors"><X size={20} /></button>
+        </div>
+        <div className="flex-1 overflow-y-auto p-8 space-y-4 scrollbar-hide">
+          <p className="text-xs text-slate-500 leading-relaxed">
+            {t.memories.intro(MEMORY_LIMIT)}
+          </p>
+          {sorted.length === 0 ? (
+            <div className="text-center py-16 text-slate-600">
+              <div className="w-16 h-16 bg-white/5 rounded-full flex items-center justify-center mx-auto mb-4"><Brain size={24} className="opacity-20" /></div>
+              {t.memories.empty}
+            </div>
+          ) : sorted.map(memory => (
+            <div key={memory.id} className={`p-5 rounded-3xl border space-y-3 ${memory.included ? 'bg-white/5 border-white/5' : 'bg-transparent border-white/5 opacity-60'}`}>
+              <div className="flex items-center justify-between">
+                <span className="text-[10px] text-slate-500 uppercase tracking-widest font-bold">
+                  {new Date(memory.createdAt).toLocaleDateString()} • {memory.personaName}
+                </span>
+                <div className="flex space-x-2">
+                  <button
+                    onClick={() => update({ ...memory, included: !memory.included })}
+                    className={actionClass}
+                    aria-pressed={memory.included}
+                    title={memory.included ? t.memories.sharedHint : t.memories.privateHint}
+                  >
+                    {memory.included ? <Eye size={12} /> : <EyeOff size={12} />}
+                    <span>{memory.included ? t.memories.shared : t.memories.private}</span>
+                  </button>
+                  <button onClick={() => setEditingId(memory.id)} className={actionClass} aria-label={t.memories.edit}><Pencil size={12} /></button>
+                  <button onClick={() => onChange(memories.filter(m => m.id !== memory.id))} className={`${actionClass} hover:text-rose-400`} aria-label={t.memories.delete}><Trash2 size={12} /></button>
+                </div>
+              </div>
+              {editingId === memory.id ? (
+                <MemoryEditor
+                  memory={memory}
+                  onSave={(next) => { update(next); setEditingId(null); }}
+                  onCancel={() => setEditingId(null)}
+                />
+              ) : (
+                <>
+                  <p className="text-sm text-slate-300 leading-relaxed">{memory.summary}</p>
+                  {memory.themes.length > 0 && (
+                    <div className="flex flex-wrap gap-1.5">
+                      {memory.themes.map(theme => (
+                        <span key={theme} className="px-2.5 py-1 rounded-full text-[10px] bg-indigo-500/10 text-indigo-200/80">{theme}</span>
+                      ))}
+                    </div>
+                  )}
+                  {memory.openThreads.length > 0 && (
+                    <ul className="text-xs text-slate-500 space-y-1 list-disc list-inside">
+                      {memory.openThreads.map((thread, i) => <li key={i}>{thread}</li>)}
+                    </ul>
+                  )}
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+        <div className="p-8 bg-black/20 flex justify-between items-center">
+          <button onClick={() => onChange([])} disabled={memories.length === 0} className="text-xs text-rose-400/60 hover:text-rose-400 font-semibold tracking-wider transition-colors disabled:opacity-30">{t.memories.forgetAll}</button>
+          <button onClick={onClose} className="px-8 py-3 bg-white/5 hover:bg-white/10 rounded-full text-xs font-semibold border border-white/5 transition-all">{t.common.close}</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MemoryModal;
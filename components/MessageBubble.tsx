@@ -0,0 +1,55 @@
+import React from 'react';
+import { Wrench } from 'lucide-react';
+import { Message } from '../types';
+
+interface MessageBubbleProps {
+  message: Message;
+  compact?: boolean;
+  /** Highlights the bubble, e.g. while its audio is playing. */
+  active?: boolean;
+  onClick?: () => void;
+}
+
+const TOOL_STATUS_CLASS = {
+  done: 'text-indigo-200/80 border-indigo-500/20',
+  declined: 'text-slate-500 border-white/5',
+  failed: 'text-amber-300/70 border-amber-500/20',
+};
+
+const MessageBubble: React.FC<MessageBubbleProps> = ({ message: m, compact = false, active = false, onClick }) => {
+  // Things the mirror did rather than said sit between the two voices.
+  if (m.tool) {
+    return (
+      <div className="flex justify-center" aria-current={active || undefined}>
+        <div className={`flex items-center space-x-2 px-4 py-1.5 rounded-full text-[11px] border bg-white/5 ${TOOL_STATUS_CLASS[m.tool.status]}`}>
+          <Wrench size={11} className="shrink-0" />
+          <span>{m.text}</span>
+        </div>
+      </div>
+    );
+  }
+
+  const className = `
+    max-w-[85%] rounded-[1.8rem] ${compact ? 'px-5 py-3' : 'px-6 py-4'} text-sm leading-relaxed whitespace-pre-wrap text-start transition-all
+    ${m.role === 'user' ? 'bg-indigo-600 text-white rounded-se-none' : 'bg-white/5 border border-white/10 text-slate-200 rounded-ss-none'}
+    ${active ? 'ring-2 ring-indigo-300/70 shadow-lg shadow-indigo-500/20' : ''}
+    ${onClick ? 'cursor-pointer hover:brightness-110' : ''}
+  `;
+
+  return (
+    <div className={`flex flex-col ${m.role === 'user' ? 'items-end' : 'items-start'} group`} aria-current={active || undefined}>
+      {onClick ? (
+        <button onClick={onClick} className={className}>{m.text}</button>
+      ) : (
+        <div className={className}>{m.text}</div>
+      )}
+      {!compact && (
+        <span className="text-[10px] text-slate-600 mt-2 px-2 font-medium opacity-0 group-hover:opacity-100 transition-opacity">
+          {new Date(m.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default MessageBubble;
@@ -0,0 +1,173 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Mic, Play, Square } from 'lucide-react';
+import { analyserLevelDb } from '../utils/audio';
+import { createMicCapture, CAPTURE_SAMPLE_RATE, MicCapture } from '../utils/capture';
+import { classifyError } from '../utils/connection';
+import { MicInput, MicSettings, openMicInput, routeOutput } from '../utils/devices';
+import { useStrings } from '../hooks/useStrings';
+
+interface MicTestProps {
+  settings: MicSettings;
+  outputDeviceId: string | null;
+  /** Where voice detection would trigger, drawn on the meter; null in push-to-talk. */
+  thresholdDb: number | null;
+  /** Called once the microphone opens, when device names become readable. */
+  onOpened: () => void;
+}
+
+type TestStatus = 'off' | 'starting' | 'listening' | 'recording' | 'playing';
+
+const LOOPBACK_MS = 3000;
+const METER_FLOOR_DB = -70;
+
+const actionClass = "flex items-center space-x-2 px-4 py-2 rounded-full text-[11px] font-semibold border border-white/5 bg-white/5 hover:bg-white/10 text-slate-400 hover:text-slate-200 transition-all disabled:opacity-30 disabled:pointer-events-none";
+
+const meterPercent = (db: number) => Math.min(100, Math.max(0, (db - METER_FLOOR_DB) / -METER_FLOOR_DB * 100));
+
+/**
+ * Opens the microphone with the settings being edited, shows its level on the
+ * same kind of analyser a session uses, and plays back a short recording
+ * through the chosen speaker.
+ */
+const MicTest: React.FC<MicTestProps> = ({ settings, outputDeviceId, thresholdDb, onOpened }) => {
+  const t = useStrings();
+  const [status, setStatus] = useState<TestStatus>('off');
+  const [levelDb, setLevelDb] = useState(METER_FLOOR_DB);
+  const [problem, setProblem] = useState<string | null>(null);
+  const ctxRef = useRef<AudioContext | null>(null);
+  const micRef = useRef<MicInput | null>(null);
+  const analyserRef = useRef<AnalyserNode | null>(null);
+  const captureRef = useRef<MicCapture | null>(null);
+  const sampleRef = useRef<AudioBufferSourceNode | null>(null);
+  const frameRef = useRef(0);
+
+  const stop = () => {
+    cancelAnimationFrame(frameRef.current);
+    captureRef.current?.stop();
+    captureRef.current = null;
+    sampleRef.current?.stop();
+    sampleRef.current = null;
+    micRef.current?.stop();
+    micRef.current = null;
+    analyserRef.current = null;
+    ctxRef.current?.close();
+    ctxRef.current = null;
+    setLevelDb(METER_FLOOR_DB);
+    setStatus('off');
+  };
+
+  useEffect(() => stop, []);
+
+  useEffect(() => {
+    micRef.current?.update(settings);
+  }, [settings.inputDeviceId, settings.echoCancellation, settings.noiseSuppression, settings.autoGainControl, settings.inputGain]);
+
+  const start = async () => {
+    setProblem(null);
+    setStatus('starting');
+    const ctx = new AudioContext();
+    ctxRef.current = ctx;
+    try {
+      const mic = await openMicInput(ctx, settings);
+      if (ctxRef.current !== ctx) {
+        mic.stop();
+        return;
+      }
+      micRef.current = mic;
+      const analyser = ctx.createAnalyser();
+      analyser.fftSize = 256;
+      mic.output.connect(analyser);
+      analyserRef.current = analyser;
+      setStatus('listening');
+      onOpened();
+
+      const samples = new Float32Array(analyser.fftSize);
+      const measure = () => {
+        setLevelDb(analyserLevelDb(analyser, METER_FLOOR_DB, samples));
+        frameRef.current = requestAnimationFrame(measure);
+      };
+      measure();
+    } catch (err) {
+      stop();
+      setProblem(classifyError(err).message);
+    }
+  };
+
+  const recordSample = async () => {
+    const ctx = ctxRef.current;
+    const mic = micRef.current;
+    if (!ctx || !mic) return;
+    setProblem(null);
+    setStatus('recording');
+    const frames: Int16Array[] = [];
+    let capture: MicCapture;
+    try {
+      capture = await createMicCapture(ctx, mic.output, (pcm) => frames.push(pcm));
+    } catch (err) {
+      if (ctxRef.current !== ctx) return;
+      setProblem(classifyError(err).message);
+      setStatus('listening');
+      return;
+    }
+    if (ctxRef.current !== ctx) {
+      capture.stop();
+      return;
+    }
+    captureRef.current = capture;
+    await new Promise(resolve => setTimeout(resolve, LOOPBACK_MS));
+    capture.stop();
+    if (captureRef.current !== capture) return;
+    captureRef.current = null;
+
+    const length = frames.reduce((n, f) => n + f.length, 0);
+    const buffer = ctx.createBuffer(1, Math.max(1, length), CAPTURE_SAMPLE_RATE);
+    const channel = buffer.getChannelData(0);
+    let offset = 0;
+    for (const frame of frames) {
+      for (let i = 0; i < frame.length; i++) channel[offset + i] = frame[i] / 32768;
+      offset += frame.length;
+    }
+    await routeOutput(ctx, outputDeviceId);
+    if (ctxRef.current !== ctx) return;
+    const sample = ctx.createBufferSource();
+    sample.buffer = buffer;
+    sample.connect(ctx.destination);
+    sample.onended = () => {
+      if (sampleRef.current !== sample) return;
+      sampleRef.current = null;
+      setStatus('listening');
+    };
+    sampleRef.current = sample;
+    setStatus('playing');
+    sample.start();
+  };
+
+  const active = status !== 'off' && status !== 'starting';
+
+  return (
+    <div className="space-y-3">
+      <div className="relative h-2 rounded-full bg-slate-950/50 overflow-hidden" role="meter" aria-label={t.audio.level} aria-valuemin={METER_FLOOR_DB} aria-valuemax={0} aria-valuenow={Math.round(levelDb)}>
+        <div className="absolute inset-y-0 start-0 bg-indigo-500 transition-[width] duration-75" style={{ width: `${meterPercent(levelDb)}%` }} />
+        {thresholdDb !== null && (
+          <div className="absolute inset-y-0 w-px bg-amber-300/80" style={{ insetInlineStart: `${meterPercent(thresholdDb)}%` }} title={t.audio.threshold} />
+        )}
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {active ? (
+          <>
+            <button onClick={recordSample} disabled={status !== 'listening'} className={actionClass}>
+              <Play size={12} />
+              <span>{status === 'recording' ? t.audio.recording : status === 'playing' ? t.audio.playingBack : t.audio.recordSample(LOOPBACK_MS / 1000)}</span>
+            </button>
+            <button onClick={stop} className={actionClass}><Square size={12} /><span>{t.audio.stopTest}</span></button>
+          </>
+        ) : (
+          <button onClick={start} disabled={status === 'starting'} className={actionClass}><Mic size={12} /><span>{t.audio.testMicrophone}</span></button>
+        )}
+      </div>
+      {problem && <p className="text-xs text-rose-300">{problem}</p>}
+    </div>
+  );
+};
+
+export default MicTest;
@@ -0,0 +1,56 @@
+import React from 'react';
+import { Pause, Play, Volume1 } from 'lucide-react';
+import { PLAYBACK_RATES } from '../utils/playback';
+import { useStrings } from '../hooks/useStrings';
+
+interface PlaybackControlsProps {
+  volume: number;
+  playbackRate: number;
+  paused: boolean;
+  onVolumeChange: (volume: number) => void;
+  onPlaybackRateChange: (rate: number) => void;
+  onTogglePause: () => void;
+}
+
+const PlaybackControls: React.FC<PlaybackControlsProps> = ({
+  volume, playbackRate, paused, onVolumeChange, onPlaybackRateChange, onTogglePause,
+}) => {
+  const t = useStrings();
+  return (
+    <div className="flex items-center space-x-4 px-4 py-2 bg-slate-900/40 border border-slate-800/50 rounded-full text-slate-500">
+      <button
+        onClick={onTogglePause}
+        className="p-1.5 rounded-full hover:text-indigo-200 hover:bg-white/5 transition-all"
+        aria-label={paused ? t.playback.resume : t.playback.pause}
+        title={paused ? t.playback.resumeShort : t.playback.pauseShort}
+      >
+        {paused ? <Play size={14} /> : <Pause size={14} />}
+      </button>
+      <label className="flex items-center space-x-2">
+        <Volume1 size={14} aria-hidden />
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.05}
+          value={volume}
+          onChange={(e) => onVolumeChange(Number(e.target.value))}
+          className="w-20 accent-indigo-500"
+          aria-label={t.playback.volume}
+        />
+      </label>
+      <select
+        value={playbackRate}
+        onChange={(e) => onPlaybackRateChange(Number(e.target.value))}
+        className="bg-transparent text-[11px] font-semibold outline-none cursor-pointer hover:text-slate-300"
+        aria-label={t.playback.speed}
+      >
+        {PLAYBACK_RATES.map(rate => (
+          <option key={rate} value={rate} className="bg-slate-900">{rate}×</option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+export default PlaybackControls;
@@ -0,0 +1,85 @@
+import React, { useId } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { DailyReminder } from '../types';
+import { DAILY_LATE_MS, requestReminderPermission } from '../utils/reminders';
+import { useStrings } from '../hooks/useStrings';
+
+interface ReminderSettingsProps {
+  reminders: DailyReminder[];
+  /** Offered as suggestions for the opening line; anything else can be typed. */
+  starterPrompts: string[];
+  onChange: (reminders: DailyReminder[]) => void;
+}
+
+const inputClass = "bg-slate-950/50 border border-white/5 rounded-xl px-3 py-2 text-xs focus:ring-2 focus:ring-indigo-500 outline-none text-slate-300";
+const actionClass = "flex items-center space-x-2 px-4 py-2 rounded-full text-[11px] font-semibold border border-white/5 bg-white/5 hover:bg-white/10 text-slate-400 hover:text-slate-200 transition-all";
+
+const notificationsBlocked = () => typeof Notification === 'undefined' || Notification.permission === 'denied';
+
+/**
+ * Daily reminders the person sets up, each opening a session with its own starter prompt.
+ */
+const ReminderSettings: React.FC<ReminderSettingsProps> = ({ reminders, starterPrompts, onChange }) => {
+  const t = useStrings();
+  const suggestionsId = useId();
+
+  const update = (id: string, changes: Partial<DailyReminder>) =>
+    onChange(reminders.map(r => r.id === id ? { ...r, ...changes } : r));
+
+  const add = () => {
+    requestReminderPermission();
+    onChange([...reminders, { id: crypto.randomUUID(), label: t.reminders.defaultLabel, time: '20:00', starterPrompt: starterPrompts[0] ?? '', enabled: true }]);
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-slate-500 leading-relaxed">
+        {notificationsBlocked() ? t.reminders.notificationsOff : t.reminders.notificationsOn}
+      </p>
+      <p className="text-xs text-slate-400 leading-relaxed">{t.reminders.whileOpen(DAILY_LATE_MS / 60000)}</p>
+      <datalist id={suggestionsId}>
+        {starterPrompts.map(prompt => <option key={prompt} value={prompt} />)}
+      </datalist>
+      {reminders.map(reminder => (
+        <div key={reminder.id} className={`space-y-2 p-3 rounded-2xl border border-white/5 bg-slate-950/30 ${reminder.enabled ? '' : 'opacity-60'}`}>
+          <div className="flex items-center gap-2">
+            <input
+              value={reminder.label}
+              onChange={(e) => update(reminder.id, { label: e.target.value })}
+              className={`${inputClass} flex-1 min-w-0`}
+              aria-label={t.reminders.name}
+            />
+            <input
+              type="time"
+              value={reminder.time}
+              onChange={(e) => update(reminder.id, { time: e.target.value })}
+              className={inputClass}
+              aria-label={t.reminders.time}
+            />
+            <button
+              onClick={() => update(reminder.id, { enabled: !reminder.enabled })}
+              aria-pressed={reminder.enabled}
+              className={`px-3 py-2 rounded-xl text-[11px] font-medium border transition-all ${reminder.enabled ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-slate-950/30 border-white/5 text-slate-500 hover:border-white/20'}`}
+            >
+              {reminder.enabled ? t.common.on : t.common.off}
+            </button>
+            <button onClick={() => onChange(reminders.filter(r => r.id !== reminder.id))} className="p-2 rounded-full text-slate-500 hover:text-rose-400 transition-colors" aria-label={t.reminders.delete}>
+              <Trash2 size={14} />
+            </button>
+          </div>
+          <input
+            list={suggestionsId}
+            value={reminder.starterPrompt}
+            onChange={(e) => update(reminder.id, { starterPrompt: e.target.value })}
+            placeholder={t.reminders.openingLine}
+            className={`${inputClass} w-full`}
+            aria-label={t.reminders.starterPrompt}
+          />
+        </div>
+      ))}
+      <button onClick={add} className={actionClass}><Plus size={12} /><span>{t.reminders.add}</span></button>
+    </div>
+  );
+};
+
+export default ReminderSettings;
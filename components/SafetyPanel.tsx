@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { HeartHandshake, ChevronDown, ChevronUp, Phone } from 'lucide-react';
+import { SupportRegion, SUPPORT_REGIONS, INTERNATIONAL_REGION } from '../data/hotlines';
+import { useStrings } from '../hooks/useStrings';
+
+interface SafetyPanelProps {
+  region: SupportRegion;
+  onRegionChange: (code: string) => void;
+}
+
+/**
+ * Support resources shown after the safety layer notices distress. It has no
+ * close button on purpose: it can be folded down, but stays until the next session.
+ */
+const SafetyPanel: React.FC<SafetyPanelProps> = ({ region, onRegionChange }) => {
+  const t = useStrings();
+  const [collapsed, setCollapsed] = useState(false);
+  const international = region.code === INTERNATIONAL_REGION.code;
+
+  return (
+    <aside
+      role="region"
+      aria-live="polite"
+      aria-label={t.safety.resources}
+      className="fixed bottom-6 right-6 left-6 sm:left-auto sm:w-96 z-40 bg-slate-900/90 border border-teal-400/20 rounded-[2rem] shadow-2xl backdrop-blur-xl animate-slide-up"
+    >
+      <button
+        onClick={() => setCollapsed(c => !c)}
+        className="w-full flex items-center justify-between px-6 py-4 text-start"
+        aria-expanded={!collapsed}
+      >
+        <span className="flex items-center space-x-3">
+          <HeartHandshake size={18} className="text-teal-300" />
+          <span className="text-sm font-semibold text-slate-100">{t.safety.title}</span>
+        </span>
+        {collapsed ? <ChevronUp size={16} className="text-slate-500" /> : <ChevronDown size={16} className="text-slate-500" />}
+      </button>
+      {!collapsed && (
+        <div className="px-6 pb-6 space-y-4">
+          <p className="text-xs leading-relaxed text-slate-400">
+            {t.safety.body(international ? t.safety.localEmergency : region.emergency)}
+          </p>
+          <ul className="space-y-2">
+            {region.lines.map(line => (
+              <li key={line.name}>
+                <a
+                  href={line.href}
+                  className="flex items-center justify-between px-4 py-3 bg-teal-400/5 hover:bg-teal-400/10 border border-teal-400/10 rounded-2xl transition-colors"
+                >
+                  <span>
+                    <span className="block text-sm text-slate-100">{line.name}</span>
+                    <span className="block text-xs text-slate-400">{line.contact}{line.hours ? ` • ${line.hours}` : ''}</span>
+                  </span>
+                  {line.href && <Phone size={14} className="text-teal-300" />}
+                </a>
+              </li>
+            ))}
+          </ul>
+          <label className="flex items-center justify-between text-[10px] uppercase tracking-widest font-bold text-slate-500">
+            <span>{t.safety.region}</span>
+            <select
+              value={region.code}
+              onChange={(e) => onRegionChange(e.target.value)}
+              className="bg-slate-950/50 border border-white/5 rounded-xl px-3 py-2 text-xs normal-case tracking-normal font-medium text-slate-300 outline-none"
+            >
+              {[...SUPPORT_REGIONS, INTERNATIONAL_REGION].map(r => (
+                <option key={r.code} value={r.code}>{r === INTERNATIONAL_REGION ? t.safety.anywhereElse : r.label}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+      )}
+    </aside>
+  );
+};
+
+export default SafetyPanel;
@@ -0,0 +1,93 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Download } from 'lucide-react';
+import { Message, SessionRecord, SessionRecording } from '../types';
+import { getRecording } from '../utils/journal';
+import { downloadFile } from '../utils/download';
+import MessageBubble from './MessageBubble';
+import { useStrings } from '../hooks/useStrings';
+
+interface SessionPlaybackProps {
+  session: SessionRecord;
+  messages: Message[];
+}
+
+/**
+ * Shows a session's transcript and, when a recording exists, plays it back in
+ * sync: clicking a bubble seeks there, and the bubble being heard is highlighted.
+ */
+const SessionPlayback: React.FC<SessionPlaybackProps> = ({ session, messages }) => {
+  const t = useStrings();
+  const [recording, setRecording] = useState<SessionRecording | null>(null);
+  const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  const [currentTime, setCurrentTime] = useState(0);
+  const audioRef = useRef<HTMLAudioElement>(null);
+
+  useEffect(() => {
+    if (!session.hasRecording) return;
+    let url: string | null = null;
+    let cancelled = false;
+    getRecording(session.id).then(result => {
+      if (cancelled || !result) return;
+      url = URL.createObjectURL(result.blob);
+      setRecording(result);
+      setAudioUrl(url);
+    }).catch(err => console.error('Failed to load recording', err));
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+      setRecording(null);
+      setAudioUrl(null);
+    };
+  }, [session.id, session.hasRecording]);
+
+  const offsetOf = (m: Message) => recording ? Math.max(0, (m.timestamp - recording.startedAt) / 1000) : 0;
+
+  const activeId = useMemo(() => {
+    if (!recording || currentTime === 0) return null;
+    let active: Message | null = null;
+    for (const m of [...session.messages].sort((a, b) => a.timestamp - b.timestamp)) {
+      if ((m.timestamp - recording.startedAt) / 1000 <= currentTime) active = m;
+    }
+    return active?.id ?? null;
+  }, [recording, currentTime, session.messages]);
+
+  const seekTo = (m: Message) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.currentTime = offsetOf(m);
+    audio.play().catch(() => {});
+  };
+
+  return (
+    <div className="space-y-6">
+      {recording && audioUrl && (
+        <div className="sticky top-0 z-10 flex items-center space-x-3 bg-slate-900/95 backdrop-blur-xl rounded-full p-2 border border-white/5">
+          <audio
+            ref={audioRef}
+            src={audioUrl}
+            controls
+            onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+            className="flex-1 h-10"
+          />
+          <button
+            onClick={() => downloadFile(`egomirror-session-${new Date(session.startedAt).toISOString().slice(0, 10)}.wav`, recording.blob, 'audio/wav')}
+            className="p-3 rounded-full text-slate-400 hover:text-white hover:bg-white/5 transition-all"
+            aria-label={t.history.downloadRecording}
+          >
+            <Download size={16} />
+          </button>
+        </div>
+      )}
+      {messages.map(m => (
+        <MessageBubble
+          key={m.id}
+          message={m}
+          active={m.id === activeId}
+          onClick={recording ? () => seekTo(m) : undefined}
+        />
+      ))}
+    </div>
+  );
+};
+
+export default SessionPlayback;
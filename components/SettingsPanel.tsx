@@ -0,0 +1,426 @@
+import React, { useRef, useState } from 'react';
+import { X, Plus, Copy, RotateCcw, Trash2, Upload, Download } from 'lucide-react';
+import { AppPreferences, InputMode, PersonaConfig, PersonaLibrary, ToolPermission } from '../types';
+import {
+  AVATAR_COLORS, VOICE_NAMES, createPersona, starterPromptsFor, duplicatePersona, resetPersona, exportPersonas, importPersonas,
+} from '../utils/personas';
+import { downloadFile } from '../utils/download';
+import VaultSettings from './VaultSettings';
+import AudioSettings from './AudioSettings';
+import ReminderSettings from './ReminderSettings';
+import { describeKeyCode } from '../utils/inputGate';
+import { resolveVisualizerTheme, VISUALIZER_MODES, VISUALIZER_THEMES } from '../utils/visualizer';
+import { TOOL_REGISTRY } from '../utils/tools';
+import { CAPTION_SIZES } from '../utils/captions';
+import { LANGUAGES } from '../utils/i18n';
+import { useStrings } from '../hooks/useStrings';
+
+interface SettingsPanelProps {
+  library: PersonaLibrary;
+  prefs: AppPreferences;
+  onSave: (library: PersonaLibrary, prefs: AppPreferences) => void;
+  onClose: () => void;
+}
+
+const sectionLabel = "text-xs font-bold text-slate-500 uppercase tracking-widest";
+const optionClass = (selected: boolean) =>
+  `py-3 rounded-xl text-xs font-medium border transition-all ${selected ? 'bg-indigo-600 border-indigo-500 shadow-lg shadow-indigo-500/20 text-white' : 'bg-slate-950/30 border-white/5 text-slate-500 hover:border-white/20'}`;
+const actionClass = "flex items-center space-x-2 px-4 py-2 rounded-full text-[11px] font-semibold border border-white/5 bg-white/5 hover:bg-white/10 text-slate-400 hover:text-slate-200 transition-all disabled:opacity-30 disabled:pointer-events-none";
+
+const TOOL_PERMISSIONS: ToolPermission[] = ['always', 'ask', 'never'];
+
+const exportFilename = (label: string) =>
+  `egomirror-${label.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'personas'}.json`;
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ library, prefs, onSave, onClose }) => {
+  const t = useStrings();
+  const [draft, setDraft] = useState<PersonaLibrary>(library);
+  const [draftPrefs, setDraftPrefs] = useState<AppPreferences>(prefs);
+  const [editingId, setEditingId] = useState(library.activeId);
+  const [importNotice, setImportNotice] = useState<string | null>(null);
+  const [capturingKey, setCapturingKey] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const editing = draft.personas.find(p => p.id === editingId) || draft.personas[0];
+
+  const updateEditing = (changes: Partial<PersonaConfig>) => {
+    setDraft(d => ({ ...d, personas: d.personas.map(p => p.id === editing.id ? { ...p, ...changes } : p) }));
+  };
+
+  const addPersona = (persona: PersonaConfig) => {
+    setDraft(d => ({ ...d, personas: [...d.personas, persona] }));
+    setEditingId(persona.id);
+  };
+
+  const removeEditing = () => {
+    const remaining = draft.personas.filter(p => p.id !== editing.id);
+    if (remaining.length === 0) return;
+    setDraft({ activeId: draft.activeId === editing.id ? remaining[0].id : draft.activeId, personas: remaining });
+    setEditingId(remaining[0].id);
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const imported = importPersonas(await file.text());
+      setDraft(d => ({ ...d, personas: [...d.personas, ...imported] }));
+      if (imported[0]) setEditingId(imported[0].id);
+      setImportNotice(t.settings.welcomed(imported.length));
+    } catch (err: any) {
+      setImportNotice(err.message);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-6 bg-slate-950/90 backdrop-blur-md animate-fade-in">
+      <div className="w-full max-w-2xl bg-slate-900/80 border border-white/10 rounded-[2.5rem] overflow-hidden shadow-2xl flex flex-col max-h-[85vh] animate-slide-up">
+        <div className="p-8 border-b border-white/5 flex items-center justify-between">
+          <h3 className="text-xl font-semibold">{t.modals.settings}</h3>
+          <button onClick={onClose} className="p-2 hover:bg-white/5 rounded-full transition-colors"><X size={20} /></button>
+        </div>
+        <div className="flex-1 overflow-y-auto p-8 space-y-8 scrollbar-hide">
+          <div className="space-y-3">
+            <label className={sectionLabel}>{t.settings.personaLibrary}</label>
+            <div className="flex flex-wrap gap-2">
+              {draft.personas.map(p => (
+                <button
+                  key={p.id}
+                  onClick={() => setEditingId(p.id)}
+                  className={`flex items-center space-x-2 ps-2 pe-4 py-2 rounded-full text-xs font-medium border transition-all ${p.id === editing.id ? 'bg-white/10 border-white/20 text-white' : 'bg-slate-950/30 border-white/5 text-slate-500 hover:border-white/20'}`}
+                >
+                  <span className="w-5 h-5 rounded-full" style={{ backgroundColor: p.avatarColor }} />
+                  <span>{p.name}</span>
+                  {p.id === draft.activeId && <span className="text-[9px] uppercase tracking-widest text-indigo-400">{t.settings.active}</span>}
+                </button>
+              ))}
+              <button onClick={() => addPersona(createPersona())} className="p-2 rounded-full border border-dashed border-white/10 text-slate-500 hover:text-white hover:border-white/30 transition-all" aria-label={t.settings.newPersona}>
+                <Plus size={16} />
+              </button>
+            </div>
+            <div className="flex flex-wrap gap-2 pt-1">
+              <button onClick={() => setDraft(d => ({ ...d, activeId: editing.id }))} disabled={draft.activeId === editing.id} className={actionClass}>
+                <span>{t.settings.useThisMirror}</span>
+              </button>
+              <button onClick={() => addPersona(duplicatePersona(editing))} className={actionClass}><Copy size={12} /><span>{t.settings.duplicate}</span></button>
+              <button onClick={() => updateEditing(resetPersona(editing))} className={actionClass}><RotateCcw size={12} /><span>{t.settings.reset}</span></button>
+              <button onClick={() => downloadFile(exportFilename(editing.name), exportPersonas([editing]), 'application/json')} className={actionClass}><Download size={12} /><span>{t.settings.export}</span></button>
+              <button onClick={removeEditing} disabled={draft.personas.length <= 1} className={`${actionClass} hover:text-rose-400`}><Trash2 size={12} /><span>{t.settings.delete}</span></button>
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <label className={sectionLabel}>{t.settings.name}</label>
+            <input
+              value={editing.name}
+              onChange={(e) => updateEditing({ name: e.target.value })}
+              className="w-full bg-slate-950/50 border border-white/5 rounded-2xl px-4 py-3 text-sm focus:ring-2 focus:ring-indigo-500 outline-none text-slate-300"
+            />
+          </div>
+          <div className="space-y-3">
+            <label className={sectionLabel}>{t.settings.aura}</label>
+            <div className="flex flex-wrap gap-3">
+              {AVATAR_COLORS.map(color => (
+                <button
+                  key={color}
+                  onClick={() => updateEditing({ avatarColor: color })}
+                  className={`w-8 h-8 rounded-full transition-all ${editing.avatarColor === color ? 'ring-2 ring-white ring-offset-2 ring-offset-slate-900 scale-110' : 'opacity-60 hover:opacity-100'}`}
+                  style={{ backgroundColor: color }}
+                  aria-label={t.settings.auraColor(color)}
+                />
+              ))}
+            </div>
+          </div>
+          <div className="space-y-3">
+            <label className={sectionLabel}>{t.settings.mirrorColours}</label>
+            <div className="grid grid-cols-3 gap-2">
+              {VISUALIZER_THEMES.map(theme => {
+                const colors = resolveVisualizerTheme({ avatarColor: editing.avatarColor, visualTheme: theme.id });
+                return (
+                  <button key={theme.id} onClick={() => updateEditing({ visualTheme: theme.id })} className={`${optionClass(editing.visualTheme === theme.id)} flex items-center justify-center space-x-2`}>
+                    <span className="flex -space-x-1">
+                      <span className="w-3 h-3 rounded-full" style={{ backgroundColor: colors.user }} />
+                      <span className="w-3 h-3 rounded-full" style={{ backgroundColor: colors.model }} />
+                    </span>
+                    <span>{t.settings.themes[theme.id]}</span>
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+          <div className="space-y-3">
+            <label className={sectionLabel}>{t.settings.instruction}</label>
+            <textarea
+              value={editing.instruction}
+              onChange={(e) => updateEditing({ instruction: e.target.value })}
+              className="w-full h-40 bg-slate-950/50 border border-white/5 rounded-2xl p-4 text-sm leading-relaxed focus:ring-2 focus:ring-indigo-500 outline-none resize-none scrollbar-hide text-slate-300"
+              placeholder={t.settings.instructionPlaceholder}
+            />
+          </div>
+          <div className="space-y-3">
+            <label className={sectionLabel}>{t.settings.voice}</label>
+            <div className="grid grid-cols-3 gap-2">
+              {VOICE_NAMES.map(v => (
+                <button key={v} onClick={() => updateEditing({ voiceName: v })} className={optionClass(editing.voiceName === v)}>
+                  {v}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="space-y-3">
+            <label className={sectionLabel}>{t.settings.starterPrompts}</label>
+            <textarea
+              value={editing.starterPrompts.join('\n')}
+              onChange={(e) => updateEditing({ starterPrompts: e.target.value.split('\n') })}
+              onBlur={() => updateEditing({ starterPrompts: editing.starterPrompts.map(p => p.trim()).filter(Boolean) })}
+              className="w-full h-32 bg-slate-950/50 border border-white/5 rounded-2xl p-4 text-sm leading-relaxed focus:ring-2 focus:ring-indigo-500 outline-none resize-none scrollbar-hide text-slate-300"
+              placeholder={t.settings.starterPromptsPlaceholder}
+            />
+          </div>
+          <div className="space-y-3">
+            <label className={sectionLabel}>{t.settings.rememberMe}</label>
+            <p className="text-xs text-slate-500 leading-relaxed">{t.settings.rememberMeHint}</p>
+            <div className="grid grid-cols-2 gap-2">
+              {([true, false] as const).map(rememberMe => (
+                <button key={String(rememberMe)} onClick={() => updateEditing({ rememberMe })} className={optionClass(editing.rememberMe === rememberMe)}>
+                  {rememberMe ? t.common.on : t.common.off}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <label className={sectionLabel}>{t.settings.language}</label>
+            <p className="text-xs text-slate-500 leading-relaxed">{t.settings.languageHint}</p>
+            <div className="grid grid-cols-3 gap-2" role="radiogroup" aria-label={t.settings.language}>
+              {[{ code: null, label: t.settings.followBrowser }, ...LANGUAGES].map(({ code, label }) => (
+                <button
+                  key={code ?? 'browser'}
+                  role="radio"
+                  aria-checked={draftPrefs.language === code}
+                  lang={code ?? undefined}
+                  onClick={() => setDraftPrefs({ ...draftPrefs, language: code })}
+                  className={optionClass(draftPrefs.language === code)}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <label className={sectionLabel}>{t.settings.replyStyle}</label>
+            <div className="grid grid-cols-2 gap-2">
+              {([false, true] as const).map(textReplies => (
+                <button key={String(textReplies)} onClick={() => setDraftPrefs({ ...draftPrefs, textReplies })} className={optionClass(draftPrefs.textReplies === textReplies)}>
+                  {textReplies ? t.settings.textOnly : t.settings.spoken}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <label className={sectionLabel}>{t.settings.visualizer}</label>
+            <div className="grid grid-cols-3 gap-2">
+              {VISUALIZER_MODES.map(id => (
+                <button key={id} onClick={() => setDraftPrefs({ ...draftPrefs, visualizerMode: id })} className={optionClass(draftPrefs.visualizerMode === id)}>
+                  {t.settings.visualizerModes[id]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <label className={sectionLabel}>{t.settings.captions}</label>
+            <p className="text-xs text-slate-500 leading-relaxed">{t.settings.captionsHint}</p>
+            <div className="grid grid-cols-2 gap-2">
+              {([true, false] as const).map(showCaptions => (
+                <button key={String(showCaptions)} onClick={() => setDraftPrefs({ ...draftPrefs, showCaptions })} className={optionClass(draftPrefs.showCaptions === showCaptions)}>
+                  {showCaptions ? t.common.on : t.common.off}
+                </button>
+              ))}
+            </div>
+            {draftPrefs.showCaptions && (
+              <div className="grid grid-cols-3 gap-2" role="radiogroup" aria-label={t.settings.captionSize}>
+                {CAPTION_SIZES.map(id => (
+                  <button key={id} role="radio" aria-checked={draftPrefs.captionSize === id} onClick={() => setDraftPrefs({ ...draftPrefs, captionSize: id })} className={optionClass(draftPrefs.captionSize === id)}>
+                    {t.settings.captionSizes[id]}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-3">
+            <label className={sectionLabel}>{t.settings.audio}</label>
+            <AudioSettings prefs={draftPrefs} onChange={changes => setDraftPrefs(p => ({ ...p, ...changes }))} />
+          </div>
+
+          <div className="space-y-3">
+            <label className={sectionLabel}>{t.settings.voiceInput}</label>
+            <div className="grid grid-cols-2 gap-2">
+              {(['vad', 'push-to-talk'] as InputMode[]).map(inputMode => (
+                <button key={inputMode} onClick={() => setDraftPrefs({ ...draftPrefs, inputMode })} className={optionClass(draftPrefs.inputMode === inputMode)}>
+                  {inputMode === 'vad' ? t.settings.alwaysListening : t.settings.pushToTalk}
+                </button>
+              ))}
+            </div>
+            {draftPrefs.inputMode === 'vad' ? (
+              <div className="space-y-4 pt-2">
+                <label className="block space-y-2">
+                  <span className="flex justify-between text-xs text-slate-500">
+                    <span>{t.settings.sensitivity}</span>
+                    <span>{draftPrefs.vadThresholdDb} dB</span>
+                  </span>
+                  {/* The slider runs from least to most sensitive, i.e. from a high threshold down to a low one. */}
+                  <input
+                    type="range"
+                    min={20}
+                    max={65}
+                    value={-draftPrefs.vadThresholdDb}
+                    onChange={(e) => setDraftPrefs({ ...draftPrefs, vadThresholdDb: -Number(e.target.value) })}
+                    className="w-full accent-indigo-500"
+                  />
+                </label>
+                <label className="block space-y-2">
+                  <span className="flex justify-between text-xs text-slate-500">
+                    <span>{t.settings.answerPause}</span>
+                    <span>{(draftPrefs.vadHangoverMs / 1000).toFixed(1)}s</span>
+                  </span>
+                  <input
+                    type="range"
+                    min={300}
+                    max={3000}
+                    step={100}
+                    value={draftPrefs.vadHangoverMs}
+                    onChange={(e) => setDraftPrefs({ ...draftPrefs, vadHangoverMs: Number(e.target.value) })}
+                    className="w-full accent-indigo-500"
+                  />
+                </label>
+              </div>
+            ) : (
+              <div className="flex items-center justify-between pt-2">
+                <span className="text-xs text-slate-500">{t.settings.talkKey}</span>
+                <button
+                  onClick={() => setCapturingKey(true)}
+                  onKeyDown={(e) => {
+                    if (!capturingKey) return;
+                    e.preventDefault();
+                    if (e.code !== 'Escape') setDraftPrefs({ ...draftPrefs, pushToTalkKey: e.code });
+                    setCapturingKey(false);
+                  }}
+                  onBlur={() => setCapturingKey(false)}
+                  className={actionClass}
+                >
+                  {capturingKey ? t.settings.pressKey : describeKeyCode(draftPrefs.pushToTalkKey)}
+                </button>
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-3">
+            <label className={sectionLabel}>{t.settings.moodCheckIns}</label>
+            <div className="grid grid-cols-2 gap-2">
+              {([true, false] as const).map(moodCheckIns => (
+                <button key={String(moodCheckIns)} onClick={() => setDraftPrefs({ ...draftPrefs, moodCheckIns })} className={optionClass(draftPrefs.moodCheckIns === moodCheckIns)}>
+                  {moodCheckIns ? t.settings.offer : t.settings.never}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <label className={sectionLabel}>{t.settings.reminders}</label>
+            <ReminderSettings
+              reminders={draftPrefs.dailyReminders}
+              starterPrompts={starterPromptsFor(draft.personas.find(p => p.id === draft.activeId) ?? editing)}
+              onChange={dailyReminders => setDraftPrefs(p => ({ ...p, dailyReminders }))}
+            />
+          </div>
+
+          <div className="space-y-3">
+            <label className={sectionLabel}>{t.settings.recordings}</label>
+            <p className="text-xs text-slate-500 leading-relaxed">{t.settings.recordingsHint}</p>
+            <div className="grid grid-cols-2 gap-2">
+              {([false, true] as const).map(recordAudio => (
+                <button key={String(recordAudio)} onClick={() => setDraftPrefs({ ...draftPrefs, recordAudio })} className={optionClass(draftPrefs.recordAudio === recordAudio)}>
+                  {recordAudio ? t.common.on : t.common.off}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <label className={sectionLabel}>{t.settings.safety}</label>
+            <p className="text-xs text-slate-500 leading-relaxed">{t.settings.safetyHint}</p>
+            <div className="grid grid-cols-2 gap-2">
+              {([true, false] as const).map(safetyAddendum => (
+                <button key={String(safetyAddendum)} onClick={() => setDraftPrefs({ ...draftPrefs, safetyAddendum })} className={optionClass(draftPrefs.safetyAddendum === safetyAddendum)}>
+                  {safetyAddendum ? t.common.on : t.common.off}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <label className={sectionLabel}>{t.settings.actions}</label>
+            <p className="text-xs text-slate-500 leading-relaxed">{t.settings.actionsHint}</p>
+            <div className="space-y-4 pt-1">
+              {TOOL_REGISTRY.map(tool => (
+                <div key={tool.name} className="space-y-2">
+                  <div>
+                    <span className="text-xs text-slate-300">{tool.label}</span>
+                    <p className="text-[11px] text-slate-500">{tool.description}</p>
+                  </div>
+                  <div className="grid grid-cols-3 gap-2" role="radiogroup" aria-label={tool.label}>
+                    {TOOL_PERMISSIONS.map(id => (
+                      <button
+                        key={id}
+                        role="radio"
+                        aria-checked={draftPrefs.toolPermissions[tool.name] === id}
+                        onClick={() => setDraftPrefs({ ...draftPrefs, toolPermissions: { ...draftPrefs.toolPermissions, [tool.name]: id } })}
+                        className={optionClass(draftPrefs.toolPermissions[tool.name] === id)}
+                      >
+                        {t.settings.permissions[id]}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <label className={sectionLabel}>{t.settings.vault}</label>
+            <VaultSettings />
+          </div>
+
+          <div className="space-y-3">
+            <label className={sectionLabel}>{t.settings.sharePersonas}</label>
+            <div className="flex flex-wrap gap-2">
+              <button onClick={() => fileInputRef.current?.click()} className={actionClass}><Upload size={12} /><span>{t.settings.import}</span></button>
+              <button onClick={() => downloadFile(exportFilename('personas'), exportPersonas(draft.personas), 'application/json')} className={actionClass}><Download size={12} /><span>{t.settings.exportAll}</span></button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleImport(file);
+                  e.target.value = '';
+                }}
+              />
+            </div>
+            {importNotice && <p className="text-xs text-slate-500">{importNotice}</p>}
+          </div>
+        </div>
+        <div className="p-8 bg-black/20 flex justify-end">
+          <button onClick={() => onSave(draft, draftPrefs)} className="px-10 py-3 bg-indigo-600 hover:bg-indigo-500 rounded-full text-sm font-semibold transition-all shadow-lg shadow-indigo-900/20 active:scale-95 text-white">
+            {t.settings.saveAll}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
@@ -0,0 +1,44 @@
+import React from 'react';
+import { Wrench } from 'lucide-react';
+import { useStrings } from '../hooks/useStrings';
+
+export type ToolDecision = 'once' | 'always' | 'decline';
+
+interface ToolPromptProps {
+  label: string;
+  /** Completes "Your mirror would like to...". */
+  request: string;
+  onDecide: (decision: ToolDecision) => void;
+}
+
+const actionClass = "px-4 py-2 rounded-full text-[11px] font-semibold border transition-all";
+
+/**
+ * Asks before a tool set to "ask" runs. It floats over the session rather than
+ * covering it, since the conversation carries on while the mirror waits.
+ */
+const ToolPrompt: React.FC<ToolPromptProps> = ({ label, request, onDecide }) => {
+  const t = useStrings();
+  return (
+    <div
+      role="alertdialog"
+      aria-labelledby="tool-prompt-title"
+      className="fixed bottom-8 left-1/2 -translate-x-1/2 z-40 w-[calc(100%-3rem)] max-w-md bg-slate-900/90 border border-white/10 rounded-3xl p-6 shadow-2xl backdrop-blur-xl space-y-4 animate-slide-up"
+    >
+      <div className="flex items-start space-x-3">
+        <Wrench size={16} className="text-indigo-400 mt-0.5 shrink-0" />
+        <div className="space-y-1">
+          <p id="tool-prompt-title" className="text-sm text-slate-200">{t.toolPrompt.request(request)}</p>
+          <p className="text-[11px] text-slate-500">{t.toolPrompt.changeInSettings(label)}</p>
+        </div>
+      </div>
+      <div className="flex flex-wrap justify-end gap-2">
+        <button onClick={() => onDecide('decline')} className={`${actionClass} border-white/5 bg-white/5 hover:bg-white/10 text-slate-400`}>{t.toolPrompt.notNow}</button>
+        <button onClick={() => onDecide('always')} className={`${actionClass} border-white/5 bg-white/5 hover:bg-white/10 text-slate-300`}>{t.toolPrompt.alwaysAllow}</button>
+        <button onClick={() => onDecide('once')} className={`${actionClass} bg-indigo-600 border-indigo-500 text-white`} autoFocus>{t.toolPrompt.allow}</button>
+      </div>
+    </div>
+  );
+};
+
+export default ToolPrompt;
@@ -0,0 +1,43 @@
+import React, { useEffect, useState } from 'react';
+import App from '../App';
+import LockScreen from './LockScreen';
+import { getVaultStatus, isAutoLockDue, lockVault, noteVaultActivity, onVaultChange, VaultStatus } from '../utils/vault';
+
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'wheel', 'touchstart'];
+
+/**
+ * Shows the lock screen instead of the app while the vault is locked, and
+ * locks it again after a stretch of inactivity.
+ */
+const VaultGate: React.FC = () => {
+  const [status, setStatus] = useState<VaultStatus>(getVaultStatus);
+  const [locking, setLocking] = useState(false);
+
+  useEffect(() => onVaultChange(setStatus), []);
+
+  // Locking happens after App has unmounted, so its cleanup can still save the session with the key.
+  useEffect(() => {
+    if (!locking) return;
+    lockVault();
+    setLocking(false);
+  }, [locking]);
+
+  useEffect(() => {
+    if (status !== 'unlocked') return;
+    noteVaultActivity();
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, noteVaultActivity, { passive: true }));
+    const timer = setInterval(() => {
+      if (isAutoLockDue()) setLocking(true);
+    }, 15000);
+    return () => {
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, noteVaultActivity));
+      clearInterval(timer);
+    };
+  }, [status]);
+
+  if (status === 'locked') return <LockScreen />;
+  if (locking) return null;
+  return <App onLock={() => setLocking(true)} />;
+};
+
+export default VaultGate;
@@ -0,0 +1,131 @@
+import React, { useEffect, useState } from 'react';
+import { KeyRound, LockKeyhole, LockKeyholeOpen } from 'lucide-react';
+import {
+  AUTO_LOCK_CHOICES, changePassphrase, disableVault, enableVault, getAutoLockMinutes, getVaultStatus,
+  onVaultChange, setAutoLockMinutes, VaultStatus,
+} from '../utils/vault';
+import WipeButton from './WipeButton';
+import { useStrings } from '../hooks/useStrings';
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+type VaultForm = 'enable' | 'change' | 'disable' | null;
+
+const inputClass = "w-full bg-slate-950/50 border border-white/5 rounded-2xl px-4 py-3 text-sm focus:ring-2 focus:ring-indigo-500 outline-none text-slate-300";
+const optionClass = (selected: boolean) =>
+  `py-2 rounded-xl text-[11px] font-medium border transition-all ${selected ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-slate-950/30 border-white/5 text-slate-500 hover:border-white/20'}`;
+const actionClass = "flex items-center space-x-2 px-4 py-2 rounded-full text-[11px] font-semibold border border-white/5 bg-white/5 hover:bg-white/10 text-slate-400 hover:text-slate-200 transition-all disabled:opacity-30 disabled:pointer-events-none";
+
+/**
+ * Vault controls. Unlike the rest of Settings these act immediately rather than on Save.
+ */
+const VaultSettings: React.FC = () => {
+  const t = useStrings();
+  const [status, setStatus] = useState<VaultStatus>(getVaultStatus);
+  const [autoLock, setAutoLock] = useState(getAutoLockMinutes);
+  const [form, setForm] = useState<VaultForm>(null);
+  const [current, setCurrent] = useState('');
+  const [next, setNext] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => onVaultChange(s => {
+    setStatus(s);
+    setAutoLock(getAutoLockMinutes());
+  }), []);
+
+  const openForm = (next: VaultForm) => {
+    setForm(next);
+    setCurrent('');
+    setNext('');
+    setConfirm('');
+    setNotice(null);
+  };
+
+  const needsNew = form === 'enable' || form === 'change';
+  const needsCurrent = form === 'change' || form === 'disable';
+  const newProblem = !needsNew ? null
+    : next.length < MIN_PASSPHRASE_LENGTH ? t.vault.tooShort(MIN_PASSPHRASE_LENGTH)
+    : next !== confirm ? t.vault.mismatch
+    : null;
+  const canSubmit = !busy && (!needsCurrent || !!current) && (!needsNew || !newProblem);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+    setBusy(true);
+    setNotice(null);
+    try {
+      if (form === 'enable') await enableVault(next);
+      if (form === 'change') await changePassphrase(current, next);
+      if (form === 'disable') await disableVault(current);
+      setNotice(form === 'enable' ? t.vault.enabled
+        : form === 'change' ? t.vault.changed
+        : t.vault.disabled);
+      setForm(null);
+    } catch (err) {
+      setNotice(err instanceof Error ? err.message : t.vault.failed);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-slate-500 leading-relaxed">
+        {status === 'off' ? t.vault.offHint : t.vault.onHint}
+      </p>
+
+      {status === 'unlocked' && (
+        <div className="space-y-2">
+          <span className="text-xs text-slate-500">{t.vault.autoLock}</span>
+          <div className="grid grid-cols-5 gap-2">
+            {AUTO_LOCK_CHOICES.map(minutes => (
+              <button key={minutes} onClick={() => setAutoLockMinutes(minutes)} className={optionClass(autoLock === minutes)}>
+                {minutes === 0 ? t.vault.never : t.vault.minutes(minutes)}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {form ? (
+        <form onSubmit={handleSubmit} className="space-y-3">
+          {needsCurrent && (
+            <input type="password" value={current} onChange={(e) => setCurrent(e.target.value)} placeholder={t.vault.currentPassphrase} autoComplete="current-password" className={inputClass} />
+          )}
+          {needsNew && (
+            <>
+              <input type="password" value={next} onChange={(e) => setNext(e.target.value)} placeholder={t.vault.newPassphrase} autoComplete="new-password" className={inputClass} />
+              <input type="password" value={confirm} onChange={(e) => setConfirm(e.target.value)} placeholder={t.vault.repeatPassphrase} autoComplete="new-password" className={inputClass} />
+              {next && newProblem && <p className="text-[11px] text-slate-500">{newProblem}</p>}
+            </>
+          )}
+          <div className="flex flex-wrap gap-2">
+            <button type="submit" disabled={!canSubmit} className={actionClass}>
+              {busy ? t.vault.working : form === 'enable' ? t.vault.turnOnVault : form === 'change' ? t.vault.changePassphrase : t.vault.turnOffVault}
+            </button>
+            <button type="button" onClick={() => openForm(null)} disabled={busy} className={actionClass}>{t.common.cancel}</button>
+          </div>
+        </form>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          {status === 'off' ? (
+            <button onClick={() => openForm('enable')} className={actionClass}><LockKeyhole size={12} /><span>{t.vault.turnOn}</span></button>
+          ) : (
+            <>
+              <button onClick={() => openForm('change')} className={actionClass}><KeyRound size={12} /><span>{t.vault.changePassphrase}</span></button>
+              <button onClick={() => openForm('disable')} className={actionClass}><LockKeyholeOpen size={12} /><span>{t.vault.turnOff}</span></button>
+            </>
+          )}
+          <WipeButton />
+        </div>
+      )}
+
+      {notice && <p className="text-[11px] text-slate-400">{notice}</p>}
+    </div>
+  );
+};
+
+export default VaultSettings;
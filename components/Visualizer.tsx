@@ -1,93 +1,106 @@
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
+import { VisualizerMode } from '../types';
+import { StreamFrame, VisualizerTheme, VISUALIZER_RENDERERS } from '../utils/visualizer';
+import { useStrings } from '../hooks/useStrings';
 
 interface VisualizerProps {
-  analyser: AnalyserNode | null;
+  /** Drawn as the inner ring. */
+  userAnalyser: AnalyserNode | null;
+  /** Drawn as the outer ring. */
+  modelAnalyser: AnalyserNode | null;
   isActive: boolean;
-  isModel?: boolean;
+  mode: VisualizerMode;
+  theme: VisualizerTheme;
+  /** Width and height in CSS pixels. */
+  size?: number;
+  /** Read every frame while a guided exercise paces the breath. */
+  breathGuide?: (() => number | null) | null;
 }
 
-const Visualizer: React.FC<VisualizerProps> = ({ analyser, isActive, isModel = false }) => {
-  const canvasRef = useRef<HTMLCanvasElement>(null);
+const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
 
+const usePrefersReducedMotion = () => {
+  const [reduced, setReduced] = useState(() => window.matchMedia(REDUCED_MOTION_QUERY).matches);
   useEffect(() => {
-    if (!canvasRef.current || !analyser) return;
+    const query = window.matchMedia(REDUCED_MOTION_QUERY);
+    const onChange = () => setReduced(query.matches);
+    query.addEventListener('change', onChange);
+    return () => query.removeEventListener('change', onChange);
+  }, []);
+  return reduced;
+};
+
+/**
+ * Reads one analyser into a reusable frame, easing the level so rings don't jitter.
+ */
+const readStream = (analyser: AnalyserNode | null, frame: StreamFrame | null, smoothing: number): StreamFrame | null => {
+  if (!analyser) return null;
+  const next = frame && frame.frequencies.length === analyser.frequencyBinCount
+    ? frame
+    : { level: 0, frequencies: new Uint8Array(analyser.frequencyBinCount), waveform: new Uint8Array(analyser.fftSize) };
+  analyser.getByteFrequencyData(next.frequencies);
+  analyser.getByteTimeDomainData(next.waveform);
+  const average = next.frequencies.reduce((a, b) => a + b, 0) / next.frequencies.length / 128;
+  next.level = next.level + (Math.min(1, average) - next.level) * smoothing;
+  return next;
+};
+
+const Visualizer: React.FC<VisualizerProps> = ({ userAnalyser, modelAnalyser, isActive, mode, theme, size = 350, breathGuide = null }) => {
+  const t = useStrings();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const reducedMotion = usePrefersReducedMotion();
 
+  useEffect(() => {
     const canvas = canvasRef.current;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
 
-    const bufferLength = analyser.frequencyBinCount;
-    const dataArray = new Uint8Array(bufferLength);
+    const render = VISUALIZER_RENDERERS[mode];
+    const startedAt = performance.now();
+    let user: StreamFrame | null = null;
+    let model: StreamFrame | null = null;
     let animationId: number;
+    let dpr = 0;
 
     const draw = () => {
       animationId = requestAnimationFrame(draw);
-      analyser.getByteFrequencyData(dataArray);
-
-      ctx.clearRect(0, 0, canvas.width, canvas.height);
-      
-      const centerX = canvas.width / 2;
-      const centerY = canvas.height / 2;
-      const baseRadius = 70;
-      
-      // Calculate average volume for pulse
-      const average = dataArray.reduce((a, b) => a + b) / bufferLength;
-      const pulseFactor = isActive ? (average / 128) * 30 : 0;
-      const radius = baseRadius + pulseFactor;
-
-      // Glow color based on role
-      const color = isModel ? '#818cf8' : '#6366f1';
-      
-      // Draw outer soft rings
-      ctx.beginPath();
-      ctx.arc(centerX, centerY, radius + 10, 0, Math.PI * 2);
-      ctx.strokeStyle = `${color}11`;
-      ctx.lineWidth = 2;
-      ctx.stroke();
 
-      // Draw frequency rays
-      const rays = 72;
-      for (let i = 0; i < rays; i++) {
-        const index = Math.floor((i / rays) * (bufferLength / 2));
-        const amplitude = isActive ? (dataArray[index] / 255) * 60 : 2;
-        const angle = (i / rays) * Math.PI * 2;
-        
-        const x1 = centerX + Math.cos(angle) * (radius - 5);
-        const y1 = centerY + Math.sin(angle) * (radius - 5);
-        const x2 = centerX + Math.cos(angle) * (radius + amplitude);
-        const y2 = centerY + Math.sin(angle) * (radius + amplitude);
-
-        ctx.beginPath();
-        ctx.moveTo(x1, y1);
-        ctx.lineTo(x2, y2);
-        ctx.strokeStyle = `${color}${isActive ? 'cc' : '44'}`;
-        ctx.lineWidth = 2;
-        ctx.lineCap = 'round';
-        ctx.stroke();
+      // Re-measure every frame so moving between screens keeps the canvas sharp.
+      if (window.devicePixelRatio !== dpr) {
+        dpr = window.devicePixelRatio || 1;
+        canvas.width = Math.round(size * dpr);
+        canvas.height = Math.round(size * dpr);
+        ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
       }
 
-      // Center "Core"
-      ctx.beginPath();
-      ctx.arc(centerX, centerY, radius - 10, 0, Math.PI * 2);
-      ctx.fillStyle = isActive ? `${color}11` : 'transparent';
-      ctx.fill();
+      // Reduced motion eases levels much more slowly, so changes read as a glow rather than a flicker.
+      const smoothing = reducedMotion ? 0.05 : 0.35;
+      user = readStream(userAnalyser, user, smoothing);
+      model = readStream(modelAnalyser, model, smoothing);
+
+      ctx.clearRect(0, 0, size, size);
+      render({ ctx, size, user, model, active: isActive, theme, reducedMotion, time: performance.now() - startedAt, guide: breathGuide?.() ?? null });
     };
 
     draw();
     return () => cancelAnimationFrame(animationId);
-  }, [analyser, isActive, isModel]);
+  }, [userAnalyser, modelAnalyser, isActive, mode, theme, size, reducedMotion, breathGuide]);
 
   return (
     <div className="relative flex items-center justify-center">
-      <div className={`absolute w-32 h-32 rounded-full transition-all duration-1000 ${isActive ? 'orb-glow bg-indigo-500/10' : 'bg-slate-800/5'}`} />
-      <canvas 
-        ref={canvasRef} 
-        width={350} 
-        height={350} 
-        className="z-10"
+      <div
+        className={`absolute w-32 h-32 rounded-full transition-all duration-1000 ${isActive ? 'orb-glow' : 'bg-slate-800/5'}`}
+        style={isActive ? { backgroundColor: `${theme.model}1a`, ['--accent-glow' as string]: `${theme.model}26` } : undefined}
+      />
+      <canvas
+        ref={canvasRef}
+        style={{ width: size, height: size }}
+        className="z-10 max-w-[80vw] max-h-[80vw]"
+        role="img"
+        aria-label={isActive ? t.visualizer.active : t.visualizer.resting}
       />
     </div>
   );
 };
 
-export default Visualizer;
\ No newline at end of file
+export default Visualizer;
@@ -0,0 +1,46 @@
+import React, { useEffect, useState } from 'react';
+import { Flame } from 'lucide-react';
+import { wipeEverything } from '../utils/vault';
+import { useStrings } from '../hooks/useStrings';
+
+/**
+ * Panic button. The first tap arms it for a few seconds, the second erases
+ * everything on this device and reloads the app.
+ */
+const WipeButton: React.FC = () => {
+  const t = useStrings();
+  const [armed, setArmed] = useState(false);
+  const [wiping, setWiping] = useState(false);
+
+  useEffect(() => {
+    if (!armed) return;
+    const timer = setTimeout(() => setArmed(false), 4000);
+    return () => clearTimeout(timer);
+  }, [armed]);
+
+  const handleClick = async () => {
+    if (!armed) {
+      setArmed(true);
+      return;
+    }
+    setWiping(true);
+    try {
+      await wipeEverything();
+    } finally {
+      window.location.reload();
+    }
+  };
+
+  return (
+    <button
+      onClick={handleClick}
+      disabled={wiping}
+      className={`flex items-center space-x-2 px-4 py-2 rounded-full text-[11px] font-semibold border transition-all ${armed ? 'bg-rose-600 border-rose-500 text-white' : 'border-rose-500/20 text-rose-400/70 hover:text-rose-300 hover:border-rose-500/40'}`}
+    >
+      <Flame size={12} />
+      <span>{wiping ? t.vault.wiping : armed ? t.vault.wipeConfirm : t.vault.wipe}</span>
+    </button>
+  );
+};
+
+export default WipeButton;
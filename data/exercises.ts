@@ -0,0 +1,81 @@
+export type BreathPhase = 'inhale' | 'hold' | 'exhale' | 'rest';
+
+export type ExerciseId = 'box-breathing' | '4-7-8' | 'grounding-54321' | 'body-scan';
+
+export interface ExercisePhase {
+  durationSec: number;
+  /** Drives the visualizer; phases without it leave the orb breathing on its own. */
+  breath?: BreathPhase;
+}
+
+/** What the person reads. Kept in the locale bundles under the exercise's id. */
+export interface ExerciseText {
+  title: string;
+  summary: string;
+  /** One per phase, in order. */
+  phases: {
+    /** Shown large on screen and, in voice mode, handed to the mirror to speak. */
+    cue: string;
+    /** Smaller supporting text under the cue. */
+    detail?: string;
+  }[];
+}
+
+/** The timing of an exercise; its words come from `strings().exerciseContent`. */
+export interface Exercise {
+  id: ExerciseId;
+  rounds: number;
+  phases: ExercisePhase[];
+  /** Added to the persona's instruction when the exercise runs with voice. */
+  guidance: string;
+}
+
+export const EXERCISES: Exercise[] = [
+  {
+    id: 'box-breathing',
+    rounds: 4,
+    phases: [
+      { durationSec: 4, breath: 'inhale' },
+      { durationSec: 4, breath: 'hold' },
+      { durationSec: 4, breath: 'exhale' },
+      { durationSec: 4, breath: 'hold' },
+    ],
+    guidance: 'Guide box breathing: four counts in, hold four, four out, hold four. Speak softly and slowly.',
+  },
+  {
+    id: '4-7-8',
+    rounds: 4,
+    phases: [
+      { durationSec: 4, breath: 'inhale' },
+      { durationSec: 7, breath: 'hold' },
+      { durationSec: 8, breath: 'exhale' },
+    ],
+    guidance: 'Guide 4-7-8 breathing: in for four, hold for seven, out for eight. If the person finds the hold hard, reassure them that a shorter hold is fine.',
+  },
+  {
+    id: 'grounding-54321',
+    rounds: 1,
+    phases: [
+      { durationSec: 30 },
+      { durationSec: 25 },
+      { durationSec: 25 },
+      { durationSec: 20 },
+      { durationSec: 15 },
+    ],
+    guidance: 'Guide 5-4-3-2-1 grounding through the senses. If the person names things aloud, acknowledge them briefly and warmly without adding questions.',
+  },
+  {
+    id: 'body-scan',
+    rounds: 1,
+    phases: [
+      { durationSec: 20, breath: 'rest' },
+      { durationSec: 25 },
+      { durationSec: 25 },
+      { durationSec: 25 },
+      { durationSec: 25 },
+      { durationSec: 25 },
+      { durationSec: 30, breath: 'rest' },
+    ],
+    guidance: 'Guide a short body scan. Invite noticing without changing anything; there is no right way to feel.',
+  },
+];
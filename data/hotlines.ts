@@ -0,0 +1,116 @@
+/**
+ * Bundled support resources, shown by the safety panel without any network access.
+ * Keep entries short and verify numbers against each service before changing them.
+ */
+
+export interface SupportLine {
+  name: string;
+  /** How to reach it, e.g. "Call or text 988". */
+  contact: string;
+  /** `tel:` or `sms:` link when the contact is a single number. */
+  href?: string;
+  hours?: string;
+}
+
+export interface SupportRegion {
+  code: string;
+  label: string;
+  emergency: string;
+  lines: SupportLine[];
+}
+
+export const INTERNATIONAL_REGION: SupportRegion = {
+  code: 'INTL',
+  label: 'Anywhere else',
+  emergency: 'your local emergency number',
+  lines: [
+    { name: 'Find A Helpline', contact: 'findahelpline.com lists free, confidential services by country' },
+  ],
+};
+
+export const SUPPORT_REGIONS: SupportRegion[] = [
+  {
+    code: 'US',
+    label: 'United States',
+    emergency: '911',
+    lines: [
+      { name: '988 Suicide & Crisis Lifeline', contact: 'Call or text 988', href: 'tel:988', hours: '24/7' },
+      { name: 'Crisis Text Line', contact: 'Text HOME to 741741', href: 'sms:741741', hours: '24/7' },
+    ],
+  },
+  {
+    code: 'CA',
+    label: 'Canada',
+    emergency: '911',
+    lines: [
+      { name: '9-8-8 Suicide Crisis Helpline', contact: 'Call or text 988', href: 'tel:988', hours: '24/7' },
+    ],
+  },
+  {
+    code: 'GB',
+    label: 'United Kingdom',
+    emergency: '999',
+    lines: [
+      { name: 'Samaritans', contact: 'Call 116 123', href: 'tel:116123', hours: '24/7' },
+      { name: 'Shout', contact: 'Text SHOUT to 85258', href: 'sms:85258', hours: '24/7' },
+    ],
+  },
+  {
+    code: 'IE',
+    label: 'Ireland',
+    emergency: '112 or 999',
+    lines: [
+      { name: 'Samaritans', contact: 'Call 116 123', href: 'tel:116123', hours: '24/7' },
+    ],
+  },
+  {
+    code: 'AU',
+    label: 'Australia',
+    emergency: '000',
+    lines: [
+      { name: 'Lifeline', contact: 'Call 13 11 14', href: 'tel:131114', hours: '24/7' },
+      { name: 'Beyond Blue', contact: 'Call 1300 22 4636', href: 'tel:1300224636', hours: '24/7' },
+    ],
+  },
+  {
+    code: 'NZ',
+    label: 'New Zealand',
+    emergency: '111',
+    lines: [
+      { name: 'Need to talk?', contact: 'Call or text 1737', href: 'tel:1737', hours: '24/7' },
+      { name: 'Lifeline Aotearoa', contact: 'Call 0800 543 354', href: 'tel:0800543354', hours: '24/7' },
+    ],
+  },
+  {
+    code: 'IN',
+    label: 'India',
+    emergency: '112',
+    lines: [
+      { name: 'Tele-MANAS', contact: 'Call 14416', href: 'tel:14416', hours: '24/7' },
+    ],
+  },
+  {
+    code: 'DE',
+    label: 'Deutschland',
+    emergency: '112',
+    lines: [
+      { name: 'TelefonSeelsorge', contact: 'Anrufen 0800 111 0 111', href: 'tel:08001110111', hours: '24/7' },
+    ],
+  },
+  {
+    code: 'FR',
+    label: 'France',
+    emergency: '112',
+    lines: [
+      { name: 'Numéro national de prévention du suicide', contact: 'Appeler le 3114', href: 'tel:3114', hours: '24/7' },
+    ],
+  },
+  {
+    code: 'ES',
+    label: 'España',
+    emergency: '112',
+    lines: [
+      { name: 'Línea de atención a la conducta suicida', contact: 'Llamar al 024', href: 'tel:024', hours: '24/7' },
+    ],
+  },
+];
@@ -0,0 +1,455 @@
+import type { LocaleBundle } from './en';
+
+export const ar: LocaleBundle = {
+  app: {
+    tagline: 'ملاذك الداخلي',
+    history: 'السجل',
+    memories: 'الذكريات',
+    insights: 'الملاحظات',
+    lock: 'قفل',
+    lockNow: 'اقفل الآن',
+    settings: 'الإعدادات',
+    headline: {
+      disconnected: 'أهلًا بعودتك أيتها الروح القريبة.',
+      error: 'لنتوقف لحظة.',
+      connecting: 'مرآتك تستيقظ...',
+      reconnecting: 'نستعيد الخيط من جديد...',
+      text: 'تفضّل. اكتب ما في قلبك.',
+      voice: 'تفضّل. قل ما في قلبك.',
+    },
+    subline: {
+      reconnecting: 'ابقَ معي. كلماتك حتى الآن في أمان.',
+      inSession: 'هذه مساحتك. لا أحد غيرنا يستمع.',
+      idle: 'رفيق يفهم جمال الهدوء.',
+    },
+    recordingLocally: 'التسجيل على هذا الجهاز فقط',
+    persona: 'الشخصية',
+    remembers: (name, count) =>
+      count === 1 ? `${name} يتذكر محادثة سابقة واحدة` : `${name} يتذكر ${count} محادثات سابقة`,
+    exercises: 'تنفّس موجَّه وتأريض ومسح للجسد',
+    mute: 'كتم الميكروفون',
+    unmute: 'إلغاء كتم الميكروفون',
+    muteHint: 'كتم الصوت دون إنهاء الجلسة',
+    unmuteHint: 'إلغاء الكتم',
+    endSession: 'إنهاء الجلسة',
+    tryAgain: 'حاول مرة أخرى',
+    startSpeaking: 'ابدأ الحديث',
+    toggleWriting: 'إظهار الكتابة أو إخفاؤها',
+    writeInstead: 'اكتب بدلًا من ذلك',
+    writeAlongsideHint: 'اكتب إلى جانب صوتك',
+    writeInsteadHint: 'اكتب بدلًا من التحدث',
+    talking: 'أستمع...',
+    holdToTalk: (key) => `اضغط مطولًا للتحدث (${key})`,
+    muted: 'الصوت مكتوم. المرآة لا تسمعك.',
+    hearingYou: 'أسمعك',
+    mirrorSpeaking: 'المرآة تتحدث',
+    listeningForVoice: 'في انتظار صوتك',
+    dismissReminder: 'إغلاق التذكير',
+    startReminder: 'ابدأ هذه الوقفة',
+    deviceSwitched: (label) => `أستمع الآن عبر ${label}.`,
+    storedLocally: 'محفوظ على هذا الجهاز',
+    storedEncrypted: 'مشفّر على هذا الجهاز',
+    offline: 'المرآة غير متاحة دون اتصال',
+    offlineHint: 'سجلك وملاحظاتك وشخصياتك ما زالت هنا.',
+    protocol: 'بروتوكول Gemini',
+  },
+  modals: {
+    settings: 'إعداد المرآة',
+    history: 'سجل الحوارات',
+    insights: 'طقسك الداخلي',
+    memories: 'ما تتذكره المرآة',
+    exercises: 'تمارين موجَّهة',
+    checkInBefore: 'كيف حالك وأنت تبدأ؟',
+    checkInAfter: 'كيف حالك وأنت تغادر؟',
+  },
+  errors: {
+    'network': 'انقطع الاتصال بمرآتك. تحقق من الشبكة وحاول مرة أخرى.',
+    'auth': 'لم تتمكن المرآة من التحقق من مفتاحها. اطلب ممن أعدّ هذا التطبيق التحقق من مفتاح Gemini API.',
+    'quota': 'المرآة بحاجة إلى راحة؛ الخدمة مشغولة أو نفدت حصتها. حاول مرة أخرى بعد قليل.',
+    'microphone-denied': 'تم رفض الوصول إلى الميكروفون. اسمح به من إعدادات الموقع في متصفحك لتتحدث بصوت عالٍ.',
+    'microphone-missing': 'لم يُعثر على ميكروفون. وصّل واحدًا أو اكتب بدلًا من ذلك.',
+    'microphone-busy': 'يستخدم تطبيق آخر الميكروفون. أغلقه هناك وحاول مرة أخرى.',
+    'unknown': 'فقدت المرآة تركيزها. لنحاول مرة أخرى.',
+  },
+  continueInWriting: 'سنكمل كتابةً في الوقت الحالي.',
+  reminderBody: 'لحظة هادئة لتطمئن على نفسك.',
+  common: {
+    close: 'إغلاق',
+    cancel: 'إلغاء',
+    save: 'حفظ',
+    on: 'تشغيل',
+    off: 'إيقاف',
+  },
+  settings: {
+    language: 'اللغة',
+    languageHint: 'تستمع المرآة وتنسخ وترد بهذه اللغة.',
+    followBrowser: 'مثل المتصفح',
+    personaLibrary: 'مكتبة الشخصيات',
+    active: 'نشطة',
+    newPersona: 'شخصية جديدة',
+    useThisMirror: 'استخدام هذه المرآة',
+    duplicate: 'نسخ',
+    reset: 'إعادة الضبط',
+    export: 'تصدير',
+    delete: 'حذف',
+    name: 'الاسم',
+    aura: 'الهالة',
+    auraColor: (color) => `هالة ${color}`,
+    mirrorColours: 'ألوان المرآة',
+    themes: { aura: 'الهالة', dusk: 'الغسق', forest: 'الغابة', ocean: 'المحيط', ember: 'الجمر', moon: 'القمر' },
+    instruction: 'روح المرآة (التعليمات)',
+    instructionPlaceholder: 'صف طاقة رفيقك...',
+    voice: 'الصوت',
+    starterPrompts: 'عبارات البداية (عبارة في كل سطر)',
+    starterPromptsPlaceholder: 'أحتاج فقط إلى من يستمع إليّ.',
+    rememberMe: 'تذكّرني',
+    rememberMeHint: 'الاحتفاظ بملاحظة قصيرة بعد كل جلسة مع هذه المرآة وإحضار الملاحظات الأخيرة إلى الجلسة التالية. إيقافه يوقف الأمرين معًا.',
+    replyStyle: 'طريقة الرد',
+    spoken: 'بالصوت',
+    textOnly: 'نص فقط',
+    visualizer: 'المؤثر المرئي',
+    visualizerModes: { rays: 'أشعة', waveform: 'موجة', orb: 'كرة تتنفس' },
+    captions: 'ترجمة مباشرة',
+    captionsHint: 'عرض ما تقوله أنت والمرآة أثناء قوله.',
+    captionSize: 'حجم النص',
+    captionSizes: { small: 'صغير', medium: 'متوسط', large: 'كبير' },
+    audio: 'الميكروفون والسماعة',
+    voiceInput: 'الإدخال الصوتي',
+    alwaysListening: 'استماع دائم',
+    pushToTalk: 'اضغط للتحدث',
+    sensitivity: 'الحساسية',
+    answerPause: 'مهلة قبل أن ترد المرآة',
+    talkKey: 'مفتاح التحدث',
+    pressKey: 'اضغط مفتاحًا...',
+    moodCheckIns: 'تسجيل المزاج',
+    offer: 'اقتراح',
+    never: 'أبدًا',
+    reminders: 'تذكيرات الاطمئنان',
+    recordings: 'الاحتفاظ بالتسجيلات الصوتية',
+    recordingsHint: 'حفظ الصوتين في كل جلسة على هذا الجهاز لتتمكن من الاستماع إليهما مع النص.',
+    safety: 'إرشاد لطيف للسلامة',
+    safetyHint: 'إذا لوحظت ضائقة، تُطلب من المرآة التركيز على سلامتك لبقية الجلسة.',
+    actions: 'أفعال المرآة',
+    actionsHint: 'ما يمكن للمرآة فعله أثناء الجلسة. كل ما تفعله يظهر في النص.',
+    permissions: { always: 'دائمًا', ask: 'اسأل', never: 'أبدًا' },
+    vault: 'الخزنة الخاصة',
+    sharePersonas: 'مشاركة الشخصيات',
+    import: 'استيراد',
+    exportAll: 'تصدير الكل',
+    welcomed: (count) => count === 1 ? 'تمت إضافة شخصية واحدة.' : `تمت إضافة ${count} شخصيات.`,
+    saveAll: 'حفظ وحماية',
+  },
+  personas: {
+    newName: 'مرآة جديدة',
+    copyName: (name) => `${name} (نسخة)`,
+  },
+  files: {
+    invalidJson: 'هذا الملف ليس JSON صالحًا.',
+    notJournal: 'هذا الملف لا يحتوي على يوميات EgoMirror.',
+    notPersonas: 'هذا الملف لا يحتوي على شخصيات EgoMirror.',
+    newerVersion: 'أُنشئ هذا الملف بإصدار أحدث من EgoMirror.',
+  },
+  safety: {
+    region: 'المنطقة',
+    resources: 'موارد الدعم',
+    title: 'لست مضطرًا لحمل هذا وحدك',
+    body: (emergency) =>
+      `إذا كنت تفكر في إيذاء نفسك أو لست في أمان، هناك من هو مستعد للاستماع إليك الآن. في حالة الطوارئ، اتصل بـ ${emergency}.`,
+    anywhereElse: 'مكان آخر',
+    localEmergency: 'رقم الطوارئ المحلي',
+  },
+  vault: {
+    lockedTitle: 'ملاذك مقفل.',
+    lockedHint: 'أدخل عبارة المرور لفتح محادثاتك ومراياك.',
+    passphrase: 'عبارة المرور',
+    opening: 'جارٍ الفتح...',
+    unlock: 'فتح القفل',
+    forgotten: 'لا يمكن استعادة عبارة مرور منسية. يمكنك فقط البدء من جديد.',
+    didntOpen: 'لم تُفتح الخزنة.',
+    wipe: 'مسح كل شيء',
+    wipeConfirm: 'اضغط مرة أخرى لمسح كل شيء',
+    wiping: 'جارٍ المسح...',
+    offHint: 'شفّر محادثاتك ومراياك وتسجيلات مزاجك وتسجيلاتك الصوتية بعبارة مرور. من دونها لا يستطيع أحد قراءتها، ولا أنت.',
+    onHint: 'محادثاتك ومراياك وتسجيلات مزاجك وتسجيلاتك الصوتية مشفّرة على هذا الجهاز.',
+    autoLock: 'القفل بعد عدم النشاط',
+    minutes: (minutes) => `${minutes} د`,
+    never: 'أبدًا',
+    currentPassphrase: 'عبارة المرور الحالية',
+    newPassphrase: 'عبارة المرور الجديدة',
+    repeatPassphrase: 'كرر عبارة المرور الجديدة',
+    tooShort: (length) => `استخدم ${length} أحرف على الأقل.`,
+    mismatch: 'عبارتا المرور غير متطابقتين بعد.',
+    working: 'لحظة...',
+    turnOn: 'تشغيل',
+    turnOff: 'إيقاف',
+    turnOnVault: 'تشغيل الخزنة',
+    turnOffVault: 'إيقاف الخزنة',
+    changePassphrase: 'تغيير عبارة المرور',
+    enabled: 'كل ما على هذا الجهاز مشفّر الآن.',
+    changed: 'تم تغيير عبارة المرور وإعادة تشفير كل شيء.',
+    disabled: 'الخزنة متوقفة. بياناتك تُحفظ من دون تشفير مرة أخرى.',
+    failed: 'حدث خطأ ما.',
+    wrongPassphrase: 'عبارة المرور هذه لا تفتح الخزنة.',
+    locked: 'الخزنة مقفلة.',
+    alreadyOn: 'الخزنة قيد التشغيل بالفعل.',
+    unknownKey: 'خُتم هذا الإدخال بمفتاح لم يعد في الخزنة.',
+  },
+  composer: {
+    placeholder: 'اكتب ما يدور في بالك...',
+    label: 'رسالة',
+    send: 'إرسال',
+  },
+  captions: {
+    you: 'أنت',
+    interrupted: '(مقاطَع)',
+  },
+  audio: {
+    listHint: 'يعرض متصفحك قائمة الميكروفونات بعد أن تسمح بواحد منها. اختبر الميكروفون أدناه لتراها.',
+    microphone: 'الميكروفون',
+    speaker: 'السماعة',
+    defaultMicrophone: 'الميكروفون الافتراضي',
+    systemDefault: 'افتراضي النظام',
+    savedDevice: 'جهاز محفوظ (غير متصل)',
+    defaultOutputOnly: 'يشغّل هذا المتصفح المرآة دائمًا عبر مخرج الصوت الافتراضي في نظامك.',
+    echoCancellation: 'إلغاء الصدى',
+    noiseSuppression: 'كتم الضوضاء',
+    autoGainControl: 'ضبط تلقائي للصوت',
+    inputGain: 'تضخيم الإدخال',
+    level: 'مستوى الميكروفون',
+    threshold: 'من هنا تبدأ المرآة بسماعك',
+    testMicrophone: 'اختبار الميكروفون',
+    stopTest: 'إيقاف الاختبار',
+    recordSample: (seconds) => `سجّل ${seconds} ث ثم استمع`,
+    recording: 'جارٍ التسجيل، قل شيئًا…',
+    playingBack: 'جارٍ التشغيل…',
+  },
+  playback: {
+    pause: 'إيقاف المرآة مؤقتًا',
+    resume: 'استئناف المرآة',
+    pauseShort: 'إيقاف مؤقت',
+    resumeShort: 'استئناف',
+    volume: 'مستوى صوت المرآة',
+    speed: 'سرعة الكلام',
+  },
+  reminders: {
+    notificationsOff: 'الإشعارات متوقفة لهذا الموقع، لذا تظهر التذكيرات داخل التطبيق.',
+    notificationsOn: 'تصل التذكيرات كإشعارات. فتح أحدها يبدأ جلسة بعبارته.',
+    whileOpen: (minutes) =>
+      `لا تصل التذكيرات إلا ما دام EgoMirror مفتوحًا وغير مقفل؛ لا يُرسل شيء وهو مغلق أو مقفل. التذكير الذي يفوت بأكثر من ${minutes} دقيقة يُتخطى حتى اليوم التالي.`,
+    defaultLabel: 'اطمئنان المساء',
+    name: 'اسم التذكير',
+    time: 'الوقت',
+    delete: 'حذف التذكير',
+    openingLine: 'عبارة افتتاحية (اختيارية)',
+    starterPrompt: 'عبارة البداية',
+    add: 'إضافة تذكير',
+  },
+  toolPrompt: {
+    request: (request) => `تود مرآتك أن ${request}.`,
+    changeInSettings: (label) => `${label} • يمكنك تغيير ذلك من الإعدادات.`,
+    notNow: 'ليس الآن',
+    alwaysAllow: 'السماح دائمًا',
+    allow: 'سماح',
+  },
+  tools: {
+    log_mood: {
+      label: 'تسجيل مزاجك',
+      description: 'تسجيل مزاجك في الجلسة الحالية عندما تذكر كيف تشعر.',
+      request: (mood, tags) => `تسجل مزاجك على أنه «${mood}»${tags.length ? ` (${tags.join('، ')})` : ''}`,
+      done: (mood, energy, tags) =>
+        `سُجّل مزاجك: ${mood}، ${energy}${tags.length ? ` (${tags.join('، ')})` : ''}`,
+    },
+    start_exercise: {
+      label: 'بدء تمرين',
+      description: 'بدء تمرين موجَّه للتنفس أو التأريض أو مسح الجسد على الشاشة.',
+      request: (title) => `تبدأ «${title}»`,
+      done: (title) => `بدأ التمرين: ${title}`,
+      busy: (title) => `تعذّر بدء «${title}»؛ هناك تمرين قيد التشغيل`,
+    },
+    find_past_session: {
+      label: 'البحث في الجلسات السابقة',
+      description: 'قراءة الملاحظات المحفوظة من محادثاتك السابقة. لا تُشارك الملاحظات الخاصة أبدًا.',
+      request: (query) => query ? `تبحث في جلساتك السابقة عن «${query}»` : 'تطّلع على أحدث جلساتك',
+      done: (count, query) =>
+        `${count === 1 ? 'تمت مراجعة جلسة سابقة واحدة' : `تمت مراجعة ${count} جلسات سابقة`}${query ? ` عن «${query}»` : ''}`,
+      none: (query) => `لم يُعثر على جلسات سابقة${query ? ` عن «${query}»` : ''}`,
+    },
+    schedule_check_in: {
+      label: 'ضبط تذكيرات الاطمئنان',
+      description: 'ترك تذكير على هذا الجهاز للعودة والاطمئنان.',
+      request: (delay) => `تذكّرك بالاطمئنان بعد ${delay}`,
+      done: (when) => `ضُبط تذكير اطمئنان في ${when}`,
+      defaultNote: 'حان وقت اطمئنان لطيف.',
+    },
+    delay: {
+      minutes: (n) => `${n} د`,
+      hours: (n) => `${n} س`,
+      days: (n) => `${n} أيام`,
+    },
+    turnedOff: (label) => `تعذّر «${label}»؛ إنه متوقف في الإعدادات`,
+    failed: (label) => `تعذّر «${label}»`,
+    declined: (request) => `رفضت: ${request}`,
+  },
+  checkIn: {
+    mood: 'المزاج',
+    energy: 'الطاقة',
+    moods: ['ثقيل', 'منخفض', 'لا بأس', 'خفيف', 'مشرق'],
+    energyLevels: ['منهَك', 'متعب', 'متوازن', 'يقِظ', 'مفعم بالطاقة'],
+    present: 'ما الحاضر الآن',
+    somethingElse: 'شيء آخر...',
+    addTag: 'إضافة وسم',
+    skipLabel: 'تخطي التسجيل',
+    skip: 'تخطٍّ',
+    skipAndBegin: 'تخطٍّ وابدأ',
+    begin: 'ابدأ',
+    tags: {
+      anxious: 'قلق',
+      lonely: 'وحدة',
+      tired: 'تعب',
+      stressed: 'توتر',
+      calm: 'هدوء',
+      hopeful: 'أمل',
+      grateful: 'امتنان',
+      overwhelmed: 'إرهاق',
+    },
+  },
+  insights: {
+    empty: 'سجّل مزاجك قبل الجلسة وبعدها لترى كيف حالك مع مرور الوقت.',
+    notEnough: 'لا توجد تسجيلات مزدوجة كافية بعد.',
+    moodShift: 'تغيّر المزاج',
+    energyShift: 'تغيّر الطاقة',
+    moodOverTime: 'المزاج مع الوقت',
+    chart: 'المزاج قبل كل جلسة وبعدها',
+    legend: 'متقطع: عند الوصول • متصل: عند المغادرة',
+    byPersona: 'حسب الشخصية',
+    byPrompt: 'حسب عبارة البداية أو التمرين',
+    byTopic: 'حسب الموضوع',
+    computedLocally: 'محسوب على هذا الجهاز',
+    openConversation: 'محادثة مفتوحة',
+  },
+  history: {
+    back: 'العودة إلى الجلسات',
+    search: 'ابحث في تأملاتك...',
+    from: 'من',
+    to: 'إلى',
+    loadError: 'تعذّر فتح اليوميات.',
+    noMatches: 'لا شيء في التيار يطابق.',
+    empty: 'التيار صافٍ وهادئ.',
+    reflections: (count) => count === 1 ? 'تأمل واحد' : `${count} تأملات`,
+    recorded: 'مسجَّلة',
+    deleteSession: 'حذف الجلسة',
+    exportFormat: 'صيغة التصدير',
+    formats: { markdown: 'Markdown', json: 'JSON', text: 'نص عادي', html: 'صفحة قابلة للطباعة' },
+    exportSession: 'تصدير الجلسة',
+    exportShown: (count) => `تصدير المعروض (${count})`,
+    exportAll: 'تصدير كل شيء',
+    importJson: 'استيراد JSON',
+    restored: (count) => count === 1 ? 'تمت استعادة جلسة واحدة.' : `تمت استعادة ${count} جلسات.`,
+    purge: 'محو السجل',
+    close: 'إغلاق الملاذ',
+    downloadRecording: 'تنزيل التسجيل',
+  },
+  exportFile: {
+    title: 'يوميات EgoMirror',
+    heading: (date, persona) => `${date} مع ${persona}`,
+    you: 'أنت',
+    unfinished: 'غير مكتملة',
+    minutes: (minutes) => `${minutes} د`,
+    messages: (count) => count === 1 ? 'رسالة واحدة' : `${count} رسائل`,
+    session: 'الجلسة',
+    started: 'البداية',
+    ended: 'النهاية',
+    messageCount: 'الرسائل',
+  },
+  exercises: {
+    intro: 'مع الصوت، تنطق المرآة كل خطوة في وقتها. على الشاشة فقط، تظهر الخطوات نصًا ولا يغادر شيء هذا الجهاز.',
+    offline: 'أنت غير متصل. التمارين ما زالت تعمل على الشاشة.',
+    withVoice: 'مع الصوت',
+    onScreen: 'على الشاشة فقط',
+    seconds: (seconds) => `${seconds} ث`,
+    minutes: (minutes) => `${minutes} د`,
+    completed: (count) => `أُنجز ${count}×`,
+    wellDone: 'أحسنت.',
+    gettingReady: 'نستعد...',
+    getComfortable: 'خذ وضعية مريحة.',
+    finished: (title) => `اكتمل ${title}. خذ لحظة قبل أن تكمل.`,
+    onItsWay: 'مرآتك في الطريق.',
+    beginsIn: (title, seconds) => `يبدأ ${title} خلال ${seconds}`,
+    round: (round, rounds) => `الجولة ${round} من ${rounds}`,
+    done: 'تم',
+    stop: 'إيقاف التمرين',
+  },
+  exerciseContent: {
+    'box-breathing': {
+      title: 'التنفس المربّع',
+      summary: 'أربعة أضلاع متساوية: شهيق، حبس، زفير، حبس. يهدّئ العقل المتسارع.',
+      phases: [
+        { cue: 'خذ شهيقًا', detail: 'من أنفك' },
+        { cue: 'احبس النفس' },
+        { cue: 'أخرج الزفير', detail: 'ببطء، من فمك' },
+        { cue: 'احبس النفس', detail: 'برئتين فارغتين وسكون' },
+      ],
+    },
+    '4-7-8': {
+      title: 'تنفس 4-7-8',
+      summary: 'زفير طويل وبطيء يساعد الجسد على الاستقرار نحو الراحة.',
+      phases: [
+        { cue: 'خذ شهيقًا', detail: 'بهدوء، من أنفك' },
+        { cue: 'احبس النفس' },
+        { cue: 'أخرج الزفير', detail: 'حتى النهاية، بنفخة خفيفة' },
+      ],
+    },
+    'grounding-54321': {
+      title: 'التأريض 5-4-3-2-1',
+      summary: 'عد إلى المكان من خلال حواسك، واحدة تلو الأخرى.',
+      phases: [
+        { cue: 'خمسة أشياء تراها', detail: 'دع عينيك تستقر على كل واحد منها' },
+        { cue: 'أربعة أشياء تشعر بها', detail: 'قدماك، يداك، الهواء' },
+        { cue: 'ثلاثة أشياء تسمعها', detail: 'قريبة وبعيدة' },
+        { cue: 'شيئان تشمّهما', detail: 'أو رائحتان تحبهما' },
+        { cue: 'شيء واحد تتذوقه', detail: 'أو شيء لطيف عن نفسك' },
+      ],
+    },
+    'body-scan': {
+      title: 'مسح قصير للجسد',
+      summary: 'ثلاث دقائق هادئة تنقل فيها انتباهك من قدميك إلى وجهك.',
+      phases: [
+        { cue: 'استقر', detail: 'أغمض عينيك أو أرخِ نظرك' },
+        { cue: 'قدماك', detail: 'لاحظ الثقل والدفء والتلامس' },
+        { cue: 'ساقاك', detail: 'دعهما تثقلان' },
+        { cue: 'بطنك', detail: 'يرتفع وينخفض من تلقاء نفسه' },
+        { cue: 'صدرك وكتفاك', detail: 'دعهما ينخفضان قليلًا' },
+        { cue: 'وجهك', detail: 'أرخِ فكّك وجبينك' },
+        { cue: 'جسدك كله', detail: 'يتنفس، هنا، وهذا يكفي' },
+      ],
+    },
+  },
+  memories: {
+    intro: (limit) =>
+      `بعد كل جلسة تُحفظ هنا ملاحظة قصيرة. ترى كل مرآة حتى ${limit} من أحدث ملاحظاتها المشتركة، ولا شيء ما دام «تذكّرني» متوقفًا.`,
+    empty: 'لا شيء محفوظ في الذاكرة بعد.',
+    shared: 'مشتركة',
+    private: 'خاصة',
+    sharedHint: 'مشتركة مع الجلسات القادمة',
+    privateHint: 'محفوظة هنا فقط',
+    edit: 'تعديل الذكرى',
+    delete: 'حذف الذكرى',
+    summary: 'الملخص',
+    themes: 'المواضيع',
+    themesPlaceholder: 'المواضيع، مفصولة بفواصل',
+    threads: 'خيوط مفتوحة',
+    threadsPlaceholder: 'خيوط مفتوحة، واحد في كل سطر',
+    forgetAll: 'انسَ كل شيء',
+  },
+  visualizer: {
+    active: 'صوتك وصوت المرآة، في حلقتين',
+    resting: 'المرآة في سكون',
+  },
+  starterPrompts: [
+    'أشعر ببعض الإرهاق اليوم...',
+    'يصعب عليّ التواصل مع الآخرين.',
+    'أحتاج فقط إلى من يستمع إليّ.',
+    'هل لا بأس أن أكون هادئًا؟',
+    'أشعر بالوحدة بين الناس.',
+  ],
+};
@@ -0,0 +1,455 @@
+import type { LocaleBundle } from './en';
+
+export const de: LocaleBundle = {
+  app: {
+    tagline: 'Innerer Zufluchtsort',
+    history: 'Verlauf',
+    memories: 'Erinnerungen',
+    insights: 'Einblicke',
+    lock: 'Sperren',
+    lockNow: 'Jetzt sperren',
+    settings: 'Einstellungen',
+    headline: {
+      disconnected: 'Schön, dass du wieder da bist.',
+      error: 'Lass uns kurz innehalten.',
+      connecting: 'Dein Spiegel erwacht...',
+      reconnecting: 'Wir finden den Faden wieder...',
+      text: 'Nur zu. Schreib, was dich bewegt.',
+      voice: 'Nur zu. Sag, was dich bewegt.',
+    },
+    subline: {
+      reconnecting: 'Bleib bei mir. Deine bisherigen Worte sind sicher.',
+      inSession: 'Das ist dein Raum. Niemand sonst hört zu.',
+      idle: 'Ein Gegenüber, das die Schönheit der Stille versteht.',
+    },
+    recordingLocally: 'Aufnahme nur auf diesem Gerät',
+    persona: 'Persona',
+    remembers: (name, count) =>
+      `${name} erinnert sich an ${count} ${count === 1 ? 'frühere Unterhaltung' : 'frühere Unterhaltungen'}`,
+    exercises: 'Geführtes Atmen, Erdung und Körperreise',
+    mute: 'Mikrofon stummschalten',
+    unmute: 'Mikrofon einschalten',
+    muteHint: 'Stummschalten, ohne die Sitzung zu beenden',
+    unmuteHint: 'Einschalten',
+    endSession: 'Sitzung beenden',
+    tryAgain: 'Erneut versuchen',
+    startSpeaking: 'Sprechen',
+    toggleWriting: 'Schreiben ein- oder ausblenden',
+    writeInstead: 'Schreiben',
+    writeAlongsideHint: 'Zusätzlich zur Stimme schreiben',
+    writeInsteadHint: 'Schreiben statt sprechen',
+    talking: 'Ich höre zu...',
+    holdToTalk: (key) => `Zum Sprechen halten (${key})`,
+    muted: 'Stummgeschaltet. Der Spiegel hört dich nicht.',
+    hearingYou: 'Ich höre dich',
+    mirrorSpeaking: 'Der Spiegel spricht',
+    listeningForVoice: 'Wartet auf deine Stimme',
+    dismissReminder: 'Erinnerung schließen',
+    startReminder: 'Diesen Check-in beginnen',
+    deviceSwitched: (label) => `Ich höre jetzt über ${label}.`,
+    storedLocally: 'Auf diesem Gerät gespeichert',
+    storedEncrypted: 'Auf diesem Gerät verschlüsselt',
+    offline: 'Spiegel offline nicht verfügbar',
+    offlineHint: 'Dein Verlauf, deine Einblicke und Personas sind weiterhin da.',
+    protocol: 'Gemini-Protokoll',
+  },
+  modals: {
+    settings: 'Spiegel einrichten',
+    history: 'Gesprächsverlauf',
+    insights: 'Inneres Wetter',
+    memories: 'Woran sich der Spiegel erinnert',
+    exercises: 'Geführte Übungen',
+    checkInBefore: 'Wie kommst du an?',
+    checkInAfter: 'Wie gehst du?',
+  },
+  errors: {
+    'network': 'Die Verbindung zu deinem Spiegel ist abgerissen. Prüfe dein Netzwerk und versuche es erneut.',
+    'auth': 'Der Spiegel konnte seinen Schlüssel nicht bestätigen. Bitte die Person, die diese App eingerichtet hat, den Gemini-API-Schlüssel zu prüfen.',
+    'quota': 'Der Spiegel braucht eine Pause; der Dienst ist ausgelastet oder das Kontingent ist aufgebraucht. Versuche es etwas später noch einmal.',
+    'microphone-denied': 'Der Mikrofonzugriff wurde abgelehnt. Erlaube ihn in den Website-Einstellungen deines Browsers, um laut zu sprechen.',
+    'microphone-missing': 'Kein Mikrofon gefunden. Schließe eines an oder schreib stattdessen.',
+    'microphone-busy': 'Dein Mikrofon wird gerade anderweitig verwendet. Schließe es dort und versuche es erneut.',
+    'unknown': 'Der Spiegel hat den Fokus verloren. Versuchen wir es noch einmal.',
+  },
+  continueInWriting: 'Wir machen vorerst schriftlich weiter.',
+  reminderBody: 'Ein ruhiger Moment, um bei dir selbst nachzuspüren.',
+  common: {
+    close: 'Schließen',
+    cancel: 'Abbrechen',
+    save: 'Speichern',
+    on: 'An',
+    off: 'Aus',
+  },
+  settings: {
+    language: 'Sprache',
+    languageHint: 'Der Spiegel hört, transkribiert und antwortet in dieser Sprache.',
+    followBrowser: 'Wie der Browser',
+    personaLibrary: 'Persona-Bibliothek',
+    active: 'Aktiv',
+    newPersona: 'Neue Persona',
+    useThisMirror: 'Diesen Spiegel verwenden',
+    duplicate: 'Duplizieren',
+    reset: 'Zurücksetzen',
+    export: 'Exportieren',
+    delete: 'Löschen',
+    name: 'Name',
+    aura: 'Aura',
+    auraColor: (color) => `Aura ${color}`,
+    mirrorColours: 'Spiegelfarben',
+    themes: { aura: 'Aura', dusk: 'Dämmerung', forest: 'Wald', ocean: 'Ozean', ember: 'Glut', moon: 'Mond' },
+    instruction: 'Die Seele des Spiegels (Anweisung)',
+    instructionPlaceholder: 'Beschreibe die Energie deines Gegenübers...',
+    voice: 'Stimme',
+    starterPrompts: 'Einstiegssätze (einer pro Zeile)',
+    starterPromptsPlaceholder: 'Ich brauche einfach jemanden, der zuhört.',
+    rememberMe: 'An mich erinnern',
+    rememberMeHint: 'Nach jeder Sitzung mit diesem Spiegel eine kurze Notiz behalten und die neuesten Notizen in die nächste mitnehmen. Ausgeschaltet passiert beides nicht.',
+    replyStyle: 'Antwortform',
+    spoken: 'Gesprochen',
+    textOnly: 'Nur Text',
+    visualizer: 'Visualisierung',
+    visualizerModes: { rays: 'Strahlen', waveform: 'Welle', orb: 'Atmende Kugel' },
+    captions: 'Live-Untertitel',
+    captionsHint: 'Zeigt, was du und der Spiegel sagen, während es gesagt wird.',
+    captionSize: 'Untertitelgröße',
+    captionSizes: { small: 'Klein', medium: 'Mittel', large: 'Groß' },
+    audio: 'Mikrofon & Lautsprecher',
+    voiceInput: 'Spracheingabe',
+    alwaysListening: 'Immer zuhören',
+    pushToTalk: 'Drücken zum Sprechen',
+    sensitivity: 'Empfindlichkeit',
+    answerPause: 'Pause, bevor der Spiegel antwortet',
+    talkKey: 'Sprechtaste',
+    pressKey: 'Drück eine Taste...',
+    moodCheckIns: 'Stimmungs-Check-ins',
+    offer: 'Anbieten',
+    never: 'Nie',
+    reminders: 'Check-in-Erinnerungen',
+    recordings: 'Audioaufnahmen behalten',
+    recordingsHint: 'Beide Stimmen jeder Sitzung auf diesem Gerät speichern, damit du sie zusammen mit dem Transkript nachhören kannst.',
+    safety: 'Behutsame Sicherheitshinweise',
+    safetyHint: 'Wenn Belastung bemerkt wird, kümmert sich der Spiegel für den Rest der Sitzung vor allem um deine Sicherheit.',
+    actions: 'Aktionen des Spiegels',
+    actionsHint: 'Was der Spiegel während einer Sitzung tun kann. Alles, was er tut, erscheint im Transkript.',
+    permissions: { always: 'Immer', ask: 'Fragen', never: 'Nie' },
+    vault: 'Privater Tresor',
+    sharePersonas: 'Personas teilen',
+    import: 'Importieren',
+    exportAll: 'Alle exportieren',
+    welcomed: (count) => count === 1 ? '1 Persona aufgenommen.' : `${count} Personas aufgenommen.`,
+    saveAll: 'Speichern & schützen',
+  },
+  personas: {
+    newName: 'Neuer Spiegel',
+    copyName: (name) => `${name} (Kopie)`,
+  },
+  files: {
+    invalidJson: 'Diese Datei ist kein gültiges JSON.',
+    notJournal: 'Diese Datei enthält kein EgoMirror-Journal.',
+    notPersonas: 'Diese Datei enthält keine EgoMirror-Personas.',
+    newerVersion: 'Diese Datei wurde mit einer neueren Version von EgoMirror erstellt.',
+  },
+  safety: {
+    region: 'Region',
+    resources: 'Hilfsangebote',
+    title: 'Du musst das nicht allein tragen',
+    body: (emergency) =>
+      `Wenn du daran denkst, dir etwas anzutun, oder du nicht sicher bist, sind jetzt gleich Menschen da, die zuhören. Im Notfall ruf die ${emergency} an.`,
+    anywhereElse: 'Anderswo',
+    localEmergency: 'örtliche Notrufnummer',
+  },
+  vault: {
+    lockedTitle: 'Dein Rückzugsort ist gesperrt.',
+    lockedHint: 'Gib deine Passphrase ein, um deine Gespräche und Spiegel zu öffnen.',
+    passphrase: 'Passphrase',
+    opening: 'Wird geöffnet...',
+    unlock: 'Entsperren',
+    forgotten: 'Vergessene Passphrasen lassen sich nicht wiederherstellen. Du kannst nur neu anfangen.',
+    didntOpen: 'Der Tresor ließ sich nicht öffnen.',
+    wipe: 'Alles löschen',
+    wipeConfirm: 'Nochmal tippen, um alles zu löschen',
+    wiping: 'Wird gelöscht...',
+    offHint: 'Verschlüssle deine Gespräche, Spiegel, Check-ins und Aufnahmen mit einer Passphrase. Ohne sie kann niemand sie lesen, auch du nicht.',
+    onHint: 'Deine Gespräche, Spiegel, Check-ins und Aufnahmen sind auf diesem Gerät verschlüsselt.',
+    autoLock: 'Nach Inaktivität sperren',
+    minutes: (minutes) => `${minutes} Min.`,
+    never: 'Nie',
+    currentPassphrase: 'Aktuelle Passphrase',
+    newPassphrase: 'Neue Passphrase',
+    repeatPassphrase: 'Neue Passphrase wiederholen',
+    tooShort: (length) => `Verwende mindestens ${length} Zeichen.`,
+    mismatch: 'Die Passphrasen stimmen noch nicht überein.',
+    working: 'Einen Moment...',
+    turnOn: 'Einschalten',
+    turnOff: 'Ausschalten',
+    turnOnVault: 'Tresor einschalten',
+    turnOffVault: 'Tresor ausschalten',
+    changePassphrase: 'Passphrase ändern',
+    enabled: 'Alles auf diesem Gerät ist jetzt verschlüsselt.',
+    changed: 'Passphrase geändert und alles neu verschlüsselt.',
+    disabled: 'Der Tresor ist aus. Deine Daten werden wieder unverschlüsselt gespeichert.',
+    failed: 'Etwas ist schiefgelaufen.',
+    wrongPassphrase: 'Diese Passphrase öffnet den Tresor nicht.',
+    locked: 'Der Tresor ist gesperrt.',
+    alreadyOn: 'Der Tresor ist bereits eingeschaltet.',
+    unknownKey: 'Dieser Eintrag wurde mit einem Schlüssel versiegelt, den der Tresor nicht mehr hat.',
+  },
+  composer: {
+    placeholder: 'Schreib, was dich beschäftigt...',
+    label: 'Nachricht',
+    send: 'Senden',
+  },
+  captions: {
+    you: 'Du',
+    interrupted: '(unterbrochen)',
+  },
+  audio: {
+    listHint: 'Dein Browser zeigt die Liste der Mikrofone, sobald du eines erlaubst. Teste unten das Mikrofon, um sie zu sehen.',
+    microphone: 'Mikrofon',
+    speaker: 'Lautsprecher',
+    defaultMicrophone: 'das Standardmikrofon',
+    systemDefault: 'Systemstandard',
+    savedDevice: 'Gespeichertes Gerät (nicht verbunden)',
+    defaultOutputOnly: 'Dieser Browser spielt den Spiegel immer über die Standardausgabe deines Systems ab.',
+    echoCancellation: 'Echounterdrückung',
+    noiseSuppression: 'Rauschunterdrückung',
+    autoGainControl: 'Automatische Verstärkung',
+    inputGain: 'Eingangsverstärkung',
+    level: 'Mikrofonpegel',
+    threshold: 'Ab hier hört dich der Spiegel',
+    testMicrophone: 'Mikrofon testen',
+    stopTest: 'Test beenden',
+    recordSample: (seconds) => `${seconds} s aufnehmen und abspielen`,
+    recording: 'Aufnahme läuft, sag etwas…',
+    playingBack: 'Wird abgespielt…',
+  },
+  playback: {
+    pause: 'Spiegel pausieren',
+    resume: 'Spiegel fortsetzen',
+    pauseShort: 'Pause',
+    resumeShort: 'Fortsetzen',
+    volume: 'Lautstärke des Spiegels',
+    speed: 'Sprechtempo',
+  },
+  reminders: {
+    notificationsOff: 'Benachrichtigungen sind für diese Seite aus, daher erscheinen Erinnerungen in der App.',
+    notificationsOn: 'Erinnerungen kommen als Benachrichtigungen. Wer eine öffnet, beginnt eine Sitzung mit ihrem Satz.',
+    whileOpen: (minutes) =>
+      `Erinnerungen kommen nur, solange EgoMirror geöffnet und entsperrt ist; geschlossen oder gesperrt wird nichts gesendet. Eine, die um mehr als ${minutes} Minuten verpasst wurde, fällt bis zum nächsten Tag aus.`,
+    defaultLabel: 'Abend-Check-in',
+    name: 'Name der Erinnerung',
+    time: 'Uhrzeit',
+    delete: 'Erinnerung löschen',
+    openingLine: 'Erster Satz (optional)',
+    starterPrompt: 'Einstiegssatz',
+    add: 'Erinnerung hinzufügen',
+  },
+  toolPrompt: {
+    request: (request) => `Dein Spiegel möchte ${request}.`,
+    changeInSettings: (label) => `${label} • das kannst du in den Einstellungen ändern.`,
+    notNow: 'Jetzt nicht',
+    alwaysAllow: 'Immer erlauben',
+    allow: 'Erlauben',
+  },
+  tools: {
+    log_mood: {
+      label: 'Stimmung festhalten',
+      description: 'Hält in der aktuellen Sitzung deine Stimmung fest, wenn du erzählst, wie es dir geht.',
+      request: (mood, tags) => `deine Stimmung als „${mood}“ festhalten${tags.length ? ` (${tags.join(', ')})` : ''}`,
+      done: (mood, energy, tags) =>
+        `Stimmung festgehalten: ${mood}, ${energy}${tags.length ? ` (${tags.join(', ')})` : ''}`,
+    },
+    start_exercise: {
+      label: 'Übung starten',
+      description: 'Startet auf dem Bildschirm eine geführte Atem-, Erdungs- oder Körperreise-Übung.',
+      request: (title) => `„${title}“ starten`,
+      done: (title) => `Übung gestartet: ${title}`,
+      busy: (title) => `„${title}“ konnte nicht starten; es läuft bereits eine Übung`,
+    },
+    find_past_session: {
+      label: 'Frühere Sitzungen nachschlagen',
+      description: 'Liest die Notizen aus deinen früheren Gesprächen. Private Notizen werden nie geteilt.',
+      request: (query) => query ? `in deinen früheren Sitzungen nach „${query}“ suchen` : 'sich deine letzten Sitzungen ansehen',
+      done: (count, query) =>
+        `${count === 1 ? '1 frühere Sitzung' : `${count} frühere Sitzungen`}${query ? ` zu „${query}“` : ''} nachgelesen`,
+      none: (query) => `Keine früheren Sitzungen${query ? ` zu „${query}“` : ''} gefunden`,
+    },
+    schedule_check_in: {
+      label: 'Check-in-Erinnerungen setzen',
+      description: 'Hinterlässt auf diesem Gerät eine Erinnerung, zurückzukommen und einzuchecken.',
+      request: (delay) => `dich in ${delay} an einen Check-in erinnern`,
+      done: (when) => `Check-in-Erinnerung für ${when} gesetzt`,
+      defaultNote: 'Zeit für einen behutsamen Check-in.',
+    },
+    delay: {
+      minutes: (n) => `${n} Min.`,
+      hours: (n) => `${n} Std.`,
+      days: (n) => `${n} Tagen`,
+    },
+    turnedOff: (label) => `„${label}“ geht nicht; es ist in den Einstellungen aus`,
+    failed: (label) => `„${label}“ hat nicht geklappt`,
+    declined: (request) => `Abgelehnt: ${request}`,
+  },
+  checkIn: {
+    mood: 'Stimmung',
+    energy: 'Energie',
+    moods: ['Schwer', 'Gedrückt', 'Okay', 'Leicht', 'Strahlend'],
+    energyLevels: ['Erschöpft', 'Müde', 'Ausgeglichen', 'Wach', 'Voller Energie'],
+    present: 'Was gerade da ist',
+    somethingElse: 'Etwas anderes...',
+    addTag: 'Stichwort hinzufügen',
+    skipLabel: 'Check-in überspringen',
+    skip: 'ÜBERSPRINGEN',
+    skipAndBegin: 'ÜBERSPRINGEN & BEGINNEN',
+    begin: 'Beginnen',
+    tags: {
+      anxious: 'ängstlich',
+      lonely: 'einsam',
+      tired: 'müde',
+      stressed: 'gestresst',
+      calm: 'ruhig',
+      hopeful: 'zuversichtlich',
+      grateful: 'dankbar',
+      overwhelmed: 'überfordert',
+    },
+  },
+  insights: {
+    empty: 'Checke vor und nach einer Sitzung ein, um zu sehen, wie es dir mit der Zeit geht.',
+    notEnough: 'Noch nicht genug Check-in-Paare.',
+    moodShift: 'Stimmungswandel',
+    energyShift: 'Energiewandel',
+    moodOverTime: 'Stimmung im Verlauf',
+    chart: 'Stimmung vor und nach jeder Sitzung',
+    legend: 'Gestrichelt: beim Ankommen • Durchgezogen: beim Gehen',
+    byPersona: 'Nach Persona',
+    byPrompt: 'Nach Einstiegssatz oder Übung',
+    byTopic: 'Nach Thema',
+    computedLocally: 'Auf diesem Gerät berechnet',
+    openConversation: 'Offenes Gespräch',
+  },
+  history: {
+    back: 'Zurück zu den Sitzungen',
+    search: 'Durchsuche deine Gedanken...',
+    from: 'Von',
+    to: 'Bis',
+    loadError: 'Das Journal konnte nicht geöffnet werden.',
+    noMatches: 'Nichts im Strom passt dazu.',
+    empty: 'Der Strom ist klar und still.',
+    reflections: (count) => `${count} ${count === 1 ? 'Gedanke' : 'Gedanken'}`,
+    recorded: 'Aufgenommen',
+    deleteSession: 'Sitzung löschen',
+    exportFormat: 'Exportformat',
+    formats: { markdown: 'Markdown', json: 'JSON', text: 'Nur Text', html: 'Druckbare Seite' },
+    exportSession: 'Sitzung exportieren',
+    exportShown: (count) => `${count} angezeigte exportieren`,
+    exportAll: 'Alles exportieren',
+    importJson: 'JSON importieren',
+    restored: (count) => count === 1 ? '1 Sitzung wiederhergestellt.' : `${count} Sitzungen wiederhergestellt.`,
+    purge: 'VERLAUF LÖSCHEN',
+    close: 'Rückzugsort schließen',
+    downloadRecording: 'Aufnahme herunterladen',
+  },
+  exportFile: {
+    title: 'EgoMirror-Journal',
+    heading: (date, persona) => `${date} mit ${persona}`,
+    you: 'Du',
+    unfinished: 'nicht beendet',
+    minutes: (minutes) => `${minutes} Min.`,
+    messages: (count) => `${count} ${count === 1 ? 'Nachricht' : 'Nachrichten'}`,
+    session: 'Sitzung',
+    started: 'Begonnen',
+    ended: 'Beendet',
+    messageCount: 'Nachrichten',
+  },
+  exercises: {
+    intro: 'Mit Stimme spricht der Spiegel jeden Schritt, wenn er dran ist. Nur auf dem Bildschirm werden die Schritte als Text gezeigt und nichts verlässt dieses Gerät.',
+    offline: 'Du bist offline. Übungen funktionieren weiterhin auf dem Bildschirm.',
+    withVoice: 'Mit Stimme',
+    onScreen: 'Nur auf dem Bildschirm',
+    seconds: (seconds) => `${seconds} Sek.`,
+    minutes: (minutes) => `${minutes} Min.`,
+    completed: (count) => `${count}× gemacht`,
+    wellDone: 'Gut gemacht.',
+    gettingReady: 'Einen Moment...',
+    getComfortable: 'Mach es dir bequem.',
+    finished: (title) => `${title} abgeschlossen. Nimm dir einen Moment, bevor du weitermachst.`,
+    onItsWay: 'Dein Spiegel ist unterwegs.',
+    beginsIn: (title, seconds) => `${title} beginnt in ${seconds}`,
+    round: (round, rounds) => `Runde ${round} von ${rounds}`,
+    done: 'Fertig',
+    stop: 'Übung beenden',
+  },
+  exerciseContent: {
+    'box-breathing': {
+      title: 'Box-Atmung',
+      summary: 'Vier gleiche Seiten: ein, halten, aus, halten. Beruhigt rasende Gedanken.',
+      phases: [
+        { cue: 'Einatmen', detail: 'durch die Nase' },
+        { cue: 'Halten' },
+        { cue: 'Ausatmen', detail: 'langsam, durch den Mund' },
+        { cue: 'Halten', detail: 'leer und still' },
+      ],
+    },
+    '4-7-8': {
+      title: '4-7-8-Atmung',
+      summary: 'Ein langes, langsames Ausatmen, das dem Körper hilft, zur Ruhe zu kommen.',
+      phases: [
+        { cue: 'Einatmen', detail: 'leise, durch die Nase' },
+        { cue: 'Halten' },
+        { cue: 'Ausatmen', detail: 'ganz aus, mit einem sanften Hauch' },
+      ],
+    },
+    'grounding-54321': {
+      title: '5-4-3-2-1-Erdung',
+      summary: 'Komm über deine Sinne zurück in den Raum, einen nach dem anderen.',
+      phases: [
+        { cue: 'Fünf Dinge, die du siehst', detail: 'lass den Blick auf jedem ruhen' },
+        { cue: 'Vier Dinge, die du spürst', detail: 'deine Füße, deine Hände, die Luft' },
+        { cue: 'Drei Dinge, die du hörst', detail: 'nah und fern' },
+        { cue: 'Zwei Dinge, die du riechst', detail: 'oder zwei Gerüche, die du magst' },
+        { cue: 'Eine Sache, die du schmeckst', detail: 'oder etwas Freundliches über dich' },
+      ],
+    },
+    'body-scan': {
+      title: 'Kurzer Bodyscan',
+      summary: 'Drei ruhige Minuten, in denen deine Aufmerksamkeit von den Füßen zum Gesicht wandert.',
+      phases: [
+        { cue: 'Komm an', detail: 'schließ die Augen oder lass den Blick weich werden' },
+        { cue: 'Deine Füße', detail: 'spür Gewicht, Wärme, Kontakt' },
+        { cue: 'Deine Beine', detail: 'lass sie schwer werden' },
+        { cue: 'Dein Bauch', detail: 'er hebt und senkt sich von selbst' },
+        { cue: 'Brust und Schultern', detail: 'lass sie ein wenig sinken' },
+        { cue: 'Dein Gesicht', detail: 'lockere Kiefer und Stirn' },
+        { cue: 'Dein ganzer Körper', detail: 'atmend, hier, genug' },
+      ],
+    },
+  },
+  memories: {
+    intro: (limit) =>
+      `Nach jeder Sitzung wird hier eine kurze Notiz behalten. Jeder Spiegel sieht bis zu ${limit} seiner neuesten geteilten Notizen, und keine, solange „An mich erinnern“ aus ist.`,
+    empty: 'Noch nichts erinnert.',
+    shared: 'Geteilt',
+    private: 'Privat',
+    sharedHint: 'Mit künftigen Sitzungen geteilt',
+    privateHint: 'Nur hier behalten',
+    edit: 'Erinnerung bearbeiten',
+    delete: 'Erinnerung löschen',
+    summary: 'Zusammenfassung',
+    themes: 'Themen',
+    themesPlaceholder: 'Themen, durch Kommas getrennt',
+    threads: 'Offene Fäden',
+    threadsPlaceholder: 'Offene Fäden, einer pro Zeile',
+    forgetAll: 'ALLES VERGESSEN',
+  },
+  visualizer: {
+    active: 'Deine Stimme und die des Spiegels, als zwei Ringe',
+    resting: 'Spiegel in Ruhe',
+  },
+  starterPrompts: [
+    'Ich fühle mich heute etwas erschöpft...',
+    'Es fällt mir schwer, mit anderen in Kontakt zu kommen.',
+    'Ich brauche einfach jemanden, der zuhört.',
+    'Ist es okay, still zu sein?',
+    'Unter Menschen fühle ich mich einsam.',
+  ],
+};
@@ -0,0 +1,471 @@
+import type { ConnectionErrorKind } from '../../utils/connection';
+import type { ExerciseId, ExerciseText } from '../exercises';
+import type { SuggestedTag } from '../../utils/insights';
+
+const errors: Record<ConnectionErrorKind, string> = {
+  'network': 'The connection to your mirror slipped away. Check your network and try again.',
+  'auth': "The mirror couldn't verify its key. Ask whoever set up this app to check the Gemini API key.",
+  'quota': 'The mirror needs a rest; the service is busy or out of quota. Please try again a little later.',
+  'microphone-denied': "Microphone access was declined. Allow it in your browser's site settings to speak aloud.",
+  'microphone-missing': 'No microphone was found. Connect one, or write instead.',
+  'microphone-busy': 'Your microphone is being used by something else. Close it there and try again.',
+  'unknown': "The mirror lost its focus. Let's try again.",
+};
+
+const exerciseContent: Record<ExerciseId, ExerciseText> = {
+  'box-breathing': {
+    title: 'Box breathing',
+    summary: 'Four even sides: in, hold, out, hold. Steadies a racing mind.',
+    phases: [
+      { cue: 'Breathe in', detail: 'through your nose' },
+      { cue: 'Hold' },
+      { cue: 'Breathe out', detail: 'slowly, through your mouth' },
+      { cue: 'Hold', detail: 'empty and still' },
+    ],
+  },
+  '4-7-8': {
+    title: '4-7-8 breathing',
+    summary: 'A long, slow exhale that helps the body settle toward rest.',
+    phases: [
+      { cue: 'Breathe in', detail: 'quietly, through your nose' },
+      { cue: 'Hold' },
+      { cue: 'Breathe out', detail: 'all the way, with a soft whoosh' },
+    ],
+  },
+  'grounding-54321': {
+    title: '5-4-3-2-1 grounding',
+    summary: 'Come back to the room through your senses, one at a time.',
+    phases: [
+      { cue: 'Five things you can see', detail: 'let your eyes rest on each one' },
+      { cue: 'Four things you can feel', detail: 'your feet, your hands, the air' },
+      { cue: 'Three things you can hear', detail: 'near and far' },
+      { cue: 'Two things you can smell', detail: 'or two smells you like' },
+      { cue: 'One thing you can taste', detail: 'or one kind thing about yourself' },
+    ],
+  },
+  'body-scan': {
+    title: 'Short body scan',
+    summary: 'Three quiet minutes moving your attention from feet to face.',
+    phases: [
+      { cue: 'Settle in', detail: 'let your eyes close or soften' },
+      { cue: 'Your feet', detail: 'notice weight, warmth, contact' },
+      { cue: 'Your legs', detail: 'let them be heavy' },
+      { cue: 'Your belly', detail: 'rising and falling on its own' },
+      { cue: 'Your chest and shoulders', detail: 'let them drop a little' },
+      { cue: 'Your face', detail: 'soften your jaw and your brow' },
+      { cue: 'Your whole body', detail: 'breathing, here, enough' },
+    ],
+  },
+};
+
+const suggestedTags: Record<SuggestedTag, string> = {
+  anxious: 'anxious',
+  lonely: 'lonely',
+  tired: 'tired',
+  stressed: 'stressed',
+  calm: 'calm',
+  hopeful: 'hopeful',
+  grateful: 'grateful',
+  overwhelmed: 'overwhelmed',
+};
+
+export const en = {
+  app: {
+    tagline: 'Inner Sanctuary',
+    history: 'History',
+    memories: 'Memories',
+    insights: 'Insights',
+    lock: 'Lock',
+    lockNow: 'Lock now',
+    settings: 'Settings',
+    headline: {
+      disconnected: 'Welcome back, kindred soul.',
+      error: "Let's pause for a moment.",
+      connecting: 'Awakening your mirror...',
+      reconnecting: 'Finding our thread again...',
+      text: 'Go ahead. Write your heart.',
+      voice: 'Go ahead. Speak your heart.',
+    },
+    subline: {
+      reconnecting: 'Stay with me. Your words so far are safe.',
+      inSession: 'This is your space. No one else is listening.',
+      idle: 'A companion that understands the beauty of being quiet.',
+    },
+    recordingLocally: 'Recording to this device only',
+    persona: 'Persona',
+    remembers: (name: string, count: number) =>
+      `${name} remembers ${count} earlier ${count === 1 ? 'conversation' : 'conversations'}`,
+    exercises: 'Guided breathing, grounding and body scan',
+    mute: 'Mute microphone',
+    unmute: 'Unmute microphone',
+    muteHint: 'Mute without ending the session',
+    unmuteHint: 'Unmute',
+    endSession: 'End session',
+    tryAgain: 'Try again',
+    startSpeaking: 'Start speaking',
+    toggleWriting: 'Toggle writing',
+    writeInstead: 'Write instead',
+    writeAlongsideHint: 'Write alongside your voice',
+    writeInsteadHint: 'Write instead of speaking',
+    talking: 'Listening...',
+    holdToTalk: (key: string) => `Hold to talk (${key})`,
+    muted: "Muted. The mirror can't hear you.",
+    hearingYou: 'Hearing you',
+    mirrorSpeaking: 'The mirror is speaking',
+    listeningForVoice: 'Listening for your voice',
+    dismissReminder: 'Dismiss reminder',
+    startReminder: 'Start this check-in',
+    deviceSwitched: (label: string) => `Now listening through ${label}.`,
+    storedLocally: 'Stored on this device',
+    storedEncrypted: 'Encrypted on this device',
+    offline: 'Mirror unavailable offline',
+    offlineHint: 'Your history, insights and personas are still here.',
+    protocol: 'Gemini Protocol',
+  },
+  modals: {
+    settings: 'Mirror Config',
+    history: 'Dialogue Stream',
+    insights: 'Inner Weather',
+    memories: 'What the Mirror Remembers',
+    exercises: 'Guided Exercises',
+    checkInBefore: 'How are you arriving?',
+    checkInAfter: 'How are you leaving?',
+  },
+  errors,
+  /** Added after a microphone error when the session carries on in text. */
+  continueInWriting: "We'll continue in writing for now.",
+  /** Body of a daily reminder notification that has no starter prompt. */
+  reminderBody: 'A quiet moment to check in with yourself.',
+  common: {
+    close: 'Close',
+    cancel: 'Cancel',
+    save: 'Save',
+    on: 'On',
+    off: 'Off',
+  },
+  settings: {
+    language: 'Language',
+    languageHint: 'The mirror listens, transcribes and replies in this language.',
+    followBrowser: 'Match browser',
+    personaLibrary: 'Persona Library',
+    active: 'Active',
+    newPersona: 'New persona',
+    useThisMirror: 'Use this mirror',
+    duplicate: 'Duplicate',
+    reset: 'Reset',
+    export: 'Export',
+    delete: 'Delete',
+    name: 'Name',
+    aura: 'Aura',
+    auraColor: (color: string) => `Aura ${color}`,
+    mirrorColours: 'Mirror Colours',
+    themes: { aura: 'Aura', dusk: 'Dusk', forest: 'Forest', ocean: 'Ocean', ember: 'Ember', moon: 'Moon' },
+    instruction: "Mirror's Soul (Instruction)",
+    instructionPlaceholder: 'Define the energy of your companion...',
+    voice: 'Atmospheric Voice',
+    starterPrompts: 'Starter Prompts (one per line)',
+    starterPromptsPlaceholder: 'I just need someone to listen.',
+    rememberMe: 'Remember Me',
+    rememberMeHint: 'Keep a short note after each session with this mirror and bring recent notes into the next one. Turning this off stops both.',
+    replyStyle: 'Reply Style',
+    spoken: 'Spoken',
+    textOnly: 'Text only',
+    visualizer: 'Visualizer',
+    visualizerModes: { rays: 'Rays', waveform: 'Waveform', orb: 'Breathing orb' },
+    captions: 'Live Captions',
+    captionsHint: 'Show what you and the mirror say as it is being said.',
+    captionSize: 'Caption size',
+    captionSizes: { small: 'Small', medium: 'Medium', large: 'Large' },
+    audio: 'Microphone & Speaker',
+    voiceInput: 'Voice Input',
+    alwaysListening: 'Always listening',
+    pushToTalk: 'Push to talk',
+    sensitivity: 'Sensitivity',
+    answerPause: 'Pause before the mirror answers',
+    talkKey: 'Talk key',
+    pressKey: 'Press a key...',
+    moodCheckIns: 'Mood Check-ins',
+    offer: 'Offer',
+    never: 'Never',
+    reminders: 'Check-in Reminders',
+    recordings: 'Keep Audio Recordings',
+    recordingsHint: 'Save both voices of each session on this device, so you can listen back alongside the transcript.',
+    safety: 'Gentle Safety Guidance',
+    safetyHint: 'If distress is noticed, ask the mirror to focus on your safety for the rest of the session.',
+    actions: 'Mirror Actions',
+    actionsHint: 'Things the mirror can do during a session. Whatever it does shows up in the transcript.',
+    permissions: { always: 'Always', ask: 'Ask', never: 'Never' },
+    vault: 'Private Vault',
+    sharePersonas: 'Share Personas',
+    import: 'Import',
+    exportAll: 'Export all',
+    welcomed: (count: number) => `Welcomed ${count} ${count === 1 ? 'persona' : 'personas'}.`,
+    saveAll: 'Save & Protect',
+  },
+  personas: {
+    newName: 'New Mirror',
+    copyName: (name: string) => `${name} (copy)`,
+  },
+  /** Messages for files the person tries to import. */
+  files: {
+    invalidJson: "That file isn't valid JSON.",
+    notJournal: "That file doesn't contain an EgoMirror journal.",
+    notPersonas: "That file doesn't contain EgoMirror personas.",
+    newerVersion: 'That file was made by a newer version of EgoMirror.',
+  },
+  safety: {
+    region: 'Region',
+    resources: 'Support resources',
+    title: "You don't have to carry this alone",
+    body: (emergency: string) =>
+      `If you're thinking about harming yourself or you're not safe, people are ready to listen right now. In an emergency, call ${emergency}.`,
+    anywhereElse: 'Anywhere else',
+    localEmergency: 'your local emergency number',
+  },
+  vault: {
+    lockedTitle: 'Your sanctuary is locked.',
+    lockedHint: 'Enter your passphrase to open your conversations and mirrors.',
+    passphrase: 'Passphrase',
+    opening: 'Opening...',
+    unlock: 'Unlock',
+    forgotten: "Forgotten passphrases can't be recovered. You can only start over.",
+    didntOpen: "The vault didn't open.",
+    wipe: 'Wipe everything',
+    wipeConfirm: 'Tap again to erase everything',
+    wiping: 'Wiping...',
+    offHint: 'Encrypt your conversations, mirrors, check-ins and recordings with a passphrase. Without it, nobody, including you, can read them.',
+    onHint: 'Your conversations, mirrors, check-ins and recordings are encrypted on this device.',
+    autoLock: 'Lock after inactivity',
+    minutes: (minutes: number) => `${minutes} min`,
+    never: 'Never',
+    currentPassphrase: 'Current passphrase',
+    newPassphrase: 'New passphrase',
+    repeatPassphrase: 'Repeat new passphrase',
+    tooShort: (length: number) => `Use at least ${length} characters.`,
+    mismatch: "The passphrases don't match yet.",
+    working: 'Working...',
+    turnOn: 'Turn on',
+    turnOff: 'Turn off',
+    turnOnVault: 'Turn on vault',
+    turnOffVault: 'Turn off vault',
+    changePassphrase: 'Change passphrase',
+    enabled: 'Everything on this device is now encrypted.',
+    changed: 'Passphrase changed and everything re-encrypted.',
+    disabled: 'The vault is off. Your data is stored unencrypted again.',
+    failed: 'Something went wrong.',
+    wrongPassphrase: "That passphrase doesn't open the vault.",
+    locked: 'The vault is locked.',
+    alreadyOn: 'The vault is already on.',
+    unknownKey: 'This entry was sealed with a key the vault no longer has.',
+  },
+  composer: {
+    placeholder: "Write what's on your mind...",
+    label: 'Message',
+    send: 'Send',
+  },
+  captions: {
+    you: 'You',
+    interrupted: '(interrupted)',
+  },
+  audio: {
+    listHint: 'Your browser shows the list of microphones once you allow one. Test the microphone below to see them.',
+    microphone: 'Microphone',
+    speaker: 'Speaker',
+    defaultMicrophone: 'the default microphone',
+    systemDefault: 'System default',
+    savedDevice: 'Saved device (not connected)',
+    defaultOutputOnly: "This browser always plays the mirror through your system's default output.",
+    echoCancellation: 'Echo cancellation',
+    noiseSuppression: 'Noise suppression',
+    autoGainControl: 'Automatic gain',
+    inputGain: 'Input gain',
+    level: 'Microphone level',
+    threshold: 'Where the mirror starts hearing you',
+    testMicrophone: 'Test microphone',
+    stopTest: 'Stop test',
+    recordSample: (seconds: number) => `Record ${seconds}s and play back`,
+    recording: 'Recording, say something…',
+    playingBack: 'Playing back…',
+  },
+  playback: {
+    pause: 'Pause the mirror',
+    resume: 'Resume the mirror',
+    pauseShort: 'Pause',
+    resumeShort: 'Resume',
+    volume: 'Mirror volume',
+    speed: 'Speaking speed',
+  },
+  reminders: {
+    notificationsOff: "Notifications are off for this site, so reminders appear inside the app instead.",
+    notificationsOn: 'Reminders arrive as notifications. Opening one starts a session with its prompt.',
+    whileOpen: (minutes: number) =>
+      `Reminders only come while EgoMirror is open and unlocked; nothing is sent while it's closed or locked. One missed by more than ${minutes} minutes is skipped until the next day.`,
+    defaultLabel: 'Evening check-in',
+    name: 'Reminder name',
+    time: 'Time',
+    delete: 'Delete reminder',
+    openingLine: 'Opening line (optional)',
+    starterPrompt: 'Starter prompt',
+    add: 'Add reminder',
+  },
+  toolPrompt: {
+    request: (request: string) => `Your mirror would like to ${request}.`,
+    changeInSettings: (label: string) => `${label} • you can change this in Settings.`,
+    notNow: 'Not now',
+    alwaysAllow: 'Always allow',
+    allow: 'Allow',
+  },
+  /** Tool requests complete `toolPrompt.request`; summaries appear in the transcript. */
+  tools: {
+    log_mood: {
+      label: 'Log your mood',
+      description: 'Record a mood check-in on the current session when you mention how you feel.',
+      request: (mood: string, tags: string[]) => `log your mood as "${mood}"${tags.length ? ` (${tags.join(', ')})` : ''}`,
+      done: (mood: string, energy: string, tags: string[]) =>
+        `Logged your mood: ${mood}, ${energy.toLowerCase()}${tags.length ? ` (${tags.join(', ')})` : ''}`,
+    },
+    start_exercise: {
+      label: 'Start an exercise',
+      description: 'Begin a guided breathing, grounding or body scan exercise on screen.',
+      request: (title: string) => `start ${title.toLowerCase()}`,
+      done: (title: string) => `Started ${title.toLowerCase()}`,
+      busy: (title: string) => `Couldn't start ${title.toLowerCase()}; one is already running`,
+    },
+    find_past_session: {
+      label: 'Look up past sessions',
+      description: 'Read the notes kept from your earlier conversations. Private notes are never shared.',
+      request: (query?: string) => query ? `look through your past sessions for "${query}"` : 'look at your most recent sessions',
+      done: (count: number, query?: string) =>
+        `Looked back at ${count} earlier ${count === 1 ? 'session' : 'sessions'}${query ? ` about "${query}"` : ''}`,
+      none: (query?: string) => `Found no earlier sessions${query ? ` about "${query}"` : ''}`,
+    },
+    schedule_check_in: {
+      label: 'Set check-in reminders',
+      description: 'Leave a reminder on this device to come back and check in.',
+      request: (delay: string) => `remind you to check in in ${delay}`,
+      done: (when: string) => `Set a check-in reminder for ${when}`,
+      defaultNote: 'Time for a gentle check-in.',
+    },
+    delay: {
+      minutes: (n: number) => `${n} min`,
+      hours: (n: number) => `${n} h`,
+      days: (n: number) => `${n} days`,
+    },
+    turnedOff: (label: string) => `Can't ${label.toLowerCase()}; it's off in Settings`,
+    failed: (label: string) => `Couldn't ${label.toLowerCase()}`,
+    declined: (request: string) => `You declined: ${request}`,
+  },
+  checkIn: {
+    mood: 'Mood',
+    energy: 'Energy',
+    moods: ['Heavy', 'Low', 'Okay', 'Light', 'Bright'],
+    energyLevels: ['Drained', 'Tired', 'Steady', 'Awake', 'Energized'],
+    present: "What's present",
+    somethingElse: 'Something else...',
+    addTag: 'Add tag',
+    skipLabel: 'Skip check-in',
+    skip: 'SKIP',
+    skipAndBegin: 'SKIP & BEGIN',
+    begin: 'Begin',
+    tags: suggestedTags,
+  },
+  insights: {
+    empty: "Check in before and after a session to see how you're doing over time.",
+    notEnough: 'Not enough paired check-ins yet.',
+    moodShift: 'Mood shift',
+    energyShift: 'Energy shift',
+    moodOverTime: 'Mood over time',
+    chart: 'Mood before and after each session',
+    legend: 'Dashed: arriving • Solid: leaving',
+    byPersona: 'By persona',
+    byPrompt: 'By starter prompt or exercise',
+    byTopic: 'By topic',
+    computedLocally: 'Computed on this device',
+    openConversation: 'Open conversation',
+  },
+  history: {
+    back: 'Back to sessions',
+    search: 'Search your reflections...',
+    from: 'From',
+    to: 'To',
+    loadError: 'The journal could not be opened.',
+    noMatches: 'Nothing in the stream matches.',
+    empty: 'The stream is clear and quiet.',
+    reflections: (count: number) => `${count} ${count === 1 ? 'reflection' : 'reflections'}`,
+    recorded: 'Recorded',
+    deleteSession: 'Delete session',
+    exportFormat: 'Export format',
+    formats: { markdown: 'Markdown', json: 'JSON', text: 'Plain text', html: 'Printable page' },
+    exportSession: 'Export session',
+    exportShown: (count: number) => `Export ${count} shown`,
+    exportAll: 'Export everything',
+    importJson: 'Import JSON',
+    restored: (count: number) => `Restored ${count} ${count === 1 ? 'session' : 'sessions'}.`,
+    purge: 'PURGE LOGS',
+    close: 'Close Sanctuary',
+    downloadRecording: 'Download recording',
+  },
+  /** Text of exported journals, in the language they were exported in. */
+  exportFile: {
+    title: 'EgoMirror Journal',
+    heading: (date: string, persona: string) => `${date} with ${persona}`,
+    you: 'You',
+    unfinished: 'unfinished',
+    minutes: (minutes: number) => `${minutes} min`,
+    messages: (count: number) => `${count} ${count === 1 ? 'message' : 'messages'}`,
+    session: 'Session',
+    started: 'Started',
+    ended: 'Ended',
+    messageCount: 'Messages',
+  },
+  exercises: {
+    intro: 'With voice, the mirror speaks each step as it comes. On screen only, the steps are shown as text and nothing leaves this device.',
+    offline: "You're offline. Exercises still work on screen.",
+    withVoice: 'With voice',
+    onScreen: 'On screen only',
+    seconds: (seconds: number) => `${seconds} sec`,
+    minutes: (minutes: number) => `${minutes} min`,
+    completed: (count: number) => `done ${count}×`,
+    wellDone: 'Well done.',
+    gettingReady: 'Getting ready...',
+    getComfortable: 'Get comfortable.',
+    finished: (title: string) => `${title} complete. Take a moment before you move on.`,
+    onItsWay: 'Your mirror is on its way.',
+    beginsIn: (title: string, seconds: number) => `${title} begins in ${seconds}`,
+    round: (round: number, rounds: number) => `Round ${round} of ${rounds}`,
+    done: 'Done',
+    stop: 'Stop exercise',
+  },
+  exerciseContent,
+  memories: {
+    intro: (limit: number) =>
+      `After each session, a short note is kept here. Each mirror sees up to ${limit} of its own most recent shared notes, and none while its "Remember me" setting is off.`,
+    empty: 'Nothing remembered yet.',
+    shared: 'Shared',
+    private: 'Private',
+    sharedHint: 'Shared with future sessions',
+    privateHint: 'Kept here only',
+    edit: 'Edit memory',
+    delete: 'Delete memory',
+    summary: 'Summary',
+    themes: 'Themes',
+    themesPlaceholder: 'Themes, separated by commas',
+    threads: 'Open threads',
+    threadsPlaceholder: 'Open threads, one per line',
+    forgetAll: 'FORGET ALL',
+  },
+  visualizer: {
+    active: "Your voice and the mirror's voice, shown as two rings",
+    resting: 'Mirror at rest',
+  },
+  starterPrompts: [
+    "I'm feeling a bit drained today...",
+    "It's hard for me to connect with others.",
+    'I just need someone to listen.',
+    'Is it okay to be quiet?',
+    'I feel lonely around people.',
+  ],
+};
+
+/** Every locale provides the full set of strings, so a missing translation is a type error. */
+export type LocaleBundle = typeof en;
@@ -0,0 +1,455 @@
+import type { LocaleBundle } from './en';
+
+export const es: LocaleBundle = {
+  app: {
+    tagline: 'Santuario interior',
+    history: 'Historial',
+    memories: 'Recuerdos',
+    insights: 'Tendencias',
+    lock: 'Bloquear',
+    lockNow: 'Bloquear ahora',
+    settings: 'Ajustes',
+    headline: {
+      disconnected: 'Qué bueno verte de nuevo, alma afín.',
+      error: 'Hagamos una pausa.',
+      connecting: 'Despertando a tu espejo...',
+      reconnecting: 'Retomando el hilo...',
+      text: 'Adelante. Escribe lo que sientes.',
+      voice: 'Adelante. Di lo que sientes.',
+    },
+    subline: {
+      reconnecting: 'Quédate conmigo. Lo que has dicho hasta ahora está a salvo.',
+      inSession: 'Este es tu espacio. Nadie más está escuchando.',
+      idle: 'Una compañía que entiende la belleza del silencio.',
+    },
+    recordingLocally: 'Grabando solo en este dispositivo',
+    persona: 'Personaje',
+    remembers: (name, count) =>
+      `${name} recuerda ${count} ${count === 1 ? 'conversación anterior' : 'conversaciones anteriores'}`,
+    exercises: 'Respiración guiada, anclaje y escaneo corporal',
+    mute: 'Silenciar micrófono',
+    unmute: 'Activar micrófono',
+    muteHint: 'Silenciar sin terminar la sesión',
+    unmuteHint: 'Activar',
+    endSession: 'Terminar sesión',
+    tryAgain: 'Intentar de nuevo',
+    startSpeaking: 'Empezar a hablar',
+    toggleWriting: 'Mostrar u ocultar escritura',
+    writeInstead: 'Escribir',
+    writeAlongsideHint: 'Escribir además de hablar',
+    writeInsteadHint: 'Escribir en lugar de hablar',
+    talking: 'Escuchando...',
+    holdToTalk: (key) => `Mantén pulsado para hablar (${key})`,
+    muted: 'Silenciado. El espejo no te oye.',
+    hearingYou: 'Te escucho',
+    mirrorSpeaking: 'El espejo está hablando',
+    listeningForVoice: 'Esperando tu voz',
+    dismissReminder: 'Descartar recordatorio',
+    startReminder: 'Empezar este momento de conexión',
+    deviceSwitched: (label) => `Ahora escucho a través de ${label}.`,
+    storedLocally: 'Guardado en este dispositivo',
+    storedEncrypted: 'Cifrado en este dispositivo',
+    offline: 'Espejo no disponible sin conexión',
+    offlineHint: 'Tu historial, tendencias y personajes siguen aquí.',
+    protocol: 'Protocolo Gemini',
+  },
+  modals: {
+    settings: 'Configurar el espejo',
+    history: 'Diálogos',
+    insights: 'Clima interior',
+    memories: 'Lo que el espejo recuerda',
+    exercises: 'Ejercicios guiados',
+    checkInBefore: '¿Cómo llegas?',
+    checkInAfter: '¿Cómo te vas?',
+  },
+  errors: {
+    'network': 'Se perdió la conexión con tu espejo. Revisa tu red e inténtalo de nuevo.',
+    'auth': 'El espejo no pudo verificar su clave. Pide a quien configuró esta aplicación que revise la clave de la API de Gemini.',
+    'quota': 'El espejo necesita descansar: el servicio está ocupado o sin cuota. Inténtalo de nuevo un poco más tarde.',
+    'microphone-denied': 'Se denegó el acceso al micrófono. Permítelo en los ajustes del sitio de tu navegador para hablar en voz alta.',
+    'microphone-missing': 'No se encontró ningún micrófono. Conecta uno o escribe.',
+    'microphone-busy': 'Otra aplicación está usando tu micrófono. Ciérrala e inténtalo de nuevo.',
+    'unknown': 'El espejo perdió la concentración. Intentémoslo de nuevo.',
+  },
+  continueInWriting: 'Por ahora seguimos por escrito.',
+  reminderBody: 'Un momento tranquilo para conectar contigo.',
+  common: {
+    close: 'Cerrar',
+    cancel: 'Cancelar',
+    save: 'Guardar',
+    on: 'Sí',
+    off: 'No',
+  },
+  settings: {
+    language: 'Idioma',
+    languageHint: 'El espejo escucha, transcribe y responde en este idioma.',
+    followBrowser: 'Como el navegador',
+    personaLibrary: 'Biblioteca de personajes',
+    active: 'Activo',
+    newPersona: 'Nuevo personaje',
+    useThisMirror: 'Usar este espejo',
+    duplicate: 'Duplicar',
+    reset: 'Restablecer',
+    export: 'Exportar',
+    delete: 'Eliminar',
+    name: 'Nombre',
+    aura: 'Aura',
+    auraColor: (color) => `Aura ${color}`,
+    mirrorColours: 'Colores del espejo',
+    themes: { aura: 'Aura', dusk: 'Atardecer', forest: 'Bosque', ocean: 'Océano', ember: 'Brasa', moon: 'Luna' },
+    instruction: 'El alma del espejo (instrucción)',
+    instructionPlaceholder: 'Describe la energía de tu compañía...',
+    voice: 'Voz',
+    starterPrompts: 'Frases para empezar (una por línea)',
+    starterPromptsPlaceholder: 'Solo necesito que alguien me escuche.',
+    rememberMe: 'Recuérdame',
+    rememberMeHint: 'Guarda una nota breve después de cada sesión con este espejo y trae las notas recientes a la siguiente. Al desactivarlo se detienen ambas cosas.',
+    replyStyle: 'Forma de responder',
+    spoken: 'Hablada',
+    textOnly: 'Solo texto',
+    visualizer: 'Visualizador',
+    visualizerModes: { rays: 'Rayos', waveform: 'Onda', orb: 'Esfera que respira' },
+    captions: 'Subtítulos en directo',
+    captionsHint: 'Muestra lo que dices tú y lo que dice el espejo mientras se dice.',
+    captionSize: 'Tamaño de los subtítulos',
+    captionSizes: { small: 'Pequeño', medium: 'Mediano', large: 'Grande' },
+    audio: 'Micrófono y altavoz',
+    voiceInput: 'Entrada de voz',
+    alwaysListening: 'Escucha continua',
+    pushToTalk: 'Pulsar para hablar',
+    sensitivity: 'Sensibilidad',
+    answerPause: 'Pausa antes de que responda el espejo',
+    talkKey: 'Tecla para hablar',
+    pressKey: 'Pulsa una tecla...',
+    moodCheckIns: 'Registro del ánimo',
+    offer: 'Ofrecer',
+    never: 'Nunca',
+    reminders: 'Recordatorios',
+    recordings: 'Guardar grabaciones de audio',
+    recordingsHint: 'Guarda las dos voces de cada sesión en este dispositivo para que puedas escucharlas junto a la transcripción.',
+    safety: 'Orientación de seguridad',
+    safetyHint: 'Si se nota angustia, pide al espejo que se centre en tu seguridad durante el resto de la sesión.',
+    actions: 'Acciones del espejo',
+    actionsHint: 'Cosas que el espejo puede hacer durante una sesión. Todo lo que haga aparece en la transcripción.',
+    permissions: { always: 'Siempre', ask: 'Preguntar', never: 'Nunca' },
+    vault: 'Caja fuerte privada',
+    sharePersonas: 'Compartir personajes',
+    import: 'Importar',
+    exportAll: 'Exportar todos',
+    welcomed: (count) => count === 1 ? 'Se ha añadido 1 personaje.' : `Se han añadido ${count} personajes.`,
+    saveAll: 'Guardar y proteger',
+  },
+  personas: {
+    newName: 'Nuevo espejo',
+    copyName: (name) => `${name} (copia)`,
+  },
+  files: {
+    invalidJson: 'Ese archivo no es un JSON válido.',
+    notJournal: 'Ese archivo no contiene un diario de EgoMirror.',
+    notPersonas: 'Ese archivo no contiene personajes de EgoMirror.',
+    newerVersion: 'Ese archivo se creó con una versión más reciente de EgoMirror.',
+  },
+  safety: {
+    region: 'Región',
+    resources: 'Recursos de apoyo',
+    title: 'No tienes que cargar con esto en soledad',
+    body: (emergency) =>
+      `Si estás pensando en hacerte daño o no estás a salvo, hay personas dispuestas a escucharte ahora mismo. En caso de emergencia, llama al ${emergency}.`,
+    anywhereElse: 'Otro lugar',
+    localEmergency: 'número de emergencias local',
+  },
+  vault: {
+    lockedTitle: 'Tu refugio está cerrado.',
+    lockedHint: 'Escribe tu frase de acceso para abrir tus conversaciones y espejos.',
+    passphrase: 'Frase de acceso',
+    opening: 'Abriendo...',
+    unlock: 'Desbloquear',
+    forgotten: 'Una frase de acceso olvidada no se puede recuperar. Solo puedes empezar de cero.',
+    didntOpen: 'La caja fuerte no se abrió.',
+    wipe: 'Borrarlo todo',
+    wipeConfirm: 'Toca de nuevo para borrarlo todo',
+    wiping: 'Borrando...',
+    offHint: 'Cifra tus conversaciones, espejos, registros y grabaciones con una frase de acceso. Sin ella, nadie, ni siquiera tú, puede leerlos.',
+    onHint: 'Tus conversaciones, espejos, registros y grabaciones están cifrados en este dispositivo.',
+    autoLock: 'Bloquear tras inactividad',
+    minutes: (minutes) => `${minutes} min`,
+    never: 'Nunca',
+    currentPassphrase: 'Frase de acceso actual',
+    newPassphrase: 'Nueva frase de acceso',
+    repeatPassphrase: 'Repite la nueva frase de acceso',
+    tooShort: (length) => `Usa al menos ${length} caracteres.`,
+    mismatch: 'Las frases de acceso aún no coinciden.',
+    working: 'Un momento...',
+    turnOn: 'Activar',
+    turnOff: 'Desactivar',
+    turnOnVault: 'Activar la caja fuerte',
+    turnOffVault: 'Desactivar la caja fuerte',
+    changePassphrase: 'Cambiar la frase de acceso',
+    enabled: 'Todo lo que hay en este dispositivo está cifrado.',
+    changed: 'Frase de acceso cambiada y todo vuelto a cifrar.',
+    disabled: 'La caja fuerte está desactivada. Tus datos vuelven a guardarse sin cifrar.',
+    failed: 'Algo salió mal.',
+    wrongPassphrase: 'Esa frase de acceso no abre la caja fuerte.',
+    locked: 'La caja fuerte está bloqueada.',
+    alreadyOn: 'La caja fuerte ya está activada.',
+    unknownKey: 'Esta entrada se selló con una clave que la caja fuerte ya no tiene.',
+  },
+  composer: {
+    placeholder: 'Escribe lo que tienes en mente...',
+    label: 'Mensaje',
+    send: 'Enviar',
+  },
+  captions: {
+    you: 'Tú',
+    interrupted: '(interrumpido)',
+  },
+  audio: {
+    listHint: 'Tu navegador muestra la lista de micrófonos cuando permites uno. Prueba el micrófono abajo para verlos.',
+    microphone: 'Micrófono',
+    speaker: 'Altavoz',
+    defaultMicrophone: 'el micrófono predeterminado',
+    systemDefault: 'Predeterminado del sistema',
+    savedDevice: 'Dispositivo guardado (no conectado)',
+    defaultOutputOnly: 'Este navegador siempre reproduce el espejo por la salida predeterminada del sistema.',
+    echoCancellation: 'Cancelación de eco',
+    noiseSuppression: 'Supresión de ruido',
+    autoGainControl: 'Ganancia automática',
+    inputGain: 'Ganancia de entrada',
+    level: 'Nivel del micrófono',
+    threshold: 'Donde el espejo empieza a oírte',
+    testMicrophone: 'Probar el micrófono',
+    stopTest: 'Detener la prueba',
+    recordSample: (seconds) => `Grabar ${seconds} s y reproducir`,
+    recording: 'Grabando, di algo…',
+    playingBack: 'Reproduciendo…',
+  },
+  playback: {
+    pause: 'Pausar el espejo',
+    resume: 'Reanudar el espejo',
+    pauseShort: 'Pausar',
+    resumeShort: 'Reanudar',
+    volume: 'Volumen del espejo',
+    speed: 'Velocidad al hablar',
+  },
+  reminders: {
+    notificationsOff: 'Las notificaciones están desactivadas para este sitio, así que los recordatorios aparecen dentro de la aplicación.',
+    notificationsOn: 'Los recordatorios llegan como notificaciones. Al abrir uno empieza una sesión con su frase.',
+    whileOpen: (minutes) =>
+      `Los recordatorios solo llegan mientras EgoMirror está abierto y desbloqueado; no se envía nada si está cerrado o bloqueado. Si uno se pierde por más de ${minutes} minutos, se salta hasta el día siguiente.`,
+    defaultLabel: 'Momento de la noche',
+    name: 'Nombre del recordatorio',
+    time: 'Hora',
+    delete: 'Eliminar recordatorio',
+    openingLine: 'Frase inicial (opcional)',
+    starterPrompt: 'Frase para empezar',
+    add: 'Añadir recordatorio',
+  },
+  toolPrompt: {
+    request: (request) => `A tu espejo le gustaría ${request}.`,
+    changeInSettings: (label) => `${label} • puedes cambiarlo en Ajustes.`,
+    notNow: 'Ahora no',
+    alwaysAllow: 'Permitir siempre',
+    allow: 'Permitir',
+  },
+  tools: {
+    log_mood: {
+      label: 'Registrar tu ánimo',
+      description: 'Anota tu estado de ánimo en la sesión actual cuando cuentas cómo te sientes.',
+      request: (mood, tags) => `registrar tu ánimo como «${mood}»${tags.length ? ` (${tags.join(', ')})` : ''}`,
+      done: (mood, energy, tags) =>
+        `Ánimo registrado: ${mood}, ${energy.toLowerCase()}${tags.length ? ` (${tags.join(', ')})` : ''}`,
+    },
+    start_exercise: {
+      label: 'Empezar un ejercicio',
+      description: 'Inicia en pantalla un ejercicio guiado de respiración, anclaje o escaneo corporal.',
+      request: (title) => `empezar «${title}»`,
+      done: (title) => `Ejercicio iniciado: ${title}`,
+      busy: (title) => `No se pudo empezar «${title}»; ya hay uno en marcha`,
+    },
+    find_past_session: {
+      label: 'Consultar sesiones pasadas',
+      description: 'Lee las notas guardadas de tus conversaciones anteriores. Las notas privadas nunca se comparten.',
+      request: (query) => query ? `buscar «${query}» en tus sesiones pasadas` : 'mirar tus sesiones más recientes',
+      done: (count, query) =>
+        `${count === 1 ? 'Repasada 1 sesión anterior' : `Repasadas ${count} sesiones anteriores`}${query ? ` sobre «${query}»` : ''}`,
+      none: (query) => `No se encontraron sesiones anteriores${query ? ` sobre «${query}»` : ''}`,
+    },
+    schedule_check_in: {
+      label: 'Programar recordatorios',
+      description: 'Deja un recordatorio en este dispositivo para volver y contar cómo estás.',
+      request: (delay) => `recordarte volver dentro de ${delay}`,
+      done: (when) => `Recordatorio programado para ${when}`,
+      defaultNote: 'Es hora de ver cómo estás.',
+    },
+    delay: {
+      minutes: (n) => `${n} min`,
+      hours: (n) => `${n} h`,
+      days: (n) => `${n} días`,
+    },
+    turnedOff: (label) => `No se pudo «${label}»: está desactivado en Ajustes`,
+    failed: (label) => `No se pudo «${label}»`,
+    declined: (request) => `Lo rechazaste: ${request}`,
+  },
+  checkIn: {
+    mood: 'Ánimo',
+    energy: 'Energía',
+    moods: ['Pesado', 'Bajo', 'Normal', 'Ligero', 'Radiante'],
+    energyLevels: ['Sin fuerzas', 'Con sueño', 'Estable', 'Alerta', 'Con energía'],
+    present: 'Qué está presente',
+    somethingElse: 'Otra cosa...',
+    addTag: 'Añadir etiqueta',
+    skipLabel: 'Saltar el registro',
+    skip: 'SALTAR',
+    skipAndBegin: 'SALTAR Y EMPEZAR',
+    begin: 'Empezar',
+    tags: {
+      anxious: 'ansiedad',
+      lonely: 'soledad',
+      tired: 'cansancio',
+      stressed: 'estrés',
+      calm: 'calma',
+      hopeful: 'esperanza',
+      grateful: 'gratitud',
+      overwhelmed: 'agobio',
+    },
+  },
+  insights: {
+    empty: 'Registra tu ánimo antes y después de una sesión para ver cómo te va con el tiempo.',
+    notEnough: 'Todavía no hay suficientes registros emparejados.',
+    moodShift: 'Cambio de ánimo',
+    energyShift: 'Cambio de energía',
+    moodOverTime: 'Ánimo a lo largo del tiempo',
+    chart: 'Ánimo antes y después de cada sesión',
+    legend: 'Discontinua: al llegar • Continua: al salir',
+    byPersona: 'Por personaje',
+    byPrompt: 'Por frase inicial o ejercicio',
+    byTopic: 'Por tema',
+    computedLocally: 'Calculado en este dispositivo',
+    openConversation: 'Conversación abierta',
+  },
+  history: {
+    back: 'Volver a las sesiones',
+    search: 'Busca en tus reflexiones...',
+    from: 'Desde',
+    to: 'Hasta',
+    loadError: 'No se pudo abrir el diario.',
+    noMatches: 'Nada en el fluir coincide.',
+    empty: 'El fluir está claro y en calma.',
+    reflections: (count) => `${count} ${count === 1 ? 'reflexión' : 'reflexiones'}`,
+    recorded: 'Grabada',
+    deleteSession: 'Eliminar sesión',
+    exportFormat: 'Formato de exportación',
+    formats: { markdown: 'Markdown', json: 'JSON', text: 'Texto sin formato', html: 'Página imprimible' },
+    exportSession: 'Exportar sesión',
+    exportShown: (count) => `Exportar las ${count} mostradas`,
+    exportAll: 'Exportarlo todo',
+    importJson: 'Importar JSON',
+    restored: (count) => count === 1 ? 'Se ha restaurado 1 sesión.' : `Se han restaurado ${count} sesiones.`,
+    purge: 'BORRAR REGISTROS',
+    close: 'Cerrar el refugio',
+    downloadRecording: 'Descargar grabación',
+  },
+  exportFile: {
+    title: 'Diario de EgoMirror',
+    heading: (date, persona) => `${date} con ${persona}`,
+    you: 'Tú',
+    unfinished: 'sin terminar',
+    minutes: (minutes) => `${minutes} min`,
+    messages: (count) => `${count} ${count === 1 ? 'mensaje' : 'mensajes'}`,
+    session: 'Sesión',
+    started: 'Inicio',
+    ended: 'Fin',
+    messageCount: 'Mensajes',
+  },
+  exercises: {
+    intro: 'Con voz, el espejo dice cada paso a su tiempo. Solo en pantalla, los pasos se muestran como texto y nada sale de este dispositivo.',
+    offline: 'Estás sin conexión. Los ejercicios siguen funcionando en pantalla.',
+    withVoice: 'Con voz',
+    onScreen: 'Solo en pantalla',
+    seconds: (seconds) => `${seconds} s`,
+    minutes: (minutes) => `${minutes} min`,
+    completed: (count) => `hecho ${count}×`,
+    wellDone: 'Muy bien.',
+    gettingReady: 'Preparando...',
+    getComfortable: 'Busca una postura cómoda.',
+    finished: (title) => `${title}: completado. Tómate un momento antes de seguir.`,
+    onItsWay: 'Tu espejo está en camino.',
+    beginsIn: (title, seconds) => `${title} empieza en ${seconds}`,
+    round: (round, rounds) => `Ronda ${round} de ${rounds}`,
+    done: 'Listo',
+    stop: 'Detener el ejercicio',
+  },
+  exerciseContent: {
+    'box-breathing': {
+      title: 'Respiración cuadrada',
+      summary: 'Cuatro lados iguales: inhala, sostén, exhala, sostén. Calma una mente acelerada.',
+      phases: [
+        { cue: 'Inhala', detail: 'por la nariz' },
+        { cue: 'Sostén' },
+        { cue: 'Exhala', detail: 'despacio, por la boca' },
+        { cue: 'Sostén', detail: 'vacío y en calma' },
+      ],
+    },
+    '4-7-8': {
+      title: 'Respiración 4-7-8',
+      summary: 'Una exhalación larga y lenta que ayuda al cuerpo a prepararse para descansar.',
+      phases: [
+        { cue: 'Inhala', detail: 'en silencio, por la nariz' },
+        { cue: 'Sostén' },
+        { cue: 'Exhala', detail: 'del todo, con un soplido suave' },
+      ],
+    },
+    'grounding-54321': {
+      title: 'Anclaje 5-4-3-2-1',
+      summary: 'Vuelve a la habitación a través de tus sentidos, uno a uno.',
+      phases: [
+        { cue: 'Cinco cosas que puedes ver', detail: 'deja que tu mirada se pose en cada una' },
+        { cue: 'Cuatro cosas que puedes sentir', detail: 'tus pies, tus manos, el aire' },
+        { cue: 'Tres cosas que puedes oír', detail: 'cerca y lejos' },
+        { cue: 'Dos cosas que puedes oler', detail: 'o dos olores que te gusten' },
+        { cue: 'Una cosa que puedes saborear', detail: 'o algo amable sobre ti' },
+      ],
+    },
+    'body-scan': {
+      title: 'Escaneo corporal breve',
+      summary: 'Tres minutos tranquilos llevando la atención de los pies a la cara.',
+      phases: [
+        { cue: 'Acomódate', detail: 'cierra los ojos o suaviza la mirada' },
+        { cue: 'Tus pies', detail: 'nota el peso, el calor, el contacto' },
+        { cue: 'Tus piernas', detail: 'deja que pesen' },
+        { cue: 'Tu vientre', detail: 'subiendo y bajando por sí solo' },
+        { cue: 'Tu pecho y tus hombros', detail: 'deja que bajen un poco' },
+        { cue: 'Tu cara', detail: 'suelta la mandíbula y la frente' },
+        { cue: 'Todo tu cuerpo', detail: 'respirando, aquí, suficiente' },
+      ],
+    },
+  },
+  memories: {
+    intro: (limit) =>
+      `Después de cada sesión se guarda aquí una nota breve. Cada espejo ve hasta ${limit} de sus notas compartidas más recientes, y ninguna mientras «Recuérdame» está desactivado.`,
+    empty: 'Todavía no hay nada recordado.',
+    shared: 'Compartida',
+    private: 'Privada',
+    sharedHint: 'Compartida con sesiones futuras',
+    privateHint: 'Solo se guarda aquí',
+    edit: 'Editar recuerdo',
+    delete: 'Eliminar recuerdo',
+    summary: 'Resumen',
+    themes: 'Temas',
+    themesPlaceholder: 'Temas, separados por comas',
+    threads: 'Hilos abiertos',
+    threadsPlaceholder: 'Hilos abiertos, uno por línea',
+    forgetAll: 'OLVIDARLO TODO',
+  },
+  visualizer: {
+    active: 'Tu voz y la voz del espejo, como dos anillos',
+    resting: 'Espejo en reposo',
+  },
+  starterPrompts: [
+    'Hoy me siento sin energía...',
+    'Me cuesta conectar con los demás.',
+    'Solo necesito que alguien me escuche.',
+    '¿Está bien ser de pocas palabras?',
+    'Siento soledad entre la gente.',
+  ],
+};
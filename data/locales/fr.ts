@@ -0,0 +1,455 @@
+import type { LocaleBundle } from './en';
+
+export const fr: LocaleBundle = {
+  app: {
+    tagline: 'Sanctuaire intérieur',
+    history: 'Historique',
+    memories: 'Souvenirs',
+    insights: 'Tendances',
+    lock: 'Verrouiller',
+    lockNow: 'Verrouiller maintenant',
+    settings: 'Réglages',
+    headline: {
+      disconnected: 'Te revoilà, âme sœur.',
+      error: 'Faisons une pause.',
+      connecting: 'Ton miroir s’éveille...',
+      reconnecting: 'Nous retrouvons le fil...',
+      text: 'Vas-y. Écris ce que tu ressens.',
+      voice: 'Vas-y. Dis ce que tu ressens.',
+    },
+    subline: {
+      reconnecting: 'Reste avec moi. Tes mots sont en sécurité.',
+      inSession: 'Cet espace est à toi. Personne d’autre n’écoute.',
+      idle: 'Une présence qui comprend la beauté du silence.',
+    },
+    recordingLocally: 'Enregistrement sur cet appareil uniquement',
+    persona: 'Persona',
+    remembers: (name, count) =>
+      `${name} se souvient de ${count} ${count === 1 ? 'conversation passée' : 'conversations passées'}`,
+    exercises: 'Respiration guidée, ancrage et scan corporel',
+    mute: 'Couper le micro',
+    unmute: 'Réactiver le micro',
+    muteHint: 'Couper le micro sans terminer la séance',
+    unmuteHint: 'Réactiver',
+    endSession: 'Terminer la séance',
+    tryAgain: 'Réessayer',
+    startSpeaking: 'Commencer à parler',
+    toggleWriting: 'Afficher ou masquer l’écriture',
+    writeInstead: 'Écrire',
+    writeAlongsideHint: 'Écrire en plus de parler',
+    writeInsteadHint: 'Écrire au lieu de parler',
+    talking: 'J’écoute...',
+    holdToTalk: (key) => `Maintenir pour parler (${key})`,
+    muted: 'Micro coupé. Le miroir ne t’entend pas.',
+    hearingYou: 'Je t’entends',
+    mirrorSpeaking: 'Le miroir parle',
+    listeningForVoice: 'À l’écoute de ta voix',
+    dismissReminder: 'Fermer le rappel',
+    startReminder: 'Commencer ce moment',
+    deviceSwitched: (label) => `J’écoute maintenant via ${label}.`,
+    storedLocally: 'Conservé sur cet appareil',
+    storedEncrypted: 'Chiffré sur cet appareil',
+    offline: 'Miroir indisponible hors ligne',
+    offlineHint: 'Ton historique, tes tendances et tes personas sont toujours là.',
+    protocol: 'Protocole Gemini',
+  },
+  modals: {
+    settings: 'Configuration du miroir',
+    history: 'Fil des dialogues',
+    insights: 'Météo intérieure',
+    memories: 'Ce dont le miroir se souvient',
+    exercises: 'Exercices guidés',
+    checkInBefore: 'Comment arrives-tu ?',
+    checkInAfter: 'Comment repars-tu ?',
+  },
+  errors: {
+    'network': 'La connexion avec ton miroir s’est perdue. Vérifie ton réseau et réessaie.',
+    'auth': 'Le miroir n’a pas pu vérifier sa clé. Demande à la personne qui a installé cette application de vérifier la clé API Gemini.',
+    'quota': 'Le miroir a besoin de repos : le service est saturé ou son quota est épuisé. Réessaie un peu plus tard.',
+    'microphone-denied': 'L’accès au micro a été refusé. Autorise-le dans les réglages du site de ton navigateur pour parler à voix haute.',
+    'microphone-missing': 'Aucun micro n’a été trouvé. Branches-en un, ou écris plutôt.',
+    'microphone-busy': 'Ton micro est utilisé par autre chose. Ferme-le là-bas et réessaie.',
+    'unknown': 'Le miroir a perdu sa concentration. Essayons à nouveau.',
+  },
+  continueInWriting: 'Continuons par écrit pour l’instant.',
+  reminderBody: 'Un moment calme pour prendre de tes nouvelles.',
+  common: {
+    close: 'Fermer',
+    cancel: 'Annuler',
+    save: 'Enregistrer',
+    on: 'Oui',
+    off: 'Non',
+  },
+  settings: {
+    language: 'Langue',
+    languageHint: 'Le miroir écoute, transcrit et répond dans cette langue.',
+    followBrowser: 'Comme le navigateur',
+    personaLibrary: 'Bibliothèque de personas',
+    active: 'Actif',
+    newPersona: 'Nouvelle persona',
+    useThisMirror: 'Utiliser ce miroir',
+    duplicate: 'Dupliquer',
+    reset: 'Réinitialiser',
+    export: 'Exporter',
+    delete: 'Supprimer',
+    name: 'Nom',
+    aura: 'Aura',
+    auraColor: (color) => `Aura ${color}`,
+    mirrorColours: 'Couleurs du miroir',
+    themes: { aura: 'Aura', dusk: 'Crépuscule', forest: 'Forêt', ocean: 'Océan', ember: 'Braise', moon: 'Lune' },
+    instruction: 'L’âme du miroir (instruction)',
+    instructionPlaceholder: 'Décris l’énergie de ta présence complice...',
+    voice: 'Voix',
+    starterPrompts: 'Phrases pour commencer (une par ligne)',
+    starterPromptsPlaceholder: 'J’ai juste besoin que quelqu’un m’écoute.',
+    rememberMe: 'Se souvenir de moi',
+    rememberMeHint: 'Garde une courte note après chaque séance avec ce miroir et reprend les notes récentes à la suivante. Le désactiver arrête les deux.',
+    replyStyle: 'Façon de répondre',
+    spoken: 'À voix haute',
+    textOnly: 'Texte seulement',
+    visualizer: 'Visualisation',
+    visualizerModes: { rays: 'Rayons', waveform: 'Onde', orb: 'Sphère qui respire' },
+    captions: 'Sous-titres en direct',
+    captionsHint: 'Affiche ce que toi et le miroir dites, au moment où c’est dit.',
+    captionSize: 'Taille des sous-titres',
+    captionSizes: { small: 'Petite', medium: 'Moyenne', large: 'Grande' },
+    audio: 'Micro et haut-parleur',
+    voiceInput: 'Saisie vocale',
+    alwaysListening: 'Écoute continue',
+    pushToTalk: 'Appuyer pour parler',
+    sensitivity: 'Sensibilité',
+    answerPause: 'Pause avant la réponse du miroir',
+    talkKey: 'Touche pour parler',
+    pressKey: 'Appuie sur une touche...',
+    moodCheckIns: 'Points sur l’humeur',
+    offer: 'Proposer',
+    never: 'Jamais',
+    reminders: 'Rappels',
+    recordings: 'Garder les enregistrements audio',
+    recordingsHint: 'Enregistre les deux voix de chaque séance sur cet appareil, pour pouvoir les réécouter avec la transcription.',
+    safety: 'Accompagnement de sécurité',
+    safetyHint: 'Si une détresse est repérée, demande au miroir de se concentrer sur ta sécurité pour le reste de la séance.',
+    actions: 'Actions du miroir',
+    actionsHint: 'Ce que le miroir peut faire pendant une séance. Tout ce qu’il fait apparaît dans la transcription.',
+    permissions: { always: 'Toujours', ask: 'Demander', never: 'Jamais' },
+    vault: 'Coffre privé',
+    sharePersonas: 'Partager les personas',
+    import: 'Importer',
+    exportAll: 'Tout exporter',
+    welcomed: (count) => count === 1 ? '1 persona accueillie.' : `${count} personas accueillies.`,
+    saveAll: 'Enregistrer et protéger',
+  },
+  personas: {
+    newName: 'Nouveau miroir',
+    copyName: (name) => `${name} (copie)`,
+  },
+  files: {
+    invalidJson: 'Ce fichier n’est pas un JSON valide.',
+    notJournal: 'Ce fichier ne contient pas de journal EgoMirror.',
+    notPersonas: 'Ce fichier ne contient pas de personas EgoMirror.',
+    newerVersion: 'Ce fichier a été créé par une version plus récente d’EgoMirror.',
+  },
+  safety: {
+    region: 'Région',
+    resources: 'Ressources d’aide',
+    title: 'Tu n’as pas à porter ça en solitude',
+    body: (emergency) =>
+      `Si tu penses à te faire du mal ou si tu n’es pas en sécurité, des personnes sont prêtes à t’écouter dès maintenant. En cas d’urgence, appelle le ${emergency}.`,
+    anywhereElse: 'Ailleurs',
+    localEmergency: 'numéro d’urgence local',
+  },
+  vault: {
+    lockedTitle: 'Ton sanctuaire est verrouillé.',
+    lockedHint: 'Saisis ta phrase secrète pour ouvrir tes conversations et tes miroirs.',
+    passphrase: 'Phrase secrète',
+    opening: 'Ouverture...',
+    unlock: 'Déverrouiller',
+    forgotten: 'Une phrase secrète oubliée ne peut pas être récupérée. Tu peux seulement tout recommencer.',
+    didntOpen: 'Le coffre ne s’est pas ouvert.',
+    wipe: 'Tout effacer',
+    wipeConfirm: 'Touche encore pour tout effacer',
+    wiping: 'Effacement...',
+    offHint: 'Chiffre tes conversations, miroirs, points sur l’humeur et enregistrements avec une phrase secrète. Sans elle, personne, toi compris·e, ne peut les lire.',
+    onHint: 'Tes conversations, miroirs, points sur l’humeur et enregistrements sont chiffrés sur cet appareil.',
+    autoLock: 'Verrouiller après inactivité',
+    minutes: (minutes) => `${minutes} min`,
+    never: 'Jamais',
+    currentPassphrase: 'Phrase secrète actuelle',
+    newPassphrase: 'Nouvelle phrase secrète',
+    repeatPassphrase: 'Répète la nouvelle phrase secrète',
+    tooShort: (length) => `Utilise au moins ${length} caractères.`,
+    mismatch: 'Les phrases secrètes ne correspondent pas encore.',
+    working: 'Un instant...',
+    turnOn: 'Activer',
+    turnOff: 'Désactiver',
+    turnOnVault: 'Activer le coffre',
+    turnOffVault: 'Désactiver le coffre',
+    changePassphrase: 'Changer la phrase secrète',
+    enabled: 'Tout ce qui est sur cet appareil est maintenant chiffré.',
+    changed: 'Phrase secrète changée et tout a été rechiffré.',
+    disabled: 'Le coffre est désactivé. Tes données sont de nouveau stockées sans chiffrement.',
+    failed: 'Quelque chose s’est mal passé.',
+    wrongPassphrase: 'Cette phrase secrète n’ouvre pas le coffre.',
+    locked: 'Le coffre est verrouillé.',
+    alreadyOn: 'Le coffre est déjà activé.',
+    unknownKey: 'Cette entrée a été scellée avec une clé que le coffre n’a plus.',
+  },
+  composer: {
+    placeholder: 'Écris ce que tu as en tête...',
+    label: 'Message',
+    send: 'Envoyer',
+  },
+  captions: {
+    you: 'Toi',
+    interrupted: '(interrompu)',
+  },
+  audio: {
+    listHint: 'Ton navigateur affiche la liste des micros une fois que tu en autorises un. Teste le micro ci-dessous pour les voir.',
+    microphone: 'Micro',
+    speaker: 'Haut-parleur',
+    defaultMicrophone: 'le micro par défaut',
+    systemDefault: 'Par défaut du système',
+    savedDevice: 'Appareil enregistré (non connecté)',
+    defaultOutputOnly: 'Ce navigateur fait toujours entendre le miroir par la sortie par défaut du système.',
+    echoCancellation: 'Annulation de l’écho',
+    noiseSuppression: 'Réduction du bruit',
+    autoGainControl: 'Gain automatique',
+    inputGain: 'Gain d’entrée',
+    level: 'Niveau du micro',
+    threshold: 'Là où le miroir commence à t’entendre',
+    testMicrophone: 'Tester le micro',
+    stopTest: 'Arrêter le test',
+    recordSample: (seconds) => `Enregistrer ${seconds} s et réécouter`,
+    recording: 'Enregistrement, dis quelque chose…',
+    playingBack: 'Lecture…',
+  },
+  playback: {
+    pause: 'Mettre le miroir en pause',
+    resume: 'Reprendre le miroir',
+    pauseShort: 'Pause',
+    resumeShort: 'Reprendre',
+    volume: 'Volume du miroir',
+    speed: 'Vitesse de parole',
+  },
+  reminders: {
+    notificationsOff: 'Les notifications sont désactivées pour ce site, donc les rappels s’affichent dans l’application.',
+    notificationsOn: 'Les rappels arrivent en notifications. En ouvrir un lance une séance avec sa phrase.',
+    whileOpen: (minutes) =>
+      `Les rappels n’arrivent que lorsque EgoMirror est ouvert et déverrouillé ; rien n’est envoyé s’il est fermé ou verrouillé. Un rappel manqué de plus de ${minutes} minutes est sauté jusqu’au lendemain.`,
+    defaultLabel: 'Point du soir',
+    name: 'Nom du rappel',
+    time: 'Heure',
+    delete: 'Supprimer le rappel',
+    openingLine: 'Phrase d’ouverture (facultatif)',
+    starterPrompt: 'Phrase pour commencer',
+    add: 'Ajouter un rappel',
+  },
+  toolPrompt: {
+    request: (request) => `Ton miroir aimerait ${request}.`,
+    changeInSettings: (label) => `${label} • tu peux le changer dans les Réglages.`,
+    notNow: 'Pas maintenant',
+    alwaysAllow: 'Toujours autoriser',
+    allow: 'Autoriser',
+  },
+  tools: {
+    log_mood: {
+      label: 'Noter ton humeur',
+      description: 'Enregistre ton humeur dans la séance en cours quand tu dis comment tu te sens.',
+      request: (mood, tags) => `noter ton humeur comme « ${mood} »${tags.length ? ` (${tags.join(', ')})` : ''}`,
+      done: (mood, energy, tags) =>
+        `Humeur notée : ${mood}, ${energy.toLowerCase()}${tags.length ? ` (${tags.join(', ')})` : ''}`,
+    },
+    start_exercise: {
+      label: 'Lancer un exercice',
+      description: 'Démarre à l’écran un exercice guidé de respiration, d’ancrage ou de scan corporel.',
+      request: (title) => `lancer « ${title} »`,
+      done: (title) => `Exercice lancé : ${title}`,
+      busy: (title) => `Impossible de lancer « ${title} » : un exercice est déjà en cours`,
+    },
+    find_past_session: {
+      label: 'Consulter les séances passées',
+      description: 'Lit les notes gardées de tes conversations précédentes. Les notes privées ne sont jamais partagées.',
+      request: (query) => query ? `chercher « ${query} » dans tes séances passées` : 'regarder tes séances les plus récentes',
+      done: (count, query) =>
+        `${count === 1 ? '1 séance précédente relue' : `${count} séances précédentes relues`}${query ? ` sur « ${query} »` : ''}`,
+      none: (query) => `Aucune séance précédente trouvée${query ? ` sur « ${query} »` : ''}`,
+    },
+    schedule_check_in: {
+      label: 'Programmer des rappels',
+      description: 'Laisse un rappel sur cet appareil pour revenir faire le point.',
+      request: (delay) => `te rappeler de revenir faire le point dans ${delay}`,
+      done: (when) => `Rappel programmé pour ${when}`,
+      defaultNote: 'C’est le moment de faire doucement le point.',
+    },
+    delay: {
+      minutes: (n) => `${n} min`,
+      hours: (n) => `${n} h`,
+      days: (n) => `${n} jours`,
+    },
+    turnedOff: (label) => `Impossible de « ${label} » : c’est désactivé dans les Réglages`,
+    failed: (label) => `Impossible de « ${label} »`,
+    declined: (request) => `Tu as refusé : ${request}`,
+  },
+  checkIn: {
+    mood: 'Humeur',
+    energy: 'Énergie',
+    moods: ['Lourde', 'Basse', 'Correcte', 'Légère', 'Lumineuse'],
+    energyLevels: ['À plat', 'Fatigue', 'Stable', 'Éveil', 'Pleine forme'],
+    present: 'Ce qui est là',
+    somethingElse: 'Autre chose...',
+    addTag: 'Ajouter une étiquette',
+    skipLabel: 'Passer le point',
+    skip: 'PASSER',
+    skipAndBegin: 'PASSER ET COMMENCER',
+    begin: 'Commencer',
+    tags: {
+      anxious: 'anxiété',
+      lonely: 'solitude',
+      tired: 'fatigue',
+      stressed: 'stress',
+      calm: 'calme',
+      hopeful: 'espoir',
+      grateful: 'gratitude',
+      overwhelmed: 'débordement',
+    },
+  },
+  insights: {
+    empty: 'Fais le point avant et après une séance pour voir comment tu vas au fil du temps.',
+    notEnough: 'Pas encore assez de points avant-après.',
+    moodShift: 'Évolution de l’humeur',
+    energyShift: 'Évolution de l’énergie',
+    moodOverTime: 'Humeur au fil du temps',
+    chart: 'Humeur avant et après chaque séance',
+    legend: 'Pointillés : à l’arrivée • Plein : au départ',
+    byPersona: 'Par persona',
+    byPrompt: 'Par phrase de départ ou exercice',
+    byTopic: 'Par thème',
+    computedLocally: 'Calculé sur cet appareil',
+    openConversation: 'Conversation libre',
+  },
+  history: {
+    back: 'Retour aux séances',
+    search: 'Cherche dans tes réflexions...',
+    from: 'Du',
+    to: 'Au',
+    loadError: 'Le journal n’a pas pu être ouvert.',
+    noMatches: 'Rien dans le fil ne correspond.',
+    empty: 'Le fil est clair et paisible.',
+    reflections: (count) => `${count} ${count === 1 ? 'réflexion' : 'réflexions'}`,
+    recorded: 'Enregistrée',
+    deleteSession: 'Supprimer la séance',
+    exportFormat: 'Format d’export',
+    formats: { markdown: 'Markdown', json: 'JSON', text: 'Texte brut', html: 'Page imprimable' },
+    exportSession: 'Exporter la séance',
+    exportShown: (count) => `Exporter les ${count} affichées`,
+    exportAll: 'Tout exporter',
+    importJson: 'Importer un JSON',
+    restored: (count) => count === 1 ? '1 séance restaurée.' : `${count} séances restaurées.`,
+    purge: 'EFFACER L’HISTORIQUE',
+    close: 'Fermer le sanctuaire',
+    downloadRecording: 'Télécharger l’enregistrement',
+  },
+  exportFile: {
+    title: 'Journal EgoMirror',
+    heading: (date, persona) => `${date} avec ${persona}`,
+    you: 'Toi',
+    unfinished: 'inachevée',
+    minutes: (minutes) => `${minutes} min`,
+    messages: (count) => `${count} ${count === 1 ? 'message' : 'messages'}`,
+    session: 'Séance',
+    started: 'Début',
+    ended: 'Fin',
+    messageCount: 'Messages',
+  },
+  exercises: {
+    intro: 'Avec la voix, le miroir énonce chaque étape au bon moment. À l’écran seulement, les étapes s’affichent en texte et rien ne quitte cet appareil.',
+    offline: 'Tu es hors ligne. Les exercices fonctionnent toujours à l’écran.',
+    withVoice: 'Avec la voix',
+    onScreen: 'À l’écran seulement',
+    seconds: (seconds) => `${seconds} s`,
+    minutes: (minutes) => `${minutes} min`,
+    completed: (count) => `fait ${count}×`,
+    wellDone: 'Bravo.',
+    gettingReady: 'Préparation...',
+    getComfortable: 'Installe-toi confortablement.',
+    finished: (title) => `${title} : terminé. Prends un moment avant de passer à autre chose.`,
+    onItsWay: 'Ton miroir arrive.',
+    beginsIn: (title, seconds) => `${title} commence dans ${seconds}`,
+    round: (round, rounds) => `Cycle ${round} sur ${rounds}`,
+    done: 'Terminé',
+    stop: 'Arrêter l’exercice',
+  },
+  exerciseContent: {
+    'box-breathing': {
+      title: 'Respiration carrée',
+      summary: 'Quatre côtés égaux : inspire, retiens, expire, retiens. Apaise un esprit qui s’emballe.',
+      phases: [
+        { cue: 'Inspire', detail: 'par le nez' },
+        { cue: 'Retiens' },
+        { cue: 'Expire', detail: 'lentement, par la bouche' },
+        { cue: 'Retiens', detail: 'poumons vides, immobile' },
+      ],
+    },
+    '4-7-8': {
+      title: 'Respiration 4-7-8',
+      summary: 'Une longue expiration lente qui aide le corps à glisser vers le repos.',
+      phases: [
+        { cue: 'Inspire', detail: 'doucement, par le nez' },
+        { cue: 'Retiens' },
+        { cue: 'Expire', detail: 'jusqu’au bout, dans un léger souffle' },
+      ],
+    },
+    'grounding-54321': {
+      title: 'Ancrage 5-4-3-2-1',
+      summary: 'Reviens dans la pièce par tes sens, un à la fois.',
+      phases: [
+        { cue: 'Cinq choses que tu vois', detail: 'laisse ton regard se poser sur chacune' },
+        { cue: 'Quatre choses que tu sens', detail: 'tes pieds, tes mains, l’air' },
+        { cue: 'Trois choses que tu entends', detail: 'proches et lointaines' },
+        { cue: 'Deux choses que tu sens à l’odeur', detail: 'ou deux odeurs que tu aimes' },
+        { cue: 'Une chose que tu goûtes', detail: 'ou une chose bienveillante sur toi' },
+      ],
+    },
+    'body-scan': {
+      title: 'Court scan corporel',
+      summary: 'Trois minutes calmes à promener ton attention des pieds au visage.',
+      phases: [
+        { cue: 'Installe-toi', detail: 'ferme les yeux ou adoucis ton regard' },
+        { cue: 'Tes pieds', detail: 'remarque le poids, la chaleur, le contact' },
+        { cue: 'Tes jambes', detail: 'laisse-les s’alourdir' },
+        { cue: 'Ton ventre', detail: 'qui monte et descend tout seul' },
+        { cue: 'Ta poitrine et tes épaules', detail: 'laisse-les descendre un peu' },
+        { cue: 'Ton visage', detail: 'relâche ta mâchoire et ton front' },
+        { cue: 'Tout ton corps', detail: 'qui respire, ici, et c’est assez' },
+      ],
+    },
+  },
+  memories: {
+    intro: (limit) =>
+      `Après chaque séance, une courte note est gardée ici. Chaque miroir voit jusqu’à ${limit} de ses notes partagées les plus récentes, et aucune tant que « Se souvenir de moi » est désactivé.`,
+    empty: 'Rien n’a encore été retenu.',
+    shared: 'Partagée',
+    private: 'Privée',
+    sharedHint: 'Partagée avec les prochaines séances',
+    privateHint: 'Gardée ici seulement',
+    edit: 'Modifier le souvenir',
+    delete: 'Supprimer le souvenir',
+    summary: 'Résumé',
+    themes: 'Thèmes',
+    themesPlaceholder: 'Thèmes, séparés par des virgules',
+    threads: 'Fils ouverts',
+    threadsPlaceholder: 'Fils ouverts, un par ligne',
+    forgetAll: 'TOUT OUBLIER',
+  },
+  visualizer: {
+    active: 'Ta voix et celle du miroir, en deux anneaux',
+    resting: 'Miroir au repos',
+  },
+  starterPrompts: [
+    'Je me sens un peu à plat aujourd’hui...',
+    'J’ai du mal à créer des liens avec les autres.',
+    'J’ai juste besoin que quelqu’un m’écoute.',
+    'Est-ce que c’est normal d’aimer le calme ?',
+    'Je me sens seul·e au milieu des autres.',
+  ],
+};
@@ -0,0 +1,455 @@
+import type { LocaleBundle } from './en';
+
+export const he: LocaleBundle = {
+  app: {
+    tagline: 'מקום מפלט פנימי',
+    history: 'היסטוריה',
+    memories: 'זיכרונות',
+    insights: 'תובנות',
+    lock: 'נעילה',
+    lockNow: 'לנעול עכשיו',
+    settings: 'הגדרות',
+    headline: {
+      disconnected: 'טוב לראות אותך שוב, נפש קרובה.',
+      error: 'בואו נעצור לרגע.',
+      connecting: 'המראה שלך מתעוררת...',
+      reconnecting: 'מוצאים שוב את החוט...',
+      text: 'קדימה. לכתוב את מה שבלב.',
+      voice: 'קדימה. לומר את מה שבלב.',
+    },
+    subline: {
+      reconnecting: 'אני כאן. המילים שלך עד עכשיו שמורות.',
+      inSession: 'זה המרחב שלך. אף אחד אחר לא מקשיב.',
+      idle: 'חברה שמבינה את היופי שבשקט.',
+    },
+    recordingLocally: 'מקליט במכשיר הזה בלבד',
+    persona: 'דמות',
+    remembers: (name, count) =>
+      count === 1 ? `${name} זוכרת שיחה קודמת אחת` : `${name} זוכרת ${count} שיחות קודמות`,
+    exercises: 'נשימה מודרכת, קרקוע וסריקת גוף',
+    mute: 'השתקת המיקרופון',
+    unmute: 'ביטול השתקת המיקרופון',
+    muteHint: 'השתקה בלי לסיים את השיחה',
+    unmuteHint: 'ביטול השתקה',
+    endSession: 'סיום השיחה',
+    tryAgain: 'לנסות שוב',
+    startSpeaking: 'להתחיל לדבר',
+    toggleWriting: 'הצגה או הסתרה של הכתיבה',
+    writeInstead: 'לכתוב במקום',
+    writeAlongsideHint: 'לכתוב לצד הקול',
+    writeInsteadHint: 'לכתוב במקום לדבר',
+    talking: 'מקשיבה...',
+    holdToTalk: (key) => `להחזיק כדי לדבר (${key})`,
+    muted: 'מושתק. המראה לא שומעת אותך.',
+    hearingYou: 'שומעת אותך',
+    mirrorSpeaking: 'המראה מדברת',
+    listeningForVoice: 'מחכה לקול שלך',
+    dismissReminder: 'סגירת התזכורת',
+    startReminder: 'להתחיל את הבדיקה הזו',
+    deviceSwitched: (label) => `מקשיבה עכשיו דרך ${label}.`,
+    storedLocally: 'שמור במכשיר הזה',
+    storedEncrypted: 'מוצפן במכשיר הזה',
+    offline: 'המראה לא זמינה במצב לא מקוון',
+    offlineHint: 'ההיסטוריה, התובנות והדמויות שלך עדיין כאן.',
+    protocol: 'פרוטוקול Gemini',
+  },
+  modals: {
+    settings: 'הגדרות המראה',
+    history: 'רצף השיחות',
+    insights: 'מזג אוויר פנימי',
+    memories: 'מה המראה זוכרת',
+    exercises: 'תרגילים מודרכים',
+    checkInBefore: 'איך ההרגשה בהגעה?',
+    checkInAfter: 'איך ההרגשה ביציאה?',
+  },
+  errors: {
+    'network': 'החיבור למראה שלך אבד. כדאי לבדוק את הרשת ולנסות שוב.',
+    'auth': 'המראה לא הצליחה לאמת את המפתח שלה. כדאי לבקש ממי שהגדיר את האפליקציה לבדוק את מפתח ה-API של Gemini.',
+    'quota': 'המראה צריכה מנוחה; השירות עמוס או שהמכסה נגמרה. אפשר לנסות שוב עוד מעט.',
+    'microphone-denied': 'הגישה למיקרופון נדחתה. אפשר לאשר אותה בהגדרות האתר בדפדפן כדי לדבר בקול.',
+    'microphone-missing': 'לא נמצא מיקרופון. אפשר לחבר אחד או לכתוב במקום.',
+    'microphone-busy': 'משהו אחר משתמש במיקרופון. כדאי לסגור אותו שם ולנסות שוב.',
+    'unknown': 'המראה איבדה את הריכוז. בואו ננסה שוב.',
+  },
+  continueInWriting: 'בינתיים נמשיך בכתיבה.',
+  reminderBody: 'רגע שקט לבדוק מה שלומך.',
+  common: {
+    close: 'סגירה',
+    cancel: 'ביטול',
+    save: 'שמירה',
+    on: 'פועל',
+    off: 'כבוי',
+  },
+  settings: {
+    language: 'שפה',
+    languageHint: 'המראה מקשיבה, מתמללת ועונה בשפה הזו.',
+    followBrowser: 'כמו הדפדפן',
+    personaLibrary: 'ספריית דמויות',
+    active: 'פעילה',
+    newPersona: 'דמות חדשה',
+    useThisMirror: 'להשתמש במראה הזו',
+    duplicate: 'שכפול',
+    reset: 'איפוס',
+    export: 'ייצוא',
+    delete: 'מחיקה',
+    name: 'שם',
+    aura: 'הילה',
+    auraColor: (color) => `הילה ${color}`,
+    mirrorColours: 'צבעי המראה',
+    themes: { aura: 'הילה', dusk: 'דמדומים', forest: 'יער', ocean: 'אוקיינוס', ember: 'גחלת', moon: 'ירח' },
+    instruction: 'נשמת המראה (הנחיות)',
+    instructionPlaceholder: 'לתאר את האנרגיה של המלווה...',
+    voice: 'קול',
+    starterPrompts: 'משפטי פתיחה (משפט בכל שורה)',
+    starterPromptsPlaceholder: 'אני רק צריך שמישהו יקשיב.',
+    rememberMe: 'לזכור אותי',
+    rememberMeHint: 'לשמור הערה קצרה אחרי כל שיחה עם המראה הזו ולהביא את ההערות האחרונות לשיחה הבאה. כיבוי עוצר את שני הדברים.',
+    replyStyle: 'אופן התשובה',
+    spoken: 'בקול',
+    textOnly: 'טקסט בלבד',
+    visualizer: 'תצוגה חזותית',
+    visualizerModes: { rays: 'קרניים', waveform: 'גל קול', orb: 'כדור נושם' },
+    captions: 'כתוביות חיות',
+    captionsHint: 'להציג את מה שנאמר, שלך ושל המראה, בזמן אמת.',
+    captionSize: 'גודל טקסט',
+    captionSizes: { small: 'קטן', medium: 'בינוני', large: 'גדול' },
+    audio: 'מיקרופון ורמקול',
+    voiceInput: 'קלט קולי',
+    alwaysListening: 'האזנה תמידית',
+    pushToTalk: 'לחיצה לדיבור',
+    sensitivity: 'רגישות',
+    answerPause: 'השהיה לפני שהמראה עונה',
+    talkKey: 'מקש דיבור',
+    pressKey: 'ללחוץ על מקש...',
+    moodCheckIns: 'בדיקות מצב רוח',
+    offer: 'להציע',
+    never: 'אף פעם',
+    reminders: 'תזכורות לבדיקה',
+    recordings: 'שמירת הקלטות קול',
+    recordingsHint: 'לשמור את שני הקולות בכל שיחה במכשיר הזה, כדי שאפשר יהיה להאזין להם לצד התמליל.',
+    safety: 'ליווי עדין לבטיחות',
+    safetyHint: 'כשמזוהה מצוקה, המראה מתבקשת להתמקד בביטחון שלך עד סוף השיחה.',
+    actions: 'פעולות המראה',
+    actionsHint: 'מה המראה יכולה לעשות במהלך שיחה. כל פעולה מופיעה בתמליל.',
+    permissions: { always: 'תמיד', ask: 'לשאול', never: 'אף פעם' },
+    vault: 'כספת פרטית',
+    sharePersonas: 'שיתוף דמויות',
+    import: 'ייבוא',
+    exportAll: 'ייצוא הכול',
+    welcomed: (count) => count === 1 ? 'נוספה דמות אחת.' : `נוספו ${count} דמויות.`,
+    saveAll: 'שמירה וחתימה',
+  },
+  personas: {
+    newName: 'מראה חדשה',
+    copyName: (name) => `${name} (עותק)`,
+  },
+  files: {
+    invalidJson: 'הקובץ הזה אינו JSON תקין.',
+    notJournal: 'הקובץ הזה אינו מכיל יומן של EgoMirror.',
+    notPersonas: 'הקובץ הזה אינו מכיל דמויות של EgoMirror.',
+    newerVersion: 'הקובץ נוצר בגרסה חדשה יותר של EgoMirror.',
+  },
+  safety: {
+    region: 'אזור',
+    resources: 'מקורות תמיכה',
+    title: 'לא צריך לשאת את זה לבד',
+    body: (emergency) =>
+      `אם עולות מחשבות על פגיעה עצמית, או שאין תחושת ביטחון, יש מי שמוכנים להקשיב עכשיו. במצב חירום אפשר להתקשר ל-${emergency}.`,
+    anywhereElse: 'מקום אחר',
+    localEmergency: 'מספר החירום המקומי',
+  },
+  vault: {
+    lockedTitle: 'המקום המוגן שלך נעול.',
+    lockedHint: 'להזין את משפט הסיסמה כדי לפתוח את השיחות והמראות.',
+    passphrase: 'משפט סיסמה',
+    opening: 'פותחת...',
+    unlock: 'פתיחה',
+    forgotten: 'אי אפשר לשחזר משפט סיסמה שנשכח. אפשר רק להתחיל מחדש.',
+    didntOpen: 'הכספת לא נפתחה.',
+    wipe: 'מחיקת הכול',
+    wipeConfirm: 'ללחוץ שוב כדי למחוק הכול',
+    wiping: 'מוחקת...',
+    offHint: 'הצפנה של השיחות, המראות, בדיקות מצב הרוח וההקלטות במשפט סיסמה. בלעדיו אף אחד לא יכול לקרוא אותם, כולל בעלי המכשיר.',
+    onHint: 'השיחות, המראות, בדיקות מצב הרוח וההקלטות מוצפנים במכשיר הזה.',
+    autoLock: 'נעילה אחרי חוסר פעילות',
+    minutes: (minutes) => `${minutes} דק׳`,
+    never: 'אף פעם',
+    currentPassphrase: 'משפט הסיסמה הנוכחי',
+    newPassphrase: 'משפט סיסמה חדש',
+    repeatPassphrase: 'לחזור על משפט הסיסמה החדש',
+    tooShort: (length) => `צריך לפחות ${length} תווים.`,
+    mismatch: 'משפטי הסיסמה עדיין לא תואמים.',
+    working: 'רק רגע...',
+    turnOn: 'הפעלה',
+    turnOff: 'כיבוי',
+    turnOnVault: 'הפעלת הכספת',
+    turnOffVault: 'כיבוי הכספת',
+    changePassphrase: 'שינוי משפט הסיסמה',
+    enabled: 'כל מה שבמכשיר הזה מוצפן עכשיו.',
+    changed: 'משפט הסיסמה שונה והכול הוצפן מחדש.',
+    disabled: 'הכספת כבויה. הנתונים נשמרים שוב בלי הצפנה.',
+    failed: 'משהו השתבש.',
+    wrongPassphrase: 'משפט הסיסמה הזה לא פותח את הכספת.',
+    locked: 'הכספת נעולה.',
+    alreadyOn: 'הכספת כבר פועלת.',
+    unknownKey: 'הרשומה הזו נחתמה במפתח שכבר לא נמצא בכספת.',
+  },
+  composer: {
+    placeholder: 'לכתוב את מה שעל הלב...',
+    label: 'הודעה',
+    send: 'שליחה',
+  },
+  captions: {
+    you: 'את/ה',
+    interrupted: '(נקטע)',
+  },
+  audio: {
+    listHint: 'הדפדפן מציג את רשימת המיקרופונים אחרי שמאשרים אחד מהם. אפשר לבדוק את המיקרופון למטה כדי לראות אותם.',
+    microphone: 'מיקרופון',
+    speaker: 'רמקול',
+    defaultMicrophone: 'מיקרופון ברירת מחדל',
+    systemDefault: 'ברירת המחדל של המערכת',
+    savedDevice: 'מכשיר שמור (לא מחובר)',
+    defaultOutputOnly: 'הדפדפן הזה תמיד משמיע את המראה דרך יציאת השמע שמוגדרת כברירת מחדל במערכת.',
+    echoCancellation: 'ביטול הד',
+    noiseSuppression: 'הפחתת רעשים',
+    autoGainControl: 'כוונון עוצמה אוטומטי',
+    inputGain: 'הגברת קלט',
+    level: 'עוצמת המיקרופון',
+    threshold: 'מכאן המראה מתחילה לשמוע',
+    testMicrophone: 'בדיקת מיקרופון',
+    stopTest: 'עצירת הבדיקה',
+    recordSample: (seconds) => `להקליט ${seconds} שנ׳ ולהשמיע`,
+    recording: 'מקליטה, אפשר לומר משהו…',
+    playingBack: 'משמיעה…',
+  },
+  playback: {
+    pause: 'השהיית המראה',
+    resume: 'המשך המראה',
+    pauseShort: 'השהיה',
+    resumeShort: 'המשך',
+    volume: 'עוצמת המראה',
+    speed: 'מהירות הדיבור',
+  },
+  reminders: {
+    notificationsOff: 'ההתראות כבויות לאתר הזה, ולכן התזכורות מופיעות בתוך האפליקציה.',
+    notificationsOn: 'התזכורות מגיעות כהתראות. פתיחה של תזכורת מתחילה שיחה עם המשפט שלה.',
+    whileOpen: (minutes) =>
+      `תזכורות מגיעות רק כש-EgoMirror פתוחה ולא נעולה; כשהיא סגורה או נעולה לא נשלח כלום. תזכורת שהוחמצה ביותר מ-${minutes} דקות מדולגת עד למחרת.`,
+    defaultLabel: 'בדיקת ערב',
+    name: 'שם התזכורת',
+    time: 'שעה',
+    delete: 'מחיקת התזכורת',
+    openingLine: 'משפט פתיחה (לא חובה)',
+    starterPrompt: 'משפט פתיחה',
+    add: 'הוספת תזכורת',
+  },
+  toolPrompt: {
+    request: (request) => `המראה רוצה ${request}.`,
+    changeInSettings: (label) => `${label} • אפשר לשנות את זה בהגדרות.`,
+    notNow: 'לא עכשיו',
+    alwaysAllow: 'לאשר תמיד',
+    allow: 'לאשר',
+  },
+  tools: {
+    log_mood: {
+      label: 'תיעוד מצב הרוח',
+      description: 'לתעד את מצב הרוח בשיחה הנוכחית כשמתארים איך מרגישים.',
+      request: (mood, tags) => `לתעד את מצב הרוח כ״${mood}״${tags.length ? ` (${tags.join(', ')})` : ''}`,
+      done: (mood, energy, tags) =>
+        `מצב הרוח תועד: ${mood}, ${energy}${tags.length ? ` (${tags.join(', ')})` : ''}`,
+    },
+    start_exercise: {
+      label: 'התחלת תרגיל',
+      description: 'להתחיל על המסך תרגיל מודרך של נשימה, קרקוע או סריקת גוף.',
+      request: (title) => `להתחיל את ״${title}״`,
+      done: (title) => `התרגיל התחיל: ${title}`,
+      busy: (title) => `אי אפשר להתחיל את ״${title}״; תרגיל אחר כבר פועל`,
+    },
+    find_past_session: {
+      label: 'חיפוש בשיחות קודמות',
+      description: 'לקרוא הערות שנשמרו משיחות קודמות. הערות פרטיות אף פעם לא משותפות.',
+      request: (query) => query ? `לחפש ״${query}״ בשיחות קודמות` : 'לעיין בשיחות האחרונות',
+      done: (count, query) =>
+        `${count === 1 ? 'נבדקה שיחה קודמת אחת' : `נבדקו ${count} שיחות קודמות`}${query ? ` עבור ״${query}״` : ''}`,
+      none: (query) => `לא נמצאו שיחות קודמות${query ? ` עבור ״${query}״` : ''}`,
+    },
+    schedule_check_in: {
+      label: 'קביעת תזכורות לבדיקה',
+      description: 'להשאיר תזכורת במכשיר הזה לחזור ולבדוק מה שלומך.',
+      request: (delay) => `להזכיר לבדוק מה שלומך בעוד ${delay}`,
+      done: (when) => `נקבעה תזכורת לבדיקה: ${when}`,
+      defaultNote: 'הגיע הזמן לבדיקה עדינה.',
+    },
+    delay: {
+      minutes: (n) => `${n} דק׳`,
+      hours: (n) => `${n} שע׳`,
+      days: (n) => `${n} ימים`,
+    },
+    turnedOff: (label) => `אי אפשר: ${label}; הפעולה כבויה בהגדרות`,
+    failed: (label) => `לא הצליח: ${label}`,
+    declined: (request) => `נדחה: ${request}`,
+  },
+  checkIn: {
+    mood: 'מצב רוח',
+    energy: 'אנרגיה',
+    moods: ['כבד', 'ירוד', 'בסדר', 'קליל', 'זוהר'],
+    energyLevels: ['מרוקן', 'עייף', 'יציב', 'ערני', 'מלא אנרגיה'],
+    present: 'מה נוכח עכשיו',
+    somethingElse: 'משהו אחר...',
+    addTag: 'הוספת תגית',
+    skipLabel: 'דילוג על הבדיקה',
+    skip: 'דילוג',
+    skipAndBegin: 'לדלג ולהתחיל',
+    begin: 'להתחיל',
+    tags: {
+      anxious: 'חרדה',
+      lonely: 'בדידות',
+      tired: 'עייפות',
+      stressed: 'לחץ',
+      calm: 'רוגע',
+      hopeful: 'תקווה',
+      grateful: 'הכרת תודה',
+      overwhelmed: 'הצפה',
+    },
+  },
+  insights: {
+    empty: 'כדאי לבדוק את מצב הרוח לפני השיחה ואחריה כדי לראות איך הדברים משתנים לאורך זמן.',
+    notEnough: 'עדיין אין מספיק בדיקות בזוגות.',
+    moodShift: 'שינוי במצב הרוח',
+    energyShift: 'שינוי באנרגיה',
+    moodOverTime: 'מצב הרוח לאורך זמן',
+    chart: 'מצב הרוח לפני ואחרי כל שיחה',
+    legend: 'מקווקו: בהגעה • רציף: ביציאה',
+    byPersona: 'לפי דמות',
+    byPrompt: 'לפי משפט פתיחה או תרגיל',
+    byTopic: 'לפי נושא',
+    computedLocally: 'מחושב במכשיר הזה',
+    openConversation: 'שיחה פתוחה',
+  },
+  history: {
+    back: 'חזרה לשיחות',
+    search: 'חיפוש במחשבות...',
+    from: 'מ-',
+    to: 'עד',
+    loadError: 'לא ניתן לפתוח את היומן.',
+    noMatches: 'שום דבר ברצף לא תואם.',
+    empty: 'הרצף צלול ושקט.',
+    reflections: (count) => count === 1 ? 'מחשבה אחת' : `${count} מחשבות`,
+    recorded: 'מוקלט',
+    deleteSession: 'מחיקת השיחה',
+    exportFormat: 'פורמט ייצוא',
+    formats: { markdown: 'Markdown', json: 'JSON', text: 'טקסט פשוט', html: 'דף להדפסה' },
+    exportSession: 'ייצוא השיחה',
+    exportShown: (count) => `ייצוא המוצג (${count})`,
+    exportAll: 'ייצוא הכול',
+    importJson: 'ייבוא JSON',
+    restored: (count) => count === 1 ? 'שוחזרה שיחה אחת.' : `שוחזרו ${count} שיחות.`,
+    purge: 'מחיקת ההיסטוריה',
+    close: 'סגירת המקום המוגן',
+    downloadRecording: 'הורדת ההקלטה',
+  },
+  exportFile: {
+    title: 'יומן EgoMirror',
+    heading: (date, persona) => `${date} עם ${persona}`,
+    you: 'את/ה',
+    unfinished: 'לא הושלמה',
+    minutes: (minutes) => `${minutes} דק׳`,
+    messages: (count) => count === 1 ? 'הודעה אחת' : `${count} הודעות`,
+    session: 'שיחה',
+    started: 'התחלה',
+    ended: 'סיום',
+    messageCount: 'הודעות',
+  },
+  exercises: {
+    intro: 'עם קול, המראה אומרת כל שלב בזמנו. על המסך בלבד, השלבים מופיעים כטקסט ושום דבר לא יוצא מהמכשיר.',
+    offline: 'אין חיבור לרשת. התרגילים עדיין עובדים על המסך.',
+    withVoice: 'עם קול',
+    onScreen: 'על המסך בלבד',
+    seconds: (seconds) => `${seconds} שנ׳`,
+    minutes: (minutes) => `${minutes} דק׳`,
+    completed: (count) => `הושלם ${count}×`,
+    wellDone: 'כל הכבוד.',
+    gettingReady: 'מתכוננים...',
+    getComfortable: 'למצוא תנוחה נוחה.',
+    finished: (title) => `${title} הושלם. כדאי לקחת רגע לפני שממשיכים.`,
+    onItsWay: 'המראה בדרך.',
+    beginsIn: (title, seconds) => `${title} מתחיל בעוד ${seconds}`,
+    round: (round, rounds) => `סבב ${round} מתוך ${rounds}`,
+    done: 'סיום',
+    stop: 'עצירת התרגיל',
+  },
+  exerciseContent: {
+    'box-breathing': {
+      title: 'נשימת קופסה',
+      summary: 'ארבע צלעות שוות: שאיפה, עצירה, נשיפה, עצירה. מרגיעה מחשבות דוהרות.',
+      phases: [
+        { cue: 'לשאוף', detail: 'דרך האף' },
+        { cue: 'לעצור' },
+        { cue: 'לנשוף', detail: 'לאט, דרך הפה' },
+        { cue: 'לעצור', detail: 'ריק ושקט' },
+      ],
+    },
+    '4-7-8': {
+      title: 'נשימת 4-7-8',
+      summary: 'נשיפה ארוכה ואיטית שעוזרת לגוף לשקוע במנוחה.',
+      phases: [
+        { cue: 'לשאוף', detail: 'בשקט, דרך האף' },
+        { cue: 'לעצור' },
+        { cue: 'לנשוף', detail: 'עד הסוף, בנשיפה רכה' },
+      ],
+    },
+    'grounding-54321': {
+      title: 'קרקוע 5-4-3-2-1',
+      summary: 'לחזור לחדר דרך החושים, אחד אחרי השני.',
+      phases: [
+        { cue: 'חמישה דברים שרואים', detail: 'לתת למבט לנוח על כל אחד' },
+        { cue: 'ארבעה דברים שמרגישים', detail: 'כפות הרגליים, הידיים, האוויר' },
+        { cue: 'שלושה דברים ששומעים', detail: 'קרובים ורחוקים' },
+        { cue: 'שני דברים שמריחים', detail: 'או שני ריחות אהובים' },
+        { cue: 'דבר אחד שטועמים', detail: 'או משהו טוב אחד על עצמך' },
+      ],
+    },
+    'body-scan': {
+      title: 'סריקת גוף קצרה',
+      summary: 'שלוש דקות שקטות שבהן תשומת הלב נעה מכפות הרגליים אל הפנים.',
+      phases: [
+        { cue: 'להתמקם', detail: 'לעצום עיניים או לרכך את המבט' },
+        { cue: 'כפות הרגליים', detail: 'לשים לב למשקל, לחום, למגע' },
+        { cue: 'הרגליים', detail: 'לתת להן להיות כבדות' },
+        { cue: 'הבטן', detail: 'עולה ויורדת מעצמה' },
+        { cue: 'החזה והכתפיים', detail: 'לתת להם לרדת מעט' },
+        { cue: 'הפנים', detail: 'לרכך את הלסת ואת המצח' },
+        { cue: 'כל הגוף', detail: 'נושם, כאן, וזה מספיק' },
+      ],
+    },
+  },
+  memories: {
+    intro: (limit) =>
+      `אחרי כל שיחה נשמרת כאן הערה קצרה. כל מראה רואה עד ${limit} מההערות המשותפות האחרונות שלה, ושום דבר כש״לזכור אותי״ כבוי.`,
+    empty: 'עדיין לא נשמר כלום בזיכרון.',
+    shared: 'משותף',
+    private: 'פרטי',
+    sharedHint: 'משותף עם השיחות הבאות',
+    privateHint: 'נשמר כאן בלבד',
+    edit: 'עריכת הזיכרון',
+    delete: 'מחיקת הזיכרון',
+    summary: 'סיכום',
+    themes: 'נושאים',
+    themesPlaceholder: 'נושאים, מופרדים בפסיקים',
+    threads: 'חוטים פתוחים',
+    threadsPlaceholder: 'חוטים פתוחים, אחד בכל שורה',
+    forgetAll: 'לשכוח הכול',
+  },
+  visualizer: {
+    active: 'הקול שלך והקול של המראה, בשתי טבעות',
+    resting: 'המראה במנוחה',
+  },
+  starterPrompts: [
+    'היום אין לי הרבה כוח...',
+    'קשה לי להתחבר לאנשים אחרים.',
+    'אני רק צריך שמישהו יקשיב.',
+    'זה בסדר להיות שקט?',
+    'אני מרגיש בודד בין אנשים.',
+  ],
+};
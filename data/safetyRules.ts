@@ -0,0 +1,92 @@
+import { SafetyRule } from '../utils/safety';
+
+// "I", "I'm", "I've"... and up to three more words, none of which negate what follows,
+// so "I really want to die" matches but "I don't want to die" does not.
+const FIRST_PERSON = "\\b(?:i|i'm|im|i've|ive|i'd)(?: (?!(?:don't|dont|do not|not|never|wouldn't|won't|wont)\\b)[\\w']+){0,3} ";
+
+/**
+ * Default phrases and patterns that open the support panel. Matching runs on
+ * normalized text (lowercase, straight apostrophes, no punctuation), so patterns
+ * should be written in that form. `locales` are language prefixes; '*' matches any.
+ */
+export const DEFAULT_SAFETY_RULES: SafetyRule[] = [
+  {
+    id: 'suicide-intent',
+    locales: ['en'],
+    severity: 'crisis',
+    // Talking about suicide isn't the same as intending it: "suicide" alone is too
+    // common in news, films and prevention work, so it only counts with first-person intent.
+    phrases: ['kill myself', 'end my life', 'take my own life', 'better off dead', 'no reason to live'],
+    patterns: [
+      `${FIRST_PERSON}(?:want to|wanna|wish i could|ready to|plan to|planning to|going to|gonna) (?:die|be dead)\\b(?! (?:of|from|laughing)\\b)`,
+      `${FIRST_PERSON}wish i (?:was|were) dead\\b`,
+      "^(?:(?:just|really|honestly|sometimes) )*(?:want to|wanna) die\\b",
+      `${FIRST_PERSON}(?:commit|committing|attempt|attempting|considering|contemplating|thinking about|thinking of|thought about|think about) suicide\\b`,
+      `${FIRST_PERSON}suicidal\\b`,
+      "\\bdon'?t want to (be alive|live|exist|wake up|be here anymore)\\b",
+      "\\b(end|ending) it all\\b",
+    ],
+  },
+  {
+    id: 'self-harm',
+    locales: ['en'],
+    severity: 'crisis',
+    phrases: ['hurt myself', 'harm myself', 'cut myself', 'self harm', 'cutting myself'],
+  },
+  {
+    id: 'unsafe-situation',
+    locales: ['en'],
+    severity: 'concern',
+    phrases: ['not safe at home', 'someone is hurting me', 'afraid for my life'],
+    patterns: ["\\b(he|she|they) (hits|hit|beats|beat) me\\b"],
+  },
+  {
+    id: 'suicide-intent-es',
+    locales: ['es'],
+    severity: 'crisis',
+    phrases: ['quitarme la vida', 'suicidarme', 'no quiero vivir', 'pienso en el suicidio', 'pensando en el suicidio'],
+    // "(Me) quiero morir(me)", unless negated ("no quiero morir") or figurative ("morirme de risa").
+    patterns: [
+      "(?:^| )(?<!(?:^| )(?:no|nunca|jamas|tampoco|ni) (?:me )?)(?:me )?quiero (?:(?:ya|solo|realmente) )?morir(?:me)?(?! (?:de|del) (?:risa|hambre|sed|frio|calor|verguenza|pena|aburrimiento|envidia|amor|ganas|susto)\\b)(?:$| )",
+    ],
+  },
+  {
+    id: 'suicide-intent-de',
+    locales: ['de'],
+    severity: 'crisis',
+    phrases: ['mich umbringen', 'will sterben', 'mir das leben nehmen', 'nicht mehr leben', 'selbstmordgedanken', 'suizidgedanken', 'denke an selbstmord', 'denke an suizid'],
+  },
+  {
+    id: 'suicide-intent-fr',
+    locales: ['fr'],
+    severity: 'crisis',
+    phrases: ['me suicider', 'mettre fin a mes jours', 'plus envie de vivre', 'pense au suicide', 'suis suicidaire'],
+    // "Je veux mourir", unless negated ("je ne veux mourir") or figurative ("mourir de rire").
+    patterns: [
+      "(?:^| )(?<!(?:^| )(?:ne|n') )veux (?:(?:vraiment|juste|seulement) )?(?:mourir|crever)(?! (?:de|d') ?(?:rire|honte|faim|soif|froid|chaud|ennui|fatigue|peur|envie|impatience)\\b)(?:$| )",
+    ],
+  },
+  {
+    id: 'suicide-intent-ar',
+    locales: ['ar'],
+    severity: 'crisis',
+    // Written without hamza, which normalization removes; Gulf, Egyptian and Levantine forms included.
+    phrases: [
+      'اقتل نفسي', 'انهي حياتي', 'سانتحر', 'افكر في الانتحار', 'افكر بالانتحار',
+      'لا اريد ان اعيش', 'ما بدي عيش', 'اوذي نفسي', 'اجرح نفسي',
+    ],
+    // "I want to die" or "...to kill myself", unless negated: "لا اريد ان اموت" is the opposite.
+    patterns: ["(?:^| )(?<!(?:لا|ما|مش|مو) )(?:اريد ان|ابي|عايز|عاوز|بدي) (?:اموت|موت|انتحر)(?:$| )"],
+  },
+  {
+    id: 'suicide-intent-he',
+    locales: ['he'],
+    severity: 'crisis',
+    // With "I" spelled out where a bare verb would also match "I don't want to...".
+    phrases: [
+      'אני רוצה למות', 'בא לי למות', 'אני רוצה להתאבד', 'אני אתאבד',
+      'להרוג את עצמי', 'לשים קץ לחיי', 'חושב על התאבדות', 'חושבת על התאבדות',
+      'מחשבות אובדניות', 'לא רוצה לחיות', 'אין לי בשביל מה לחיות', 'לפגוע בעצמי',
+    ],
+  },
+];
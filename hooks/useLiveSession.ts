@@ -0,0 +1,494 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  FunctionCall, FunctionDeclaration, LiveSendClientContentParameters, LiveSendToolResponseParameters, LiveServerMessage, Modality,
+} from '@google/genai';
+import { AppPreferences, Message, SessionState } from '../types';
+import { analyserLevelDb, decodeAudioData, decodeBase64, floatToPcm16 } from '../utils/audio';
+import { createMicCapture, MicCapture, CAPTURE_SAMPLE_RATE } from '../utils/capture';
+import { classifyError, openManagedSession } from '../utils/connection';
+import { MicInput, openMicInput, routeOutput, watchAudioDevices } from '../utils/devices';
+import { LanguageOption, strings } from '../utils/i18n';
+import { createInputGate, InputGate } from '../utils/inputGate';
+import { PlaybackScheduler } from '../utils/playback';
+import { createSessionRecorder, SessionRecorder } from '../utils/recorder';
+import { canStartSession, INITIAL_SESSION, isSessionActive, SessionEvent, SessionMachine, sessionReducer } from '../utils/sessionMachine';
+import { createLiveTransport, LiveConnection } from '../utils/transport';
+
+const LIVE_MODEL_AUDIO = 'gemini-2.5-flash-native-audio-preview-12-2025';
+// Native-audio models cannot answer in text, so text replies use a half-cascade model.
+const LIVE_MODEL_TEXT = 'gemini-live-2.5-flash-preview';
+
+const AUDIO_LEVEL_INTERVAL_MS = 100;
+
+export type InputChannel = 'voice' | 'text';
+
+export type LiveSessionPreferences = Pick<AppPreferences,
+  | 'textReplies' | 'recordAudio' | 'inputMode' | 'vadThresholdDb' | 'vadHangoverMs'
+  | 'inputDeviceId' | 'outputDeviceId' | 'echoCancellation' | 'noiseSuppression' | 'autoGainControl' | 'inputGain'
+  | 'playbackVolume' | 'playbackRate'>;
+
+export interface LiveSessionStart {
+  sessionId: string;
+  /** The channel asked for; voice falls back to text if the microphone can't be used. */
+  channel: InputChannel;
+  voiceName: string;
+  systemInstruction: string;
+  functionDeclarations?: FunctionDeclaration[];
+  /** Sets the speech language and hints transcription; left out, the model detects it. */
+  language?: LanguageOption;
+}
+
+export type TranscriptEvent =
+  /** `turnText` is everything this speaker has said in the turn so far. */
+  | { type: 'partial'; speaker: 'user' | 'model'; text: string; turnText: string }
+  | { type: 'turn-complete'; messages: Message[] }
+  | { type: 'interrupted' };
+
+/** Levels in dBFS; null for a side that has no audio, such as the user in a written session. */
+export interface AudioLevels {
+  user: number | null;
+  model: number | null;
+}
+
+export interface SessionEnd {
+  sessionId: string;
+  state: 'disconnected' | 'error';
+  /** What had been said in the turn the session ended in. */
+  unfinished: Message[];
+  /** The recorder, if one ran; the caller decides whether to finish and keep it. */
+  recorder: SessionRecorder | null;
+}
+
+export interface LiveSessionHandlers {
+  onOpen?: (info: { sessionId: string; reconnect: boolean; resumed: boolean }) => void;
+  onTranscript?: (event: TranscriptEvent, sessionId: string) => void;
+  onToolCall?: (calls: FunctionCall[], sessionId: string) => void;
+  onToolCallCancellation?: (ids: string[], sessionId: string) => void;
+  /** Sampled every `AUDIO_LEVEL_INTERVAL_MS` while a session runs. */
+  onAudioLevels?: (levels: AudioLevels) => void;
+  /** A failure that ended the session, or a notice such as falling back to writing. */
+  onError?: (message: string, fatal: boolean) => void;
+  /** The microphone changed by itself, e.g. because the chosen one was unplugged. */
+  onDeviceSwitch?: (label: string) => void;
+  /** Called once per session however it ended, after the audio is torn down. */
+  onEnd?: (end: SessionEnd) => void;
+}
+
+export interface LiveSession {
+  state: SessionState;
+  sessionId: string | null;
+  error: string | null;
+  channel: InputChannel;
+  muted: boolean;
+  talking: boolean;
+  userSpeaking: boolean;
+  modelSpeaking: boolean;
+  playbackPaused: boolean;
+  recording: boolean;
+  userAnalyser: AnalyserNode | null;
+  modelAnalyser: AnalyserNode | null;
+  /** Whether `start` would be accepted right now; read synchronously, so it is never a render behind. */
+  canStart: () => boolean;
+  /** Resolves to the channel actually used, or null if a session is already running or this one failed. */
+  start: (options: LiveSessionStart) => Promise<InputChannel | null>;
+  stop: () => void;
+  /** Sends a typed turn and returns it as a message for the transcript. */
+  sendText: (text: string) => Message | null;
+  sendClientContent: (params: LiveSendClientContentParameters) => void;
+  sendToolResponse: (params: LiveSendToolResponseParameters) => void;
+  toggleMute: () => void;
+  setTalking: (talking: boolean) => void;
+  togglePlaybackPause: () => void;
+  setVolume: (volume: number) => void;
+  setPlaybackRate: (rate: number) => void;
+}
+
+/**
+ * One Live session at a time: microphone, input gate, connection, playback and
+ * transcription, driven by the session state machine. Screens supply the
+ * instruction and react to events; what to keep or show is up to them.
+ */
+export function useLiveSession(prefs: LiveSessionPreferences, handlers: LiveSessionHandlers = {}): LiveSession {
+  const [machine, setMachine] = useState<SessionMachine>(INITIAL_SESSION);
+  const [channel, setChannel] = useState<InputChannel>('voice');
+  const [muted, setMuted] = useState(false);
+  const [talking, setTalkingState] = useState(false);
+  const [userSpeaking, setUserSpeaking] = useState(false);
+  const [modelSpeaking, setModelSpeaking] = useState(false);
+  const [playbackPaused, setPlaybackPaused] = useState(false);
+  const [recording, setRecording] = useState(false);
+
+  // Guards read the machine synchronously, so it lives in a ref and the state only mirrors it for rendering.
+  const machineRef = useRef<SessionMachine>(INITIAL_SESSION);
+  const prefsRef = useRef(prefs);
+  prefsRef.current = prefs;
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  const inputAudioCtxRef = useRef<AudioContext | null>(null);
+  const outputAudioCtxRef = useRef<AudioContext | null>(null);
+  const userAnalyserRef = useRef<AnalyserNode | null>(null);
+  const modelAnalyserRef = useRef<AnalyserNode | null>(null);
+  const playbackRef = useRef<PlaybackScheduler | null>(null);
+  const micRef = useRef<MicInput | null>(null);
+  const captureRef = useRef<MicCapture | null>(null);
+  const inputGateRef = useRef<InputGate | null>(null);
+  const connectionRef = useRef<LiveConnection | null>(null);
+  const recorderRef = useRef<SessionRecorder | null>(null);
+  const levelTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const currentInputRef = useRef('');
+  const currentOutputRef = useRef('');
+  // Wall-clock start of the current user and model utterances, used as message timestamps
+  const inputStartedAtRef = useRef<number | null>(null);
+  const outputStartedAtRef = useRef<number | null>(null);
+
+  /** Applies an event and reports whether it changed anything. */
+  const send = useCallback((event: SessionEvent) => {
+    const next = sessionReducer(machineRef.current, event);
+    if (next === machineRef.current) return false;
+    machineRef.current = next;
+    setMachine(next);
+    return true;
+  }, []);
+
+  const isCurrent = (sessionId: string) =>
+    machineRef.current.sessionId === sessionId && isSessionActive(machineRef.current.state);
+
+  /**
+   * Turns the buffered partial transcriptions into messages and clears the buffers.
+   */
+  const takePendingTurn = useCallback((sessionId: string): Message[] => {
+    const uText = currentInputRef.current.trim();
+    const mText = currentOutputRef.current.trim();
+    const turn: Message[] = [
+      ...(uText ? [{ id: crypto.randomUUID(), sessionId, role: 'user' as const, text: uText, timestamp: inputStartedAtRef.current ?? Date.now() }] : []),
+      ...(mText ? [{ id: crypto.randomUUID(), sessionId, role: 'model' as const, text: mText, timestamp: outputStartedAtRef.current ?? Date.now() }] : [])
+    ];
+    currentInputRef.current = '';
+    currentOutputRef.current = '';
+    inputStartedAtRef.current = null;
+    outputStartedAtRef.current = null;
+    return turn;
+  }, []);
+
+  /**
+   * Ends the current session through `event`. Does nothing if the machine
+   * refuses it, e.g. when the socket closes after the session already failed.
+   */
+  const end = useCallback((event: Extract<SessionEvent, { type: 'stop' | 'fail' }>) => {
+    if (!send(event)) return;
+    const recorder = recorderRef.current;
+    recorderRef.current = null;
+    const unfinished = takePendingTurn(event.sessionId);
+    if (levelTimerRef.current) clearInterval(levelTimerRef.current);
+    levelTimerRef.current = null;
+    // Close the gate first so an open activity is ended before the socket goes away.
+    inputGateRef.current?.close();
+    inputGateRef.current = null;
+    connectionRef.current?.close();
+    connectionRef.current = null;
+    captureRef.current?.stop();
+    captureRef.current = null;
+    micRef.current?.stop();
+    micRef.current = null;
+    playbackRef.current?.dispose();
+    playbackRef.current = null;
+    userAnalyserRef.current = null;
+    modelAnalyserRef.current = null;
+    setPlaybackPaused(false);
+    setMuted(false);
+    setTalkingState(false);
+    setUserSpeaking(false);
+    setModelSpeaking(false);
+    setRecording(false);
+    handlersRef.current.onEnd?.({
+      sessionId: event.sessionId,
+      state: event.type === 'fail' ? 'error' : 'disconnected',
+      unfinished,
+      recorder,
+    });
+  }, [send, takePendingTurn]);
+
+  const start = useCallback(async (options: LiveSessionStart): Promise<InputChannel | null> => {
+    const { sessionId, voiceName, systemInstruction, functionDeclarations = [], language } = options;
+    if (!send({ type: 'start', sessionId })) return null;
+    const prefs = prefsRef.current;
+    const { textReplies } = prefs;
+    let sessionChannel = options.channel;
+
+    try {
+      recorderRef.current = prefs.recordAudio ? createSessionRecorder() : null;
+      setRecording(!!recorderRef.current);
+      const transport = createLiveTransport();
+
+      // Initialize contexts. Input runs at the hardware rate; the capture worklet resamples to 16 kHz.
+      if (!outputAudioCtxRef.current) outputAudioCtxRef.current = new AudioContext({ sampleRate: 24000 });
+      const outputCtx = outputAudioCtxRef.current;
+      await outputCtx.resume();
+      await routeOutput(outputCtx, prefs.outputDeviceId);
+
+      let mic: MicInput | null = null;
+      if (sessionChannel === 'voice') {
+        try {
+          if (!inputAudioCtxRef.current) inputAudioCtxRef.current = new AudioContext();
+          await inputAudioCtxRef.current.resume();
+          mic = await openMicInput(inputAudioCtxRef.current, prefs, {
+            onSwitch: (label) => handlersRef.current.onDeviceSwitch?.(label),
+          });
+        } catch (err) {
+          const micError = classifyError(err);
+          if (micError.kind !== 'microphone-denied' && micError.kind !== 'microphone-missing') throw err;
+          const message = `${micError.message} ${strings().continueInWriting}`;
+          send({ type: 'notice', sessionId, message });
+          handlersRef.current.onError?.(message, false);
+          sessionChannel = 'text';
+        }
+      }
+      // The session may have been stopped while the microphone permission prompt was up.
+      if (!isCurrent(sessionId)) {
+        mic?.stop();
+        return null;
+      }
+      micRef.current = mic;
+      setChannel(sessionChannel);
+
+      let userAnalyser: AnalyserNode | null = null;
+      if (mic) {
+        userAnalyser = inputAudioCtxRef.current!.createAnalyser();
+        userAnalyser.fftSize = 256;
+      }
+      userAnalyserRef.current = userAnalyser;
+      inputGateRef.current = mic ? createInputGate({
+        mode: prefs.inputMode,
+        vad: { thresholdDb: prefs.vadThresholdDb, hangoverMs: prefs.vadHangoverMs },
+        send: (params) => connectionRef.current?.sendRealtimeInput(params),
+        // Only what the mirror actually heard ends up in the recording.
+        onAudioSent: (pcm, sampleRate, at) => recorderRef.current?.addUserAudio(pcm, sampleRate, at),
+        onActivityChange: setUserSpeaking,
+      }) : null;
+
+      const playback = new PlaybackScheduler(outputCtx, {
+        volume: prefs.playbackVolume,
+        playbackRate: prefs.playbackRate,
+        // Recorded as heard, at the speed it was played.
+        onScheduled: (samples, sampleRate, at) => recorderRef.current?.addModelAudio(floatToPcm16(samples), sampleRate, at),
+      });
+      playback.on('speaking-start', () => setModelSpeaking(true));
+      playback.on('speaking-end', () => setModelSpeaking(false));
+      playbackRef.current = playback;
+      modelAnalyserRef.current = playback.analyser;
+
+      const levelSamples = new Float32Array(playback.analyser.fftSize);
+      levelTimerRef.current = setInterval(() => {
+        const onAudioLevels = handlersRef.current.onAudioLevels;
+        if (!onAudioLevels) return;
+        onAudioLevels({
+          user: userAnalyser && analyserLevelDb(userAnalyser, undefined, levelSamples),
+          model: analyserLevelDb(playback.analyser, undefined, levelSamples),
+        });
+      }, AUDIO_LEVEL_INTERVAL_MS);
+
+      const startMicCapture = async () => {
+        if (!mic || !userAnalyser) return;
+        mic.output.connect(userAnalyser);
+
+        const capture = await createMicCapture(inputAudioCtxRef.current!, mic.output, (pcm) => {
+          inputGateRef.current?.pushFrame(pcm, CAPTURE_SAMPLE_RATE, Date.now() - (pcm.length / CAPTURE_SAMPLE_RATE) * 1000);
+        });
+        // The session may have been stopped while the worklet module was loading.
+        if (micRef.current !== mic) {
+          capture.stop();
+          return;
+        }
+        captureRef.current = capture;
+      };
+
+      const emit = (event: TranscriptEvent) => handlersRef.current.onTranscript?.(event, sessionId);
+
+      const handleMessage = async (message: LiveServerMessage) => {
+        if (message.toolCall?.functionCalls?.length) handlersRef.current.onToolCall?.(message.toolCall.functionCalls, sessionId);
+        if (message.toolCallCancellation?.ids?.length) handlersRef.current.onToolCallCancellation?.(message.toolCallCancellation.ids, sessionId);
+
+        // Handle transcriptions
+        if (message.serverContent?.outputTranscription) {
+          const text = message.serverContent.outputTranscription.text ?? '';
+          outputStartedAtRef.current ??= Date.now();
+          currentOutputRef.current += text;
+          emit({ type: 'partial', speaker: 'model', text, turnText: currentOutputRef.current });
+        } else if (message.serverContent?.inputTranscription) {
+          const text = message.serverContent.inputTranscription.text ?? '';
+          inputStartedAtRef.current ??= Date.now();
+          currentInputRef.current += text;
+          emit({ type: 'partial', speaker: 'user', text, turnText: currentInputRef.current });
+        }
+
+        // Text replies arrive as model turn parts rather than transcriptions
+        if (textReplies) {
+          message.serverContent?.modelTurn?.parts?.forEach(part => {
+            if (!part.text || part.thought) return;
+            outputStartedAtRef.current ??= Date.now();
+            currentOutputRef.current += part.text;
+            emit({ type: 'partial', speaker: 'model', text: part.text, turnText: currentOutputRef.current });
+          });
+        }
+
+        if (message.serverContent?.turnComplete) {
+          emit({ type: 'turn-complete', messages: takePendingTurn(sessionId) });
+        }
+
+        // Handle audio
+        const base64Audio = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
+        if (base64Audio) {
+          const pcmBytes = decodeBase64(base64Audio);
+          const buffer = await decodeAudioData(pcmBytes, outputCtx, 24000, 1);
+          // The session may have ended while the chunk was decoding.
+          if (playbackRef.current === playback) {
+            const playsAt = playback.enqueue(buffer);
+            outputStartedAtRef.current = Math.min(outputStartedAtRef.current ?? playsAt, playsAt);
+          }
+        }
+
+        if (message.serverContent?.interrupted) {
+          recorderRef.current?.truncateModelAudio(Date.now());
+          playback.interrupt();
+          emit({ type: 'interrupted' });
+        }
+      };
+
+      const transcription = language ? { languageCodes: [language.locale] } : {};
+      connectionRef.current = openManagedSession({
+        transport,
+        model: textReplies ? LIVE_MODEL_TEXT : LIVE_MODEL_AUDIO,
+        config: {
+          responseModalities: [textReplies ? Modality.TEXT : Modality.AUDIO],
+          ...(textReplies ? {} : {
+            speechConfig: {
+              voiceConfig: { prebuiltVoiceConfig: { voiceName } },
+              ...(language?.speechCode ? { languageCode: language.speechCode } : {}),
+            },
+            outputAudioTranscription: transcription,
+          }),
+          systemInstruction,
+          ...(functionDeclarations.length ? { tools: [{ functionDeclarations }] } : {}),
+          // The input gate signals activity itself, so the server's detection is turned off.
+          ...(mic ? { inputAudioTranscription: transcription, realtimeInputConfig: { automaticActivityDetection: { disabled: true } } } : {}),
+        },
+        onStatus: (status) => send({ type: 'status', sessionId, status }),
+        onOpen: ({ reconnect, resumed }) => {
+          if (!isCurrent(sessionId)) return;
+          // The screen gets to send its opening or replay history before any new audio goes out.
+          handlersRef.current.onOpen?.({ sessionId, reconnect, resumed });
+          if (reconnect) inputGateRef.current?.resume();
+          else startMicCapture().catch((err) => {
+            // A worklet that fails to load after the session ended has nothing left to report to.
+            if (!isCurrent(sessionId)) return;
+            const { message } = classifyError(err);
+            end({ type: 'fail', sessionId, message });
+            handlersRef.current.onError?.(message, true);
+          });
+        },
+        onMessage: handleMessage,
+        onFatal: (err) => {
+          end({ type: 'fail', sessionId, message: err.message });
+          handlersRef.current.onError?.(err.message, true);
+        },
+      });
+      return sessionChannel;
+    } catch (err) {
+      const { message } = classifyError(err);
+      end({ type: 'fail', sessionId, message });
+      handlersRef.current.onError?.(message, true);
+      return null;
+    }
+  }, [send, end, takePendingTurn]);
+
+  const canStart = useCallback(() => canStartSession(machineRef.current), []);
+
+  const stop = useCallback(() => {
+    const { sessionId } = machineRef.current;
+    if (sessionId) end({ type: 'stop', sessionId });
+  }, [end]);
+
+  const sendText = useCallback((text: string): Message | null => {
+    const { sessionId } = machineRef.current;
+    const connection = connectionRef.current;
+    if (!sessionId || !connection) return null;
+    // With the input gate driving activity, realtime text would never close a turn; send it as a complete client turn instead.
+    if (inputGateRef.current) connection.sendClientContent({ turns: [{ role: 'user', parts: [{ text }] }], turnComplete: true });
+    else connection.sendRealtimeInput({ text });
+    return { id: crypto.randomUUID(), sessionId, role: 'user', text, timestamp: Date.now() };
+  }, []);
+
+  const sendClientContent = useCallback((params: LiveSendClientContentParameters) => {
+    connectionRef.current?.sendClientContent(params);
+  }, []);
+
+  const sendToolResponse = useCallback((params: LiveSendToolResponseParameters) => {
+    connectionRef.current?.sendToolResponse(params);
+  }, []);
+
+  const toggleMute = useCallback(() => {
+    const gate = inputGateRef.current;
+    if (!gate) return;
+    gate.setMuted(!gate.muted);
+    setMuted(gate.muted);
+  }, []);
+
+  const setTalking = useCallback((next: boolean) => {
+    inputGateRef.current?.setTalking(next);
+    setTalkingState(next);
+  }, []);
+
+  const togglePlaybackPause = useCallback(() => {
+    const playback = playbackRef.current;
+    if (!playback) return;
+    if (playback.paused) playback.resume();
+    else playback.pause();
+    setPlaybackPaused(playback.paused);
+  }, []);
+
+  const setVolume = useCallback((volume: number) => playbackRef.current?.setVolume(volume), []);
+  const setPlaybackRate = useCallback((rate: number) => playbackRef.current?.setPlaybackRate(rate), []);
+
+  // Device and processing changes apply to a running session without restarting it.
+  useEffect(() => {
+    micRef.current?.update(prefs);
+  }, [prefs.inputDeviceId, prefs.echoCancellation, prefs.noiseSuppression, prefs.autoGainControl, prefs.inputGain]);
+
+  // Follow the chosen speaker as it is unplugged and plugged back in.
+  useEffect(() => {
+    const route = () => {
+      if (outputAudioCtxRef.current) routeOutput(outputAudioCtxRef.current, prefs.outputDeviceId);
+    };
+    route();
+    return watchAudioDevices(route);
+  }, [prefs.outputDeviceId]);
+
+  useEffect(() => stop, [stop]);
+
+  return {
+    state: machine.state,
+    sessionId: machine.sessionId,
+    error: machine.error,
+    channel,
+    muted,
+    talking,
+    userSpeaking,
+    modelSpeaking,
+    playbackPaused,
+    recording,
+    userAnalyser: userAnalyserRef.current,
+    modelAnalyser: modelAnalyserRef.current,
+    canStart,
+    start,
+    stop,
+    sendText,
+    sendClientContent,
+    sendToolResponse,
+    toggleMute,
+    setTalking,
+    togglePlaybackPause,
+    setVolume,
+    setPlaybackRate,
+  };
+}
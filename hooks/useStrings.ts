@@ -0,0 +1,10 @@
+import { useSyncExternalStore } from 'react';
+import { LocaleBundle } from '../data/locales/en';
+import { onLanguageChange, strings } from '../utils/i18n';
+
+/**
+ * The interface strings for the current language, re-rendering when it changes.
+ */
+export function useStrings(): LocaleBundle {
+  return useSyncExternalStore(onLanguageChange, strings);
+}
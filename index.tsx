@@ -1,16 +1,19 @@
 
 import React from 'react';
 import ReactDOM from 'react-dom/client';
-import App from './App';
+import VaultGate from './components/VaultGate';
+import { registerServiceWorker } from './utils/pwa';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+registerServiceWorker();
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    <VaultGate />
   </React.StrictMode>
 );
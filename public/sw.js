@@ -0,0 +1,105 @@
+// Keeps the app shell available offline so the journal, insights and personas
+// can be read without a network, and brings the app forward when a reminder
+// notification is clicked. Nothing the person writes passes through here: it
+// all lives in the page's own storage.
+
+const CACHE = 'egomirror-shell-v1';
+const SHELL = ['/', '/manifest.webmanifest', '/icon.svg', '/icon-maskable.svg'];
+
+// Styles, fonts and modules the page loads from elsewhere; without them the shell is unusable.
+const CDN_HOSTS = ['cdn.tailwindcss.com', 'fonts.googleapis.com', 'fonts.gstatic.com', 'esm.sh'];
+
+// Built assets have hashed names, so they are read off the page rather than listed.
+async function shellAssets() {
+  const response = await fetch('/', { cache: 'no-cache' });
+  const html = await response.clone().text();
+  const assets = [...html.matchAll(/(?:src|href)="(\/assets\/[^"]+)"/g)].map(m => m[1]);
+  return { response, assets };
+}
+
+self.addEventListener('install', (event) => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(CACHE);
+    const { response, assets } = await shellAssets();
+    await cache.put('/', response);
+    await cache.addAll([...SHELL.slice(1), ...assets]);
+    // An opaque response, which `addAll` would refuse; the shell still installs if the CDN is down.
+    const tailwind = new Request('https://cdn.tailwindcss.com', { mode: 'no-cors' });
+    await fetch(tailwind).then(response => cache.put(tailwind, response)).catch(() => undefined);
+    await self.skipWaiting();
+  })());
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(names.filter(name => name.startsWith('egomirror-') && name !== CACHE).map(name => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+// Answers from the cache at once and refreshes it in the background.
+async function staleWhileRevalidate(event) {
+  const cache = await caches.open(CACHE);
+  const cached = await cache.match(event.request);
+  const refresh = fetch(event.request).then((response) => {
+    if (response.ok || response.type === 'opaque') cache.put(event.request, response.clone());
+    return response;
+  });
+  if (cached) {
+    event.waitUntil(refresh.catch(() => undefined));
+    return cached;
+  }
+  return refresh;
+}
+
+// Pages come from the network when there is one, so a new deploy shows up on the next load.
+async function networkFirstPage(request) {
+  const cache = await caches.open(CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put('/', response.clone());
+    return response;
+  } catch (err) {
+    const cached = await cache.match('/');
+    if (cached) return cached;
+    throw err;
+  }
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate' && url.origin === self.location.origin) {
+    event.respondWith(networkFirstPage(request));
+    return;
+  }
+  // The key-holding proxy and its health check must never be answered from a cache.
+  if (url.origin === self.location.origin && !url.pathname.startsWith('/api/') && url.pathname !== '/healthz') {
+    event.respondWith(staleWhileRevalidate(event));
+    return;
+  }
+  if (CDN_HOSTS.includes(url.hostname)) {
+    event.respondWith(staleWhileRevalidate(event));
+  }
+});
+
+// Reminder notifications carry the address to open. An open window is reused and
+// told which reminder it was, so it can start the session without reloading.
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url || '/', self.location.origin);
+  const reminderId = url.searchParams.get('reminder');
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    const existing = windows.find(client => new URL(client.url).origin === self.location.origin);
+    if (existing) {
+      if (reminderId) existing.postMessage({ type: 'open-reminder', reminderId });
+      await existing.focus();
+      return;
+    }
+    await self.clients.openWindow(url.href);
+  })());
+});
@@ -0,0 +1,23 @@
+import { createProxyServer, DEFAULT_UPSTREAM } from './proxy.ts';
+
+const apiKey = process.env.GEMINI_API_KEY;
+if (!apiKey) {
+  console.error('Set GEMINI_API_KEY before starting the proxy.');
+  process.exit(1);
+}
+
+const port = Number(process.env.PROXY_PORT || 8787);
+const upstream = process.env.PROXY_UPSTREAM || DEFAULT_UPSTREAM;
+const number = (value: string | undefined) => value ? Number(value) : undefined;
+
+createProxyServer({
+  apiKey,
+  upstream,
+  allowedOrigins: (process.env.PROXY_ALLOWED_ORIGINS || 'http://localhost:3000').split(',').map(o => o.trim()).filter(Boolean),
+  tokensPerMinute: number(process.env.PROXY_TOKENS_PER_MINUTE),
+  requestsPerMinute: number(process.env.PROXY_REQUESTS_PER_MINUTE),
+  sessionMinutes: number(process.env.PROXY_SESSION_MINUTES),
+  trustForwardedFor: process.env.PROXY_TRUST_FORWARDED_FOR === '1',
+}).listen(port, () => {
+  console.log(`EgoMirror proxy on http://localhost:${port}, forwarding to ${upstream}`);
+});
@@ -0,0 +1,97 @@
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createProxyServer } from './proxy.ts';
+import { createStubUpstream, type StubUpstream } from './stubUpstream.ts';
+
+const API_KEY = 'stub-key';
+const ORIGIN = 'http://localhost:3000';
+
+const listen = (server: Server) => new Promise<string>((resolve) => {
+  server.listen(0, '127.0.0.1', () => resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}`));
+});
+
+const close = (server: Server) => new Promise<void>((resolve) => {
+  server.closeAllConnections();
+  server.close(() => resolve());
+});
+
+describe('createProxyServer', () => {
+  let stub: StubUpstream;
+  let proxy: Server;
+  let url: string;
+
+  beforeEach(async () => {
+    stub = createStubUpstream(API_KEY);
+    const upstream = await listen(stub.server);
+    proxy = createProxyServer({ apiKey: API_KEY, upstream, allowedOrigins: [ORIGIN], tokensPerMinute: 2 });
+    url = await listen(proxy);
+  });
+
+  afterEach(async () => {
+    await close(proxy);
+    await close(stub.server);
+  });
+
+  const post = (path: string, body = '{}', origin = ORIGIN) =>
+    fetch(`${url}${path}`, { method: 'POST', headers: { origin, 'content-type': 'application/json' }, body });
+
+  it('issues single-use Live tokens minted with the server key', async () => {
+    const response = await post('/api/token');
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('access-control-allow-origin')).toBe(ORIGIN);
+    expect(response.headers.get('cache-control')).toBe('no-store');
+    const { token, expiresAt } = await response.json();
+    expect(token).toBe('auth_tokens/stub-1');
+    expect(Date.parse(expiresAt)).toBeGreaterThan(Date.now());
+
+    const minted = stub.requests.find(r => r.path === '/v1alpha/auth_tokens');
+    expect(minted?.apiKey).toBe(API_KEY);
+    expect(JSON.parse(minted!.body)).toMatchObject({ uses: 1 });
+  });
+
+  it('rate limits token requests with a retry-after hint', async () => {
+    expect((await post('/api/token')).status).toBe(200);
+    expect((await post('/api/token')).status).toBe(200);
+
+    const limited = await post('/api/token');
+    expect(limited.status).toBe(429);
+    expect(Number(limited.headers.get('retry-after'))).toBeGreaterThan(0);
+    expect(await limited.json()).toEqual({ error: 'Rate limit exceeded. Try again shortly.' });
+    expect(stub.requests.filter(r => r.path === '/v1alpha/auth_tokens')).toHaveLength(2);
+  });
+
+  it('relays summary generation with the key added on the way out', async () => {
+    const body = JSON.stringify({ contents: [{ role: 'user', parts: [{ text: 'Summarize this.' }] }] });
+    const response = await post('/v1beta/models/gemini-2.5-flash:generateContent', body);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('access-control-allow-origin')).toBe(ORIGIN);
+    const reply = await response.json();
+    expect(JSON.parse(reply.candidates[0].content.parts[0].text)).toMatchObject({ summary: 'A stub summary.' });
+
+    expect(stub.requests).toEqual([{
+      method: 'POST',
+      path: '/v1beta/models/gemini-2.5-flash:generateContent',
+      apiKey: API_KEY,
+      body,
+    }]);
+  });
+
+  it('does not relay paths outside generation', async () => {
+    const response = await post('/v1beta/models/gemini-2.5-flash:streamGenerateContent');
+
+    expect(response.status).toBe(404);
+    expect(stub.requests).toHaveLength(0);
+  });
+
+  it('refuses origins that are not allowed before doing any work', async () => {
+    const response = await post('/api/token', '{}', 'https://elsewhere.example');
+
+    expect(response.status).toBe(403);
+    expect(response.headers.get('access-control-allow-origin')).toBeNull();
+    expect(await response.json()).toEqual({ error: 'Origin not allowed.' });
+    expect(stub.requests).toHaveLength(0);
+  });
+});
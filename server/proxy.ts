@@ -0,0 +1,170 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { GoogleGenAI } from '@google/genai';
+import { createRateLimiter, type RateLimiter } from './rateLimit.ts';
+
+export const DEFAULT_UPSTREAM = 'https://generativelanguage.googleapis.com';
+
+export interface ProxyOptions {
+  apiKey: string;
+  /** Base URL of the Gemini API; point it at a stub upstream for testing. */
+  upstream?: string;
+  /** Browser origins allowed to call the proxy; `*` allows any. */
+  allowedOrigins: string[];
+  /** Live session tokens each client may request per minute. */
+  tokensPerMinute?: number;
+  /** Relayed REST requests each client may make per minute. */
+  requestsPerMinute?: number;
+  /** How long a Live session opened with a token may run. */
+  sessionMinutes?: number;
+  /** Identify clients by the first `X-Forwarded-For` hop; only enable behind a proxy you control. */
+  trustForwardedFor?: boolean;
+  maxBodyBytes?: number;
+}
+
+// Only non-streaming generation is relayed; anything else the app doesn't use stays closed.
+const RELAY_PATH = /^\/v1beta\/models\/[\w.-]+:generateContent$/;
+
+// A token only has to outlive the WebSocket handshake.
+const NEW_SESSION_WINDOW_MS = 60000;
+
+// Plain fields rather than parameter properties, which Node's type stripping can't run.
+class HttpError extends Error {
+  status: number;
+  retryAfterMs?: number;
+
+  constructor(status: number, message: string, retryAfterMs?: number) {
+    super(message);
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'content-type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const readBody = (req: IncomingMessage, limit: number) => new Promise<string>((resolve, reject) => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  req.on('data', (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > limit) {
+      reject(new HttpError(413, 'Request body too large.'));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+  req.on('error', reject);
+});
+
+/**
+ * An HTTP server that keeps the Gemini API key to itself. Browsers get short-lived,
+ * single-use Live tokens from `POST /api/token`, and REST generation calls are relayed
+ * with the key added on the way out. Every client is rate limited separately.
+ */
+export function createProxyServer(options: ProxyOptions): Server {
+  const {
+    apiKey,
+    upstream = DEFAULT_UPSTREAM,
+    allowedOrigins,
+    tokensPerMinute = 6,
+    requestsPerMinute = 30,
+    sessionMinutes = 30,
+    trustForwardedFor = false,
+    maxBodyBytes = 2 * 1024 * 1024,
+  } = options;
+  const base = upstream.replace(/\/+$/, '');
+  const tokenLimiter = createRateLimiter({ perMinute: tokensPerMinute });
+  const relayLimiter = createRateLimiter({ perMinute: requestsPerMinute });
+  const ai = new GoogleGenAI({ apiKey, httpOptions: { baseUrl: base, apiVersion: 'v1alpha' } });
+
+  const clientId = (req: IncomingMessage) => {
+    const forwarded = req.headers['x-forwarded-for'];
+    const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0].trim();
+    return (trustForwardedFor && first) || req.socket.remoteAddress || 'unknown';
+  };
+
+  const corsHeaders = (req: IncomingMessage): Record<string, string> | null => {
+    const origin = req.headers.origin;
+    if (!origin) return allowedOrigins.includes('*') ? {} : null;
+    if (!allowedOrigins.includes('*') && !allowedOrigins.includes(origin)) return null;
+    return {
+      'access-control-allow-origin': origin,
+      'access-control-allow-methods': 'GET, POST, OPTIONS',
+      'access-control-allow-headers': 'content-type, x-goog-api-key, x-goog-api-client',
+      'access-control-max-age': '600',
+      vary: 'origin',
+    };
+  };
+
+  const limit = (limiter: RateLimiter, req: IncomingMessage) => {
+    const result = limiter.take(clientId(req));
+    if (!result.allowed) {
+      throw new HttpError(429, 'Rate limit exceeded. Try again shortly.', result.retryAfterMs);
+    }
+  };
+
+  const issueToken = async () => {
+    const now = Date.now();
+    const expiresAt = new Date(now + sessionMinutes * 60000).toISOString();
+    const token = await ai.authTokens.create({
+      config: {
+        uses: 1,
+        expireTime: expiresAt,
+        newSessionExpireTime: new Date(now + NEW_SESSION_WINDOW_MS).toISOString(),
+      },
+    });
+    if (!token.name) throw new HttpError(502, 'The upstream did not return a token.');
+    return { token: token.name, expiresAt };
+  };
+
+  const relay = async (req: IncomingMessage, res: ServerResponse, path: string, cors: Record<string, string>) => {
+    const body = await readBody(req, maxBodyBytes);
+    const response = await fetch(`${base}${path}`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', 'x-goog-api-key': apiKey },
+      body,
+    });
+    res.writeHead(response.status, { ...cors, 'content-type': response.headers.get('content-type') ?? 'application/json' });
+    res.end(await response.text());
+  };
+
+  return createServer(async (req, res) => {
+    const cors = corsHeaders(req);
+    if (!cors) {
+      sendJson(res, 403, { error: 'Origin not allowed.' });
+      return;
+    }
+    const path = new URL(req.url ?? '/', 'http://proxy').pathname;
+
+    try {
+      if (req.method === 'OPTIONS') {
+        res.writeHead(204, cors);
+        res.end();
+      } else if (req.method === 'GET' && path === '/healthz') {
+        sendJson(res, 200, { ok: true }, cors);
+      } else if (req.method === 'POST' && path === '/api/token') {
+        limit(tokenLimiter, req);
+        sendJson(res, 200, await issueToken(), { ...cors, 'cache-control': 'no-store' });
+      } else if (req.method === 'POST' && RELAY_PATH.test(path)) {
+        limit(relayLimiter, req);
+        await relay(req, res, path, cors);
+      } else {
+        sendJson(res, 404, { error: 'Not found.' }, cors);
+      }
+    } catch (err) {
+      if (err instanceof HttpError) {
+        const headers = err.retryAfterMs ? { ...cors, 'retry-after': String(Math.ceil(err.retryAfterMs / 1000)) } : cors;
+        sendJson(res, err.status, { error: err.message }, headers);
+        return;
+      }
+      // Upstream errors can echo request details, so only a generic message goes back.
+      console.error('Proxy request failed', err);
+      if (!res.headersSent) sendJson(res, 502, { error: 'The upstream request failed.' }, cors);
+      else res.end();
+    }
+  });
+}
@@ -0,0 +1,59 @@
+export interface RateLimitResult {
+  allowed: boolean;
+  /** How long until the next request would be allowed; 0 when this one was. */
+  retryAfterMs: number;
+}
+
+export interface RateLimiter {
+  take: (clientId: string) => RateLimitResult;
+}
+
+export interface RateLimiterOptions {
+  perMinute: number;
+  /** Requests a quiet client may make at once. Defaults to `perMinute`. */
+  burst?: number;
+  now?: () => number;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+// Buckets that have refilled completely carry no information and are swept once the map grows past this.
+const SWEEP_THRESHOLD = 10000;
+
+/**
+ * A token bucket per client: each request takes one token, and tokens drip back at `perMinute`.
+ */
+export function createRateLimiter({ perMinute, burst = perMinute, now = Date.now }: RateLimiterOptions): RateLimiter {
+  const buckets = new Map<string, Bucket>();
+  const refillPerMs = perMinute / 60000;
+
+  const refill = (bucket: Bucket, at: number) => {
+    bucket.tokens = Math.min(burst, bucket.tokens + (at - bucket.updatedAt) * refillPerMs);
+    bucket.updatedAt = at;
+  };
+
+  const sweep = (at: number) => {
+    for (const [id, bucket] of buckets) {
+      refill(bucket, at);
+      if (bucket.tokens >= burst) buckets.delete(id);
+    }
+  };
+
+  return {
+    take: (clientId) => {
+      const at = now();
+      if (buckets.size > SWEEP_THRESHOLD) sweep(at);
+      const bucket = buckets.get(clientId) ?? { tokens: burst, updatedAt: at };
+      refill(bucket, at);
+      buckets.set(clientId, bucket);
+      if (bucket.tokens >= 1) {
+        bucket.tokens -= 1;
+        return { allowed: true, retryAfterMs: 0 };
+      }
+      return { allowed: false, retryAfterMs: Math.ceil((1 - bucket.tokens) / refillPerMs) };
+    },
+  };
+}
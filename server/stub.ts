@@ -0,0 +1,10 @@
+import { createStubUpstream } from './stubUpstream.ts';
+
+const port = Number(process.env.STUB_PORT || 8788);
+const apiKey = process.env.GEMINI_API_KEY || 'stub-key';
+
+createStubUpstream(apiKey, request => {
+  console.log(`${request.method} ${request.path} key=${request.apiKey === apiKey ? 'ok' : 'wrong'}`);
+}).server.listen(port, () => {
+  console.log(`Stub Gemini upstream on http://localhost:${port}, expecting key "${apiKey}"`);
+});
@@ -0,0 +1,61 @@
+import { createServer, Server } from 'node:http';
+
+export interface StubRequest {
+  method: string;
+  path: string;
+  apiKey: string | null;
+  body: string;
+}
+
+export interface StubUpstream {
+  server: Server;
+  /** Every request received, oldest first, so tests can check what the proxy sent on. */
+  requests: StubRequest[];
+}
+
+/**
+ * Stands in for the Gemini API when testing the proxy. It mints fake ephemeral
+ * tokens and answers generation with a fixed reply, rejecting anything not carrying `apiKey`.
+ */
+export function createStubUpstream(apiKey: string, onRequest?: (request: StubRequest) => void): StubUpstream {
+  const requests: StubRequest[] = [];
+  let issued = 0;
+
+  const server = createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => {
+      const path = new URL(req.url ?? '/', 'http://stub').pathname;
+      const key = req.headers['x-goog-api-key'];
+      const request: StubRequest = {
+        method: req.method ?? 'GET',
+        path,
+        apiKey: typeof key === 'string' ? key : null,
+        body: Buffer.concat(chunks).toString('utf8'),
+      };
+      requests.push(request);
+      onRequest?.(request);
+
+      const reply = (status: number, body: unknown) => {
+        res.writeHead(status, { 'content-type': 'application/json' });
+        res.end(JSON.stringify(body));
+      };
+      if (request.apiKey !== apiKey) {
+        reply(403, { error: { code: 403, message: 'API key not valid.', status: 'PERMISSION_DENIED' } });
+      } else if (request.method === 'POST' && path === '/v1alpha/auth_tokens') {
+        reply(200, { name: `auth_tokens/stub-${++issued}` });
+      } else if (request.method === 'POST' && path.endsWith(':generateContent')) {
+        reply(200, {
+          candidates: [{
+            content: { role: 'model', parts: [{ text: JSON.stringify({ summary: 'A stub summary.', themes: ['testing'], openThreads: [] }) }] },
+            finishReason: 'STOP',
+          }],
+        });
+      } else {
+        reply(404, { error: { code: 404, message: 'Not found.', status: 'NOT_FOUND' } });
+      }
+    });
+  });
+
+  return { server, requests };
+}
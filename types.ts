@@ -1,15 +1,162 @@
-
 export interface Message {
   id: string;
+  sessionId: string;
   role: 'user' | 'model';
   text: string;
   timestamp: number;
+  /** Set when the message records something the mirror did through a tool rather than said. */
+  tool?: ToolUse;
+}
+
+export type ToolName = 'log_mood' | 'start_exercise' | 'find_past_session' | 'schedule_check_in';
+
+/** `ask` confirms each call with the person before it runs. */
+export type ToolPermission = 'always' | 'ask' | 'never';
+
+export interface ToolUse {
+  name: ToolName;
+  status: 'done' | 'declined' | 'failed';
 }
 
+export type VoiceName = 'Zephyr' | 'Puck' | 'Charon' | 'Kore' | 'Fenrir';
+
+export type VisualizerMode = 'rays' | 'waveform' | 'orb';
+
+export type CaptionSize = 'small' | 'medium' | 'large';
+
+/** `aura` derives the visualizer colours from the persona's avatar colour. */
+export type VisualizerThemeId = 'aura' | 'dusk' | 'forest' | 'ocean' | 'ember' | 'moon';
+
 export interface PersonaConfig {
+  id: string;
   name: string;
   instruction: string;
-  voiceName: 'Zephyr' | 'Puck' | 'Charon' | 'Kore' | 'Fenrir';
+  voiceName: VoiceName;
+  /** Hex colour used for the persona's avatar and accents. */
+  avatarColor: string;
+  visualTheme: VisualizerThemeId;
+  starterPrompts: string[];
+  /** Summarize sessions with this persona and bring them into later ones. */
+  rememberMe: boolean;
+}
+
+export interface PersonaLibrary {
+  activeId: string;
+  personas: PersonaConfig[];
+}
+
+export type SessionState = 'disconnected' | 'connecting' | 'connected' | 'reconnecting' | 'error';
+
+export interface SessionRecord {
+  id: string;
+  startedAt: number;
+  endedAt?: number;
+  personaId?: string;
+  personaName: string;
+  messages: Message[];
+  /** Set when a mixed WAV recording of the session is stored alongside it. */
+  hasRecording?: boolean;
+  /** The starter prompt the session was opened with, if any. */
+  starterPrompt?: string;
+  /** The guided exercise the session was opened for, if any. */
+  exerciseId?: string;
+  checkInBefore?: MoodCheckIn;
+  checkInAfter?: MoodCheckIn;
 }
 
-export type SessionState = 'disconnected' | 'connecting' | 'connected' | 'error';
+/** What the mirror keeps from a past session, written when the session ends. */
+export interface SessionMemory {
+  id: string;
+  sessionId: string;
+  personaId?: string;
+  personaName: string;
+  createdAt: number;
+  summary: string;
+  themes: string[];
+  /** Things left unresolved that the mirror may gently return to. */
+  openThreads: string[];
+  /** Whether this memory may be shared with future sessions. */
+  included: boolean;
+}
+
+export interface MoodCheckIn {
+  /** 1 (heavy) to 5 (bright). */
+  mood: number;
+  /** 1 (drained) to 5 (energized). */
+  energy: number;
+  tags: string[];
+  at: number;
+}
+
+export interface SessionRecording {
+  sessionId: string;
+  /** Wall-clock time of the first sample, used to align playback with `Message.timestamp`. */
+  startedAt: number;
+  durationMs: number;
+  blob: Blob;
+}
+
+export interface SessionQuery {
+  text?: string;
+  from?: number;
+  to?: number;
+}
+
+/** Languages the interface is translated into and the mirror can be asked to speak. */
+export type LanguageCode = 'en' | 'es' | 'fr' | 'de' | 'ar' | 'he';
+
+/** `vad` streams whenever speech is detected; `push-to-talk` only while the talk key or button is held. */
+export type InputMode = 'vad' | 'push-to-talk';
+
+/** A reminder the person set up themselves, repeating every day at a local time. */
+export interface DailyReminder {
+  id: string;
+  /** Title of the notification, e.g. "Evening check-in". */
+  label: string;
+  /** Local time as `HH:MM`. */
+  time: string;
+  /** Sent as the opening line when the reminder is opened; empty just starts a session. */
+  starterPrompt: string;
+  enabled: boolean;
+}
+
+export interface AppPreferences {
+  /** Language of the interface and of the conversation; null follows the browser. */
+  language: LanguageCode | null;
+  /** Ask the model to answer in text only, without synthesized speech. */
+  textReplies: boolean;
+  /** Add calming safety guidance to the session after distress is detected. */
+  safetyAddendum: boolean;
+  /** Region code for support resources; null follows the browser locale. */
+  supportRegion: string | null;
+  /** Keep a local WAV recording of both sides of each session. */
+  recordAudio: boolean;
+  /** Offer a quick mood check-in before and after each session. */
+  moodCheckIns: boolean;
+  inputMode: InputMode;
+  /** Speech detection threshold in dBFS; lower is more sensitive. */
+  vadThresholdDb: number;
+  /** How long a pause may last before the mirror treats the turn as finished. */
+  vadHangoverMs: number;
+  /** `KeyboardEvent.code` of the push-to-talk key. */
+  pushToTalkKey: string;
+  /** `MediaDeviceInfo.deviceId` of the microphone; null follows the system default. */
+  inputDeviceId: string | null;
+  /** Where the mirror's voice plays, where the browser can choose; null follows the system default. */
+  outputDeviceId: string | null;
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+  autoGainControl: boolean;
+  /** Gain applied to the microphone before anything listens to it; 1 leaves it unchanged. */
+  inputGain: number;
+  /** Volume of the mirror's voice, 0 to 1. */
+  playbackVolume: number;
+  /** Speed of the mirror's voice; 1 is as generated. */
+  playbackRate: number;
+  visualizerMode: VisualizerMode;
+  /** Stream what both voices say as captions on the main view. */
+  showCaptions: boolean;
+  captionSize: CaptionSize;
+  toolPermissions: Record<ToolName, ToolPermission>;
+  dailyReminders: DailyReminder[];
+}
@@ -0,0 +1,65 @@
+import { CAPTURE_FRAME_SIZE, CAPTURE_SAMPLE_RATE } from '../capture';
+
+/**
+ * Deterministic stand-ins for microphone recordings, cut into frames of the size
+ * and rate the capture worklet delivers. Each segment is normalised to an exact
+ * RMS level, so tests can state what the detector should hear in dBFS rather
+ * than in sample values.
+ */
+
+export const SAMPLE_RATE = CAPTURE_SAMPLE_RATE;
+const FRAME_SAMPLES = CAPTURE_FRAME_SIZE;
+/** 64 ms: longer than a click, and a large step for timing. */
+export const FRAME_MS = (FRAME_SAMPLES / SAMPLE_RATE) * 1000;
+
+export interface Segment {
+  /** Room noise is broadband; speech is a voiced tone with a syllable-rate wobble. */
+  kind: 'silence' | 'noise' | 'speech';
+  ms: number;
+  /** Level in dBFS at the start of the segment. Ignored for silence. */
+  db?: number;
+  /** Level at the end, for noise that swells or fades; defaults to `db`. */
+  toDb?: number;
+}
+
+// A small LCG keeps the noise identical from run to run.
+const random = (seed: number) => () => {
+  seed = (seed * 1664525 + 1013904223) >>> 0;
+  return seed / 0x100000000;
+};
+
+/**
+ * Builds a recording from segments and returns it as frames, in order.
+ */
+export function recording(segments: Segment[], seed = 1): Int16Array[] {
+  const next = random(seed);
+  const frames: Int16Array[] = [];
+  let sample = 0;
+
+  for (const { kind, ms, db = -100, toDb = db } of segments) {
+    const count = Math.round(ms / FRAME_MS);
+    for (let f = 0; f < count; f++) {
+      const frame = new Float64Array(FRAME_SAMPLES);
+      for (let i = 0; i < FRAME_SAMPLES; i++, sample++) {
+        const t = sample / SAMPLE_RATE;
+        if (kind === 'noise') frame[i] = next() * 2 - 1;
+        else if (kind === 'speech') {
+          const voiced = Math.sin(2 * Math.PI * 140 * t) + 0.5 * Math.sin(2 * Math.PI * 280 * t) + 0.25 * Math.sin(2 * Math.PI * 420 * t);
+          frame[i] = voiced * (0.75 + 0.25 * Math.sin(2 * Math.PI * 4 * t)) + 0.05 * (next() * 2 - 1);
+        }
+      }
+      const level = count > 1 ? db + ((toDb - db) * f) / (count - 1) : db;
+      frames.push(kind === 'silence' ? new Int16Array(FRAME_SAMPLES) : atLevel(frame, level));
+    }
+  }
+  return frames;
+}
+
+const atLevel = (frame: Float64Array, db: number) => {
+  const rms = Math.sqrt(frame.reduce((sum, s) => sum + s * s, 0) / frame.length);
+  const gain = (10 ** (db / 20) * 32768) / rms;
+  return Int16Array.from(frame, s => Math.max(-32768, Math.min(32767, Math.round(s * gain))));
+};
+
+/** The frame index at which `ms` of the recording has elapsed. */
+export const frameAt = (ms: number) => Math.round(ms / FRAME_MS);
@@ -12,16 +12,19 @@ export function decodeBase64(base64: string): Uint8Array {
   return bytes;
 }
 
+const BASE64_CHUNK = 0x8000;
+
 /**
  * Encodes a Uint8Array into a base64 string.
+ * Converts in chunks so large buffers avoid both per-byte string concatenation
+ * and the argument limit of `String.fromCharCode.apply`.
  */
 export function encodeBase64(bytes: Uint8Array): string {
-  let binary = '';
-  const len = bytes.byteLength;
-  for (let i = 0; i < len; i++) {
-    binary += String.fromCharCode(bytes[i]);
+  const chunks: string[] = [];
+  for (let i = 0; i < bytes.length; i += BASE64_CHUNK) {
+    chunks.push(String.fromCharCode.apply(null, bytes.subarray(i, i + BASE64_CHUNK) as unknown as number[]));
   }
-  return btoa(binary);
+  return btoa(chunks.join(''));
 }
 
 /**
@@ -48,16 +51,39 @@ export async function decodeAudioData(
 }
 
 /**
- * Converts Float32 audio data to Int16 PCM Blob for the Gemini API.
+ * Converts float samples in [-1, 1] to Int16 PCM, clipping anything outside.
  */
-export function createPcmBlob(data: Float32Array): { data: string; mimeType: string } {
-  const l = data.length;
-  const int16 = new Int16Array(l);
-  for (let i = 0; i < l; i++) {
-    int16[i] = data[i] * 32768;
+export function floatToPcm16(samples: Float32Array): Int16Array {
+  const pcm = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    pcm[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
   }
+  return pcm;
+}
+
+/**
+ * Wraps Int16 PCM in a Blob for the Gemini API, labelled with its real sample rate.
+ */
+export function createPcmBlob(pcm: Int16Array, sampleRate: number): { data: string; mimeType: string } {
   return {
-    data: encodeBase64(new Uint8Array(int16.buffer)),
-    mimeType: 'audio/pcm;rate=16000',
+    data: encodeBase64(new Uint8Array(pcm.buffer, pcm.byteOffset, pcm.byteLength)),
+    mimeType: `audio/pcm;rate=${sampleRate}`,
   };
 }
+
+/**
+ * Current RMS level of an analyser's signal in dBFS, floored at `floorDb`.
+ * Pass a reusable `samples` buffer of `fftSize` length when calling every frame.
+ */
+export function analyserLevelDb(
+  analyser: AnalyserNode,
+  floorDb: number = -100,
+  samples: Float32Array = new Float32Array(analyser.fftSize),
+): number {
+  analyser.getFloatTimeDomainData(samples);
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+  const rms = Math.sqrt(sum / samples.length);
+  return rms > 0 ? Math.max(floorDb, 20 * Math.log10(rms)) : floorDb;
+}
@@ -0,0 +1,51 @@
+import { CaptionSize } from '../types';
+
+export type CaptionSpeaker = 'user' | 'model';
+
+export interface CaptionLine {
+  id: string;
+  speaker: CaptionSpeaker;
+  text: string;
+  /** False while transcription is still streaming into the line. */
+  final: boolean;
+  /** The mirror was cut off mid-line. */
+  interrupted?: boolean;
+}
+
+export type CaptionEvent =
+  | { type: 'partial'; speaker: CaptionSpeaker; text: string }
+  | { type: 'turn-complete' }
+  | { type: 'interrupted' }
+  | { type: 'clear' };
+
+/** Older lines scroll away once this many are on screen. */
+export const CAPTION_LINE_LIMIT = 3;
+
+export const CAPTION_SIZES: CaptionSize[] = ['small', 'medium', 'large'];
+
+/**
+ * Folds streaming transcription into caption lines. Each speaker has at most one
+ * open line; a turn boundary closes them all, and an interruption closes only the
+ * mirror's, dropping it entirely if nothing was said yet.
+ */
+export function captionReducer(lines: CaptionLine[], event: CaptionEvent): CaptionLine[] {
+  switch (event.type) {
+    case 'partial': {
+      if (!event.text) return lines;
+      const open = lines.findIndex(l => l.speaker === event.speaker && !l.final);
+      if (open >= 0) {
+        return lines.map((l, i) => i === open ? { ...l, text: l.text + event.text } : l);
+      }
+      const line: CaptionLine = { id: crypto.randomUUID(), speaker: event.speaker, text: event.text.trimStart(), final: false };
+      return [...lines, line].slice(-CAPTION_LINE_LIMIT);
+    }
+    case 'turn-complete':
+      return lines.some(l => !l.final) ? lines.map(l => l.final ? l : { ...l, final: true }) : lines;
+    case 'interrupted':
+      return lines
+        .filter(l => l.final || l.speaker !== 'model' || l.text.trim())
+        .map(l => l.final || l.speaker !== 'model' ? l : { ...l, text: l.text.trimEnd(), final: true, interrupted: true });
+    case 'clear':
+      return lines.length ? [] : lines;
+  }
+}
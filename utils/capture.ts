@@ -0,0 +1,55 @@
+import captureWorkletUrl from './captureWorklet.ts?worker&url';
+import type { CaptureProcessorOptions } from './captureWorklet';
+
+export const CAPTURE_SAMPLE_RATE = 16000;
+export const CAPTURE_FRAME_SIZE = 1024;
+
+export interface MicCapture {
+  node: AudioWorkletNode;
+  sampleRate: number;
+  stop: () => void;
+}
+
+const loadedContexts = new WeakSet<BaseAudioContext>();
+
+/**
+ * Registers the capture processor on a context. Safe to call repeatedly.
+ */
+async function ensureWorklet(ctx: BaseAudioContext): Promise<void> {
+  if (loadedContexts.has(ctx)) return;
+  await ctx.audioWorklet.addModule(captureWorkletUrl);
+  loadedContexts.add(ctx);
+}
+
+/**
+ * Streams a source node through the capture worklet, calling `onFrame` with
+ * fixed-size 16-bit PCM frames resampled to `CAPTURE_SAMPLE_RATE`, whatever
+ * rate the hardware actually runs at.
+ */
+export async function createMicCapture(
+  ctx: AudioContext,
+  source: AudioNode,
+  onFrame: (pcm: Int16Array) => void,
+  frameSize: number = CAPTURE_FRAME_SIZE,
+): Promise<MicCapture> {
+  await ensureWorklet(ctx);
+  const processorOptions: CaptureProcessorOptions = { targetRate: CAPTURE_SAMPLE_RATE, frameSize };
+  const node = new AudioWorkletNode(ctx, 'pcm-capture', {
+    numberOfInputs: 1,
+    numberOfOutputs: 0,
+    channelCount: 1,
+    channelCountMode: 'explicit',
+    processorOptions,
+  });
+  node.port.onmessage = (e: MessageEvent<Int16Array>) => onFrame(e.data);
+  source.connect(node);
+
+  return {
+    node,
+    sampleRate: CAPTURE_SAMPLE_RATE,
+    stop: () => {
+      node.port.onmessage = null;
+      try { source.disconnect(node); } catch {}
+    },
+  };
+}
@@ -0,0 +1,74 @@
+/**
+ * AudioWorklet processor that turns microphone input at the hardware sample rate
+ * into fixed-size, clamped 16-bit PCM frames at the target rate. It runs on the
+ * audio rendering thread and is loaded through `createMicCapture` in `capture.ts`.
+ */
+
+declare const sampleRate: number;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+  constructor(options?: { processorOptions?: CaptureProcessorOptions });
+}
+declare function registerProcessor(name: string, ctor: typeof AudioWorkletProcessor): void;
+
+export interface CaptureProcessorOptions {
+  targetRate: number;
+  frameSize: number;
+}
+
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  private ratio: number;
+  private frame: Int16Array;
+  private frameIndex = 0;
+  // Fractional read position into the current input block, carried across blocks.
+  private position = 0;
+  private lastSample = 0;
+  // One-pole low-pass state, used to tame aliasing when downsampling.
+  private filtered = 0;
+  private alpha: number;
+
+  constructor(options?: { processorOptions?: CaptureProcessorOptions }) {
+    super(options);
+    const { targetRate = 16000, frameSize = 1024 } = options?.processorOptions || {};
+    this.ratio = sampleRate / targetRate;
+    this.frame = new Int16Array(frameSize);
+    const cutoff = Math.min(targetRate * 0.45, sampleRate / 2);
+    this.alpha = this.ratio > 1 ? 1 - Math.exp((-2 * Math.PI * cutoff) / sampleRate) : 1;
+  }
+
+  process(inputs: Float32Array[][]): boolean {
+    const channel = inputs[0]?.[0];
+    if (!channel || channel.length === 0) return true;
+
+    for (let i = 0; i < channel.length; i++) {
+      this.filtered += this.alpha * (channel[i] - this.filtered);
+      channel[i] = this.filtered;
+    }
+
+    // Linear interpolation between the previous block's tail and this block.
+    while (this.position < channel.length) {
+      const index = Math.floor(this.position);
+      const frac = this.position - index;
+      const a = index === 0 ? this.lastSample : channel[index - 1];
+      const b = channel[index];
+      this.push(a + (b - a) * frac);
+      this.position += this.ratio;
+    }
+    this.position -= channel.length;
+    this.lastSample = channel[channel.length - 1];
+    return true;
+  }
+
+  private push(sample: number) {
+    const s = sample < -1 ? -1 : sample > 1 ? 1 : sample;
+    this.frame[this.frameIndex++] = s < 0 ? s * 0x8000 : s * 0x7fff;
+    if (this.frameIndex === this.frame.length) {
+      const out = this.frame;
+      this.port.postMessage(out, [out.buffer]);
+      this.frame = new Int16Array(out.length);
+      this.frameIndex = 0;
+    }
+  }
+}
+
+registerProcessor('pcm-capture', PcmCaptureProcessor);
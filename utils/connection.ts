@@ -0,0 +1,208 @@
+import {
+  LiveConnectConfig, LiveServerMessage, LiveSendClientContentParameters, LiveSendRealtimeInputParameters, LiveSendToolResponseParameters,
+} from '@google/genai';
+import { LiveConnection, LiveTransport } from './transport';
+import { strings } from './i18n';
+
+export type ConnectionErrorKind = 'network' | 'auth' | 'quota' | 'microphone-denied' | 'microphone-missing' | 'microphone-busy' | 'unknown';
+
+export interface ConnectionError {
+  kind: ConnectionErrorKind;
+  /** Whether trying again (automatically or by the user) can plausibly help. */
+  retryable: boolean;
+  message: string;
+}
+
+const RETRYABLE: Record<ConnectionErrorKind, boolean> = {
+  'network': true,
+  'auth': false,
+  'quota': false,
+  'microphone-denied': false,
+  'microphone-missing': false,
+  'microphone-busy': true,
+  'unknown': true,
+};
+
+/** The message is in the interface language at the time of the failure. */
+export const connectionError = (kind: ConnectionErrorKind): ConnectionError =>
+  ({ kind, retryable: RETRYABLE[kind], message: strings().errors[kind] });
+
+/**
+ * Sorts a failure into something retrying can fix or not. Accepts thrown errors
+ * (including getUserMedia DOMExceptions), WebSocket close events and error events.
+ */
+export function classifyError(err: unknown): ConnectionError {
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) return connectionError('network');
+
+  const name = (err as { name?: string })?.name;
+  if (name === 'NotAllowedError' || name === 'SecurityError') return connectionError('microphone-denied');
+  if (name === 'NotFoundError' || name === 'OverconstrainedError') return connectionError('microphone-missing');
+  if (name === 'NotReadableError' || name === 'AbortError') return connectionError('microphone-busy');
+
+  const code = (err as CloseEvent)?.code;
+  const text = [(err as CloseEvent)?.reason, (err as Error)?.message, (err as ErrorEvent)?.error?.message]
+    .filter(Boolean).join(' ').toLowerCase();
+
+  if (/api key|api_key|permission denied|unauthenticated|unauthorized|401|403/.test(text)) return connectionError('auth');
+  if (/quota|resource_exhausted|rate limit|429/.test(text)) return connectionError('quota');
+  if (code === 1008) return connectionError('auth');
+  if (code === 1006 || code === 1001 || code === 1011 || code === 1013) return connectionError('network');
+  if (/network|failed to fetch|timeout|websocket|socket/.test(text)) return connectionError('network');
+  return connectionError('unknown');
+}
+
+/**
+ * Exponential backoff with full jitter.
+ */
+export function backoffDelay(attempt: number, baseMs = 1000, maxMs = 15000): number {
+  const ceiling = Math.min(maxMs, baseMs * 2 ** attempt);
+  return ceiling / 2 + Math.random() * (ceiling / 2);
+}
+
+export type ConnectionStatus = 'connecting' | 'connected' | 'reconnecting';
+
+export interface ManagedSessionOptions {
+  transport: LiveTransport;
+  model: string;
+  config: LiveConnectConfig;
+  onStatus: (status: ConnectionStatus) => void;
+  /** `resumed` is true when the server restored the previous context from a resumption handle. */
+  onOpen: (info: { reconnect: boolean; resumed: boolean }) => void;
+  onMessage: (message: LiveServerMessage) => void;
+  /** Called once when the session cannot continue; the manager has already given up. */
+  onFatal: (error: ConnectionError) => void;
+  maxRetries?: number;
+}
+
+export interface ManagedSession extends LiveConnection {
+  readonly status: ConnectionStatus;
+}
+
+/**
+ * Keeps a Live session alive across network blips. It tracks the session
+ * resumption handle, reconnects with backoff when the socket drops or the server
+ * sends `goAway`, and queues typed input while disconnected. Realtime audio,
+ * activity signals and tool responses sent while disconnected are dropped, since
+ * they would be stale by the time they arrived; a tool call belongs to the socket
+ * that made it.
+ */
+export function openManagedSession(options: ManagedSessionOptions): ManagedSession {
+  const { transport, model, config, onStatus, onOpen, onMessage, onFatal, maxRetries = 5 } = options;
+  let connection: LiveConnection | null = null;
+  let status: ConnectionStatus = 'connecting';
+  let closedByUser = false;
+  let attempt = 0;
+  let everOpened = false;
+  let resumptionHandle: string | undefined;
+  let lastError: unknown = null;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  const pending: (() => void)[] = [];
+
+  const setStatus = (next: ConnectionStatus) => {
+    status = next;
+    onStatus(next);
+  };
+
+  const fail = (error: ConnectionError) => {
+    if (closedByUser) return;
+    closedByUser = true;
+    connection = null;
+    onFatal(error);
+  };
+
+  const retryOrFail = (cause: unknown) => {
+    if (closedByUser) return;
+    connection = null;
+    const error = classifyError(lastError ?? cause);
+    lastError = null;
+    if (!error.retryable || attempt >= maxRetries) {
+      fail(error);
+      return;
+    }
+    setStatus(everOpened ? 'reconnecting' : 'connecting');
+    retryTimer = setTimeout(connect, backoffDelay(attempt++));
+  };
+
+  const connect = async () => {
+    retryTimer = null;
+    if (closedByUser) return;
+    const handle = resumptionHandle;
+    const isReconnect = everOpened;
+    const sessionConfig: LiveConnectConfig = transport.supportsResumption
+      ? { ...config, sessionResumption: { handle }, contextWindowCompression: { slidingWindow: {} } }
+      : config;
+
+    // A failed attempt may both reject and close; only the first report counts.
+    let dropped = false;
+    const drop = (cause: unknown) => {
+      if (dropped) return;
+      dropped = true;
+      retryOrFail(cause);
+    };
+
+    try {
+      const live = await transport.connect({
+        model,
+        config: sessionConfig,
+        callbacks: {
+          onmessage: (message: LiveServerMessage) => {
+            const update = message.sessionResumptionUpdate;
+            if (update?.resumable && update.newHandle) resumptionHandle = update.newHandle;
+            if (message.goAway) {
+              // The server is about to drop us; reconnect now while the handle is fresh.
+              const old = connection;
+              connection = null;
+              old?.close();
+              return;
+            }
+            onMessage(message);
+          },
+          onerror: (e: ErrorEvent) => {
+            console.error(e);
+            lastError = e;
+          },
+          // Any close we did not ask for, including the one goAway triggers, is treated as a drop.
+          onclose: (e: CloseEvent) => drop(e),
+        },
+      });
+      if (closedByUser) {
+        live.close();
+        return;
+      }
+      connection = live;
+      attempt = 0;
+      everOpened = true;
+      setStatus('connected');
+      onOpen({ reconnect: isReconnect, resumed: isReconnect && !!handle });
+      pending.splice(0).forEach(send => send());
+    } catch (err) {
+      drop(err);
+    }
+  };
+
+  const whenOpen = (send: (live: LiveConnection) => void, queue: boolean) => {
+    if (connection) send(connection);
+    else if (queue && !closedByUser) pending.push(() => connection && send(connection));
+  };
+
+  setStatus('connecting');
+  connect();
+
+  return {
+    get status() { return status; },
+    sendRealtimeInput: (params: LiveSendRealtimeInputParameters) =>
+      whenOpen(live => live.sendRealtimeInput(params), params.text !== undefined),
+    sendClientContent: (params: LiveSendClientContentParameters) =>
+      whenOpen(live => live.sendClientContent(params), true),
+    sendToolResponse: (params: LiveSendToolResponseParameters) =>
+      whenOpen(live => live.sendToolResponse(params), false),
+    close: () => {
+      if (closedByUser) return;
+      closedByUser = true;
+      if (retryTimer) clearTimeout(retryTimer);
+      pending.length = 0;
+      connection?.close();
+      connection = null;
+    },
+  };
+}
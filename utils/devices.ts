@@ -0,0 +1,188 @@
+import { AppPreferences } from '../types';
+import { strings } from './i18n';
+
+export type MicSettings = Pick<AppPreferences, 'inputDeviceId' | 'echoCancellation' | 'noiseSuppression' | 'autoGainControl' | 'inputGain'>;
+
+export interface AudioDevice {
+  id: string;
+  label: string;
+}
+
+export interface AudioDevices {
+  inputs: AudioDevice[];
+  outputs: AudioDevice[];
+}
+
+export interface MicInput {
+  /** After the gain stage. Capture and analysers connect here, so they survive a change of microphone. */
+  readonly output: AudioNode;
+  /** Name of the microphone currently in use. */
+  readonly label: string;
+  /** Applies new settings, reopening the microphone only if the device or its processing changed. */
+  update: (settings: MicSettings) => Promise<void>;
+  stop: () => void;
+}
+
+export interface MicInputOptions {
+  /** Called when the input moved to another microphone by itself, e.g. because one was unplugged. */
+  onSwitch?: (label: string) => void;
+}
+
+// Not yet in TypeScript's DOM types; Chromium only for now.
+type SinkableContext = AudioContext & { setSinkId?: (sinkId: string) => Promise<void> };
+
+// Chromium lists these aliases next to the real devices; a null preference already means "default".
+const ALIAS_IDS = new Set(['default', 'communications']);
+
+/**
+ * Lists microphones and speakers. Browsers hide device names until microphone
+ * access has been granted once, so unnamed devices get numbered labels.
+ */
+export async function listAudioDevices(): Promise<AudioDevices> {
+  if (!navigator.mediaDevices?.enumerateDevices) return { inputs: [], outputs: [] };
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  const pick = (kind: MediaDeviceKind, fallback: string) => devices
+    .filter(d => d.kind === kind && d.deviceId && !ALIAS_IDS.has(d.deviceId))
+    .map((d, i) => ({ id: d.deviceId, label: d.label || `${fallback} ${i + 1}` }));
+  const { microphone, speaker } = strings().audio;
+  return { inputs: pick('audioinput', microphone), outputs: pick('audiooutput', speaker) };
+}
+
+/**
+ * Calls `listener` whenever a device is plugged in or removed. Returns an unsubscribe function.
+ */
+export function watchAudioDevices(listener: () => void): () => void {
+  const devices = navigator.mediaDevices;
+  if (!devices?.addEventListener) return () => {};
+  devices.addEventListener('devicechange', listener);
+  return () => devices.removeEventListener('devicechange', listener);
+}
+
+export const supportsOutputSelection = () =>
+  typeof AudioContext !== 'undefined' && 'setSinkId' in AudioContext.prototype;
+
+/**
+ * Plays a context through `deviceId`, or through the system default when it is
+ * null or not plugged in. Returns false where the browser can't choose.
+ */
+export async function routeOutput(ctx: AudioContext, deviceId: string | null): Promise<boolean> {
+  const sinkable = ctx as SinkableContext;
+  if (!sinkable.setSinkId || ctx.state === 'closed') return false;
+  const { outputs } = await listAudioDevices();
+  try {
+    await sinkable.setSinkId(deviceId && outputs.some(d => d.id === deviceId) ? deviceId : '');
+    return true;
+  } catch (err) {
+    console.warn('Could not change the audio output', err);
+    return false;
+  }
+}
+
+const constraintsFor = (settings: MicSettings, withDevice: boolean): MediaTrackConstraints => ({
+  ...(withDevice && settings.inputDeviceId ? { deviceId: { exact: settings.inputDeviceId } } : {}),
+  echoCancellation: settings.echoCancellation,
+  noiseSuppression: settings.noiseSuppression,
+  autoGainControl: settings.autoGainControl,
+});
+
+/**
+ * Asks for the chosen microphone, falling back to the default one if it has
+ * been unplugged. Anything else, a refused permission included, is thrown as is.
+ */
+async function requestMicrophone(settings: MicSettings): Promise<MediaStream> {
+  try {
+    return await navigator.mediaDevices.getUserMedia({ audio: constraintsFor(settings, true) });
+  } catch (err) {
+    const name = (err as { name?: string })?.name;
+    if (!settings.inputDeviceId || (name !== 'OverconstrainedError' && name !== 'NotFoundError')) throw err;
+    return navigator.mediaDevices.getUserMedia({ audio: constraintsFor(settings, false) });
+  }
+}
+
+const sameProcessing = (a: MicSettings, b: MicSettings) =>
+  a.inputDeviceId === b.inputDeviceId
+  && a.echoCancellation === b.echoCancellation
+  && a.noiseSuppression === b.noiseSuppression
+  && a.autoGainControl === b.autoGainControl;
+
+/**
+ * Opens the microphone behind a gain stage and keeps it pointed at the right
+ * device: if the chosen microphone is unplugged it falls back to the default,
+ * and it moves back when the chosen one returns or the system default changes.
+ */
+export async function openMicInput(ctx: AudioContext, initial: MicSettings, { onSwitch }: MicInputOptions = {}): Promise<MicInput> {
+  let settings = initial;
+  let stream = await requestMicrophone(settings);
+  let source = ctx.createMediaStreamSource(stream);
+  const gain = ctx.createGain();
+  gain.gain.value = settings.inputGain;
+  source.connect(gain);
+  let stopped = false;
+  // Switches run one at a time, so a burst of device events can't open several streams.
+  let queue = Promise.resolve();
+
+  const track = () => stream.getAudioTracks()[0];
+
+  const reopen = async () => {
+    const next = await requestMicrophone(settings);
+    if (stopped) {
+      next.getTracks().forEach(t => t.stop());
+      return;
+    }
+    const previous = { stream, source };
+    stream = next;
+    source = ctx.createMediaStreamSource(next);
+    source.connect(gain);
+    previous.source.disconnect();
+    previous.stream.getTracks().forEach(t => t.stop());
+    track()?.addEventListener('ended', follow);
+  };
+
+  const needsSwitch = async () => {
+    const current = track();
+    if (!current || current.readyState === 'ended') return true;
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    const inputs = devices.filter(d => d.kind === 'audioinput');
+    const { deviceId, groupId } = current.getSettings();
+    if (settings.inputDeviceId) {
+      return deviceId !== settings.inputDeviceId && inputs.some(d => d.deviceId === settings.inputDeviceId);
+    }
+    // Only Chromium exposes the default as its own entry; elsewhere the stream stays put.
+    const systemDefault = inputs.find(d => d.deviceId === 'default');
+    return !!systemDefault && !!groupId && systemDefault.groupId !== groupId;
+  };
+
+  const enqueue = (task: () => Promise<void>) => {
+    queue = queue.then(task).catch(err => console.warn('Could not switch microphones', err));
+    return queue;
+  };
+
+  function follow() {
+    enqueue(async () => {
+      if (stopped || !(await needsSwitch())) return;
+      await reopen();
+      onSwitch?.(track()?.label || strings().audio.defaultMicrophone);
+    });
+  }
+
+  track()?.addEventListener('ended', follow);
+  const unwatch = watchAudioDevices(follow);
+
+  return {
+    output: gain,
+    get label() { return track()?.label ?? ''; },
+    update: (next) => {
+      const reopenNeeded = !sameProcessing(settings, next);
+      settings = next;
+      gain.gain.setTargetAtTime(next.inputGain, ctx.currentTime, 0.02);
+      return reopenNeeded ? enqueue(async () => { if (!stopped) await reopen(); }) : Promise.resolve();
+    },
+    stop: () => {
+      stopped = true;
+      unwatch();
+      track()?.removeEventListener('ended', follow);
+      source.disconnect();
+      stream.getTracks().forEach(t => t.stop());
+    },
+  };
+}
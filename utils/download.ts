@@ -0,0 +1,15 @@
+/**
+ * Saves content as a file through a temporary object URL.
+ */
+export function downloadFile(filename: string, content: string | Blob, mimeType: string): void {
+  const blob = typeof content === 'string' ? new Blob([content], { type: mimeType }) : content;
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
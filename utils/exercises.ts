@@ -0,0 +1,154 @@
+import { Exercise, ExercisePhase } from '../data/exercises';
+import { vaultStorage } from './vault';
+import { strings } from './i18n';
+
+/** Quiet seconds before the first phase, so the person can settle (and the mirror can say hello). */
+export const EXERCISE_LEAD_IN_MS = 4000;
+
+export interface ExerciseStep {
+  phase: ExercisePhase;
+  /** 1-based. */
+  round: number;
+  /** Position in the flattened script, across rounds. */
+  index: number;
+  /** Position of the phase within its round, which is where its text is kept. */
+  phaseIndex: number;
+  startsAtMs: number;
+  endsAtMs: number;
+}
+
+export interface ExerciseProgress {
+  /** Null during the lead-in and once the script has finished. */
+  step: ExerciseStep | null;
+  /** Milliseconds left in the current step, or in the lead-in. */
+  remainingMs: number;
+  /** Share of the whole script completed, 0 to 1. */
+  fraction: number;
+  /** How full the lungs should be, 0 to 1, or null when the current phase isn't a breath. */
+  breath: number | null;
+  done: boolean;
+}
+
+export interface ExerciseLogEntry {
+  id: string;
+  exerciseId: string;
+  startedAt: number;
+  endedAt: number;
+  /** False when the person stopped before the last phase. */
+  completed: boolean;
+  withVoice: boolean;
+}
+
+const EXERCISE_LOG_KEY = 'egomirror_exercise_log_v1';
+const EXERCISE_LOG_LIMIT = 500;
+
+/**
+ * Unrolls the rounds of a script into consecutive steps with absolute offsets.
+ */
+export function exerciseSteps(exercise: Exercise): ExerciseStep[] {
+  const steps: ExerciseStep[] = [];
+  let at = 0;
+  for (let round = 1; round <= exercise.rounds; round++) {
+    for (const [phaseIndex, phase] of exercise.phases.entries()) {
+      const duration = phase.durationSec * 1000;
+      steps.push({ phase, round, index: steps.length, phaseIndex, startsAtMs: at, endsAtMs: at + duration });
+      at += duration;
+    }
+  }
+  return steps;
+}
+
+export function exerciseDurationMs(exercise: Exercise): number {
+  return exercise.rounds * exercise.phases.reduce((total, phase) => total + phase.durationSec * 1000, 0);
+}
+
+// Eases in and out so the orb slows at the top and bottom of each breath.
+const ease = (t: number) => 0.5 - Math.cos(Math.PI * Math.max(0, Math.min(1, t))) / 2;
+
+/**
+ * Lung fullness for a step. A hold keeps whatever the breath before it left behind.
+ */
+function breathAt(steps: ExerciseStep[], step: ExerciseStep, t: number): number | null {
+  switch (step.phase.breath) {
+    case 'inhale': return ease(t);
+    case 'exhale': return 1 - ease(t);
+    case 'hold': {
+      for (let i = step.index - 1; i >= 0; i--) {
+        const kind = steps[i].phase.breath;
+        if (kind === 'inhale') return 1;
+        if (kind === 'exhale') return 0;
+      }
+      return 0;
+    }
+    default: return null;
+  }
+}
+
+/**
+ * Where a script stands `elapsedMs` after it was started. Negative values fall in the lead-in.
+ */
+export function exerciseProgressAt(exercise: Exercise, elapsedMs: number, steps = exerciseSteps(exercise)): ExerciseProgress {
+  const total = steps.length ? steps[steps.length - 1].endsAtMs : 0;
+  if (elapsedMs < 0) {
+    return { step: null, remainingMs: -elapsedMs, fraction: 0, breath: null, done: false };
+  }
+  if (elapsedMs >= total) {
+    return { step: null, remainingMs: 0, fraction: 1, breath: null, done: true };
+  }
+  const step = steps.find(s => elapsedMs < s.endsAtMs)!;
+  const t = (elapsedMs - step.startsAtMs) / (step.endsAtMs - step.startsAtMs);
+  return {
+    step,
+    remainingMs: step.endsAtMs - elapsedMs,
+    fraction: elapsedMs / total,
+    breath: breathAt(steps, step, t),
+    done: false,
+  };
+}
+
+export function loadExerciseLog(): ExerciseLogEntry[] {
+  try {
+    const saved = vaultStorage.getItem(EXERCISE_LOG_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function logExercise(entry: ExerciseLogEntry): void {
+  const log = [...loadExerciseLog(), entry].slice(-EXERCISE_LOG_LIMIT);
+  vaultStorage.setItem(EXERCISE_LOG_KEY, JSON.stringify(log));
+}
+
+const EXERCISE_CUE_PROTOCOL = 'The app keeps the time and shows each step on screen. Messages that start with "(Exercise cue" come from the app, not the person: speak that cue aloud, calmly and in a few words, then stay quiet until the next one. Never count or move ahead on your own. If the person speaks during the exercise, answer in one short, gentle sentence.';
+
+/**
+ * How the mirror should behave while the exercise runs.
+ */
+export function describeExerciseGuidance(exercise: Exercise): string {
+  return `Right now you are guiding the person through "${strings().exerciseContent[exercise.id].title}". ${exercise.guidance}\n${EXERCISE_CUE_PROTOCOL}`;
+}
+
+/**
+ * Appends the exercise's guidance and the cue protocol to a session's instruction.
+ * The app keeps time; the mirror only voices what it is handed.
+ */
+export function buildExerciseInstruction(baseInstruction: string, exercise: Exercise): string {
+  return `${baseInstruction}\n\n${describeExerciseGuidance(exercise)}`;
+}
+
+/**
+ * The app's message to the mirror when a step begins. The cue is the one on
+ * screen, in the interface language, so the mirror says what the person reads.
+ */
+export function describeExerciseCue(exercise: Exercise, step: ExerciseStep): string {
+  const { cue, detail } = strings().exerciseContent[exercise.id].phases[step.phaseIndex];
+  const round = exercise.rounds > 1 && step.phaseIndex === 0 ? `, round ${step.round} of ${exercise.rounds}` : '';
+  return `(Exercise cue${round}, not spoken by the user) ${cue}${detail ? `, ${detail}` : ''}.`;
+}
+
+export const describeExerciseOpening = (exercise: Exercise) =>
+  `(Exercise cue, not spoken by the user) Welcome the person to "${strings().exerciseContent[exercise.id].title}" in one short sentence and invite them to get comfortable.`;
+
+export const describeExerciseClosing = (exercise: Exercise) =>
+  `(Exercise cue, not spoken by the user) "${strings().exerciseContent[exercise.id].title}" is complete. Close gently in a sentence or two and ask how they feel now. From here on, talk as you normally would.`;
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { en } from '../data/locales/en';
+import { SessionRecord } from '../types';
+import { exportSessions, JOURNAL_EXPORT_VERSION, parseJournalExport } from './export';
+
+const file = (sessions: unknown[], changes: Record<string, unknown> = {}) =>
+  JSON.stringify({ app: 'egomirror', kind: 'journal', version: JOURNAL_EXPORT_VERSION, exportedAt: 0, sessions, ...changes });
+
+const session = (changes: Record<string, unknown> = {}) => ({ id: 's1', startedAt: 1000, personaName: 'Wren', messages: [], ...changes });
+
+describe('parseJournalExport', () => {
+  it('reads back a JSON export', () => {
+    const record: SessionRecord = {
+      id: 's1',
+      startedAt: 1000,
+      endedAt: 2000,
+      personaName: 'Wren',
+      messages: [{ id: 'm1', sessionId: 's1', role: 'user', text: 'Hello', timestamp: 1500 }],
+      hasRecording: false,
+      checkInBefore: { mood: 2, energy: 3, tags: ['work'], at: 1000 },
+    };
+    const [imported] = parseJournalExport(exportSessions([record], 'json').content);
+    expect(imported).toMatchObject(record);
+  });
+
+  it.each([
+    ['null', 'null'],
+    ['a number', '7'],
+    ['a string', '"journal"'],
+    ['another app', file([], { app: 'elsewhere' })],
+    ['no session list', file([], { sessions: {} })],
+  ])('rejects %s as not a journal', (_, json) => {
+    expect(() => parseJournalExport(json)).toThrow(en.files.notJournal);
+  });
+
+  it('rejects invalid JSON and files from a newer version', () => {
+    expect(() => parseJournalExport('{')).toThrow(en.files.invalidJson);
+    expect(() => parseJournalExport(file([], { version: JOURNAL_EXPORT_VERSION + 1 }))).toThrow(en.files.newerVersion);
+  });
+
+  it('drops sessions and messages that are not records', () => {
+    const imported = parseJournalExport(file([null, 42, 'session', session({ messages: [null, 3, { role: 'model', text: 'Hi', timestamp: 1 }] })]));
+    expect(imported).toHaveLength(1);
+    expect(imported[0].messages).toEqual([expect.objectContaining({ role: 'model', text: 'Hi', sessionId: 's1' })]);
+  });
+
+  it('never claims a recording, which an export does not carry', () => {
+    const [imported] = parseJournalExport(file([session({ hasRecording: true })]));
+    expect(imported.hasRecording).toBe(false);
+  });
+
+  it('keeps a valid check-in and fills in a missing time', () => {
+    const [imported] = parseJournalExport(file([session({ checkInAfter: { mood: 4, energy: 5, tags: ['rest', 7, ''] } })]));
+    expect(imported.checkInAfter).toEqual({ mood: 4, energy: 5, tags: ['rest'], at: 1000 });
+  });
+
+  it.each([
+    ['null', null],
+    ['a string', 'good'],
+    ['a mood off the scale', { mood: 9, energy: 3, tags: [], at: 0 }],
+    ['a fractional energy', { mood: 3, energy: 2.5, tags: [], at: 0 }],
+    ['a missing mood', { energy: 3, tags: [], at: 0 }],
+  ])('drops a check-in that is %s', (_, checkIn) => {
+    const [imported] = parseJournalExport(file([session({ checkInBefore: checkIn })]));
+    expect(imported.checkInBefore).toBeUndefined();
+  });
+});
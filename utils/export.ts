@@ -0,0 +1,204 @@
+import { Message, MoodCheckIn, SessionRecord } from '../types';
+import { describeLanguage, getLanguage, strings } from './i18n';
+
+export type ExportFormat = 'markdown' | 'json' | 'text' | 'html';
+
+export const EXPORT_FORMATS: { format: ExportFormat; extension: string; mimeType: string }[] = [
+  { format: 'markdown', extension: 'md', mimeType: 'text/markdown' },
+  { format: 'json', extension: 'json', mimeType: 'application/json' },
+  { format: 'text', extension: 'txt', mimeType: 'text/plain' },
+  { format: 'html', extension: 'html', mimeType: 'text/html' },
+];
+
+export const JOURNAL_EXPORT_VERSION = 1;
+
+export interface JournalExport {
+  app: 'egomirror';
+  kind: 'journal';
+  version: number;
+  exportedAt: number;
+  sessions: SessionRecord[];
+}
+
+export interface ExportFile {
+  filename: string;
+  content: string;
+  mimeType: string;
+}
+
+const speaker = (m: Message, session: SessionRecord) => m.role === 'user' ? strings().exportFile.you : session.personaName;
+
+const formatDateTime = (ts: number) =>
+  new Date(ts).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' });
+
+const formatTime = (ts: number) =>
+  new Date(ts).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const formatDuration = (session: SessionRecord) => {
+  const text = strings().exportFile;
+  if (!session.endedAt) return text.unfinished;
+  return text.minutes(Math.max(1, Math.round((session.endedAt - session.startedAt) / 60000)));
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+function toMarkdown(sessions: SessionRecord[]): string {
+  const text = strings().exportFile;
+  return sessions.map(s => [
+    `## ${text.heading(formatDateTime(s.startedAt), s.personaName)}`,
+    '',
+    `- ${text.session}: \`${s.id}\``,
+    `- ${text.started}: ${new Date(s.startedAt).toISOString()}`,
+    `- ${text.ended}: ${s.endedAt ? new Date(s.endedAt).toISOString() : text.unfinished} (${formatDuration(s)})`,
+    `- ${text.messageCount}: ${s.messages.length}`,
+    '',
+    ...s.messages.map(m => `**${speaker(m, s)}** _(${m.role}, ${formatTime(m.timestamp)})_\n\n${m.text.split('\n').map(l => `> ${l}`).join('\n')}\n`),
+  ].join('\n')).join('\n---\n\n');
+}
+
+function toText(sessions: SessionRecord[]): string {
+  const text = strings().exportFile;
+  return sessions.map(s => [
+    `${text.heading(formatDateTime(s.startedAt), s.personaName)} (${formatDuration(s)}, ${text.messages(s.messages.length)})`,
+    `${text.session} ${s.id}`,
+    '',
+    ...s.messages.map(m => `[${formatTime(m.timestamp)}] ${speaker(m, s)} (${m.role}): ${m.text}`),
+  ].join('\n')).join('\n\n----------------------------------------\n\n');
+}
+
+function toHtml(sessions: SessionRecord[], title: string): string {
+  const text = strings().exportFile;
+  const { code, dir } = describeLanguage(getLanguage());
+  const body = sessions.map(s => `
+  <section>
+    <h2>${escapeHtml(text.heading(formatDateTime(s.startedAt), s.personaName))}</h2>
+    <p class="meta">${escapeHtml(formatDuration(s))} &middot; ${escapeHtml(text.messages(s.messages.length))} &middot; ${escapeHtml(text.session)} ${escapeHtml(s.id)}</p>
+    ${s.messages.map(m => `<div class="msg ${m.role}">
+      <div class="who">${escapeHtml(speaker(m, s))} <time datetime="${new Date(m.timestamp).toISOString()}">${escapeHtml(formatTime(m.timestamp))}</time></div>
+      <p>${escapeHtml(m.text).replace(/\n/g, '<br>')}</p>
+    </div>`).join('\n    ')}
+  </section>`).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="${code}" dir="${dir}">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>${escapeHtml(title)}</title>
+<style>
+  body { font-family: Georgia, 'Times New Roman', serif; color: #1e293b; max-width: 42rem; margin: 2rem auto; padding: 0 1.5rem; line-height: 1.6; }
+  h1 { font-weight: normal; font-style: italic; }
+  h2 { font-size: 1.1rem; margin-bottom: 0; border-top: 1px solid #cbd5e1; padding-top: 1.5rem; }
+  .meta { color: #64748b; font-size: 0.8rem; margin-top: 0.25rem; }
+  .msg { margin: 1rem 0; padding: 0.75rem 1rem; border-radius: 0.75rem; break-inside: avoid; }
+  .msg.user { background: #eef2ff; margin-inline-start: 3rem; }
+  .msg.model { background: #f8fafc; border: 1px solid #e2e8f0; margin-inline-end: 3rem; }
+  .msg p { margin: 0.25rem 0 0; }
+  .who { font-size: 0.75rem; font-weight: bold; text-transform: uppercase; letter-spacing: 0.05em; color: #475569; }
+  time { font-weight: normal; color: #94a3b8; margin-inline-start: 0.5rem; }
+  @media print { body { margin: 0; } section { break-before: page; } section:first-of-type { break-before: auto; } }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+${body}
+</body>
+</html>
+`;
+}
+
+/**
+ * Renders sessions (oldest first) in the chosen format, ready for `downloadFile`.
+ */
+export function exportSessions(sessions: SessionRecord[], format: ExportFormat): ExportFile {
+  const ordered = [...sessions].sort((a, b) => a.startedAt - b.startedAt);
+  const { extension, mimeType } = EXPORT_FORMATS.find(f => f.format === format)!;
+  const day = (ts: number) => new Date(ts).toISOString().slice(0, 10);
+  const range = ordered.length === 0
+    ? 'empty'
+    : ordered.length === 1 ? day(ordered[0].startedAt) : `${day(ordered[0].startedAt)}_to_${day(ordered[ordered.length - 1].startedAt)}`;
+  const title = `${strings().exportFile.title}${ordered.length === 1 ? ` — ${formatDateTime(ordered[0].startedAt)}` : ''}`;
+
+  let content: string;
+  switch (format) {
+    case 'markdown':
+      content = `# ${title}\n\n${toMarkdown(ordered)}\n`;
+      break;
+    case 'text':
+      content = `${title}\n\n${toText(ordered)}\n`;
+      break;
+    case 'html':
+      content = toHtml(ordered, title);
+      break;
+    case 'json': {
+      const file: JournalExport = { app: 'egomirror', kind: 'journal', version: JOURNAL_EXPORT_VERSION, exportedAt: Date.now(), sessions: ordered };
+      content = JSON.stringify(file, null, 2);
+      break;
+    }
+  }
+  return { filename: `egomirror-journal-${range}.${extension}`, content, mimeType };
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const onScale = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 1 && (value as number) <= 5;
+
+const optionalString = (value: unknown) => typeof value === 'string' ? value : undefined;
+
+/**
+ * A check-in as insights expect it, or undefined for one that isn't usable.
+ */
+function parseCheckIn(raw: unknown, fallbackAt: number): MoodCheckIn | undefined {
+  if (!isRecord(raw) || !onScale(raw.mood) || !onScale(raw.energy)) return undefined;
+  return {
+    mood: raw.mood,
+    energy: raw.energy,
+    tags: Array.isArray(raw.tags) ? raw.tags.filter((t): t is string => typeof t === 'string' && !!t.trim()) : [],
+    at: typeof raw.at === 'number' ? raw.at : fallbackAt,
+  };
+}
+
+/**
+ * Parses a JSON journal export back into session records, dropping malformed
+ * sessions, messages and check-ins. Recordings aren't part of an export, so
+ * imported sessions never claim one.
+ */
+export function parseJournalExport(json: string): SessionRecord[] {
+  let file: Partial<JournalExport>;
+  try {
+    file = JSON.parse(json);
+  } catch {
+    throw new Error(strings().files.invalidJson);
+  }
+  if (!isRecord(file) || file.app !== 'egomirror' || file.kind !== 'journal' || !Array.isArray(file.sessions)) {
+    throw new Error(strings().files.notJournal);
+  }
+  if (typeof file.version !== 'number' || file.version > JOURNAL_EXPORT_VERSION) {
+    throw new Error(strings().files.newerVersion);
+  }
+  return (file.sessions as unknown[])
+    .filter(isRecord)
+    .filter(s => typeof s.id === 'string' && typeof s.startedAt === 'number' && Array.isArray(s.messages))
+    .map(s => {
+      const id = s.id as string;
+      const startedAt = s.startedAt as number;
+      return {
+        id,
+        startedAt,
+        endedAt: typeof s.endedAt === 'number' ? s.endedAt : undefined,
+        personaId: optionalString(s.personaId),
+        personaName: typeof s.personaName === 'string' ? s.personaName : 'Ego',
+        messages: (s.messages as unknown[])
+          .filter(isRecord)
+          .filter(m => (m.role === 'user' || m.role === 'model') && typeof m.text === 'string' && typeof m.timestamp === 'number')
+          .map(m => ({ ...m, id: typeof m.id === 'string' ? m.id : crypto.randomUUID(), sessionId: id }) as Message),
+        hasRecording: false,
+        starterPrompt: optionalString(s.starterPrompt),
+        exerciseId: optionalString(s.exerciseId),
+        checkInBefore: parseCheckIn(s.checkInBefore, startedAt),
+        checkInAfter: parseCheckIn(s.checkInAfter, startedAt),
+      };
+    });
+}
@@ -0,0 +1,33 @@
+import { GoogleGenAI } from '@google/genai';
+
+/** Set from `GEMINI_PROXY_URL` (see `vite.config.ts`); when present the bundle holds no API key. */
+const PROXY_URL = (process.env.GEMINI_PROXY_URL || '').replace(/\/+$/, '');
+
+// The SDK refuses to build a client without a key; the proxy replaces this one on the way out.
+const PROXIED_KEY = 'proxied';
+
+/**
+ * Client for REST calls such as memory summaries, sent through the proxy when one is configured.
+ */
+export function createGeminiClient(): GoogleGenAI {
+  return PROXY_URL
+    ? new GoogleGenAI({ apiKey: PROXIED_KEY, httpOptions: { baseUrl: PROXY_URL } })
+    : new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
+}
+
+/**
+ * Client for a single Live connection. Behind the proxy this fetches a fresh single-use
+ * token each time, so call it once per connect, reconnects included. Failures carry the
+ * HTTP status so `classifyError` can tell a refused token from a rate limit.
+ */
+export async function createLiveClient(): Promise<GoogleGenAI> {
+  if (!PROXY_URL) return createGeminiClient();
+  const response = await fetch(`${PROXY_URL}/api/token`, { method: 'POST' });
+  if (!response.ok) {
+    throw new Error(`The proxy refused a session token (${response.status}).`);
+  }
+  const { token } = await response.json() as { token?: string };
+  if (!token) throw new Error('The proxy returned no session token.');
+  // Ephemeral tokens are only accepted by the v1alpha Live endpoint.
+  return new GoogleGenAI({ apiKey: token, httpOptions: { apiVersion: 'v1alpha' } });
+}
@@ -0,0 +1,16 @@
+import { createLiveClient } from './geminiClient';
+import { LiveTransport } from './transport';
+
+/**
+ * Live transport backed by `@google/genai`, either with the bundled key or a token from the proxy.
+ */
+export function createGeminiTransport(): LiveTransport {
+  return {
+    name: 'gemini',
+    supportsResumption: true,
+    connect: async ({ model, config, callbacks }) => {
+      const ai = await createLiveClient();
+      return ai.live.connect({ model, config, callbacks });
+    },
+  };
+}
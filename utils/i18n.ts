@@ -0,0 +1,96 @@
+import { LanguageCode } from '../types';
+import { en, LocaleBundle } from '../data/locales/en';
+import { es } from '../data/locales/es';
+import { fr } from '../data/locales/fr';
+import { de } from '../data/locales/de';
+import { ar } from '../data/locales/ar';
+import { he } from '../data/locales/he';
+
+export interface LanguageOption {
+  code: LanguageCode;
+  /** The language's name in itself, as shown in the picker. */
+  label: string;
+  /** Used in the instruction that asks the mirror to reply in this language. */
+  englishName: string;
+  /** BCP-47 tag given to transcription as a hint. */
+  locale: string;
+  /** Speech language for the Live API, or null where its voices don't offer one and the model is left to choose. */
+  speechCode: string | null;
+  dir: 'ltr' | 'rtl';
+}
+
+export const LANGUAGES: LanguageOption[] = [
+  { code: 'en', label: 'English', englishName: 'English', locale: 'en-US', speechCode: 'en-US', dir: 'ltr' },
+  { code: 'es', label: 'Español', englishName: 'Spanish', locale: 'es-ES', speechCode: 'es-US', dir: 'ltr' },
+  { code: 'fr', label: 'Français', englishName: 'French', locale: 'fr-FR', speechCode: 'fr-FR', dir: 'ltr' },
+  { code: 'de', label: 'Deutsch', englishName: 'German', locale: 'de-DE', speechCode: 'de-DE', dir: 'ltr' },
+  { code: 'ar', label: 'العربية', englishName: 'Arabic', locale: 'ar', speechCode: 'ar-EG', dir: 'rtl' },
+  { code: 'he', label: 'עברית', englishName: 'Hebrew', locale: 'he-IL', speechCode: null, dir: 'rtl' },
+];
+
+const BUNDLES: Record<LanguageCode, LocaleBundle> = { en, es, fr, de, ar, he };
+
+/**
+ * The language to use: the saved choice, else the browser's if it is one we
+ * have, else English.
+ */
+export function resolveLanguage(preferred: LanguageCode | null, browserLanguage?: string): LanguageCode {
+  if (preferred && preferred in BUNDLES) return preferred;
+  const browser = (browserLanguage ?? (typeof navigator !== 'undefined' ? navigator.language : '')).toLowerCase().split('-')[0];
+  // Older browsers still report Hebrew by its retired code.
+  const code = browser === 'iw' ? 'he' : browser;
+  return code in BUNDLES ? code as LanguageCode : 'en';
+}
+
+let current: LanguageCode = resolveLanguage(null);
+const listeners = new Set<(language: LanguageCode) => void>();
+
+function applyToDocument(): void {
+  if (typeof document === 'undefined') return;
+  document.documentElement.lang = current;
+  document.documentElement.dir = describeLanguage(current).dir;
+}
+
+applyToDocument();
+
+export const getLanguage = (): LanguageCode => current;
+
+export const describeLanguage = (code: LanguageCode): LanguageOption =>
+  LANGUAGES.find(l => l.code === code) ?? LANGUAGES[0];
+
+/** The strings for the current language. Components read them through `useStrings` so they follow changes. */
+export const strings = (): LocaleBundle => BUNDLES[current];
+
+/**
+ * Switches the interface language, including the page's `lang` and reading direction.
+ */
+export function setLanguage(preferred: LanguageCode | null): void {
+  const next = resolveLanguage(preferred);
+  if (next === current) return;
+  current = next;
+  applyToDocument();
+  listeners.forEach(listener => listener(current));
+}
+
+export function onLanguageChange(listener: (language: LanguageCode) => void): () => void {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+/**
+ * Whether `prompts` is one of the built-in starter sets, untouched, in any
+ * language. Those are shown in the current language; edited ones as written.
+ */
+export const isDefaultStarterSet = (prompts: string[]) =>
+  Object.values(BUNDLES).some(b => b.starterPrompts.length === prompts.length && b.starterPrompts.every((p, i) => p === prompts[i]));
+
+/**
+ * Appended to the system instruction. Persona instructions are written in any
+ * language, so the reply language is stated separately.
+ */
+export function buildLanguageInstruction(instruction: string, code: LanguageCode): string {
+  const { englishName } = describeLanguage(code);
+  return `${instruction}
+
+Speak and write in ${englishName}, whatever language the instructions above are written in. If the person clearly switches to another language, follow them.`;
+}
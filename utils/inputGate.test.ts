@@ -0,0 +1,195 @@
+import { LiveSendRealtimeInputParameters } from '@google/genai';
+import { describe, expect, it } from 'vitest';
+import { InputMode } from '../types';
+import { createInputGate, describeKeyCode, InputGateOptions } from './inputGate';
+import { FRAME_MS, recording, SAMPLE_RATE, Segment } from './__fixtures__/pcm';
+
+/**
+ * A gate whose output is logged as it would reach the socket: 'start', 'end',
+ * or the capture time of each frame of audio sent.
+ */
+const setup = (mode: InputMode, options: Partial<InputGateOptions> = {}) => {
+  const sent: (string | number)[] = [];
+  const activity: boolean[] = [];
+  let clock = 0;
+  const gate = createInputGate({
+    mode,
+    send: (params: LiveSendRealtimeInputParameters) => {
+      if (params.activityStart) sent.push('start');
+      else if (params.activityEnd) sent.push('end');
+      else if (params.media) sent.push('media');
+    },
+    // Called right after the frame is sent; swap in the capture time it was sent with.
+    onAudioSent: (pcm, sampleRate, at) => {
+      expect(sampleRate).toBe(SAMPLE_RATE);
+      sent[sent.length - 1] = at;
+    },
+    onActivityChange: (active) => activity.push(active),
+    ...options,
+  });
+  const play = (segments: Segment[]) => recording(segments).forEach((pcm) => {
+    gate.pushFrame(pcm, SAMPLE_RATE, clock);
+    clock += FRAME_MS;
+  });
+  return { gate, sent, activity, play, now: () => clock };
+};
+
+// Segments are whole capture frames (64 ms), so expectations can be stated as frame indices.
+const silence = (frames: number): Segment => ({ kind: 'silence', ms: frames * FRAME_MS });
+const speech = (frames: number): Segment => ({ kind: 'speech', ms: frames * FRAME_MS, db: -30 });
+
+/** Capture times of frames `from` up to, not including, `to`. */
+const frames = (from: number, to: number) =>
+  Array.from({ length: to - from }, (_, i) => (from + i) * FRAME_MS);
+
+describe('createInputGate', () => {
+  describe('voice activity', () => {
+    it('brackets each utterance with activityStart and activityEnd', () => {
+      const { sent, activity, play } = setup('vad');
+      play([silence(8), speech(10), silence(16), speech(10), silence(16)]);
+
+      // Activity opens on the second frame of speech, led by the five frames of
+      // pre-roll before it, and stays open through the 13-frame hangover.
+      expect(sent).toEqual([
+        'start', ...frames(4, 31), 'end',
+        'start', ...frames(31, 57), 'end',
+      ]);
+      expect(activity).toEqual([true, false, true, false]);
+    });
+
+    it('sends nothing for silence or room noise', () => {
+      const { sent, play } = setup('vad');
+      play([silence(8), { kind: 'noise', ms: 32 * FRAME_MS, db: -60 }]);
+      expect(sent).toEqual([]);
+    });
+
+    it('leads with the audio just before speech was detected', () => {
+      const { sent, play } = setup('vad', { preRollMs: 300 });
+      play([silence(16), speech(10)]);
+
+      // Speech is detected on frame 17; the 300 ms before it goes out first, in order.
+      expect(sent).toEqual(['start', ...frames(12, 26)]);
+    });
+
+    it('does not carry pre-roll across utterances', () => {
+      const { sent, play } = setup('vad', { preRollMs: 300 });
+      play([silence(8), speech(10), silence(16), speech(4)]);
+
+      // The first activity ended on frame 30; nothing from before then is sent again.
+      const second = sent.lastIndexOf('start');
+      expect(sent.slice(second)).toEqual(['start', ...frames(31, 38)]);
+      expect(sent.filter(s => s === 'start')).toHaveLength(2);
+    });
+  });
+
+  describe('mute', () => {
+    it('ends an open activity and drops audio until unmuted', () => {
+      const { gate, sent, activity, play } = setup('vad', { preRollMs: 0 });
+      play([silence(4), speech(4)]);
+      gate.setMuted(true);
+      expect(gate.muted).toBe(true);
+      expect(gate.active).toBe(false);
+      expect(sent.at(-1)).toBe('end');
+
+      const before = sent.length;
+      play([speech(8)]);
+      expect(sent).toHaveLength(before);
+      expect(activity).toEqual([true, false]);
+    });
+
+    it('waits for speech again after unmuting, without pre-roll from while muted', () => {
+      const { gate, sent, play } = setup('vad', { preRollMs: 300 });
+      gate.setMuted(true);
+      play([speech(8)]);
+      gate.setMuted(false);
+      expect(gate.active).toBe(false);
+
+      play([silence(4), speech(4)]);
+      expect(sent).toEqual(['start', ...frames(8, 16)]);
+    });
+  });
+
+  describe('push-to-talk', () => {
+    it('sends everything while held, quiet or not, and nothing otherwise', () => {
+      const { gate, sent, activity, play } = setup('push-to-talk');
+      play([speech(3)]);
+      gate.setTalking(true);
+      play([silence(2), speech(2)]);
+      gate.setTalking(false);
+      play([speech(3)]);
+
+      expect(sent).toEqual(['start', ...frames(3, 7), 'end']);
+      expect(activity).toEqual([true, false]);
+    });
+
+    it('does not wait for the hangover after release', () => {
+      const { gate, sent, play } = setup('push-to-talk');
+      gate.setTalking(true);
+      play([speech(2)]);
+      gate.setTalking(false);
+      play([silence(2)]);
+      expect(sent).toEqual(['start', ...frames(0, 2), 'end']);
+    });
+
+    it('lets mute override the held key and picks up again on unmute', () => {
+      const { gate, sent, now, play } = setup('push-to-talk');
+      gate.setTalking(true);
+      play([speech(1)]);
+      gate.setMuted(true);
+      play([speech(1)]);
+      gate.setTalking(true);
+      expect(gate.active).toBe(false);
+      gate.setMuted(false);
+      const resumedAt = now();
+      play([speech(1)]);
+
+      expect(sent).toEqual(['start', ...frames(0, 1), 'end', 'start', resumedAt]);
+    });
+
+    it('ignores the talk key in voice activity mode', () => {
+      const { gate, sent, play } = setup('vad');
+      gate.setTalking(true);
+      play([silence(4)]);
+      expect(gate.active).toBe(false);
+      expect(sent).toEqual([]);
+    });
+  });
+
+  describe('reconnecting and closing', () => {
+    it('announces an open activity again on resume', () => {
+      const { gate, sent } = setup('push-to-talk');
+      gate.resume();
+      expect(sent).toEqual([]);
+      gate.setTalking(true);
+      gate.resume();
+      expect(sent).toEqual(['start', 'start']);
+    });
+
+    it('ends an open activity on close and then goes quiet', () => {
+      const { gate, sent, play } = setup('vad');
+      play([silence(4), speech(4)]);
+      gate.close();
+      const closed = sent.length;
+      expect(sent[0]).toBe('start');
+      expect(sent.at(-1)).toBe('end');
+
+      play([speech(4)]);
+      gate.close();
+      gate.resume();
+      gate.setMuted(false);
+      expect(sent).toHaveLength(closed);
+    });
+  });
+});
+
+describe('describeKeyCode', () => {
+  it.each([
+    ['KeyT', 'T'],
+    ['Digit4', '4'],
+    ['Space', 'Space'],
+    ['Numpad3', 'Num 3'],
+    ['ShiftLeft', 'Shift Left'],
+  ])('names %s as %s', (code, name) => {
+    expect(describeKeyCode(code)).toBe(name);
+  });
+});
@@ -0,0 +1,123 @@
+import { LiveSendRealtimeInputParameters } from '@google/genai';
+import { InputMode } from '../types';
+import { createPcmBlob } from './audio';
+import { createVoiceActivityDetector, VadOptions } from './vad';
+
+export interface InputGateOptions {
+  mode: InputMode;
+  vad?: Partial<VadOptions>;
+  /** Audio kept from just before speech is detected, so the first syllable isn't clipped. */
+  preRollMs?: number;
+  send: (params: LiveSendRealtimeInputParameters) => void;
+  /** Called for every frame that actually goes to the mirror. */
+  onAudioSent?: (pcm: Int16Array, sampleRate: number, at: number) => void;
+  onActivityChange?: (active: boolean) => void;
+}
+
+export interface InputGate {
+  readonly mode: InputMode;
+  readonly active: boolean;
+  readonly muted: boolean;
+  pushFrame: (pcm: Int16Array, sampleRate: number, at: number) => void;
+  /** Push-to-talk: whether the talk key or button is held. Ignored in VAD mode. */
+  setTalking: (talking: boolean) => void;
+  setMuted: (muted: boolean) => void;
+  /** Announces an open activity again after the connection was re-established. */
+  resume: () => void;
+  close: () => void;
+}
+
+interface PendingFrame {
+  pcm: Int16Array;
+  sampleRate: number;
+  at: number;
+}
+
+/**
+ * Decides which microphone frames reach the Live session and brackets them with
+ * activityStart / activityEnd. Sessions using a gate must turn the server's own
+ * activity detection off.
+ */
+export function createInputGate(options: InputGateOptions): InputGate {
+  const { mode, send, onAudioSent, onActivityChange, preRollMs = 300 } = options;
+  const vad = createVoiceActivityDetector(options.vad);
+  let active = false;
+  let muted = false;
+  let talking = false;
+  let closed = false;
+  let preRoll: PendingFrame[] = [];
+
+  const sendFrame = ({ pcm, sampleRate, at }: PendingFrame) => {
+    send({ media: createPcmBlob(pcm, sampleRate) });
+    onAudioSent?.(pcm, sampleRate, at);
+  };
+
+  const setActive = (next: boolean) => {
+    if (next === active) return;
+    active = next;
+    send(next ? { activityStart: {} } : { activityEnd: {} });
+    onActivityChange?.(next);
+  };
+
+  const keepForPreRoll = (frame: PendingFrame) => {
+    preRoll.push(frame);
+    const cutoff = frame.at - preRollMs;
+    preRoll = preRoll.filter(f => f.at >= cutoff);
+  };
+
+  return {
+    mode,
+    get active() { return active; },
+    get muted() { return muted; },
+    pushFrame: (pcm, sampleRate, at) => {
+      if (closed || muted) return;
+      const frame = { pcm, sampleRate, at };
+
+      if (mode === 'push-to-talk') {
+        if (active) sendFrame(frame);
+        return;
+      }
+
+      const event = vad.process(pcm, sampleRate);
+      if (event === 'start') {
+        setActive(true);
+        preRoll.forEach(sendFrame);
+        preRoll = [];
+      }
+      if (active) sendFrame(frame);
+      else keepForPreRoll(frame);
+      if (event === 'end') setActive(false);
+    },
+    setTalking: (next) => {
+      talking = next;
+      if (closed || mode !== 'push-to-talk') return;
+      setActive(talking && !muted);
+    },
+    setMuted: (next) => {
+      muted = next;
+      if (closed) return;
+      if (muted) {
+        vad.reset();
+        preRoll = [];
+        setActive(false);
+      } else if (mode === 'push-to-talk') {
+        setActive(talking);
+      }
+    },
+    resume: () => {
+      if (!closed && active) send({ activityStart: {} });
+    },
+    close: () => {
+      if (closed) return;
+      setActive(false);
+      closed = true;
+    },
+  };
+}
+
+/**
+ * Readable name for a `KeyboardEvent.code`, e.g. "KeyT" becomes "T".
+ */
+export function describeKeyCode(code: string): string {
+  return code.replace(/^Key|^Digit/, '').replace(/^Numpad(\d)$/, 'Num $1').replace(/(Left|Right)$/, ' $1');
+}
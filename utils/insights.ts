@@ -0,0 +1,76 @@
+import { SessionRecord } from '../types';
+import { EXERCISES } from '../data/exercises';
+import type { LocaleBundle } from '../data/locales/en';
+
+/** Offered at every check-in. Stored by these ids and shown through `checkIn.tags`. */
+export const SUGGESTED_TAGS = ['anxious', 'lonely', 'tired', 'stressed', 'calm', 'hopeful', 'grateful', 'overwhelmed'] as const;
+
+export type SuggestedTag = typeof SUGGESTED_TAGS[number];
+
+export const isSuggestedTag = (tag: string): tag is SuggestedTag => (SUGGESTED_TAGS as readonly string[]).includes(tag);
+
+/** A suggested tag in the interface language; tags the person typed are shown as written. */
+export const tagLabel = (tag: string, labels: Record<SuggestedTag, string>) => isSuggestedTag(tag) ? labels[tag] : tag;
+
+export interface MoodPoint {
+  sessionId: string;
+  at: number;
+  before?: number;
+  after?: number;
+}
+
+export interface DeltaGroup {
+  label: string;
+  /** Mean of (after - before) mood across sessions with both check-ins. */
+  averageDelta: number;
+  count: number;
+}
+
+export interface MoodInsights {
+  timeline: MoodPoint[];
+  averageMoodDelta: number | null;
+  averageEnergyDelta: number | null;
+  byPersona: DeltaGroup[];
+  byPrompt: DeltaGroup[];
+  byTag: DeltaGroup[];
+}
+
+const exerciseTitle = (id: string | undefined, t: LocaleBundle): string | undefined => {
+  const exercise = EXERCISES.find(e => e.id === id);
+  return exercise && t.exerciseContent[exercise.id].title;
+};
+
+const mean = (values: number[]) => values.length ? values.reduce((a, b) => a + b, 0) / values.length : null;
+
+function groupDeltas(sessions: SessionRecord[], keysOf: (s: SessionRecord) => string[]): DeltaGroup[] {
+  const groups = new Map<string, number[]>();
+  for (const s of sessions) {
+    const delta = s.checkInAfter!.mood - s.checkInBefore!.mood;
+    for (const key of new Set(keysOf(s))) {
+      groups.set(key, [...(groups.get(key) || []), delta]);
+    }
+  }
+  return [...groups.entries()]
+    .map(([label, deltas]) => ({ label, averageDelta: mean(deltas)!, count: deltas.length }))
+    .sort((a, b) => b.averageDelta - a.averageDelta || b.count - a.count);
+}
+
+/**
+ * Derives mood trends from stored check-ins. Everything is computed on-device.
+ * Topics are the tags chosen at either check-in. Group labels are in the language of `t`.
+ */
+export function computeInsights(sessions: SessionRecord[], t: LocaleBundle): MoodInsights {
+  const checked = sessions
+    .filter(s => s.checkInBefore || s.checkInAfter)
+    .sort((a, b) => a.startedAt - b.startedAt);
+  const paired = checked.filter(s => s.checkInBefore && s.checkInAfter);
+
+  return {
+    timeline: checked.map(s => ({ sessionId: s.id, at: s.startedAt, before: s.checkInBefore?.mood, after: s.checkInAfter?.mood })),
+    averageMoodDelta: mean(paired.map(s => s.checkInAfter!.mood - s.checkInBefore!.mood)),
+    averageEnergyDelta: mean(paired.map(s => s.checkInAfter!.energy - s.checkInBefore!.energy)),
+    byPersona: groupDeltas(paired, s => [s.personaName]),
+    byPrompt: groupDeltas(paired, s => [s.starterPrompt || exerciseTitle(s.exerciseId, t) || t.insights.openConversation]),
+    byTag: groupDeltas(paired, s => [...s.checkInBefore!.tags, ...s.checkInAfter!.tags].map(tag => tagLabel(tag, t.checkIn.tags))),
+  };
+}
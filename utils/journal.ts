@@ -0,0 +1,210 @@
+import { Message, SessionQuery, SessionRecord, SessionRecording } from '../types';
+import { getSealer, needsReseal, openBytes, openJson, registerSealedStore, SealedBytes } from './vault';
+
+const DB_NAME = 'egomirror_journal';
+const DB_VERSION = 2;
+const SESSION_STORE = 'sessions';
+const RECORDING_STORE = 'recordings';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// With the vault on, only the keys the stores index on stay readable.
+type StoredSession = SessionRecord | { id: string; startedAt: number; sealed: SealedBytes };
+type StoredRecording = SessionRecording | { sessionId: string; sealed: SealedBytes; audio: SealedBytes };
+
+/**
+ * Wraps an IDBRequest in a Promise.
+ */
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Opens (and on first use, creates) the journal database.
+ */
+function openJournal(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSION_STORE)) {
+          const store = db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+          store.createIndex('startedAt', 'startedAt');
+        }
+        if (!db.objectStoreNames.contains(RECORDING_STORE)) {
+          db.createObjectStore(RECORDING_STORE, { keyPath: 'sessionId' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+  storeName: string = SESSION_STORE,
+): Promise<T> {
+  const db = await openJournal();
+  const tx = db.transaction(storeName, mode);
+  return promisify(run(tx.objectStore(storeName)));
+}
+
+/**
+ * Runs the same write against sessions and their recordings in one transaction.
+ */
+async function withAllStores(run: (store: IDBObjectStore) => IDBRequest): Promise<void> {
+  const db = await openJournal();
+  const tx = db.transaction([SESSION_STORE, RECORDING_STORE], 'readwrite');
+  run(tx.objectStore(SESSION_STORE));
+  run(tx.objectStore(RECORDING_STORE));
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+async function sealSession(session: SessionRecord): Promise<StoredSession> {
+  const sealer = getSealer();
+  return sealer ? { id: session.id, startedAt: session.startedAt, sealed: await sealer.json(session) } : session;
+}
+
+function openSession(stored: StoredSession): Promise<SessionRecord> {
+  return 'sealed' in stored ? openJson<SessionRecord>(stored.sealed) : Promise.resolve(stored);
+}
+
+async function sealRecording(recording: SessionRecording): Promise<StoredRecording> {
+  const sealer = getSealer();
+  if (!sealer) return recording;
+  const { blob, ...details } = recording;
+  return {
+    sessionId: recording.sessionId,
+    sealed: await sealer.json({ ...details, type: blob.type }),
+    audio: await sealer.bytes(await blob.arrayBuffer()),
+  };
+}
+
+async function openRecording(stored: StoredRecording): Promise<SessionRecording> {
+  if (!('sealed' in stored)) return stored;
+  const { type, ...details } = await openJson<Omit<SessionRecording, 'blob'> & { type: string }>(stored.sealed);
+  return { ...details, blob: new Blob([await openBytes(stored.audio)], { type }) };
+}
+
+/**
+ * Rewrites every entry of a store whose sealing no longer matches the vault, one entry at a time.
+ */
+async function resealStore<S extends object, T>(storeName: string, open: (stored: S) => Promise<T>, seal: (value: T) => Promise<S>) {
+  const keys = await withStore<IDBValidKey[]>('readonly', store => store.getAllKeys(), storeName);
+  for (const key of keys) {
+    const stored = await withStore<S | undefined>('readonly', store => store.get(key), storeName);
+    if (!stored || !needsReseal('sealed' in stored ? stored.sealed : stored)) continue;
+    const resealed = await seal(await open(stored));
+    await withStore('readwrite', store => store.put(resealed), storeName);
+  }
+}
+
+registerSealedStore({
+  reseal: async () => {
+    await resealStore(SESSION_STORE, openSession, sealSession);
+    await resealStore(RECORDING_STORE, openRecording, sealRecording);
+  },
+  wipe: async () => {
+    if (dbPromise) {
+      (await dbPromise.catch(() => null))?.close();
+      dbPromise = null;
+    }
+    await new Promise<void>((resolve, reject) => {
+      const request = indexedDB.deleteDatabase(DB_NAME);
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+      // Another tab still has the journal open; it is deleted once that tab closes.
+      request.onblocked = () => resolve();
+    });
+  },
+});
+
+/**
+ * Inserts or replaces a session record.
+ */
+export async function saveSession(session: SessionRecord): Promise<void> {
+  const stored = await sealSession(session);
+  await withStore('readwrite', store => store.put(stored));
+}
+
+/**
+ * Returns a single session by id, or undefined if it does not exist.
+ */
+export async function getSession(id: string): Promise<SessionRecord | undefined> {
+  const stored = await withStore<StoredSession | undefined>('readonly', store => store.get(id));
+  return stored && openSession(stored);
+}
+
+/**
+ * Merges changes into a stored session. Does nothing if the session no longer exists.
+ */
+export async function updateSession(id: string, changes: Partial<SessionRecord>): Promise<void> {
+  const existing = await getSession(id);
+  if (existing) await saveSession({ ...existing, ...changes, id });
+}
+
+/**
+ * Returns every stored session, newest first.
+ */
+export async function listSessions(): Promise<SessionRecord[]> {
+  const stored = await withStore<StoredSession[]>('readonly', store => store.index('startedAt').getAll());
+  const sessions = await Promise.all(stored.map(openSession));
+  return sessions.reverse();
+}
+
+/**
+ * Deletes a session together with its recording, if any.
+ */
+export function deleteSession(id: string): Promise<void> {
+  return withAllStores(store => store.delete(id));
+}
+
+export function clearSessions(): Promise<void> {
+  return withAllStores(store => store.clear());
+}
+
+export async function saveRecording(recording: SessionRecording): Promise<void> {
+  const stored = await sealRecording(recording);
+  await withStore('readwrite', store => store.put(stored), RECORDING_STORE);
+}
+
+export async function getRecording(sessionId: string): Promise<SessionRecording | undefined> {
+  const stored = await withStore<StoredRecording | undefined>('readonly', store => store.get(sessionId), RECORDING_STORE);
+  return stored && openRecording(stored);
+}
+
+/**
+ * Returns the messages of a session that match a case-insensitive text query.
+ */
+export function matchMessages(session: SessionRecord, text: string): Message[] {
+  const needle = text.trim().toLowerCase();
+  if (!needle) return session.messages;
+  return session.messages.filter(m => m.text.toLowerCase().includes(needle));
+}
+
+/**
+ * Lists sessions started within [from, to] whose transcript contains the query text.
+ */
+export async function querySessions({ text, from, to }: SessionQuery): Promise<SessionRecord[]> {
+  const sessions = await listSessions();
+  return sessions.filter(s => {
+    if (from !== undefined && s.startedAt < from) return false;
+    if (to !== undefined && s.startedAt > to) return false;
+    if (text && text.trim() && matchMessages(s, text).length === 0) return false;
+    return true;
+  });
+}
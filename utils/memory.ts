@@ -0,0 +1,134 @@
+import { Type } from '@google/genai';
+import { Message, PersonaConfig, SessionMemory, SessionRecord } from '../types';
+import { createGeminiClient } from './geminiClient';
+import { LiveTransportKind } from './transport';
+import { vaultStorage } from './vault';
+
+const MEMORY_KEY = 'egomirror_memories_v1';
+const SUMMARY_MODEL = 'gemini-2.5-flash';
+
+/** At most this many memories are brought into a session... */
+export const MEMORY_LIMIT = 5;
+/** ...and together they stay under this many characters. */
+const MEMORY_CHAR_BUDGET = 2400;
+
+export type MemoryContent = Pick<SessionMemory, 'summary' | 'themes' | 'openThreads'>;
+
+const SUMMARY_INSTRUCTION = "You keep gentle notes for a supportive companion app. From the conversation transcript, write a short summary (2-4 sentences, second person, warm and factual, no diagnosis), up to 5 key themes as short lowercase phrases, and up to 3 open threads: things the person was still working through that a caring friend might ask about next time. Leave out anything the person asked not to be remembered.";
+
+export function loadMemories(): SessionMemory[] {
+  try {
+    const saved = vaultStorage.getItem(MEMORY_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveMemories(memories: SessionMemory[]): void {
+  vaultStorage.setItem(MEMORY_KEY, JSON.stringify(memories));
+}
+
+const formatTranscript = (messages: Message[]) =>
+  messages.map(m => `${m.role === 'user' ? 'Person' : 'Mirror'}: ${m.text}`).join('\n');
+
+/**
+ * Offline stand-in for the summary model, used with the mock transport.
+ */
+function summarizeLocally(session: SessionRecord): MemoryContent {
+  const said = session.messages.filter(m => m.role === 'user').map(m => m.text.trim());
+  const first = said[0] ?? '';
+  return {
+    summary: first ? `You opened with: "${first.length > 160 ? `${first.slice(0, 157)}...` : first}"` : 'A quiet session.',
+    themes: [...new Set([...(session.checkInBefore?.tags ?? []), ...(session.checkInAfter?.tags ?? [])])].slice(0, 5),
+    openThreads: said.filter(text => text.endsWith('?')).slice(-3),
+  };
+}
+
+async function summarizeWithGemini(session: SessionRecord): Promise<MemoryContent> {
+  const ai = createGeminiClient();
+  const response = await ai.models.generateContent({
+    model: SUMMARY_MODEL,
+    contents: formatTranscript(session.messages),
+    config: {
+      systemInstruction: SUMMARY_INSTRUCTION,
+      responseMimeType: 'application/json',
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          summary: { type: Type.STRING },
+          themes: { type: Type.ARRAY, items: { type: Type.STRING } },
+          openThreads: { type: Type.ARRAY, items: { type: Type.STRING } },
+        },
+        required: ['summary', 'themes', 'openThreads'],
+      },
+    },
+  });
+  const parsed = JSON.parse(response.text || '{}') as Partial<MemoryContent>;
+  const strings = (value: unknown, limit: number) =>
+    Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string' && !!v.trim()).slice(0, limit) : [];
+  return {
+    summary: typeof parsed.summary === 'string' ? parsed.summary.trim() : '',
+    themes: strings(parsed.themes, 5),
+    openThreads: strings(parsed.openThreads, 3),
+  };
+}
+
+/**
+ * Summarizes a finished session and stores it as a memory. Sessions where the
+ * person said nothing are skipped.
+ */
+export async function rememberSession(
+  session: SessionRecord,
+  kind: LiveTransportKind = (process.env.LIVE_TRANSPORT as LiveTransportKind) || 'gemini',
+): Promise<SessionMemory | null> {
+  if (!session.messages.some(m => m.role === 'user')) return null;
+  const content = kind === 'mock' ? summarizeLocally(session) : await summarizeWithGemini(session);
+  if (!content.summary) return null;
+  const memory: SessionMemory = {
+    id: crypto.randomUUID(),
+    sessionId: session.id,
+    personaId: session.personaId,
+    personaName: session.personaName,
+    createdAt: Date.now(),
+    ...content,
+    included: true,
+  };
+  saveMemories([...loadMemories().filter(m => m.sessionId !== session.id), memory]);
+  return memory;
+}
+
+/**
+ * The memories a session with this persona may see: included ones, newest first,
+ * bounded by count and length.
+ */
+export function selectMemories(memories: SessionMemory[], persona: PersonaConfig): SessionMemory[] {
+  if (!persona.rememberMe) return [];
+  const selected: SessionMemory[] = [];
+  let budget = MEMORY_CHAR_BUDGET;
+  for (const memory of [...memories].sort((a, b) => b.createdAt - a.createdAt)) {
+    if (!memory.included || memory.personaId !== persona.id) continue;
+    const size = memory.summary.length + memory.openThreads.join(' ').length;
+    if (size > budget) break;
+    selected.push(memory);
+    budget -= size;
+    if (selected.length >= MEMORY_LIMIT) break;
+  }
+  return selected;
+}
+
+/**
+ * The persona's instruction followed by what it remembers, oldest memory first.
+ */
+export function buildSystemInstruction(persona: PersonaConfig, memories: SessionMemory[]): string {
+  if (memories.length === 0) return persona.instruction;
+  const notes = [...memories].reverse().map(m => {
+    const date = new Date(m.createdAt).toLocaleDateString(undefined, { month: 'long', day: 'numeric' });
+    const threads = m.openThreads.length ? ` Still open: ${m.openThreads.join('; ')}.` : '';
+    return `- ${date}: ${m.summary}${threads}`;
+  });
+  return `${persona.instruction}
+
+Notes from your earlier conversations with this person, which they chose to let you keep. Let them inform your warmth and, if it feels natural, gently ask about an open thread. Never recite them or treat them as more certain than the person's own words today.
+${notes.join('\n')}`;
+}
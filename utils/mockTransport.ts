@@ -0,0 +1,129 @@
+import { LiveServerMessage } from '@google/genai';
+import { LiveConnection, LiveTransport } from './transport';
+import { encodeBase64 } from './audio';
+
+export interface MockStep {
+  /** Delay after the previous step, in milliseconds. */
+  delayMs: number;
+  message: LiveServerMessage;
+}
+
+export interface MockScript {
+  /** Replayed as soon as the session opens. */
+  opening: MockStep[];
+  /** Each finished user turn (typed, spoken or sent as client content) replays the next reply, cycling through the list. */
+  replies?: MockStep[][];
+}
+
+const serverMessage = (fields: Partial<LiveServerMessage>): LiveServerMessage =>
+  Object.assign(new LiveServerMessage(), fields);
+
+export const mockInputTranscript = (text: string) =>
+  serverMessage({ serverContent: { inputTranscription: { text } } });
+
+export const mockOutputTranscript = (text: string) =>
+  serverMessage({ serverContent: { outputTranscription: { text } } });
+
+export const mockAudioChunk = (base64Pcm: string) =>
+  serverMessage({ serverContent: { modelTurn: { parts: [{ inlineData: { data: base64Pcm, mimeType: 'audio/pcm;rate=24000' } }] } } });
+
+export const mockTurnComplete = () => serverMessage({ serverContent: { turnComplete: true } });
+
+export const mockInterrupted = () => serverMessage({ serverContent: { interrupted: true } });
+
+export const mockToolCall = (name: string, args: Record<string, unknown>) =>
+  serverMessage({ toolCall: { functionCalls: [{ id: crypto.randomUUID(), name, args }] } });
+
+/**
+ * Generates a soft sine tone as base64 24 kHz 16-bit PCM, standing in for model speech.
+ */
+export function mockTone(frequency: number, durationMs: number, sampleRate = 24000): string {
+  const length = Math.round((sampleRate * durationMs) / 1000);
+  const pcm = new Int16Array(length);
+  const fade = Math.min(length / 2, sampleRate * 0.01);
+  for (let i = 0; i < length; i++) {
+    const envelope = Math.min(1, i / fade, (length - i) / fade);
+    pcm[i] = Math.sin((2 * Math.PI * frequency * i) / sampleRate) * envelope * 0.2 * 0x7fff;
+  }
+  return encodeBase64(new Uint8Array(pcm.buffer));
+}
+
+const spokenTurn = (userText: string, modelWords: string[]): MockStep[] => [
+  { delayMs: 300, message: mockInputTranscript(userText) },
+  ...modelWords.flatMap((word): MockStep[] => [
+    { delayMs: 120, message: mockOutputTranscript(word) },
+    { delayMs: 0, message: mockAudioChunk(mockTone(220, 250)) },
+  ]),
+  { delayMs: 200, message: mockTurnComplete() },
+];
+
+export const DEMO_SCRIPT: MockScript = {
+  opening: spokenTurn('Hello?', ['I', ' am', ' here', ' with', ' you.']),
+  replies: [
+    spokenTurn('', ['Take', ' your', ' time.']),
+    [
+      { delayMs: 200, message: mockOutputTranscript('That sounds') },
+      { delayMs: 0, message: mockAudioChunk(mockTone(196, 1500)) },
+      { delayMs: 400, message: mockInterrupted() },
+      { delayMs: 0, message: mockTurnComplete() },
+    ],
+  ],
+};
+
+/**
+ * Live transport that replays a scripted sequence of server messages instead of
+ * contacting the API. Audio input is accepted and ignored.
+ */
+export function createMockTransport(script: MockScript = DEMO_SCRIPT): LiveTransport {
+  return {
+    name: 'mock',
+    connect: async ({ callbacks }) => {
+      const timers = new Set<ReturnType<typeof setTimeout>>();
+      let closed = false;
+      let replyIndex = 0;
+      let queueEnd = Date.now();
+
+      const play = (steps: MockStep[]) => {
+        for (const step of steps) {
+          queueEnd = Math.max(queueEnd, Date.now()) + step.delayMs;
+          const timer = setTimeout(() => {
+            timers.delete(timer);
+            if (!closed) callbacks.onmessage(step.message);
+          }, queueEnd - Date.now());
+          timers.add(timer);
+        }
+      };
+
+      const reply = () => {
+        if (closed || !script.replies?.length) return;
+        play(script.replies[replyIndex++ % script.replies.length]);
+      };
+
+      const connection: LiveConnection = {
+        sendRealtimeInput: (params) => {
+          if (params.text || params.activityEnd) reply();
+        },
+        sendClientContent: (params) => {
+          // Context replayed with turnComplete: false waits silently, like the real service.
+          if (params.turnComplete !== false) reply();
+        },
+        // The script never calls tools, but answering one continues the turn like any other input.
+        sendToolResponse: () => reply(),
+        close: () => {
+          if (closed) return;
+          closed = true;
+          timers.forEach(clearTimeout);
+          timers.clear();
+          callbacks.onclose?.(new CloseEvent('close', { code: 1000, reason: 'mock closed' }));
+        },
+      };
+
+      setTimeout(() => {
+        if (closed) return;
+        callbacks.onopen?.();
+        play(script.opening);
+      }, 0);
+      return connection;
+    },
+  };
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { en } from '../data/locales/en';
+import { DEFAULT_PERSONA, exportPersonas, importPersonas, normalizePersona, PERSONA_EXPORT_VERSION } from './personas';
+
+const file = (personas: unknown[], changes: Record<string, unknown> = {}) =>
+  JSON.stringify({ app: 'egomirror', kind: 'personas', version: PERSONA_EXPORT_VERSION, exportedAt: 0, personas, ...changes });
+
+describe('importPersonas', () => {
+  it('reads back an export under fresh ids', () => {
+    const persona = { ...DEFAULT_PERSONA, id: 'mine', name: 'Wren', voiceName: 'Puck' as const };
+    const [imported] = importPersonas(exportPersonas([persona]));
+    expect(imported).toEqual({ ...persona, id: imported.id });
+    expect(imported.id).not.toBe('mine');
+  });
+
+  it('fills in defaults for missing or malformed fields', () => {
+    const [imported] = importPersonas(file([{ name: '  ', voiceName: 'Nobody', avatarColor: 'red', starterPrompts: ['Hi', 3, ''] }]));
+    expect(imported.name).toBe(DEFAULT_PERSONA.name);
+    expect(imported.voiceName).toBe(DEFAULT_PERSONA.voiceName);
+    expect(imported.avatarColor).toBe(DEFAULT_PERSONA.avatarColor);
+    expect(imported.starterPrompts).toEqual(['Hi']);
+  });
+
+  it.each([
+    ['null', [null]],
+    ['a number', [{ name: 'Wren' }, 42]],
+    ['a string', ['Wren']],
+    ['an array', [[]]],
+  ])('rejects a file with %s among the personas', (_, personas) => {
+    expect(() => importPersonas(file(personas))).toThrow(en.files.notPersonas);
+  });
+
+  it.each([
+    ['null', 'null'],
+    ['a number', '7'],
+    ['another app', file([], { app: 'elsewhere' })],
+    ['no persona list', file([], { personas: {} })],
+  ])('rejects %s as not a persona file', (_, json) => {
+    expect(() => importPersonas(json)).toThrow(en.files.notPersonas);
+  });
+
+  it('rejects invalid JSON and files from a newer version', () => {
+    expect(() => importPersonas('{')).toThrow(en.files.invalidJson);
+    expect(() => importPersonas(file([], { version: PERSONA_EXPORT_VERSION + 1 }))).toThrow(en.files.newerVersion);
+  });
+});
+
+describe('normalizePersona', () => {
+  it('keeps the id it was given', () => {
+    expect(normalizePersona({ name: 'Wren' }, 'abc').id).toBe('abc');
+  });
+});
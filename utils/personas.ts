@@ -0,0 +1,144 @@
+import { PersonaConfig, PersonaLibrary, VoiceName } from '../types';
+import { VISUALIZER_THEMES } from './visualizer';
+import { vaultStorage } from './vault';
+import { isDefaultStarterSet, strings } from './i18n';
+import { en } from '../data/locales/en';
+
+const LIBRARY_KEY = 'egomirror_personas_v1';
+const LEGACY_PERSONA_KEY = 'egomirror_persona_v2';
+
+export const PERSONA_EXPORT_VERSION = 1;
+
+export const VOICE_NAMES: VoiceName[] = ['Zephyr', 'Puck', 'Charon', 'Kore', 'Fenrir'];
+
+export const AVATAR_COLORS = ['#6366f1', '#8b5cf6', '#ec4899', '#f43f5e', '#f59e0b', '#10b981', '#06b6d4', '#64748b'];
+
+export const DEFAULT_PERSONA: PersonaConfig = {
+  id: 'default',
+  name: "Ego",
+  instruction: "You are EgoMirror, a gentle and empathetic companion for those who feel lonely, socially anxious, or overwhelmed. Your goal is to provide a safe, non-judgmental sanctuary. You understand that socializing can be draining. When the user speaks, mirror their feelings with deep compassion. Encourage self-kindness. Remind them that it's okay to be quiet, to be an introvert, and to take up space in their own inner world. Do not judge. Use soft, supportive language. Keep responses concise so the conversation feels like a natural flow of thought. If they are silent, don't rush them.",
+  voiceName: 'Kore',
+  avatarColor: '#6366f1',
+  visualTheme: 'aura',
+  starterPrompts: en.starterPrompts,
+  rememberMe: true,
+};
+
+export interface PersonaExport {
+  app: 'egomirror';
+  kind: 'personas';
+  version: number;
+  exportedAt: number;
+  personas: PersonaConfig[];
+}
+
+/**
+ * Fills in defaults for anything missing or malformed in a stored or imported persona.
+ */
+export function normalizePersona(raw: Partial<PersonaConfig>, id: string = raw.id || crypto.randomUUID()): PersonaConfig {
+  return {
+    id,
+    name: typeof raw.name === 'string' && raw.name.trim() ? raw.name.trim() : DEFAULT_PERSONA.name,
+    instruction: typeof raw.instruction === 'string' ? raw.instruction : DEFAULT_PERSONA.instruction,
+    voiceName: VOICE_NAMES.includes(raw.voiceName as VoiceName) ? raw.voiceName as VoiceName : DEFAULT_PERSONA.voiceName,
+    avatarColor: typeof raw.avatarColor === 'string' && /^#[0-9a-f]{6}$/i.test(raw.avatarColor) ? raw.avatarColor : DEFAULT_PERSONA.avatarColor,
+    visualTheme: VISUALIZER_THEMES.some(t => t.id === raw.visualTheme) ? raw.visualTheme! : DEFAULT_PERSONA.visualTheme,
+    rememberMe: typeof raw.rememberMe === 'boolean' ? raw.rememberMe : DEFAULT_PERSONA.rememberMe,
+    starterPrompts: Array.isArray(raw.starterPrompts)
+      ? raw.starterPrompts.filter((p): p is string => typeof p === 'string' && !!p.trim())
+      : [...DEFAULT_PERSONA.starterPrompts],
+  };
+}
+
+/**
+ * Loads the persona library, migrating the single `egomirror_persona_v2` persona on first run.
+ */
+export function loadPersonaLibrary(): PersonaLibrary {
+  try {
+    const saved = vaultStorage.getItem(LIBRARY_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved) as PersonaLibrary;
+      const personas = (parsed.personas || []).map(p => normalizePersona(p));
+      if (personas.length > 0) {
+        const activeId = personas.some(p => p.id === parsed.activeId) ? parsed.activeId : personas[0].id;
+        return { activeId, personas };
+      }
+    }
+
+    const legacy = vaultStorage.getItem(LEGACY_PERSONA_KEY);
+    if (legacy) {
+      const migrated = normalizePersona(JSON.parse(legacy), DEFAULT_PERSONA.id);
+      const library = { activeId: migrated.id, personas: [migrated] };
+      savePersonaLibrary(library);
+      vaultStorage.removeItem(LEGACY_PERSONA_KEY);
+      return library;
+    }
+  } catch {}
+  return { activeId: DEFAULT_PERSONA.id, personas: [DEFAULT_PERSONA] };
+}
+
+export function savePersonaLibrary(library: PersonaLibrary): void {
+  vaultStorage.setItem(LIBRARY_KEY, JSON.stringify(library));
+}
+
+export function getActivePersona(library: PersonaLibrary): PersonaConfig {
+  return library.personas.find(p => p.id === library.activeId) || library.personas[0] || DEFAULT_PERSONA;
+}
+
+export function createPersona(): PersonaConfig {
+  return { ...DEFAULT_PERSONA, id: crypto.randomUUID(), name: strings().personas.newName, starterPrompts: [...strings().starterPrompts] };
+}
+
+export function duplicatePersona(persona: PersonaConfig): PersonaConfig {
+  return { ...persona, id: crypto.randomUUID(), name: strings().personas.copyName(persona.name), starterPrompts: [...persona.starterPrompts] };
+}
+
+/**
+ * Restores a persona's content to `DEFAULT_PERSONA` while keeping its identity.
+ */
+export function resetPersona(persona: PersonaConfig): PersonaConfig {
+  return { ...DEFAULT_PERSONA, id: persona.id, starterPrompts: [...strings().starterPrompts] };
+}
+
+/**
+ * The prompts to offer on the main view. A persona still carrying a built-in
+ * set gets it in the current language.
+ */
+export const starterPromptsFor = (persona: PersonaConfig): string[] =>
+  isDefaultStarterSet(persona.starterPrompts) ? strings().starterPrompts : persona.starterPrompts;
+
+export function exportPersonas(personas: PersonaConfig[]): string {
+  const file: PersonaExport = {
+    app: 'egomirror',
+    kind: 'personas',
+    version: PERSONA_EXPORT_VERSION,
+    exportedAt: Date.now(),
+    personas,
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Parses a persona export file. Imported personas always get fresh ids so
+ * they never overwrite existing ones.
+ */
+export function importPersonas(json: string): PersonaConfig[] {
+  let file: Partial<PersonaExport>;
+  try {
+    file = JSON.parse(json);
+  } catch {
+    throw new Error(strings().files.invalidJson);
+  }
+  if (!isRecord(file) || file.app !== 'egomirror' || file.kind !== 'personas' || !Array.isArray(file.personas)) {
+    throw new Error(strings().files.notPersonas);
+  }
+  if (typeof file.version !== 'number' || file.version > PERSONA_EXPORT_VERSION) {
+    throw new Error(strings().files.newerVersion);
+  }
+  // Anything that isn't a persona object means the file was edited or isn't ours.
+  if (!file.personas.every(isRecord)) throw new Error(strings().files.notPersonas);
+  return file.personas.map(p => normalizePersona(p, crypto.randomUUID()));
+}
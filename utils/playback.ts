@@ -0,0 +1,206 @@
+import { createTimeStretcher, TimeStretcher } from './timeStretch';
+
+export type PlaybackEvent = 'speaking-start' | 'speaking-end';
+
+type PlaybackListener = () => void;
+
+const DEFAULT_FADE_MS = 60;
+// Audio the time stretcher still holds is let out this long before the queue would run dry.
+const FLUSH_MARGIN_MS = 100;
+
+/**
+ * Speeds offered for the mirror's voice. Audio is time-stretched, so the voice keeps its pitch.
+ */
+export const PLAYBACK_RATES = [0.75, 1, 1.25, 1.5];
+
+const clampRate = (rate: number) =>
+  Math.max(PLAYBACK_RATES[0], Math.min(PLAYBACK_RATES[PLAYBACK_RATES.length - 1], rate));
+
+type ScheduledListener = (samples: Float32Array, sampleRate: number, at: number) => void;
+
+/**
+ * Owns the queue of model audio for one session. Chunks are scheduled back to
+ * back on a fade bus, so an interruption can ramp the tail down instead of
+ * cutting it off mid-sample. The bus feeds both the speakers (through the
+ * user's volume) and an analyser for the visualizer. At any speed but normal,
+ * chunks pass through a time stretcher first.
+ */
+export class PlaybackScheduler {
+  /** Post-fade signal, before the user's volume, for visualizers. */
+  readonly analyser: AnalyserNode;
+  /** The user's volume control. */
+  readonly outputGain: GainNode;
+
+  private readonly ctx: AudioContext;
+  private bus: GainNode;
+  private readonly sources = new Set<AudioBufferSourceNode>();
+  private readonly listeners = new Map<PlaybackEvent, Set<PlaybackListener>>();
+  private readonly onScheduled?: ScheduledListener;
+  private nextStartTime = 0;
+  private rate = 1;
+  private stretcher: TimeStretcher | null = null;
+  private flushTimer: ReturnType<typeof setTimeout> | undefined;
+  private isSpeaking = false;
+  private isPaused = false;
+
+  /**
+   * `onScheduled` receives the audio exactly as it will be heard, with the
+   * wall-clock time (ms) it starts at.
+   */
+  constructor(ctx: AudioContext, { volume = 1, playbackRate = 1, onScheduled }: { volume?: number; playbackRate?: number; onScheduled?: ScheduledListener } = {}) {
+    this.ctx = ctx;
+    this.onScheduled = onScheduled;
+    this.analyser = ctx.createAnalyser();
+    this.analyser.fftSize = 256;
+    this.outputGain = ctx.createGain();
+    this.outputGain.gain.value = volume;
+    this.outputGain.connect(ctx.destination);
+    this.rate = clampRate(playbackRate);
+    this.bus = this.createBus();
+  }
+
+  get speaking() { return this.isSpeaking; }
+  get paused() { return this.isPaused; }
+  get volume() { return this.outputGain.gain.value; }
+  get playbackRate() { return this.rate; }
+
+  /**
+   * Queues a chunk after everything already scheduled and returns the
+   * wall-clock time (ms) at which it will start playing.
+   */
+  enqueue(buffer: AudioBuffer): number {
+    const { ctx } = this;
+    this.nextStartTime = Math.max(this.nextStartTime, ctx.currentTime);
+    const startsAt = Date.now() + (this.nextStartTime - ctx.currentTime) * 1000;
+    if (this.rate === 1 && !this.stretcher) {
+      this.schedule(buffer);
+      return startsAt;
+    }
+    this.stretcher ??= createTimeStretcher(this.rate, buffer.sampleRate);
+    this.scheduleSamples(this.stretcher.process(buffer.getChannelData(0)), buffer.sampleRate);
+    // The stretcher keeps the last few milliseconds until more input arrives; if none
+    // does before the queue runs out, they are let out on their own.
+    clearTimeout(this.flushTimer);
+    this.flushTimer = setTimeout(() => this.flushStretcher(), Math.max(0, (this.nextStartTime - ctx.currentTime) * 1000 - FLUSH_MARGIN_MS));
+    return startsAt;
+  }
+
+  /**
+   * Fades out and drops everything queued, e.g. when the user barges in.
+   */
+  interrupt(fadeMs = DEFAULT_FADE_MS) {
+    const { ctx } = this;
+    const old = this.bus;
+    const end = ctx.currentTime + fadeMs / 1000;
+    old.gain.setValueAtTime(old.gain.value, ctx.currentTime);
+    old.gain.linearRampToValueAtTime(0, end);
+    this.sources.forEach(source => {
+      try { source.stop(end); } catch {}
+    });
+    this.sources.clear();
+    this.dropStretcher();
+    setTimeout(() => old.disconnect(), fadeMs + 50);
+    this.bus = this.createBus();
+    this.nextStartTime = 0;
+    this.setSpeaking(false);
+  }
+
+  setVolume(volume: number) {
+    this.outputGain.gain.setTargetAtTime(Math.max(0, Math.min(1, volume)), this.ctx.currentTime, 0.02);
+  }
+
+  /**
+   * Applies to chunks queued from now on; audio already scheduled keeps its speed.
+   */
+  setPlaybackRate(rate: number) {
+    this.rate = clampRate(rate);
+    if (this.stretcher && this.stretcher.rate !== this.rate) {
+      this.flushStretcher();
+      this.dropStretcher();
+    }
+  }
+
+  /** Suspends the output context, so the queue continues where it left off on resume. */
+  async pause() {
+    if (this.isPaused) return;
+    this.isPaused = true;
+    await this.ctx.suspend();
+  }
+
+  async resume() {
+    if (!this.isPaused) return;
+    this.isPaused = false;
+    await this.ctx.resume();
+  }
+
+  on(event: PlaybackEvent, listener: PlaybackListener): () => void {
+    if (!this.listeners.has(event)) this.listeners.set(event, new Set());
+    this.listeners.get(event)!.add(listener);
+    return () => { this.listeners.get(event)?.delete(listener); };
+  }
+
+  /**
+   * Stops playback immediately and detaches from the audio graph.
+   */
+  dispose() {
+    this.sources.forEach(source => {
+      try { source.stop(); } catch {}
+    });
+    this.sources.clear();
+    this.dropStretcher();
+    this.setSpeaking(false);
+    this.listeners.clear();
+    this.bus.disconnect();
+    this.analyser.disconnect();
+    this.outputGain.disconnect();
+    if (this.isPaused) {
+      this.isPaused = false;
+      this.ctx.resume();
+    }
+  }
+
+  private schedule(buffer: AudioBuffer) {
+    const { ctx } = this;
+    this.nextStartTime = Math.max(this.nextStartTime, ctx.currentTime);
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.connect(this.bus);
+    source.onended = () => {
+      if (this.sources.delete(source) && this.sources.size === 0) this.setSpeaking(false);
+    };
+    source.start(this.nextStartTime);
+    this.onScheduled?.(buffer.getChannelData(0), buffer.sampleRate, Date.now() + (this.nextStartTime - ctx.currentTime) * 1000);
+    this.nextStartTime += buffer.duration;
+    this.sources.add(source);
+    this.setSpeaking(true);
+  }
+
+  private scheduleSamples(samples: Float32Array, sampleRate: number) {
+    if (samples.length === 0) return;
+    const buffer = this.ctx.createBuffer(1, samples.length, sampleRate);
+    buffer.copyToChannel(samples, 0);
+    this.schedule(buffer);
+  }
+
+  private flushStretcher() {
+    if (this.stretcher) this.scheduleSamples(this.stretcher.flush(), this.stretcher.sampleRate);
+  }
+
+  private dropStretcher() {
+    clearTimeout(this.flushTimer);
+    this.stretcher = null;
+  }
+
+  private createBus(): GainNode {
+    const bus = this.ctx.createGain();
+    bus.connect(this.outputGain);
+    bus.connect(this.analyser);
+    return bus;
+  }
+
+  private setSpeaking(speaking: boolean) {
+    if (speaking === this.isSpeaking) return;
+    this.isSpeaking = speaking;
+    this.listeners.get(speaking ? 'speaking-start' : 'speaking-end')?.forEach(listener => listener());
+  }
+}
@@ -0,0 +1,55 @@
+import { AppPreferences } from '../types';
+import { DEFAULT_VAD_OPTIONS } from './vad';
+import { DEFAULT_TOOL_PERMISSIONS } from './tools';
+import { vaultStorage } from './vault';
+import { PLAYBACK_RATES } from './playback';
+
+const PREFS_KEY = 'egomirror_prefs_v1';
+
+export const DEFAULT_PREFERENCES: AppPreferences = {
+  language: null,
+  textReplies: false,
+  safetyAddendum: true,
+  supportRegion: null,
+  recordAudio: false,
+  moodCheckIns: true,
+  inputMode: 'vad',
+  vadThresholdDb: DEFAULT_VAD_OPTIONS.thresholdDb,
+  vadHangoverMs: DEFAULT_VAD_OPTIONS.hangoverMs,
+  pushToTalkKey: 'Space',
+  inputDeviceId: null,
+  outputDeviceId: null,
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+  inputGain: 1,
+  playbackVolume: 1,
+  playbackRate: 1,
+  visualizerMode: 'rays',
+  showCaptions: true,
+  captionSize: 'medium',
+  toolPermissions: DEFAULT_TOOL_PERMISSIONS,
+  dailyReminders: [],
+};
+
+/**
+ * Reads saved preferences, filling in defaults for anything missing.
+ */
+export function loadPreferences(): AppPreferences {
+  try {
+    const saved = vaultStorage.getItem(PREFS_KEY);
+    if (!saved) return DEFAULT_PREFERENCES;
+    const parsed = JSON.parse(saved);
+    // Merged one level deeper so tools added later start from their defaults.
+    const prefs: AppPreferences = { ...DEFAULT_PREFERENCES, ...parsed, toolPermissions: { ...DEFAULT_TOOL_PERMISSIONS, ...parsed.toolPermissions } };
+    // Speeds that are no longer offered go back to normal.
+    if (!PLAYBACK_RATES.includes(prefs.playbackRate)) prefs.playbackRate = DEFAULT_PREFERENCES.playbackRate;
+    return prefs;
+  } catch {
+    return DEFAULT_PREFERENCES;
+  }
+}
+
+export function savePreferences(prefs: AppPreferences): void {
+  vaultStorage.setItem(PREFS_KEY, JSON.stringify(prefs));
+}
@@ -0,0 +1,60 @@
+const REMINDER_PARAM = 'reminder';
+
+// A reminder opened before the app could act on it, e.g. while the vault was still locked.
+let openedReminder: string | null = null;
+const listeners = new Set<(reminderId: string) => void>();
+
+/** The address a reminder notification opens. */
+export const reminderLaunchUrl = (reminderId: string) => `/?${REMINDER_PARAM}=${encodeURIComponent(reminderId)}`;
+
+/**
+ * Hands a reminder the person opened to the app, or keeps it until the app subscribes.
+ */
+export function openReminder(reminderId: string): void {
+  if (listeners.size === 0) {
+    openedReminder = reminderId;
+    return;
+  }
+  listeners.forEach(listener => listener(reminderId));
+}
+
+/** Returns and forgets the reminder opened before anything was listening. */
+export function takeOpenedReminder(): string | null {
+  const id = openedReminder;
+  openedReminder = null;
+  return id;
+}
+
+export function onReminderOpened(listener: (reminderId: string) => void): () => void {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+/**
+ * Picks up a reminder the app was launched from, and removes it from the
+ * address so reloading doesn't start another session.
+ */
+function readLaunchReminder(): void {
+  const url = new URL(window.location.href);
+  const id = url.searchParams.get(REMINDER_PARAM);
+  if (!id) return;
+  url.searchParams.delete(REMINDER_PARAM);
+  window.history.replaceState(null, '', url.pathname + url.search + url.hash);
+  openReminder(id);
+}
+
+/**
+ * Registers the service worker that keeps the app shell available offline and
+ * routes reminder notification clicks back to an open window. Production
+ * builds only, so it never serves stale modules to the dev server.
+ */
+export function registerServiceWorker(): void {
+  readLaunchReminder();
+  if (process.env.SERVICE_WORKER !== 'on' || !('serviceWorker' in navigator)) return;
+  navigator.serviceWorker.addEventListener('message', (event: MessageEvent) => {
+    if (event.data?.type === 'open-reminder' && typeof event.data.reminderId === 'string') openReminder(event.data.reminderId);
+  });
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(err => console.warn('Could not register the service worker', err));
+  });
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { createSessionRecorder, RECORDING_SAMPLE_RATE, SessionRecorder } from './recorder';
+
+const SECOND = 1000;
+
+const chunk = (seconds: number, sampleRate: number, level: number) =>
+  Int16Array.from({ length: seconds * sampleRate }, (_, i) => Math.round(level * Math.sin(i / 7)));
+
+/**
+ * A minute of conversation: the person speaks at 16 kHz, the mirror answers at
+ * 24 kHz, and each chunk arrives as it starts. `clock` is moved along with it.
+ */
+const converse = (recorder: SessionRecorder, clock = { now: 0 }) => {
+  for (let s = 0; s < 60; s += 4) {
+    clock.now = recorder.startedAt + s * SECOND;
+    recorder.addUserAudio(chunk(2, 16000, 8000), 16000, clock.now);
+    clock.now += 1.5 * SECOND;
+    recorder.addModelAudio(chunk(2, 24000, 6000), 24000, clock.now);
+  }
+};
+
+const samples = async (recorder: SessionRecorder) => {
+  const { blob } = recorder.finish();
+  return new Int16Array((await blob.arrayBuffer()).slice(44));
+};
+
+describe('createSessionRecorder', () => {
+  it('writes a WAV file as long as the session', async () => {
+    const recorder = createSessionRecorder(Date.now());
+    converse(recorder);
+    const { blob, durationMs } = recorder.finish();
+    const view = new DataView(await blob.arrayBuffer());
+    expect(durationMs).toBe(59.5 * SECOND);
+    expect(view.getUint32(24, true)).toBe(RECORDING_SAMPLE_RATE);
+    expect(view.getUint32(40, true)).toBe(59.5 * RECORDING_SAMPLE_RATE * 2);
+    expect(blob.size).toBe(44 + 59.5 * RECORDING_SAMPLE_RATE * 2);
+  });
+
+  it('mixes the same recording when it encodes settled audio along the way', async () => {
+    const clock = { now: 0 };
+    const encodedEarly = createSessionRecorder(0, () => clock.now);
+    // A clock that never moves keeps every chunk raw until the end.
+    const encodedAtEnd = createSessionRecorder(0, () => 0);
+    converse(encodedEarly, clock);
+    converse(encodedAtEnd);
+    const early = await samples(encodedEarly);
+    const atEnd = await samples(encodedAtEnd);
+    expect(early).toHaveLength(atEnd.length);
+    // Compared by hand; a deep equality over a minute of samples is very slow.
+    expect(early.findIndex((s, i) => s !== atEnd[i])).toBe(-1);
+  });
+
+  it('leaves out model audio cut off by a barge-in', async () => {
+    const recorder = createSessionRecorder(Date.now());
+    recorder.addModelAudio(chunk(2, 24000, 6000), 24000, recorder.startedAt);
+    recorder.truncateModelAudio(recorder.startedAt + SECOND);
+    const pcm = await samples(recorder);
+    expect(pcm).toHaveLength(RECORDING_SAMPLE_RATE);
+  });
+
+  it('is empty until audio arrives', () => {
+    const recorder = createSessionRecorder();
+    expect(recorder.isEmpty()).toBe(true);
+    recorder.addUserAudio(chunk(1, 16000, 100), 16000, recorder.startedAt);
+    expect(recorder.isEmpty()).toBe(false);
+  });
+});
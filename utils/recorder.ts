@@ -0,0 +1,138 @@
+import { floatToPcm16 } from './audio';
+
+export const RECORDING_SAMPLE_RATE = 24000;
+
+interface RecordedChunk {
+  /** Wall-clock time (ms) at which the chunk starts. */
+  at: number;
+  pcm: Int16Array;
+  sampleRate: number;
+}
+
+export interface SessionRecorder {
+  readonly startedAt: number;
+  addUserAudio: (pcm: Int16Array, sampleRate: number, at: number) => void;
+  addModelAudio: (pcm: Int16Array, sampleRate: number, at: number) => void;
+  /** Drops model audio scheduled after `at`, mirroring playback being cut off on barge-in. */
+  truncateModelAudio: (at: number) => void;
+  isEmpty: () => boolean;
+  /** Mixes both sides into a single mono WAV file. */
+  finish: () => { blob: Blob; durationMs: number };
+}
+
+// The mix is encoded in blocks of about this length as the session goes on, so a long
+// session never holds more than a few seconds of raw audio in memory.
+const ENCODE_INTERVAL_MS = 5000;
+// Audio this recent is left raw: a chunk can still arrive late, or be cut off on barge-in.
+const SETTLE_MS = 2000;
+
+/**
+ * Wraps mono 16-bit PCM in a WAV file.
+ */
+export function encodeWav(data: Blob, sampleRate: number): Blob {
+  const header = new ArrayBuffer(44);
+  const view = new DataView(header);
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+  };
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + data.size, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, data.size, true);
+  return new Blob([header, data], { type: 'audio/wav' });
+}
+
+/** Sample of the mix at which a chunk starts. */
+const startSample = (chunk: RecordedChunk, origin: number) =>
+  Math.round(((chunk.at - origin) / 1000) * RECORDING_SAMPLE_RATE);
+
+/** Length of a chunk once resampled to the mix rate. */
+const mixedLength = (chunk: RecordedChunk) => Math.floor(chunk.pcm.length * RECORDING_SAMPLE_RATE / chunk.sampleRate);
+
+/**
+ * Adds the part of a chunk that falls in a block of the mix, linearly resampling
+ * it to the mix rate. `blockStart` is the block's first sample within the mix.
+ */
+function mixInto(block: Float32Array, blockStart: number, chunk: RecordedChunk, origin: number) {
+  const offset = startSample(chunk, origin) - blockStart;
+  const ratio = chunk.sampleRate / RECORDING_SAMPLE_RATE;
+  const from = Math.max(0, -offset);
+  const to = Math.min(mixedLength(chunk), block.length - offset);
+  for (let i = from; i < to; i++) {
+    const pos = i * ratio;
+    const index = Math.floor(pos);
+    const next = Math.min(index + 1, chunk.pcm.length - 1);
+    const sample = chunk.pcm[index] + (chunk.pcm[next] - chunk.pcm[index]) * (pos - index);
+    block[offset + i] += sample / 32768;
+  }
+}
+
+/**
+ * Records both sides of a session with wall-clock timestamps, so the mixed
+ * recording lines up with `Message.timestamp`. Audio older than a couple of
+ * seconds is mixed and encoded as it goes; only the recent chunks stay raw.
+ */
+export function createSessionRecorder(startedAt: number = Date.now(), now: () => number = Date.now): SessionRecorder {
+  let user: RecordedChunk[] = [];
+  let model: RecordedChunk[] = [];
+  const encoded: Blob[] = [];
+  // Samples of the mix already encoded; chunks are only kept for what comes after.
+  let encodedSamples = 0;
+  let lastEncodeAt = startedAt;
+
+  const chunkEnd = (c: RecordedChunk) => c.at + (c.pcm.length / c.sampleRate) * 1000;
+  const chunkEndSample = (c: RecordedChunk) => startSample(c, startedAt) + mixedLength(c);
+
+  /** Mixes and encodes everything up to sample `until` of the mix, then drops the chunks it used up. */
+  const encodeUntil = (until: number) => {
+    if (until <= encodedSamples) return;
+    const block = new Float32Array(until - encodedSamples);
+    [...user, ...model].forEach(c => mixInto(block, encodedSamples, c, startedAt));
+    encoded.push(new Blob([floatToPcm16(block)]));
+    encodedSamples = until;
+    user = user.filter(c => chunkEndSample(c) > encodedSamples);
+    model = model.filter(c => chunkEndSample(c) > encodedSamples);
+  };
+
+  const encodeSettled = () => {
+    const at = now();
+    if (at - lastEncodeAt < ENCODE_INTERVAL_MS) return;
+    lastEncodeAt = at;
+    encodeUntil(Math.floor(((at - SETTLE_MS - startedAt) / 1000) * RECORDING_SAMPLE_RATE));
+  };
+
+  return {
+    startedAt,
+    addUserAudio: (pcm, sampleRate, at) => {
+      user.push({ at, pcm, sampleRate });
+      encodeSettled();
+    },
+    addModelAudio: (pcm, sampleRate, at) => {
+      model.push({ at, pcm, sampleRate });
+      encodeSettled();
+    },
+    truncateModelAudio: (at) => {
+      model = model.flatMap(c => {
+        if (c.at >= at) return [];
+        if (chunkEnd(c) <= at) return [c];
+        const keep = Math.floor(((at - c.at) / 1000) * c.sampleRate);
+        return [{ ...c, pcm: c.pcm.slice(0, keep) }];
+      });
+    },
+    isEmpty: () => encodedSamples === 0 && user.length === 0 && model.length === 0,
+    finish: () => {
+      encodeUntil([...user, ...model].reduce((max, c) => Math.max(max, chunkEndSample(c)), encodedSamples));
+      const durationMs = (encodedSamples / RECORDING_SAMPLE_RATE) * 1000;
+      return { blob: encodeWav(new Blob(encoded), RECORDING_SAMPLE_RATE), durationMs };
+    },
+  };
+}
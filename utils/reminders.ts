@@ -0,0 +1,135 @@
+import { DailyReminder } from '../types';
+import { vaultStorage } from './vault';
+import { strings } from './i18n';
+import { openReminder, reminderLaunchUrl } from './pwa';
+
+export interface CheckInReminder {
+  id: string;
+  dueAt: number;
+  note: string;
+  createdAt: number;
+}
+
+const REMINDERS_KEY = 'egomirror_reminders_v1';
+// When each daily reminder last came due, by id.
+const DAILY_FIRED_KEY = 'egomirror_daily_reminders_v1';
+
+/** A daily reminder missed by more than this, e.g. with the app closed all evening, is skipped rather than shown late. */
+export const DAILY_LATE_MS = 60 * 60000;
+
+/** Reminders further out than this are clamped; the mirror is a companion, not a calendar. */
+export const MAX_REMINDER_MINUTES = 7 * 24 * 60;
+
+export function loadReminders(): CheckInReminder[] {
+  try {
+    const saved = vaultStorage.getItem(REMINDERS_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveReminders(reminders: CheckInReminder[]): void {
+  vaultStorage.setItem(REMINDERS_KEY, JSON.stringify(reminders));
+}
+
+export function scheduleReminder(minutesFromNow: number, note: string): CheckInReminder {
+  const minutes = Math.max(1, Math.min(MAX_REMINDER_MINUTES, Math.round(minutesFromNow)));
+  const now = Date.now();
+  const reminder: CheckInReminder = { id: crypto.randomUUID(), dueAt: now + minutes * 60000, note, createdAt: now };
+  saveReminders([...loadReminders(), reminder]);
+  return reminder;
+}
+
+/**
+ * Removes and returns every reminder that has come due, including ones missed while the app was closed.
+ */
+export function takeDueReminders(now = Date.now()): CheckInReminder[] {
+  const reminders = loadReminders();
+  const due = reminders.filter(r => r.dueAt <= now);
+  if (due.length) saveReminders(reminders.filter(r => r.dueAt > now));
+  return due;
+}
+
+/**
+ * Shows a notification through the service worker where there is one, so it
+ * works on mobile and clicking it can reopen the app. Resolves to false without
+ * permission so the caller can fall back to an in-app notice.
+ */
+async function showNotification(title: string, body: string, tag: string, reminderId?: string): Promise<boolean> {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return false;
+  const url = reminderId ? reminderLaunchUrl(reminderId) : '/';
+  try {
+    const registration = await navigator.serviceWorker?.getRegistration();
+    if (registration) {
+      await registration.showNotification(title, { body, tag, icon: '/icon.svg', data: { url } });
+      return true;
+    }
+    const notification = new Notification(title, { body, tag, icon: '/icon.svg' });
+    notification.onclick = () => {
+      window.focus();
+      notification.close();
+      if (reminderId) openReminder(reminderId);
+    };
+    return true;
+  } catch {
+    // Some mobile browsers only allow notifications from a service worker.
+    return false;
+  }
+}
+
+export const notifyReminder = (reminder: CheckInReminder): Promise<boolean> =>
+  showNotification('EgoMirror', reminder.note, reminder.id);
+
+export const notifyDailyReminder = (reminder: DailyReminder): Promise<boolean> =>
+  showNotification(reminder.label || 'EgoMirror', reminder.starterPrompt || strings().reminderBody, reminder.id, reminder.id);
+
+/** The latest time at or before `now` that a reminder set for `time` was due. */
+export function lastDailyOccurrence(time: string, now = Date.now()): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  const occurrence = new Date(now);
+  occurrence.setHours(hours || 0, minutes || 0, 0, 0);
+  if (occurrence.getTime() > now) occurrence.setDate(occurrence.getDate() - 1);
+  return occurrence.getTime();
+}
+
+function loadDailyFired(): Record<string, number> {
+  try {
+    const saved = vaultStorage.getItem(DAILY_FIRED_KEY);
+    return saved ? JSON.parse(saved) : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Returns the daily reminders that have come due since they were last shown.
+ * A reminder seen for the first time only starts counting from now, so adding
+ * one in the evening for the morning doesn't go off straight away.
+ */
+export function takeDueDailyReminders(reminders: DailyReminder[], now = Date.now()): DailyReminder[] {
+  const fired = loadDailyFired();
+  const next: Record<string, number> = {};
+  const due: DailyReminder[] = [];
+  for (const reminder of reminders) {
+    const last = fired[reminder.id];
+    next[reminder.id] = last ?? now;
+    if (!reminder.enabled || last === undefined) continue;
+    const occurrence = lastDailyOccurrence(reminder.time, now);
+    if (occurrence <= last) continue;
+    next[reminder.id] = now;
+    if (now - occurrence <= DAILY_LATE_MS) due.push(reminder);
+  }
+  // Ids of deleted reminders drop out here.
+  if (JSON.stringify(next) !== JSON.stringify(fired)) vaultStorage.setItem(DAILY_FIRED_KEY, JSON.stringify(next));
+  return due;
+}
+
+/**
+ * Asks for notification permission if it hasn't been decided yet. Failure just
+ * means reminders appear inside the app.
+ */
+export function requestReminderPermission(): void {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'default') return;
+  Notification.requestPermission().catch(() => undefined);
+}
@@ -0,0 +1,158 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SAFETY_RULES } from '../data/safetyRules';
+import { createRuleChecker, normalizeForSafety, resolveSupportRegion } from './safety';
+
+const checker = createRuleChecker(DEFAULT_SAFETY_RULES);
+const ruleFor = (text: string, locale = 'en-US') => checker.check(text, locale)?.ruleId ?? null;
+
+describe('normalizeForSafety', () => {
+  it('lowercases and drops accents, punctuation and extra spaces', () => {
+    expect(normalizeForSafety('  Je veux   MOURIR... vraiment!  ')).toBe('je veux mourir vraiment');
+    expect(normalizeForSafety('Mettre fin à mes jours')).toBe('mettre fin a mes jours');
+  });
+
+  it('drops Arabic hamza and vowel marks and Hebrew niqqud', () => {
+    expect(normalizeForSafety('أُرِيدُ أَنْ أَمُوتَ')).toBe('اريد ان اموت');
+    expect(normalizeForSafety('שָׁלוֹם')).toBe('שלום');
+  });
+
+  it('straightens curly apostrophes', () => {
+    expect(normalizeForSafety('I don’t want to live')).toBe("i don't want to live");
+  });
+});
+
+describe('default safety rules', () => {
+  describe('suicidal intent', () => {
+    it.each([
+      'I want to kill myself',
+      'I wanna die',
+      'i just wanna die tbh',
+      'Sometimes I really want to die.',
+      "I'm going to end my life tonight",
+      'Honestly, wanna die',
+      'I wish I was dead',
+      "I've been thinking about suicide a lot",
+      "I'm seriously considering suicide",
+      "I've been feeling suicidal",
+      'I feel suicidal again',
+      "I don't want to be alive anymore",
+      'I don’t want to wake up tomorrow',
+      "I'm ready to end it all",
+      'Everyone would be better off dead without me, me included',
+      "There's no reason to live",
+    ])('flags "%s"', (text) => {
+      expect(checker.check(text, 'en-US')).toEqual({ ruleId: 'suicide-intent', severity: 'crisis' });
+    });
+
+    it.each([
+      'Suicide prevention matters to me',
+      'We watched the Suicide Squad movie',
+      'I watched the Suicide Squad movie last night',
+      'My sister volunteers for a suicide hotline',
+      'I read an article about suicide rates',
+      "I don't want to die",
+      'I do not want to die yet, there is so much left to see',
+      "I'm not suicidal, just tired",
+      "I'm gonna die of embarrassment",
+      'I was going to die laughing at that',
+      'Plants want to die in my apartment',
+      'The battery is about to die',
+    ])('lets "%s" through', (text) => {
+      expect(ruleFor(text)).toBeNull();
+    });
+  });
+
+  describe('self-harm', () => {
+    it.each(['I want to hurt myself', 'I cut myself again last night', 'thinking about self-harm'])('flags "%s"', (text) => {
+      expect(ruleFor(text)).toBe('self-harm');
+    });
+
+    it('lets a scraped knee through', () => {
+      expect(ruleFor('I scraped my knee on the bike')).toBeNull();
+    });
+  });
+
+  describe('unsafe situations', () => {
+    it.each(["I'm not safe at home", 'He hits me when he drinks', 'I am afraid for my life'])('raises a concern for "%s"', (text) => {
+      expect(checker.check(text, 'en-GB')).toEqual({ ruleId: 'unsafe-situation', severity: 'concern' });
+    });
+
+    it('lets crisis win when both match', () => {
+      expect(ruleFor("He hits me and I want to kill myself")).toBe('suicide-intent');
+    });
+
+    it('lets a game of catch through', () => {
+      expect(ruleFor('She hit the ball to me')).toBeNull();
+    });
+  });
+
+  describe('other languages', () => {
+    it.each([
+      ['es-MX', 'Ya no quiero vivir', 'suicide-intent-es'],
+      ['es', 'Estoy pensando en el suicidio', 'suicide-intent-es'],
+      ['es', 'Quiero morir', 'suicide-intent-es'],
+      ['es', 'Me quiero morir', 'suicide-intent-es'],
+      ['es', 'De verdad ya quiero morirme', 'suicide-intent-es'],
+      ['fr-FR', 'Je veux mourir', 'suicide-intent-fr'],
+      ['fr', 'Je pense au suicide depuis des semaines', 'suicide-intent-fr'],
+      ['fr', 'Je veux vraiment mourir', 'suicide-intent-fr'],
+      ['fr', 'Des fois je veux juste crever', 'suicide-intent-fr'],
+      ['de-DE', 'Ich will sterben', 'suicide-intent-de'],
+      ['de', 'Ich habe Suizidgedanken', 'suicide-intent-de'],
+      ['ar', 'أريد أن أموت', 'suicide-intent-ar'],
+      ['ar', 'والله اريد ان اموت', 'suicide-intent-ar'],
+      ['ar', 'صرت افكر في الانتحار كل يوم', 'suicide-intent-ar'],
+      ['ar', 'بدي انتحر', 'suicide-intent-ar'],
+      ['he-IL', 'אני רוצה למות', 'suicide-intent-he'],
+      ['he', 'אני כבר לא רוצה לחיות', 'suicide-intent-he'],
+      ['he', 'יש לי מחשבות אובדניות', 'suicide-intent-he'],
+    ])('flags %s "%s"', (locale, text, ruleId) => {
+      expect(ruleFor(text, locale)).toBe(ruleId);
+    });
+
+    it.each([
+      ['es', 'La prevención del suicidio es importante'],
+      ['es', 'No quiero morir'],
+      ['es', 'Yo nunca quiero morir solo'],
+      ['es', 'No me quiero morir'],
+      ['es', 'no quiero morirme de hambre'],
+      ['es', 'Me quiero morir de vergüenza'],
+      ['es', 'Quiero morir de risa con este video'],
+      ['fr', 'La prévention du suicide me tient à cœur'],
+      ['fr', 'Je ne veux mourir'],
+      ['fr', 'Je ne veux pas mourir'],
+      ['fr', 'Je veux mourir de rire'],
+      ['fr', 'Je veux mourir d’ennui en réunion'],
+      ['de', 'Ein Film über Suizidprävention'],
+      ['de', 'Die Selbstmordrate ist gesunken'],
+      ['ar', 'الوقاية من الانتحار مهمة'],
+      ['ar', 'لا اريد ان اموت'],
+      ['ar', 'ما بدي موت'],
+      ['he', 'מניעת התאבדות חשובה לי'],
+      ['he', 'אני לא רוצה למות'],
+    ])('lets %s "%s" through', (locale, text) => {
+      expect(ruleFor(text, locale)).toBeNull();
+    });
+
+    it('only applies rules written for the language', () => {
+      expect(ruleFor('I want to kill myself', 'de-DE')).toBeNull();
+      expect(ruleFor('Je veux mourir', 'en-US')).toBeNull();
+    });
+  });
+
+  it('ignores empty text', () => {
+    expect(checker.check(' ... ', 'en')).toBeNull();
+  });
+});
+
+describe('resolveSupportRegion', () => {
+  it('uses the region of the locale, then an override', () => {
+    expect(resolveSupportRegion('en-GB').code).toBe('GB');
+    expect(resolveSupportRegion('en-GB', 'US').code).toBe('US');
+  });
+
+  it('falls back to international resources', () => {
+    expect(resolveSupportRegion('en').code).toBe('INTL');
+    expect(resolveSupportRegion('xx-ZZ').code).toBe('INTL');
+  });
+});
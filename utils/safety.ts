@@ -0,0 +1,120 @@
+import { SUPPORT_REGIONS, INTERNATIONAL_REGION, SupportRegion } from '../data/hotlines';
+import { vaultStorage } from './vault';
+
+export type SafetySeverity = 'concern' | 'crisis';
+
+export interface SafetyRule {
+  id: string;
+  /** Language prefixes such as 'en' or 'es'; '*' applies the rule everywhere. */
+  locales: string[];
+  severity: SafetySeverity;
+  /** Literal phrases, matched on word boundaries. */
+  phrases?: string[];
+  /** Regular expression sources, matched against normalized text. */
+  patterns?: string[];
+}
+
+export interface SafetyMatch {
+  ruleId: string;
+  severity: SafetySeverity;
+}
+
+/**
+ * Anything that can screen user text. The rule-based checker is the default;
+ * a different implementation can be passed to the app without touching callers.
+ */
+export interface SafetyChecker {
+  check: (text: string, locale: string) => SafetyMatch | null;
+}
+
+export interface SafetyEvent extends SafetyMatch {
+  id: string;
+  sessionId: string;
+  source: 'voice' | 'text';
+  timestamp: number;
+}
+
+const SAFETY_LOG_KEY = 'egomirror_safety_log_v1';
+const SAFETY_LOG_LIMIT = 200;
+
+export const SAFETY_ADDENDUM = "The user may be in distress or at risk. For the rest of this conversation, stay calm, warm and present. Gently acknowledge what they shared, ask whether they are safe right now, and encourage them to reach out to a crisis line, emergency services or someone they trust. Do not diagnose, lecture or change the subject, and never provide information that could be used for self-harm.";
+
+/**
+ * Lowercases, strips accents and punctuation, and collapses whitespace so rules
+ * only have to be written in one form. Arabic hamza and vowel marks and Hebrew
+ * niqqud are stripped like accents, since most people type without them.
+ */
+export function normalizeForSafety(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/[\u2018\u2019\u02bc`]/g, "'")
+    .replace(/[^\p{L}\p{N}' ]+/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const appliesTo = (rule: SafetyRule, locale: string) => {
+  const language = locale.toLowerCase().split(/[-_]/)[0];
+  return rule.locales.some(l => l === '*' || l.toLowerCase() === language);
+};
+
+/**
+ * Builds a checker from a rule set. Crisis rules win over concern rules when both match.
+ */
+export function createRuleChecker(rules: SafetyRule[]): SafetyChecker {
+  const compiled = rules.map(rule => ({
+    rule,
+    regexes: [
+      ...(rule.phrases || []).map(p => new RegExp(`(^| )${escapeRegExp(normalizeForSafety(p))}($| )`)),
+      ...(rule.patterns || []).map(p => new RegExp(p)),
+    ],
+  }));
+
+  return {
+    check: (text, locale) => {
+      const normalized = normalizeForSafety(text);
+      if (!normalized) return null;
+      let match: SafetyMatch | null = null;
+      for (const { rule, regexes } of compiled) {
+        if (!appliesTo(rule, locale) || !regexes.some(r => r.test(normalized))) continue;
+        if (rule.severity === 'crisis') return { ruleId: rule.id, severity: rule.severity };
+        match = match || { ruleId: rule.id, severity: rule.severity };
+      }
+      return match;
+    },
+  };
+}
+
+/**
+ * Picks the support region for a locale such as 'en-GB', falling back to international resources.
+ */
+export function resolveSupportRegion(locale: string, override?: string | null): SupportRegion {
+  const code = (override || locale.split(/[-_]/)[1] || '').toUpperCase();
+  return SUPPORT_REGIONS.find(r => r.code === code) || INTERNATIONAL_REGION;
+}
+
+/**
+ * Appends a safety event to the on-device log. Only the rule id is kept, never the user's words.
+ */
+export function logSafetyEvent(event: SafetyEvent): void {
+  try {
+    const log = loadSafetyLog();
+    log.push(event);
+    vaultStorage.setItem(SAFETY_LOG_KEY, JSON.stringify(log.slice(-SAFETY_LOG_LIMIT)));
+  } catch (err) {
+    console.error('Failed to log safety event', err);
+  }
+}
+
+export function loadSafetyLog(): SafetyEvent[] {
+  try {
+    const saved = vaultStorage.getItem(SAFETY_LOG_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch {
+    return [];
+  }
+}
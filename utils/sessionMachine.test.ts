@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest';
+import { SessionState } from '../types';
+import { ConnectionStatus } from './connection';
+import { INITIAL_SESSION, SessionMachine, canStartSession, sessionReducer } from './sessionMachine';
+
+const at = (state: SessionState, error: string | null = null): SessionMachine => ({ state, sessionId: 's1', error });
+
+describe('sessionReducer', () => {
+  describe('start', () => {
+    it('connects a new session from rest', () => {
+      expect(sessionReducer(INITIAL_SESSION, { type: 'start', sessionId: 's1' }))
+        .toEqual({ state: 'connecting', sessionId: 's1', error: null });
+    });
+
+    it('starts over after an error and clears it', () => {
+      expect(sessionReducer(at('error', 'Lost the line.'), { type: 'start', sessionId: 's2' }))
+        .toEqual({ state: 'connecting', sessionId: 's2', error: null });
+    });
+
+    it.each<SessionState>(['connecting', 'connected', 'reconnecting'])('returns the same state while %s', (state) => {
+      const machine = at(state);
+      expect(canStartSession(machine)).toBe(false);
+      expect(sessionReducer(machine, { type: 'start', sessionId: 's2' })).toBe(machine);
+    });
+  });
+
+  describe('status', () => {
+    const allowed: [SessionState, ConnectionStatus][] = [
+      ['connecting', 'connected'],
+      ['connected', 'reconnecting'],
+      ['reconnecting', 'connected'],
+    ];
+    const disallowed: [SessionState, ConnectionStatus][] = [
+      ['connecting', 'connecting'],
+      ['connecting', 'reconnecting'],
+      ['connected', 'connecting'],
+      ['connected', 'connected'],
+      ['reconnecting', 'connecting'],
+      ['reconnecting', 'reconnecting'],
+      ['disconnected', 'connecting'],
+      ['disconnected', 'connected'],
+      ['disconnected', 'reconnecting'],
+      ['error', 'connecting'],
+      ['error', 'connected'],
+      ['error', 'reconnecting'],
+    ];
+
+    it.each(allowed)('moves from %s to %s', (from, status) => {
+      expect(sessionReducer(at(from), { type: 'status', sessionId: 's1', status }).state).toBe(status);
+    });
+
+    it.each(disallowed)('ignores %s to %s', (from, status) => {
+      const machine = at(from);
+      expect(sessionReducer(machine, { type: 'status', sessionId: 's1', status })).toBe(machine);
+    });
+
+    it('clears the error left by a drop once reconnected', () => {
+      expect(sessionReducer(at('reconnecting', 'Reconnecting...'), { type: 'status', sessionId: 's1', status: 'connected' }).error)
+        .toBeNull();
+    });
+
+    it('keeps a notice given while first connecting', () => {
+      expect(sessionReducer(at('connecting', 'Writing instead.'), { type: 'status', sessionId: 's1', status: 'connected' }).error)
+        .toBe('Writing instead.');
+    });
+  });
+
+  describe('notice', () => {
+    it('shows the message without ending the session', () => {
+      expect(sessionReducer(at('connected'), { type: 'notice', sessionId: 's1', message: 'Writing instead.' }))
+        .toEqual(at('connected', 'Writing instead.'));
+    });
+
+    it('returns the same state for a repeated message', () => {
+      const machine = at('connected', 'Writing instead.');
+      expect(sessionReducer(machine, { type: 'notice', sessionId: 's1', message: 'Writing instead.' })).toBe(machine);
+    });
+
+    it('is ignored once the session has ended', () => {
+      const machine = at('disconnected');
+      expect(sessionReducer(machine, { type: 'notice', sessionId: 's1', message: 'Writing instead.' })).toBe(machine);
+    });
+  });
+
+  describe('fail', () => {
+    it.each<SessionState>(['connecting', 'connected', 'reconnecting'])('ends a %s session with the message', (state) => {
+      expect(sessionReducer(at(state), { type: 'fail', sessionId: 's1', message: 'Lost the line.' }))
+        .toEqual(at('error', 'Lost the line.'));
+    });
+
+    it('keeps the first failure', () => {
+      const machine = at('error', 'Lost the line.');
+      expect(sessionReducer(machine, { type: 'fail', sessionId: 's1', message: 'Something else.' })).toBe(machine);
+    });
+  });
+
+  describe('stop', () => {
+    it.each<SessionState>(['connecting', 'connected', 'reconnecting'])('ends a %s session', (state) => {
+      expect(sessionReducer(at(state), { type: 'stop', sessionId: 's1' }).state).toBe('disconnected');
+    });
+
+    it('keeps a notice on screen after stopping', () => {
+      expect(sessionReducer(at('connected', 'Writing instead.'), { type: 'stop', sessionId: 's1' }).error).toBe('Writing instead.');
+    });
+
+    it('returns the same state when stopped twice', () => {
+      const stopped = sessionReducer(at('connected'), { type: 'stop', sessionId: 's1' });
+      expect(sessionReducer(stopped, { type: 'stop', sessionId: 's1' })).toBe(stopped);
+    });
+
+    it('is a no-op for the close that follows a failure', () => {
+      const failed = sessionReducer(at('connected'), { type: 'fail', sessionId: 's1', message: 'Lost the line.' });
+      expect(sessionReducer(failed, { type: 'stop', sessionId: 's1' })).toBe(failed);
+    });
+  });
+
+  describe('stale events', () => {
+    const machine = at('connected');
+
+    it.each<[string, Parameters<typeof sessionReducer>[1]]>([
+      ['status', { type: 'status', sessionId: 'old', status: 'reconnecting' }],
+      ['notice', { type: 'notice', sessionId: 'old', message: 'Writing instead.' }],
+      ['fail', { type: 'fail', sessionId: 'old', message: 'Lost the line.' }],
+      ['stop', { type: 'stop', sessionId: 'old' }],
+    ])('ignores %s from an earlier session', (_, event) => {
+      expect(sessionReducer(machine, event)).toBe(machine);
+    });
+
+    it('ignores a late close from the previous session after a restart', () => {
+      const first = sessionReducer(INITIAL_SESSION, { type: 'start', sessionId: 'a' });
+      const stopped = sessionReducer(first, { type: 'stop', sessionId: 'a' });
+      const second = sessionReducer(stopped, { type: 'start', sessionId: 'b' });
+      expect(sessionReducer(second, { type: 'fail', sessionId: 'a', message: 'Closed.' })).toBe(second);
+    });
+  });
+});
@@ -0,0 +1,63 @@
+import { SessionState } from '../types';
+import { ConnectionStatus } from './connection';
+
+export interface SessionMachine {
+  state: SessionState;
+  /** The session the state belongs to. Events for any other session are stale and ignored. */
+  sessionId: string | null;
+  /** Shown to the person: why the session failed, or a notice such as falling back to writing. */
+  error: string | null;
+}
+
+export type SessionEvent =
+  | { type: 'start'; sessionId: string }
+  /** Reported by the connection manager as it opens, drops and reopens the socket. */
+  | { type: 'status'; sessionId: string; status: ConnectionStatus }
+  /** Something the person should know that doesn't end the session. */
+  | { type: 'notice'; sessionId: string; message: string }
+  | { type: 'fail'; sessionId: string; message: string }
+  | { type: 'stop'; sessionId: string };
+
+export const INITIAL_SESSION: SessionMachine = { state: 'disconnected', sessionId: null, error: null };
+
+export const isSessionActive = (state: SessionState) =>
+  state === 'connecting' || state === 'connected' || state === 'reconnecting';
+
+/** A new session may start only once the previous one has ended, however it ended. */
+export const canStartSession = (machine: SessionMachine) => !isSessionActive(machine.state);
+
+// Which connection statuses each running state may move to. Reconnecting is only
+// possible once a socket has opened; before that the manager retries as 'connecting'.
+const STATUS_TRANSITIONS: Record<'connecting' | 'connected' | 'reconnecting', ConnectionStatus[]> = {
+  connecting: ['connected'],
+  connected: ['reconnecting'],
+  reconnecting: ['connected'],
+};
+
+/**
+ * The session lifecycle as a pure reducer. Events that aren't allowed from the
+ * current state return it unchanged, so callers can tell a transition happened
+ * by identity: that is what keeps a second stop, or a late close after an
+ * error, from tearing anything down twice.
+ */
+export function sessionReducer(machine: SessionMachine, event: SessionEvent): SessionMachine {
+  if (event.type === 'start') {
+    return canStartSession(machine) ? { state: 'connecting', sessionId: event.sessionId, error: null } : machine;
+  }
+  if (event.sessionId !== machine.sessionId || !isSessionActive(machine.state)) return machine;
+
+  switch (event.type) {
+    case 'status': {
+      const from = machine.state as keyof typeof STATUS_TRANSITIONS;
+      if (!STATUS_TRANSITIONS[from].includes(event.status)) return machine;
+      // Getting back after a drop clears whatever the drop left on screen.
+      return { ...machine, state: event.status, error: from === 'reconnecting' ? null : machine.error };
+    }
+    case 'notice':
+      return machine.error === event.message ? machine : { ...machine, error: event.message };
+    case 'fail':
+      return { ...machine, state: 'error', error: event.message };
+    case 'stop':
+      return { ...machine, state: 'disconnected' };
+  }
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { createTimeStretcher } from './timeStretch';
+
+const SAMPLE_RATE = 24000;
+
+const tone = (hz: number, seconds: number) =>
+  Float32Array.from({ length: Math.round(seconds * SAMPLE_RATE) }, (_, i) => 0.5 * Math.sin((2 * Math.PI * hz * i) / SAMPLE_RATE));
+
+/** Estimates the frequency of a tone from the zero crossings in its middle half, away from the edges. */
+const frequency = (samples: Float32Array) => {
+  const from = Math.floor(samples.length / 4);
+  const to = Math.floor((samples.length * 3) / 4);
+  let crossings = 0;
+  for (let i = from + 1; i < to; i++) if ((samples[i - 1] < 0) !== (samples[i] < 0)) crossings++;
+  return crossings / 2 / ((to - from) / SAMPLE_RATE);
+};
+
+const stretch = (samples: Float32Array, rate: number, chunk = samples.length) => {
+  const stretcher = createTimeStretcher(rate, SAMPLE_RATE);
+  const parts: Float32Array[] = [];
+  for (let i = 0; i < samples.length; i += chunk) parts.push(stretcher.process(samples.subarray(i, i + chunk)));
+  parts.push(stretcher.flush());
+  return Float32Array.from(parts.flatMap(p => Array.from(p)));
+};
+
+describe('createTimeStretcher', () => {
+  it.each([0.75, 1.25, 1.5])('changes the duration at %s×', (rate) => {
+    const input = tone(220, 1);
+    expect(stretch(input, rate)).toHaveLength(Math.round(input.length / rate));
+  });
+
+  it.each([0.75, 1.5])('keeps the pitch at %s×', (rate) => {
+    expect(frequency(stretch(tone(220, 1), rate))).toBeCloseTo(220, -1);
+  });
+
+  it('leaves the level of a steady tone alone', () => {
+    const out = stretch(tone(220, 1), 1.5);
+    const middle = out.subarray(out.length / 4, (out.length * 3) / 4);
+    const rms = Math.sqrt(middle.reduce((sum, s) => sum + s * s, 0) / middle.length);
+    // A tone at 0.5 has an RMS of 0.5 / √2; badly aligned frames would partly cancel.
+    expect(rms).toBeCloseTo(0.5 / Math.SQRT2, 2);
+  });
+
+  it('gives the same output whatever size the chunks arrive in', () => {
+    const input = tone(180, 0.5);
+    expect(stretch(input, 1.25, 480)).toEqual(stretch(input, 1.25));
+  });
+
+  it('holds nothing back after a flush', () => {
+    const stretcher = createTimeStretcher(1.5, SAMPLE_RATE);
+    stretcher.process(tone(220, 0.2));
+    stretcher.flush();
+    expect(stretcher.flush()).toHaveLength(0);
+  });
+});
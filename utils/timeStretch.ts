@@ -0,0 +1,136 @@
+// Each output frame overlaps the previous one by half, with a Hann window so the two sum to one.
+const FRAME_MS = 30;
+// How far a frame may slide from where the rate puts it to line up with the waveform before it.
+const SEARCH_MS = 8;
+
+export interface TimeStretcher {
+  readonly rate: number;
+  readonly sampleRate: number;
+  /** Feeds samples and returns the output that is settled so far, which may be empty. */
+  process: (samples: Float32Array) => Float32Array;
+  /** Returns everything still held back and starts a fresh stream. */
+  flush: () => Float32Array;
+}
+
+const concat = (parts: Float32Array[]) => {
+  const out = new Float32Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+/**
+ * Changes the speed of mono audio without changing its pitch (WSOLA). Frames are
+ * read from the input at `rate` times the pace they are written out, each nudged
+ * to where it best continues the waveform of the frame before, and overlap-added.
+ * Input can arrive in chunks of any size; the output lags it by about one frame.
+ */
+export function createTimeStretcher(rate: number, sampleRate: number): TimeStretcher {
+  const size = 2 * Math.round((FRAME_MS / 1000) * sampleRate / 2);
+  const hop = size / 2;
+  const inputHop = hop * rate;
+  const search = Math.round((SEARCH_MS / 1000) * sampleRate);
+  const window = Float32Array.from({ length: size }, (_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / size));
+
+  // Input kept from absolute position `inputStart` on; earlier samples are no longer needed.
+  let input = new Float32Array(0);
+  let inputStart = 0;
+  let received = 0;
+  let frame = 0;
+  let previous = -1;
+  // Overlap-add accumulator, starting at the next output sample.
+  const pending = new Float32Array(size);
+  let emitted = 0;
+
+  const nominalStart = () => Math.round(frame * inputHop);
+
+  const ready = () => Math.max(nominalStart() + search, previous) + size <= inputStart + input.length;
+
+  // How well a frame starting at `start` continues the previous one, over the half they overlap.
+  const similarity = (start: number, target: number) => {
+    let dot = 0;
+    let energy = 0;
+    for (let i = 0; i < hop; i++) {
+      const s = input[start - inputStart + i];
+      dot += s * input[target - inputStart + i];
+      energy += s * s;
+    }
+    return energy > 0 ? dot / Math.sqrt(energy) : 0;
+  };
+
+  const bestStart = (nominal: number) => {
+    if (previous < 0) return nominal;
+    const target = previous + hop;
+    let best = nominal;
+    let bestScore = similarity(nominal, target);
+    for (let start = Math.max(0, nominal - search); start <= nominal + search; start++) {
+      const score = similarity(start, target);
+      if (score > bestScore) {
+        best = start;
+        bestScore = score;
+      }
+    }
+    return best;
+  };
+
+  const step = () => {
+    const start = bestStart(nominalStart());
+    const offset = start - inputStart;
+    // The first frame has nothing to overlap, so it starts at full level.
+    for (let i = 0; i < size; i++) pending[i] += input[offset + i] * (frame === 0 && i < hop ? 1 : window[i]);
+    const out = pending.slice(0, hop);
+    pending.copyWithin(0, hop);
+    pending.fill(0, hop);
+    previous = start;
+    frame++;
+    const keepFrom = Math.max(inputStart, Math.min(nominalStart() - search, previous + hop));
+    input = input.slice(keepFrom - inputStart);
+    inputStart = keepFrom;
+    return out;
+  };
+
+  const append = (samples: Float32Array) => {
+    input = concat([input, samples]);
+  };
+
+  const reset = () => {
+    input = new Float32Array(0);
+    inputStart = 0;
+    received = 0;
+    frame = 0;
+    previous = -1;
+    pending.fill(0);
+    emitted = 0;
+  };
+
+  return {
+    rate,
+    sampleRate,
+    process: (samples) => {
+      append(samples);
+      received += samples.length;
+      const out: Float32Array[] = [];
+      while (ready()) out.push(step());
+      const result = concat(out);
+      emitted += result.length;
+      return result;
+    },
+    flush: () => {
+      const target = Math.round(received / rate) - emitted;
+      const out: Float32Array[] = [];
+      let length = 0;
+      while (length < target) {
+        // Silence past the end lets the last frames be read in full.
+        while (!ready()) append(new Float32Array(size));
+        const next = step();
+        out.push(next);
+        length += next.length;
+      }
+      reset();
+      return concat(out).slice(0, Math.max(0, target));
+    },
+  };
+}
@@ -0,0 +1,291 @@
+import { FunctionCall, FunctionDeclaration, FunctionResponse, Type } from '@google/genai';
+import { MoodCheckIn, SessionMemory, ToolName, ToolPermission, ToolUse } from '../types';
+import { Exercise, EXERCISES } from '../data/exercises';
+import { describeExerciseGuidance, exerciseDurationMs } from './exercises';
+import { SUGGESTED_TAGS, tagLabel } from './insights';
+import { CheckInReminder, MAX_REMINDER_MINUTES } from './reminders';
+import { strings } from './i18n';
+import { en } from '../data/locales/en';
+
+/**
+ * What the app lends its tools. Tools never touch React state directly.
+ */
+export interface ToolHost {
+  logMood: (checkIn: MoodCheckIn) => void;
+  /** Returns false when an exercise is already running. */
+  startExercise: (exercise: Exercise) => boolean;
+  /** The memories the running session is allowed to see. */
+  memories: () => SessionMemory[];
+  scheduleReminder: (minutesFromNow: number, note: string) => CheckInReminder;
+}
+
+export interface ToolResult {
+  /** Sent back to the model. */
+  output: Record<string, unknown>;
+  /** Shown in the transcript. */
+  summary: string;
+}
+
+interface ToolDefinition<Args> {
+  name: ToolName;
+  /** Declared to the model. The label and description shown to the person live in the locale bundles. */
+  declaration: Omit<FunctionDeclaration, 'name'>;
+  /** Validates the model's arguments, throwing with a message the model can act on. */
+  parse: (args: Record<string, unknown>) => Args;
+  /** What the mirror is about to do, phrased for the confirmation prompt. */
+  describe: (args: Args) => string;
+  run: (args: Args, host: ToolHost) => ToolResult | Promise<ToolResult>;
+}
+
+export interface PreparedToolCall {
+  request: string;
+  run: (host: ToolHost) => Promise<ToolResult>;
+}
+
+export interface LocalTool {
+  name: ToolName;
+  readonly label: string;
+  /** Shown in settings, for the person. */
+  readonly description: string;
+  declaration: FunctionDeclaration;
+  prepare: (args: Record<string, unknown>) => PreparedToolCall;
+}
+
+/**
+ * Binds a tool's argument type to its parser so the registry can hold tools with different arguments.
+ */
+function defineTool<Args>(tool: ToolDefinition<Args>): LocalTool {
+  return {
+    name: tool.name,
+    // Read on each use so they follow the interface language.
+    get label() { return strings().tools[tool.name].label; },
+    get description() { return strings().tools[tool.name].description; },
+    declaration: { name: tool.name, ...tool.declaration },
+    prepare: (raw) => {
+      const args = tool.parse(raw);
+      return { request: tool.describe(args), run: async (host) => tool.run(args, host) };
+    },
+  };
+}
+
+const integerArg = (raw: Record<string, unknown>, key: string, min: number, max: number): number | undefined => {
+  const value = raw[key];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'number' || !Number.isFinite(value)) throw new Error(`${key} must be a number.`);
+  return Math.max(min, Math.min(max, Math.round(value)));
+};
+
+const stringArg = (raw: Record<string, unknown>, key: string): string | undefined => {
+  const value = raw[key];
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+};
+
+const formatDelay = (minutes: number) => {
+  const { delay } = strings().tools;
+  return minutes < 60 ? delay.minutes(minutes)
+    : minutes < 24 * 60 ? delay.hours(Math.round(minutes / 60))
+    : delay.days(Math.round(minutes / (24 * 60)));
+};
+
+const logMood = defineTool<MoodCheckIn>({
+  name: 'log_mood',
+  declaration: {
+    description: "Record how the person says they feel right now. Only call this after they've described their mood; never guess.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        mood: { type: Type.INTEGER, description: '1 (heavy) to 5 (bright).' },
+        energy: { type: Type.INTEGER, description: '1 (drained) to 5 (energized).' },
+        tags: { type: Type.ARRAY, items: { type: Type.STRING }, description: `Up to three short lowercase feelings in English, preferably from: ${SUGGESTED_TAGS.join(', ')}.` },
+      },
+      required: ['mood'],
+    },
+  },
+  parse: (raw) => {
+    const mood = integerArg(raw, 'mood', 1, 5);
+    if (mood === undefined) throw new Error('mood is required.');
+    const tags = Array.isArray(raw.tags)
+      ? raw.tags.filter((t): t is string => typeof t === 'string' && !!t.trim()).map(t => t.trim().toLowerCase()).slice(0, 3)
+      : [];
+    return { mood, energy: integerArg(raw, 'energy', 1, 5) ?? 3, tags, at: Date.now() };
+  },
+  describe: (c) => strings().tools.log_mood.request(strings().checkIn.moods[c.mood - 1], c.tags.map(tag => tagLabel(tag, strings().checkIn.tags))),
+  run: (checkIn, host) => {
+    host.logMood(checkIn);
+    const { checkIn: labels, tools } = strings();
+    const tags = checkIn.tags.map(tag => tagLabel(tag, labels.tags));
+    return {
+      output: { logged: true },
+      summary: tools.log_mood.done(labels.moods[checkIn.mood - 1], labels.energyLevels[checkIn.energy - 1], tags),
+    };
+  },
+});
+
+const startExercise = defineTool<Exercise>({
+  name: 'start_exercise',
+  declaration: {
+    description: 'Start a guided exercise on the person\'s screen, with timed cues you will be asked to speak. Offer it first and only call this once they agree.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        exerciseId: {
+          type: Type.STRING,
+          enum: EXERCISES.map(e => e.id),
+          description: EXERCISES.map(e => `${e.id}: ${en.exerciseContent[e.id].summary}`).join(' '),
+        },
+      },
+      required: ['exerciseId'],
+    },
+  },
+  parse: (raw) => {
+    const exercise = EXERCISES.find(e => e.id === raw.exerciseId);
+    if (!exercise) throw new Error(`Unknown exercise. Choose one of: ${EXERCISES.map(e => e.id).join(', ')}.`);
+    return exercise;
+  },
+  describe: (exercise) => strings().tools.start_exercise.request(strings().exerciseContent[exercise.id].title),
+  run: (exercise, host) => {
+    const { title } = strings().exerciseContent[exercise.id];
+    if (!host.startExercise(exercise)) {
+      return { output: { error: 'An exercise is already running.' }, summary: strings().tools.start_exercise.busy(title) };
+    }
+    return {
+      output: { started: title, durationSeconds: exerciseDurationMs(exercise) / 1000, guidance: describeExerciseGuidance(exercise) },
+      summary: strings().tools.start_exercise.done(title),
+    };
+  },
+});
+
+const findPastSession = defineTool<{ query?: string }>({
+  name: 'find_past_session',
+  declaration: {
+    description: 'Look up summaries of earlier conversations with this person, newest first. Use it when they refer to something from before.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        query: { type: Type.STRING, description: 'Words to look for, such as a theme or a name. Leave empty for the most recent sessions.' },
+      },
+    },
+  },
+  parse: (raw) => ({ query: stringArg(raw, 'query') }),
+  describe: ({ query }) => strings().tools.find_past_session.request(query),
+  run: ({ query }, host) => {
+    const terms = query?.toLowerCase().split(/\s+/).filter(Boolean) ?? [];
+    const matches = host.memories()
+      .filter(m => {
+        const text = [m.summary, ...m.themes, ...m.openThreads].join(' ').toLowerCase();
+        return terms.every(term => text.includes(term));
+      })
+      .sort((a, b) => b.createdAt - a.createdAt)
+      .slice(0, 3);
+    return {
+      output: {
+        sessions: matches.map(m => ({
+          date: new Date(m.createdAt).toLocaleDateString(undefined, { month: 'long', day: 'numeric', year: 'numeric' }),
+          summary: m.summary,
+          themes: m.themes,
+          openThreads: m.openThreads,
+        })),
+      },
+      summary: matches.length
+        ? strings().tools.find_past_session.done(matches.length, query)
+        : strings().tools.find_past_session.none(query),
+    };
+  },
+});
+
+const scheduleCheckIn = defineTool<{ minutes: number; note: string }>({
+  name: 'schedule_check_in',
+  declaration: {
+    description: 'Schedule a gentle reminder on this device for the person to check in later. Offer it first and only call this once they agree.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        minutesFromNow: { type: Type.INTEGER, description: `How long from now, in minutes (at most ${MAX_REMINDER_MINUTES}).` },
+        note: { type: Type.STRING, description: 'A short, warm line shown with the reminder, written to the person.' },
+      },
+      required: ['minutesFromNow'],
+    },
+  },
+  parse: (raw) => {
+    const minutes = integerArg(raw, 'minutesFromNow', 1, MAX_REMINDER_MINUTES);
+    if (minutes === undefined) throw new Error('minutesFromNow is required.');
+    return { minutes, note: stringArg(raw, 'note')?.slice(0, 200) ?? strings().tools.schedule_check_in.defaultNote };
+  },
+  describe: ({ minutes }) => strings().tools.schedule_check_in.request(formatDelay(minutes)),
+  run: ({ minutes, note }, host) => {
+    const reminder = host.scheduleReminder(minutes, note);
+    const when = new Date(reminder.dueAt).toLocaleString([], { weekday: 'short', hour: '2-digit', minute: '2-digit' });
+    return { output: { scheduledFor: when }, summary: strings().tools.schedule_check_in.done(when) };
+  },
+});
+
+export const TOOL_REGISTRY: LocalTool[] = [logMood, startExercise, findPastSession, scheduleCheckIn];
+
+export const DEFAULT_TOOL_PERMISSIONS: Record<ToolName, ToolPermission> = {
+  log_mood: 'ask',
+  start_exercise: 'ask',
+  find_past_session: 'ask',
+  schedule_check_in: 'ask',
+};
+
+/**
+ * Declarations for the session config. Tools set to `never` aren't offered at all.
+ */
+export function toolDeclarations(permissions: Record<ToolName, ToolPermission>): FunctionDeclaration[] {
+  return TOOL_REGISTRY.filter(tool => permissions[tool.name] !== 'never').map(tool => tool.declaration);
+}
+
+export interface ToolInvocation {
+  response: FunctionResponse;
+  /** Null for calls to tools we don't know, which are answered but not recorded. */
+  use: ToolUse | null;
+  summary: string;
+}
+
+export interface InvokeToolOptions {
+  permissions: Record<ToolName, ToolPermission>;
+  host: ToolHost;
+  /** Asks the person about an `ask` tool; `request` completes "The mirror would like to...". */
+  confirm: (tool: LocalTool, request: string) => Promise<boolean>;
+}
+
+/**
+ * Runs one function call from the model, honouring its permission, and never throws:
+ * every outcome becomes a response the model can read.
+ */
+export async function invokeTool(call: FunctionCall, { permissions, host, confirm }: InvokeToolOptions): Promise<ToolInvocation> {
+  const tool = TOOL_REGISTRY.find(t => t.name === call.name);
+  const respond = (response: Record<string, unknown>) => ({ id: call.id, name: call.name, response });
+  if (!tool) {
+    return { response: respond({ error: `There is no tool called ${call.name}.` }), use: null, summary: '' };
+  }
+  const failed = (message: string, summary: string): ToolInvocation =>
+    ({ response: respond({ error: message }), use: { name: tool.name, status: 'failed' }, summary });
+
+  if (permissions[tool.name] === 'never') {
+    return { response: respond({ error: 'The person has turned this tool off.' }), use: { name: tool.name, status: 'declined' }, summary: strings().tools.turnedOff(tool.label) };
+  }
+
+  let prepared: PreparedToolCall;
+  try {
+    prepared = tool.prepare(call.args ?? {});
+  } catch (err) {
+    return failed(err instanceof Error ? err.message : 'Invalid arguments.', strings().tools.failed(tool.label));
+  }
+
+  if (permissions[tool.name] === 'ask' && !(await confirm(tool, prepared.request))) {
+    return {
+      response: respond({ error: 'The person declined. Carry on without it, and don\'t ask again this session unless they bring it up.' }),
+      use: { name: tool.name, status: 'declined' },
+      summary: strings().tools.declined(prepared.request),
+    };
+  }
+
+  try {
+    const result = await prepared.run(host);
+    return { response: respond(result.output), use: { name: tool.name, status: 'error' in result.output ? 'failed' : 'done' }, summary: result.summary };
+  } catch (err) {
+    console.error(`Tool ${tool.name} failed`, err);
+    return failed('Something went wrong on the device.', strings().tools.failed(tool.label));
+  }
+}
@@ -0,0 +1,44 @@
+import {
+  LiveCallbacks, LiveConnectConfig, LiveSendClientContentParameters, LiveSendRealtimeInputParameters, LiveSendToolResponseParameters,
+} from '@google/genai';
+import { createGeminiTransport } from './geminiTransport';
+import { createMockTransport } from './mockTransport';
+
+/**
+ * The subset of a Live session the app talks to once connected.
+ */
+export interface LiveConnection {
+  sendRealtimeInput: (params: LiveSendRealtimeInputParameters) => void;
+  sendClientContent: (params: LiveSendClientContentParameters) => void;
+  sendToolResponse: (params: LiveSendToolResponseParameters) => void;
+  close: () => void;
+}
+
+export interface LiveConnectOptions {
+  model: string;
+  config: LiveConnectConfig;
+  callbacks: LiveCallbacks;
+}
+
+/**
+ * A way of opening Live sessions. The Gemini adapter talks to the real API;
+ * the mock adapter replays scripted server messages so the conversation flow
+ * can be exercised offline.
+ */
+export interface LiveTransport {
+  readonly name: string;
+  /** Whether the backend honours `sessionResumption` and `contextWindowCompression`. */
+  readonly supportsResumption?: boolean;
+  connect: (options: LiveConnectOptions) => Promise<LiveConnection>;
+}
+
+export type LiveTransportKind = 'gemini' | 'mock';
+
+/**
+ * Picks the transport named by `LIVE_TRANSPORT` (see `vite.config.ts`), defaulting to Gemini.
+ */
+export function createLiveTransport(
+  kind: LiveTransportKind = (process.env.LIVE_TRANSPORT as LiveTransportKind) || 'gemini',
+): LiveTransport {
+  return kind === 'mock' ? createMockTransport() : createGeminiTransport();
+}
@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest';
+import { createVoiceActivityDetector, frameLevelDb, VadOptions } from './vad';
+import { FRAME_MS, recording, SAMPLE_RATE, Segment } from './__fixtures__/pcm';
+
+/** Runs a recording through a fresh detector and lists the frames where activity started and ended. */
+const events = (segments: Segment[], options: Partial<VadOptions> = {}) => {
+  const vad = createVoiceActivityDetector(options);
+  return recording(segments).flatMap((pcm, frame) => {
+    const event = vad.process(pcm, SAMPLE_RATE);
+    return event ? [[event, frame] as const] : [];
+  });
+};
+
+// Segments are whole capture frames (64 ms), so expectations can be stated as frame indices.
+const silence = (frames: number): Segment => ({ kind: 'silence', ms: frames * FRAME_MS });
+const speech = (frames: number, db = -30): Segment => ({ kind: 'speech', ms: frames * FRAME_MS, db });
+const noise = (frames: number, db: number, toDb = db): Segment => ({ kind: 'noise', ms: frames * FRAME_MS, db, toDb });
+
+// The default 800 ms hangover runs out on the 13th quiet frame.
+const HANGOVER_FRAMES = 13;
+
+describe('frameLevelDb', () => {
+  it('floors digital silence and empty frames at -100', () => {
+    expect(frameLevelDb(new Int16Array(1024))).toBe(-100);
+    expect(frameLevelDb(new Int16Array(0))).toBe(-100);
+  });
+
+  it('measures the RMS level of a frame', () => {
+    const [loud, quiet] = recording([speech(1, -30), noise(1, -52)]);
+    expect(frameLevelDb(loud)).toBeCloseTo(-30, 1);
+    expect(frameLevelDb(quiet)).toBeCloseTo(-52, 1);
+  });
+});
+
+describe('createVoiceActivityDetector', () => {
+  describe('attack', () => {
+    it('starts on the second frame of speech', () => {
+      expect(events([silence(16), speech(8)])).toEqual([['start', 17]]);
+    });
+
+    it('ignores a click or cough that fills a single frame', () => {
+      expect(events([silence(16), speech(1, -20), silence(16)])).toEqual([]);
+    });
+
+    it('needs the attack time to be continuous', () => {
+      expect(events([silence(8), speech(1), silence(1), speech(1), silence(8)])).toEqual([]);
+    });
+
+    it('uses a longer configured attack', () => {
+      expect(events([silence(8), speech(8)], { attackMs: 250 })).toEqual([['start', 11]]);
+    });
+
+    it('ignores speech below the threshold', () => {
+      expect(events([silence(8), speech(16, -50)])).toEqual([]);
+      expect(events([silence(8), speech(16, -50)], { thresholdDb: -55 })).toEqual([['start', 9]]);
+    });
+  });
+
+  describe('hangover', () => {
+    it('keeps a pause between words inside one activity', () => {
+      expect(events([silence(8), speech(10), silence(6), speech(10), silence(24)])).toEqual([
+        ['start', 9],
+        ['end', 34 + HANGOVER_FRAMES - 1],
+      ]);
+    });
+
+    it('splits speech separated by more than the hangover', () => {
+      expect(events([silence(8), speech(10), silence(16), speech(10), silence(16)])).toEqual([
+        ['start', 9],
+        ['end', 18 + HANGOVER_FRAMES - 1],
+        ['start', 35],
+        ['end', 44 + HANGOVER_FRAMES - 1],
+      ]);
+    });
+
+    it('uses the configured hangover', () => {
+      // 300 ms runs out on the 5th quiet frame.
+      expect(events([silence(8), speech(10), silence(16)], { hangoverMs: 300 })).toEqual([
+        ['start', 9],
+        ['end', 18 + 5 - 1],
+      ]);
+    });
+  });
+
+  describe('noise floor', () => {
+    // A fan spinning up: loud enough to pass a sensitive threshold, but it arrives slowly.
+    const fan: Segment[] = [noise(16, -80), noise(48, -80, -50), noise(16, -50)];
+
+    it('does not mistake steadily rising room noise for speech', () => {
+      expect(events(fan, { thresholdDb: -60 })).toEqual([]);
+    });
+
+    it('needs speech to stand clear of the noise it has learned', () => {
+      expect(events([...fan, speech(10, -45)], { thresholdDb: -60 })).toEqual([]);
+      expect(events([...fan, speech(10, -30)], { thresholdDb: -60 })).toEqual([['start', 81]]);
+    });
+
+    it('follows the room straight back down when the noise stops', () => {
+      expect(events([...fan, noise(2, -80), speech(10, -45)], { thresholdDb: -60 })).toEqual([['start', 83]]);
+    });
+
+    it('learns noise that is already there when the microphone opens', () => {
+      // Loud enough to pass the threshold from the first frame, like a fan left running.
+      expect(events([noise(32, -40)])).toEqual([]);
+      expect(events([noise(32, -40), speech(10, -20), noise(32, -40)])).toEqual([
+        ['start', 33],
+        ['end', 42 + HANGOVER_FRAMES - 1],
+      ]);
+    });
+
+    it('keeps a long stretch of speech open', () => {
+      // About five seconds without a breath; the floor creeps up during it but stays well below.
+      expect(events([silence(8), speech(80), silence(16)])).toEqual([
+        ['start', 9],
+        ['end', 88 + HANGOVER_FRAMES - 1],
+      ]);
+    });
+
+    it('ends an activity when noise starts during it and never lets up', () => {
+      const result = events([silence(8), speech(10), noise(400, -40)]);
+      expect(result).toHaveLength(2);
+      expect(result[0]).toEqual(['start', 9]);
+      const [event, frame] = result[1];
+      expect(event).toBe('end');
+      // Within about 15 seconds of the noise starting.
+      expect(frame).toBeLessThan(18 + Math.ceil(15000 / FRAME_MS));
+    });
+  });
+
+  it('forgets an open activity on reset', () => {
+    const vad = createVoiceActivityDetector();
+    const frames = recording([silence(4), speech(4)]);
+    frames.forEach(pcm => vad.process(pcm, SAMPLE_RATE));
+    expect(vad.speaking).toBe(true);
+
+    vad.reset();
+    expect(vad.speaking).toBe(false);
+    expect(vad.process(frames[4], SAMPLE_RATE)).toBeNull();
+  });
+});
@@ -0,0 +1,111 @@
+export interface VadOptions {
+  /** Level in dBFS a frame has to reach to count as speech. */
+  thresholdDb: number;
+  /** How long the level has to stay above the threshold before activity starts. */
+  attackMs: number;
+  /** How long activity stays open after the level drops, so pauses between words don't end the turn. */
+  hangoverMs: number;
+}
+
+export const DEFAULT_VAD_OPTIONS: VadOptions = {
+  thresholdDb: -45,
+  attackMs: 120,
+  hangoverMs: 800,
+};
+
+// Speech also has to stand this far above the room's background noise.
+const NOISE_MARGIN_DB = 10;
+// The first audio only measures the room, so a fan already running when the mic opens isn't taken for speech.
+const CALIBRATION_MS = 250;
+// Whatever the attack time, one capture frame of noise (a click, a cough) never starts activity.
+const MIN_ATTACK_FRAMES = 2;
+// Time constants for the floor following a louder room: quick between activities,
+// slow during one so that noise which never lets up still ends it.
+const IDLE_FLOOR_MS = 400;
+const ACTIVE_FLOOR_MS = 6000;
+const SILENCE_DB = -100;
+
+export type VadEvent = 'start' | 'end' | null;
+
+export interface VoiceActivityDetector {
+  readonly speaking: boolean;
+  /** Feeds one frame and reports whether activity started or ended on it. */
+  process: (pcm: Int16Array, sampleRate: number) => VadEvent;
+  reset: () => void;
+}
+
+/**
+ * RMS level of a frame in dBFS, floored at -100 for digital silence.
+ */
+export function frameLevelDb(pcm: Int16Array): number {
+  if (pcm.length === 0) return SILENCE_DB;
+  let sum = 0;
+  for (let i = 0; i < pcm.length; i++) {
+    const s = pcm[i] / 32768;
+    sum += s * s;
+  }
+  const rms = Math.sqrt(sum / pcm.length);
+  return rms > 0 ? Math.max(SILENCE_DB, 20 * Math.log10(rms)) : SILENCE_DB;
+}
+
+/**
+ * Energy-based voice activity detector. It has no audio dependencies, so it can
+ * be driven frame by frame from recorded PCM as easily as from the microphone.
+ */
+export function createVoiceActivityDetector(options: Partial<VadOptions> = {}): VoiceActivityDetector {
+  const { thresholdDb, attackMs, hangoverMs } = { ...DEFAULT_VAD_OPTIONS, ...options };
+  let speaking = false;
+  let aboveMs = 0;
+  let aboveFrames = 0;
+  let belowMs = 0;
+  let calibratedMs = 0;
+  let noiseFloor = SILENCE_DB;
+
+  // Follow the background level down at once and up gradually.
+  const followFloor = (level: number, frameMs: number, timeConstantMs: number) => {
+    noiseFloor = level < noiseFloor ? level : noiseFloor + (level - noiseFloor) * (1 - Math.exp(-frameMs / timeConstantMs));
+  };
+
+  return {
+    get speaking() { return speaking; },
+    process: (pcm, sampleRate) => {
+      const level = frameLevelDb(pcm);
+      const frameMs = (pcm.length / sampleRate) * 1000;
+      if (calibratedMs < CALIBRATION_MS) {
+        // The quietest frame of the window is the room.
+        noiseFloor = calibratedMs === 0 ? level : Math.min(noiseFloor, level);
+        calibratedMs += frameMs;
+        return null;
+      }
+      const isSpeech = level >= Math.max(thresholdDb, noiseFloor + NOISE_MARGIN_DB);
+
+      if (!speaking) {
+        followFloor(level, frameMs, IDLE_FLOOR_MS);
+        aboveMs = isSpeech ? aboveMs + frameMs : 0;
+        aboveFrames = isSpeech ? aboveFrames + 1 : 0;
+        if (aboveMs >= attackMs && aboveFrames >= MIN_ATTACK_FRAMES) {
+          speaking = true;
+          belowMs = 0;
+          return 'start';
+        }
+        return null;
+      }
+
+      followFloor(level, frameMs, ACTIVE_FLOOR_MS);
+      belowMs = isSpeech ? 0 : belowMs + frameMs;
+      if (belowMs >= hangoverMs) {
+        speaking = false;
+        aboveMs = 0;
+        aboveFrames = 0;
+        return 'end';
+      }
+      return null;
+    },
+    reset: () => {
+      speaking = false;
+      aboveMs = 0;
+      aboveFrames = 0;
+      belowMs = 0;
+    },
+  };
+}
@@ -0,0 +1,399 @@
+import { decodeBase64, encodeBase64 } from './audio';
+import { strings } from './i18n';
+
+const VAULT_META_KEY = 'egomirror_vault_v1';
+const STORAGE_PREFIX = 'egomirror_';
+const PBKDF2_ITERATIONS = 600000;
+
+export const AUTO_LOCK_CHOICES = [0, 1, 5, 15, 30];
+
+export type VaultStatus = 'off' | 'locked' | 'unlocked';
+
+interface WrappedKey {
+  id: string;
+  iv: string;
+  key: string;
+}
+
+interface VaultMeta {
+  version: 1;
+  salt: string;
+  iterations: number;
+  /** Data keys wrapped with the passphrase key, newest first. Older keys stay until nothing is sealed with them. */
+  keys: WrappedKey[];
+  /** Set while stored data is being moved to the newest key, or out of the vault. */
+  resealing?: 'rotate' | 'disable';
+  /** 0 turns auto-lock off. */
+  autoLockMinutes: number;
+}
+
+/** An encrypted value as kept in IndexedDB. */
+export interface SealedBytes {
+  sealed: 1;
+  kid: string;
+  iv: Uint8Array;
+  data: ArrayBuffer;
+}
+
+/** Encrypts with the data key that was current when it was obtained. */
+export interface Sealer {
+  bytes: (data: ArrayBuffer | Uint8Array) => Promise<SealedBytes>;
+  json: (value: unknown) => Promise<SealedBytes>;
+}
+
+/** A store outside localStorage that keeps sealed data, such as the journal. */
+export interface SealedStore {
+  /** Rewrites everything not yet sealed with the current key (or, while disabling, everything still sealed). */
+  reseal: () => Promise<void>;
+  wipe: () => Promise<void>;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+let meta: VaultMeta | null = readMeta();
+let dataKeys: Map<string, CryptoKey> | null = null;
+let cache: Map<string, string> | null = null;
+let lastActivity = Date.now();
+let writeChain: Promise<void> = Promise.resolve();
+const listeners = new Set<(status: VaultStatus) => void>();
+const sealedStores: SealedStore[] = [];
+
+function readMeta(): VaultMeta | null {
+  try {
+    const saved = localStorage.getItem(VAULT_META_KEY);
+    return saved ? JSON.parse(saved) : null;
+  } catch {
+    return null;
+  }
+}
+
+function writeMeta() {
+  if (meta) localStorage.setItem(VAULT_META_KEY, JSON.stringify(meta));
+  else localStorage.removeItem(VAULT_META_KEY);
+}
+
+function notify() {
+  const status = getVaultStatus();
+  listeners.forEach(listener => listener(status));
+}
+
+const lockedError = () => new Error(strings().vault.locked);
+
+const randomBytes = (length: number) => crypto.getRandomValues(new Uint8Array(length));
+
+async function deriveWrappingKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['wrapKey', 'unwrapKey'],
+  );
+}
+
+async function wrapDataKey(id: string, key: CryptoKey, wrappingKey: CryptoKey): Promise<WrappedKey> {
+  const iv = randomBytes(12);
+  const wrapped = await crypto.subtle.wrapKey('raw', key, wrappingKey, { name: 'AES-GCM', iv });
+  return { id, iv: encodeBase64(iv), key: encodeBase64(new Uint8Array(wrapped)) };
+}
+
+/**
+ * Unwraps every data key. AES-GCM authenticates the wrap, so a wrong passphrase fails here.
+ */
+async function unwrapDataKeys(wrapped: WrappedKey[], wrappingKey: CryptoKey): Promise<Map<string, CryptoKey>> {
+  const keys = new Map<string, CryptoKey>();
+  for (const entry of wrapped) {
+    // Extractable so a passphrase change can wrap the same keys again.
+    const key = await crypto.subtle.unwrapKey(
+      'raw', decodeBase64(entry.key), wrappingKey, { name: 'AES-GCM', iv: decodeBase64(entry.iv) },
+      { name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt'],
+    );
+    keys.set(entry.id, key);
+  }
+  return keys;
+}
+
+const generateDataKey = () =>
+  crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']) as Promise<CryptoKey>;
+
+async function unlockKeys(passphrase: string, vault: VaultMeta): Promise<Map<string, CryptoKey>> {
+  const wrappingKey = await deriveWrappingKey(passphrase, decodeBase64(vault.salt), vault.iterations);
+  try {
+    return await unwrapDataKeys(vault.keys, wrappingKey);
+  } catch {
+    throw new Error(strings().vault.wrongPassphrase);
+  }
+}
+
+function createSealer(kid: string, key: CryptoKey): Sealer {
+  const bytes = async (data: ArrayBuffer | Uint8Array): Promise<SealedBytes> => {
+    const iv = randomBytes(12);
+    const sealed = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, data);
+    return { sealed: 1, kid, iv, data: sealed };
+  };
+  return { bytes, json: (value) => bytes(encoder.encode(JSON.stringify(value))) };
+}
+
+export function isSealed(value: unknown): value is SealedBytes {
+  return !!value && typeof value === 'object' && (value as SealedBytes).sealed === 1 && typeof (value as SealedBytes).kid === 'string';
+}
+
+export function getVaultStatus(): VaultStatus {
+  if (!meta) return 'off';
+  return dataKeys ? 'unlocked' : 'locked';
+}
+
+export function onVaultChange(listener: (status: VaultStatus) => void): () => void {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+export function registerSealedStore(store: SealedStore): void {
+  sealedStores.push(store);
+}
+
+/**
+ * Returns a sealer bound to the current data key, or null when data should be
+ * stored in the clear. Take it synchronously before any await, so a write that
+ * started just before the vault locked can still finish.
+ */
+export function getSealer(): Sealer | null {
+  if (!meta || meta.resealing === 'disable') return null;
+  if (!dataKeys) throw lockedError();
+  const kid = meta.keys[0].id;
+  return createSealer(kid, dataKeys.get(kid)!);
+}
+
+export async function openBytes(sealed: SealedBytes): Promise<ArrayBuffer> {
+  if (!dataKeys) throw lockedError();
+  const key = dataKeys.get(sealed.kid);
+  if (!key) throw new Error(strings().vault.unknownKey);
+  return crypto.subtle.decrypt({ name: 'AES-GCM', iv: sealed.iv }, key, sealed.data);
+}
+
+export async function openJson<T>(sealed: SealedBytes): Promise<T> {
+  return JSON.parse(decoder.decode(await openBytes(sealed)));
+}
+
+/**
+ * Whether a stored value has to be rewritten to match the vault's current key.
+ */
+export function needsReseal(stored: unknown): boolean {
+  if (!meta || meta.resealing === 'disable') return isSealed(stored);
+  return !isSealed(stored) || stored.kid !== meta.keys[0].id;
+}
+
+const appStorageKeys = () =>
+  Object.keys(localStorage).filter(key => key.startsWith(STORAGE_PREFIX) && key !== VAULT_META_KEY);
+
+interface SealedText {
+  sealed: 1;
+  kid: string;
+  iv: string;
+  data: string;
+}
+
+async function sealText(sealer: Sealer, value: string): Promise<string> {
+  const { kid, iv, data } = await sealer.bytes(encoder.encode(value));
+  const text: SealedText = { sealed: 1, kid, iv: encodeBase64(iv), data: encodeBase64(new Uint8Array(data)) };
+  return JSON.stringify(text);
+}
+
+async function openText(stored: string): Promise<string> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(stored);
+  } catch {
+    return stored;
+  }
+  if (!isSealed(parsed)) return stored;
+  const text = parsed as unknown as SealedText;
+  const data = decodeBase64(text.data);
+  return decoder.decode(await openBytes({ sealed: 1, kid: text.kid, iv: decodeBase64(text.iv), data: data.buffer as ArrayBuffer }));
+}
+
+/**
+ * localStorage for the app's own keys. With the vault on, values are read from
+ * a cache decrypted at unlock and written back encrypted in the background.
+ */
+export const vaultStorage = {
+  getItem(key: string): string | null {
+    if (!meta) return localStorage.getItem(key);
+    if (!cache) throw lockedError();
+    return cache.get(key) ?? null;
+  },
+  setItem(key: string, value: string): void {
+    if (!meta) {
+      localStorage.setItem(key, value);
+      return;
+    }
+    if (!cache) throw lockedError();
+    cache.set(key, value);
+    const sealer = getSealer();
+    if (!sealer) {
+      localStorage.setItem(key, value);
+      return;
+    }
+    // Chained so that a quick run of writes to the same key lands in order.
+    writeChain = writeChain
+      .then(() => sealText(sealer, value))
+      .then(sealed => localStorage.setItem(key, sealed))
+      .catch(err => console.error('Failed to write to the vault', err));
+  },
+  removeItem(key: string): void {
+    if (!meta) {
+      localStorage.removeItem(key);
+      return;
+    }
+    if (!cache) throw lockedError();
+    cache.delete(key);
+    writeChain = writeChain.then(() => localStorage.removeItem(key));
+  },
+};
+
+async function loadCache(): Promise<Map<string, string>> {
+  const entries = new Map<string, string>();
+  for (const key of appStorageKeys()) {
+    const stored = localStorage.getItem(key);
+    if (stored !== null) entries.set(key, await openText(stored));
+  }
+  return entries;
+}
+
+/**
+ * Brings localStorage and every registered store in line with the current key,
+ * then forgets keys that are no longer needed. Safe to run again if interrupted.
+ */
+async function finishReseal() {
+  if (!meta || !cache) return;
+  await writeChain;
+  const sealer = getSealer();
+  for (const [key, value] of cache) {
+    localStorage.setItem(key, sealer ? await sealText(sealer, value) : value);
+  }
+  for (const store of sealedStores) await store.reseal();
+
+  if (meta.resealing === 'disable') {
+    meta = null;
+    dataKeys = null;
+    cache = null;
+  } else {
+    const current = meta.keys[0];
+    meta = { ...meta, keys: [current] };
+    delete meta.resealing;
+    dataKeys = new Map([[current.id, dataKeys!.get(current.id)!]]);
+  }
+  writeMeta();
+  notify();
+}
+
+export async function unlockVault(passphrase: string): Promise<void> {
+  if (!meta) return;
+  dataKeys = await unlockKeys(passphrase, meta);
+  cache = await loadCache();
+  lastActivity = Date.now();
+  notify();
+  if (meta.resealing) await finishReseal();
+}
+
+/**
+ * Forgets the keys and the decrypted cache. Writes already under way still complete.
+ */
+export function lockVault(): void {
+  if (!meta || !dataKeys) return;
+  dataKeys = null;
+  cache = null;
+  notify();
+}
+
+/**
+ * Turns the vault on and encrypts everything already stored.
+ */
+export async function enableVault(passphrase: string, autoLockMinutes = 5): Promise<void> {
+  if (meta) throw new Error(strings().vault.alreadyOn);
+  const salt = randomBytes(16);
+  const wrappingKey = await deriveWrappingKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const id = crypto.randomUUID();
+  const key = await generateDataKey();
+  cache = await loadCache();
+  dataKeys = new Map([[id, key]]);
+  meta = {
+    version: 1,
+    salt: encodeBase64(salt),
+    iterations: PBKDF2_ITERATIONS,
+    keys: [await wrapDataKey(id, key, wrappingKey)],
+    resealing: 'rotate',
+    autoLockMinutes,
+  };
+  writeMeta();
+  lastActivity = Date.now();
+  notify();
+  await finishReseal();
+}
+
+/**
+ * Changes the passphrase and re-encrypts all stored data under a fresh key.
+ */
+export async function changePassphrase(current: string, next: string): Promise<void> {
+  if (!meta || !dataKeys) throw lockedError();
+  await unlockKeys(current, meta);
+  const salt = randomBytes(16);
+  const wrappingKey = await deriveWrappingKey(next, salt, PBKDF2_ITERATIONS);
+  const id = crypto.randomUUID();
+  const key = await generateDataKey();
+  const keys: WrappedKey[] = [await wrapDataKey(id, key, wrappingKey)];
+  for (const [oldId, oldKey] of dataKeys) keys.push(await wrapDataKey(oldId, oldKey, wrappingKey));
+
+  dataKeys.set(id, key);
+  meta = { ...meta, salt: encodeBase64(salt), iterations: PBKDF2_ITERATIONS, keys, resealing: 'rotate' };
+  writeMeta();
+  await finishReseal();
+}
+
+/**
+ * Decrypts everything back into plain storage and turns the vault off.
+ */
+export async function disableVault(passphrase: string): Promise<void> {
+  if (!meta || !dataKeys) throw lockedError();
+  await unlockKeys(passphrase, meta);
+  meta = { ...meta, resealing: 'disable' };
+  writeMeta();
+  await finishReseal();
+}
+
+export function setAutoLockMinutes(minutes: number): void {
+  if (!meta) return;
+  meta = { ...meta, autoLockMinutes: minutes };
+  writeMeta();
+  notify();
+}
+
+export function getAutoLockMinutes(): number {
+  return meta?.autoLockMinutes ?? 0;
+}
+
+export function noteVaultActivity(): void {
+  lastActivity = Date.now();
+}
+
+export function isAutoLockDue(now: number = Date.now()): boolean {
+  if (!meta || !dataKeys || meta.autoLockMinutes <= 0) return false;
+  return now - lastActivity >= meta.autoLockMinutes * 60000;
+}
+
+/**
+ * Panic button: deletes every transcript, persona, check-in, recording and the
+ * vault itself from this device. Works whether or not the vault is unlocked.
+ */
+export async function wipeEverything(): Promise<void> {
+  dataKeys = null;
+  cache = null;
+  await writeChain;
+  for (const store of sealedStores) await store.wipe();
+  appStorageKeys().forEach(key => localStorage.removeItem(key));
+  meta = null;
+  writeMeta();
+  notify();
+}
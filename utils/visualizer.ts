@@ -0,0 +1,169 @@
+import { PersonaConfig, VisualizerMode, VisualizerThemeId } from '../types';
+
+export interface StreamFrame {
+  /** Smoothed loudness, 0 to 1. */
+  level: number;
+  frequencies: Uint8Array;
+  /** Time-domain samples centred on 128. */
+  waveform: Uint8Array;
+}
+
+export interface VisualizerTheme {
+  user: string;
+  model: string;
+}
+
+export interface RenderFrame {
+  ctx: CanvasRenderingContext2D;
+  /** Canvas size in CSS pixels; the context is already scaled for the device pixel ratio. */
+  size: number;
+  user: StreamFrame | null;
+  model: StreamFrame | null;
+  active: boolean;
+  theme: VisualizerTheme;
+  reducedMotion: boolean;
+  /** Milliseconds since the visualizer mounted. */
+  time: number;
+  /** Lung fullness (0 to 1) paced by a guided exercise; the orb follows it instead of its own breath. */
+  guide: number | null;
+}
+
+export type VisualizerRenderer = (frame: RenderFrame) => void;
+
+export const VISUALIZER_MODES: VisualizerMode[] = ['rays', 'waveform', 'orb'];
+
+export const VISUALIZER_THEMES: { id: VisualizerThemeId; colors: VisualizerTheme | null }[] = [
+  { id: 'aura', colors: null },
+  { id: 'dusk', colors: { user: '#fda4af', model: '#a78bfa' } },
+  { id: 'forest', colors: { user: '#bef264', model: '#34d399' } },
+  { id: 'ocean', colors: { user: '#a5f3fc', model: '#3b82f6' } },
+  { id: 'ember', colors: { user: '#fde68a', model: '#f97316' } },
+  { id: 'moon', colors: { user: '#e2e8f0', model: '#94a3b8' } },
+];
+
+// Radii (in CSS pixels at the default 350px size) of the user's inner ring and the mirror's outer ring.
+const INNER_RADIUS = 50;
+const OUTER_RADIUS = 95;
+
+/**
+ * Blends two #rrggbb colours; `t` of 0 gives `a`, 1 gives `b`.
+ */
+export function mixHex(a: string, b: string, t: number): string {
+  const channel = (hex: string, i: number) => parseInt(hex.slice(1 + i * 2, 3 + i * 2), 16);
+  return '#' + [0, 1, 2]
+    .map(i => Math.round(channel(a, i) + (channel(b, i) - channel(a, i)) * t).toString(16).padStart(2, '0'))
+    .join('');
+}
+
+const withAlpha = (hex: string, alpha: number) =>
+  hex + Math.round(Math.max(0, Math.min(1, alpha)) * 255).toString(16).padStart(2, '0');
+
+/**
+ * Colours for a persona. The "aura" theme follows the persona's avatar colour.
+ */
+export function resolveVisualizerTheme(persona: Pick<PersonaConfig, 'avatarColor' | 'visualTheme'>): VisualizerTheme {
+  const preset = VISUALIZER_THEMES.find(t => t.id === persona.visualTheme)?.colors;
+  return preset ?? { user: mixHex(persona.avatarColor, '#ffffff', 0.55), model: persona.avatarColor };
+}
+
+const ring = (ctx: CanvasRenderingContext2D, c: number, radius: number, color: string, width = 1.5) => {
+  ctx.beginPath();
+  ctx.arc(c, c, Math.max(0, radius), 0, Math.PI * 2);
+  ctx.strokeStyle = color;
+  ctx.lineWidth = width;
+  ctx.stroke();
+};
+
+const renderRays: VisualizerRenderer = ({ ctx, size, user, model, active, theme, reducedMotion }) => {
+  const c = size / 2;
+  const scale = size / 350;
+  const drawRays = (stream: StreamFrame | null, radius: number, maxLength: number, count: number, color: string) => {
+    const bins = stream ? stream.frequencies.length / 2 : 0;
+    for (let i = 0; i < count; i++) {
+      const value = stream ? stream.frequencies[Math.floor((i / count) * bins)] / 255 : 0;
+      // With reduced motion the rays keep a fixed length and only brighten.
+      const length = reducedMotion ? maxLength * 0.2 : 2 + (active ? value * maxLength : 0);
+      const angle = (i / count) * Math.PI * 2;
+      ctx.beginPath();
+      ctx.moveTo(c + Math.cos(angle) * radius, c + Math.sin(angle) * radius);
+      ctx.lineTo(c + Math.cos(angle) * (radius + length), c + Math.sin(angle) * (radius + length));
+      ctx.strokeStyle = withAlpha(color, active ? (reducedMotion ? 0.3 + value * 0.6 : 0.8) : 0.25);
+      ctx.lineWidth = 2;
+      ctx.lineCap = 'round';
+      ctx.stroke();
+    }
+  };
+
+  const outer = OUTER_RADIUS * scale + (reducedMotion ? 0 : (model?.level ?? 0) * 20 * scale);
+  ring(ctx, c, outer + 10 * scale, withAlpha(theme.model, 0.07), 2);
+  drawRays(model, outer, 55 * scale, 72, theme.model);
+  drawRays(user, INNER_RADIUS * scale, 30 * scale, 48, theme.user);
+
+  ctx.beginPath();
+  ctx.arc(c, c, INNER_RADIUS * scale - 8 * scale, 0, Math.PI * 2);
+  ctx.fillStyle = active ? withAlpha(theme.user, 0.07) : 'transparent';
+  ctx.fill();
+};
+
+const renderWaveform: VisualizerRenderer = ({ ctx, size, user, model, active, theme, reducedMotion }) => {
+  const c = size / 2;
+  const scale = size / 350;
+  const drawLoop = (stream: StreamFrame | null, radius: number, amplitude: number, color: string) => {
+    const samples = stream?.waveform;
+    const points = 128;
+    ctx.beginPath();
+    for (let i = 0; i <= points; i++) {
+      const sample = samples && active && !reducedMotion
+        ? (samples[Math.floor((i % points) / points * samples.length)] - 128) / 128
+        : 0;
+      const r = radius + sample * amplitude;
+      const angle = (i / points) * Math.PI * 2;
+      const x = c + Math.cos(angle) * r;
+      const y = c + Math.sin(angle) * r;
+      if (i === 0) ctx.moveTo(x, y);
+      else ctx.lineTo(x, y);
+    }
+    ctx.closePath();
+    ctx.strokeStyle = withAlpha(color, active ? 0.35 + (stream?.level ?? 0) * 0.6 : 0.25);
+    ctx.lineWidth = 2;
+    ctx.stroke();
+  };
+
+  drawLoop(model, OUTER_RADIUS * scale, 45 * scale, theme.model);
+  drawLoop(user, INNER_RADIUS * scale, 25 * scale, theme.user);
+};
+
+const renderOrb: VisualizerRenderer = ({ ctx, size, user, model, active, theme, reducedMotion, time, guide }) => {
+  const c = size / 2;
+  const scale = size / 350;
+  // A slow six-second breath that carries on under the voices. A guided breath is the
+  // point of the exercise, so it moves even with reduced motion, and three times as far.
+  const breath = guide ?? (reducedMotion ? 0 : Math.sin((time / 6000) * Math.PI * 2) * 0.5 + 0.5);
+  const swell = guide === null ? 1 : 3;
+  const modelLevel = active ? model?.level ?? 0 : 0;
+  const userLevel = active ? user?.level ?? 0 : 0;
+
+  const halo = (OUTER_RADIUS + 10 * swell * breath + (reducedMotion ? 0 : modelLevel * 25)) * scale;
+  const outerGradient = ctx.createRadialGradient(c, c, halo * 0.3, c, c, halo);
+  outerGradient.addColorStop(0, withAlpha(theme.model, 0.25 + modelLevel * 0.4));
+  outerGradient.addColorStop(1, withAlpha(theme.model, 0));
+  ctx.fillStyle = outerGradient;
+  ctx.beginPath();
+  ctx.arc(c, c, halo, 0, Math.PI * 2);
+  ctx.fill();
+
+  const core = (INNER_RADIUS * 0.8 + 6 * swell * breath + (reducedMotion ? 0 : userLevel * 20)) * scale;
+  const innerGradient = ctx.createRadialGradient(c, c, 0, c, c, core);
+  innerGradient.addColorStop(0, withAlpha(theme.user, 0.5 + userLevel * 0.4));
+  innerGradient.addColorStop(1, withAlpha(theme.user, 0.05));
+  ctx.fillStyle = innerGradient;
+  ctx.beginPath();
+  ctx.arc(c, c, core, 0, Math.PI * 2);
+  ctx.fill();
+};
+
+export const VISUALIZER_RENDERERS: Record<VisualizerMode, VisualizerRenderer> = {
+  rays: renderRays,
+  waveform: renderWaveform,
+  orb: renderOrb,
+};
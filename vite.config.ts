@@ -4,6 +4,8 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // With a proxy configured the key stays on the server and is never inlined into the bundle.
+    const apiKey = env.GEMINI_PROXY_URL ? '' : env.GEMINI_API_KEY;
     return {
       server: {
         port: 3000,
@@ -11,8 +13,12 @@ export default defineConfig(({ mode }) => {
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': JSON.stringify(apiKey),
+        'process.env.GEMINI_API_KEY': JSON.stringify(apiKey),
+        'process.env.GEMINI_PROXY_URL': JSON.stringify(env.GEMINI_PROXY_URL || ''),
+        'process.env.LIVE_TRANSPORT': JSON.stringify(env.LIVE_TRANSPORT || 'gemini'),
+        // The dev server's modules change on every save; only built output is worth caching.
+        'process.env.SERVICE_WORKER': JSON.stringify(mode === 'production' ? 'on' : 'off')
       },
       resolve: {
         alias: {